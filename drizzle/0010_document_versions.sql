@@ -0,0 +1,24 @@
+-- Version history: snapshots of a document (auto on save, before AI apply, named checkpoints, restores).
+-- Run with: psql $DATABASE_URL -f drizzle/0010_document_versions.sql
+
+CREATE TABLE IF NOT EXISTS "document_versions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" text NOT NULL,
+  "document_id" uuid NOT NULL REFERENCES "documents"("id") ON DELETE CASCADE,
+  "kind" text NOT NULL,
+  "label" text,
+  "nodes" jsonb DEFAULT '[]'::jsonb,
+  "edges" jsonb DEFAULT '[]'::jsonb,
+  "saved_layout" jsonb,
+  "node_notes" jsonb DEFAULT '{}'::jsonb,
+  "node_tasks" jsonb DEFAULT '{}'::jsonb,
+  "node_attachments" jsonb DEFAULT '{}'::jsonb,
+  "excalidraw_data" jsonb,
+  "drawio_data" text,
+  "node_count" integer,
+  "edge_count" integer,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "document_versions_document_created_idx"
+  ON "document_versions" ("document_id", "created_at" DESC);
@@ -0,0 +1,15 @@
+-- Share links: tokenized access to a document with a role (viewer | commenter | editor), optional expiry.
+-- Run with: psql $DATABASE_URL -f drizzle/0011_document_shares.sql
+
+CREATE TABLE IF NOT EXISTS "document_shares" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" uuid NOT NULL REFERENCES "documents"("id") ON DELETE CASCADE,
+  "created_by" text NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "role" text NOT NULL,
+  "expires_at" timestamp,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "document_shares_document_idx" ON "document_shares" ("document_id");
@@ -0,0 +1,29 @@
+-- Comment threads anchored to a node, an edge or a canvas point, and their comments.
+-- Run with: psql $DATABASE_URL -f drizzle/0012_document_comments.sql
+
+CREATE TABLE IF NOT EXISTS "document_comment_threads" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" uuid NOT NULL REFERENCES "documents"("id") ON DELETE CASCADE,
+  "created_by" text NOT NULL,
+  "anchor_kind" text NOT NULL,
+  "anchor_id" text,
+  "anchor_position" jsonb,
+  "resolved_at" timestamp,
+  "resolved_by" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "document_comment_threads_document_idx" ON "document_comment_threads" ("document_id");
+
+CREATE TABLE IF NOT EXISTS "document_comments" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "thread_id" uuid NOT NULL REFERENCES "document_comment_threads"("id") ON DELETE CASCADE,
+  "user_id" text NOT NULL,
+  "author_name" text NOT NULL,
+  "body" text NOT NULL,
+  "mentions" jsonb DEFAULT '[]'::jsonb,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "document_comments_thread_idx" ON "document_comments" ("thread_id", "created_at");
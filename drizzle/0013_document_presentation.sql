@@ -0,0 +1,4 @@
+-- Presentation slides saved with a document (frames / node sets, reveal and transition per slide).
+-- Run with: psql $DATABASE_URL -f drizzle/0013_document_presentation.sql
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "presentation" jsonb;
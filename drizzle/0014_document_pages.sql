@@ -0,0 +1,5 @@
+-- Pages of multi-page documents; nodes/edges keep holding the active page's canvas.
+-- Run with: psql $DATABASE_URL -f drizzle/0014_document_pages.sql
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "pages" jsonb;
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "active_page_id" text;
@@ -0,0 +1,4 @@
+-- Node property schema of a project (typed custom properties offered on every node).
+-- Run with: psql $DATABASE_URL -f drizzle/0015_document_property_schema.sql
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "property_schema" jsonb;
@@ -0,0 +1,5 @@
+-- Pages of multi-page documents in version snapshots; nodes/edges keep holding the active page's canvas.
+-- Run with: psql $DATABASE_URL -f drizzle/0016_document_version_pages.sql
+
+ALTER TABLE "document_versions" ADD COLUMN IF NOT EXISTS "pages" jsonb;
+ALTER TABLE "document_versions" ADD COLUMN IF NOT EXISTS "active_page_id" text;
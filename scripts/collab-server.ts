@@ -0,0 +1,98 @@
+/**
+ * Development server for live collaboration: one room per shared project, state kept in memory.
+ * Relays element ops (merged with the same last-writer-wins rules as the clients) and presence.
+ * Run: yarn collab:dev   or   npx tsx scripts/collab-server.ts   (PORT defaults to 1234)
+ */
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  applyCollabOp,
+  emptyDocState,
+  parseCollabClientMessage,
+  type CollabDocState,
+  type CollabPeer,
+  type CollabServerMessage,
+} from "../src/lib/collab/protocol";
+
+type Room = {
+  state: CollabDocState;
+  peers: Map<WebSocket, CollabPeer>;
+};
+
+const PORT = Number(process.env.PORT ?? 1234);
+const rooms = new Map<string, Room>();
+
+function send(ws: WebSocket, message: CollabServerMessage) {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: CollabServerMessage, except?: WebSocket) {
+  const data = JSON.stringify(message);
+  for (const ws of room.peers.keys()) {
+    if (ws !== except && ws.readyState === ws.OPEN) ws.send(data);
+  }
+}
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on("connection", (ws) => {
+  let roomId: string | null = null;
+
+  ws.on("message", (raw) => {
+    // Malformed messages are dropped; an error in one room must not take down the server.
+    try {
+      handleMessage(raw.toString());
+    } catch (err) {
+      console.error("Collab message failed:", err);
+    }
+  });
+
+  function handleMessage(raw: string) {
+    const message = parseCollabClientMessage(raw);
+    if (!message) return;
+
+    if (message.type === "join") {
+      if (roomId || !message.room || !message.clientId) return;
+      roomId = message.room;
+      let room = rooms.get(roomId);
+      if (!room) {
+        room = { state: emptyDocState(), peers: new Map() };
+        rooms.set(roomId, room);
+      }
+      const peer: CollabPeer = {
+        clientId: message.clientId,
+        user: message.user,
+        cursor: null,
+        selectedNodeIds: [],
+      };
+      send(ws, { type: "snapshot", state: room.state, peers: [...room.peers.values()] });
+      room.peers.set(ws, peer);
+      broadcast(room, { type: "peer-joined", peer }, ws);
+      return;
+    }
+
+    const room = roomId ? rooms.get(roomId) : undefined;
+    const peer = room?.peers.get(ws);
+    if (!room || !peer) return;
+
+    if (message.type === "ops") {
+      const accepted = message.ops.filter((op) => applyCollabOp(room.state, op));
+      if (accepted.length > 0) broadcast(room, { type: "ops", ops: accepted }, ws);
+    } else if (message.type === "presence") {
+      peer.cursor = message.presence.cursor;
+      peer.selectedNodeIds = message.presence.selectedNodeIds;
+      broadcast(room, { type: "presence", clientId: peer.clientId, presence: message.presence }, ws);
+    }
+  }
+
+  ws.on("close", () => {
+    const room = roomId ? rooms.get(roomId) : undefined;
+    const peer = room?.peers.get(ws);
+    if (!room || !peer) return;
+    room.peers.delete(ws);
+    broadcast(room, { type: "peer-left", clientId: peer.clientId });
+    // Clients keep their own copy; the next joiner seeds the room again.
+    if (room.peers.size === 0) rooms.delete(roomId!);
+  });
+});
+
+console.log(`Collaboration server listening on ws://localhost:${PORT}`);
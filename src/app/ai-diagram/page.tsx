@@ -7,23 +7,26 @@ import Link from "next/link";
 import type { Node, Edge } from "@xyflow/react";
 import { useCanvasStore } from "@/lib/store/canvas-store";
 import {
-  getLayoutedElements,
   chooseBestLayoutOptions,
   translateNodesToLayoutBox,
   normalizeMindMapEdgeHandles,
   fitGroupBoundsAndCenterChildren,
   applyGroupingFromMetadata,
-  layoutChildrenInsideGroups,
   ensureExtentForGroupedNodes,
   type LayoutDirection,
   type LayoutAlgorithm,
 } from "@/lib/layout-engine";
 import { resolveCollisionsWithGroups } from "@/lib/resolve-collisions";
+import type { LayoutJob, LayoutResult } from "@/lib/layout-jobs";
+import { requestLayout } from "@/lib/layout-worker-client";
+import { incrementalLayoutFor } from "@/lib/incremental-layout";
 import { cn } from "@/lib/utils";
 import { buildSystemPrompt, buildUserMessage, getMindMapStructure, type CanvasBounds } from "@/lib/ai/prompt-builder";
 import { streamDiagramGeneration } from "@/lib/ai/frontend-ai";
 import EditorLayout from "@/components/layout/EditorLayout";
 import { saveNow, recordPromptHistory } from "@/lib/store/project-storage";
+import { recordVersion } from "@/lib/store/version-history";
+import { useDiagramDiff } from "@/hooks/useDiagramDiff";
 import { Loader2, Settings } from "lucide-react";
 import { applyNodesAndEdgesInChunks } from "@/lib/chunked-nodes";
 import { useAnimatedLayout } from "@/hooks/useAnimatedLayout";
@@ -38,6 +41,11 @@ import { dslToExcalidraw } from "@/lib/j2-converter";
 import { computeFitViewAppState } from "@/lib/excalidraw-render";
 import { CUSTOM_MARKER_IDS, type CustomMarkerId } from "@/components/edges/CustomMarkerDefs";
 
+/** Layout in the layout worker; if a newer layout cancels this one, keep the input positions. */
+async function layoutInWorker(job: LayoutJob): Promise<LayoutResult> {
+  return (await requestLayout(job)) ?? { nodes: job.nodes, edges: job.edges };
+}
+
 /** Apply layout with smooth animation when current nodes overlap target (e.g. streaming → final layout). */
 async function applyLayoutWithAnimation(
   setNodes: (n: Node[] | ((prev: Node[]) => Node[])) => void,
@@ -207,6 +215,9 @@ function AIDiagramPage() {
   /** Live LLM response text shown at bottom of AI panel during generation. */
   const [streamingText, setStreamingText] = useState("");
   const streamEndRef = useRef<HTMLDivElement>(null);
+  /** Canvas before the last AI apply; while set, the changes are highlighted until accepted or reverted. */
+  const [aiReviewBefore, setAiReviewBefore] = useState<{ nodes: Node[]; edges: Edge[] } | null>(null);
+  const aiReviewDiff = useDiagramDiff();
   const router = useRouter();
 
   // Auto-scroll streaming response to bottom as new content arrives
@@ -270,6 +281,7 @@ function AIDiagramPage() {
     nodes: canvasNodes,
     edges: canvasEdges,
     mindMapLayout,
+    incrementalLayout,
     canvasMode,
     setCanvasMode,
     setExcalidrawData,
@@ -340,11 +352,33 @@ function AIDiagramPage() {
     setHasUnsavedChanges(true);
   };
 
+  const handleAcceptAIChanges = () => {
+    setAiReviewBefore(null);
+    useCanvasStore.getState().setDiffBaseline(null);
+  };
+
+  const handleRevertAIChanges = async () => {
+    if (!aiReviewBefore) return;
+    const { nodes, edges } = aiReviewBefore;
+    useCanvasStore.getState().pushUndo("Revert AI changes");
+    handleAcceptAIChanges();
+    await applyNodesAndEdgesInChunks(setNodes, setEdges, nodes, edges);
+    await syncDiagramToExcalidraw(nodes, edges);
+    setPendingFitView(true);
+    saveNow();
+  };
+
   const handleGenerate = async () => {
     const selectedPreset = presetOptions.find((p) => p.value === preset);
     const effectivePrompt =
       preset !== "none" ? (selectedPreset?.prompt ?? prompt) : prompt;
     if (!effectivePrompt.trim()) return;
+    // A new generation accepts the changes still under review.
+    if (aiReviewBefore) handleAcceptAIChanges();
+    // Snapshot the current project so a bad generation can be rolled back from version history
+    void recordVersion("ai", `Before AI: ${effectivePrompt.trim().slice(0, 80)}`);
+    // Everything the generation streams in until the next edit is one undo entry.
+    useCanvasStore.getState().pushUndo(`AI: ${effectivePrompt.trim().slice(0, 60)}`);
     setLoading(true);
     setError(null);
     setStreamingText("");
@@ -830,24 +864,18 @@ function AIDiagramPage() {
                     targetEdges,
                     targetIds
                   );
-                  const { nodes: layoutedNodes, edges: layoutedEdges } =
-                    await getLayoutedElements(
-                      targetNodes,
-                      targetEdges,
-                      direction,
-                      spacing,
-                      algorithm
-                    );
-                  const withGroupChildren = await layoutChildrenInsideGroups(
-                    layoutedNodes,
-                    layoutedEdges,
+                  // Runs in the layout worker; the next chunk's layout cancels this one.
+                  const layout = await requestLayout({
+                    nodes: targetNodes,
+                    edges: targetEdges,
                     direction,
-                    [40, 32]
-                  );
-                  const collisionFreeNodes = resolveCollisionsWithGroups(
-                    ensureExtentForGroupedNodes(withGroupChildren),
-                    { maxIterations: 150, overlapThreshold: 0, margin: 24 }
-                  );
+                    spacing,
+                    algorithm,
+                    groupChildrenSpacing: [40, 32],
+                    collisions: { groups: true, maxIterations: 150, overlapThreshold: 0, margin: 24 },
+                  });
+                  if (!layout) return;
+                  const { nodes: collisionFreeNodes, edges: layoutedEdges } = layout;
                   // Place layout in a box (content bounds + padding), not the whole canvas
                   const LAYOUT_BOX_PADDING = 40;
                   const nodesInLayoutBox = translateNodesToLayoutBox(
@@ -1023,24 +1051,18 @@ function AIDiagramPage() {
                   targetEdges,
                   targetIds
                 );
-                const { nodes: layoutedNodes, edges: layoutedEdges } =
-                  await getLayoutedElements(
-                    targetNodes,
-                    targetEdges,
-                    direction,
-                    spacing,
-                    algorithm
-                  );
-                const withGroupChildren = await layoutChildrenInsideGroups(
-                  layoutedNodes,
-                  layoutedEdges,
+                // Runs in the layout worker; the next chunk's layout cancels this one.
+                const layout = await requestLayout({
+                  nodes: targetNodes,
+                  edges: targetEdges,
                   direction,
-                  [40, 32]
-                );
-                const collisionFreeNodes = resolveCollisionsWithGroups(
-                  ensureExtentForGroupedNodes(withGroupChildren),
-                  { maxIterations: 150, overlapThreshold: 0, margin: 24 }
-                );
+                  spacing,
+                  algorithm,
+                  groupChildrenSpacing: [40, 32],
+                  collisions: { groups: true, maxIterations: 150, overlapThreshold: 0, margin: 24 },
+                });
+                if (!layout) return;
+                const { nodes: collisionFreeNodes, edges: layoutedEdges } = layout;
                 // Place layout in a box (content bounds + padding), not the whole canvas
                 const LAYOUT_BOX_PADDING = 40;
                 const nodesInLayoutBox = translateNodesToLayoutBox(
@@ -1330,13 +1352,13 @@ function AIDiagramPage() {
 
       // Layout all nodes flat (no group nodes yet). Then apply grouping at render time
       // (like user selecting nodes and Ctrl+G / sidebar group tool).
-      const layoutResult = await getLayoutedElements(
-        safeNodes as Node[],
-        normalizedEdges,
+      const layoutResult = await layoutInWorker({
+        nodes: safeNodes as Node[],
+        edges: normalizedEdges,
         direction,
         spacing,
-        layoutAlgorithm
-      );
+        algorithm: layoutAlgorithm,
+      });
       let layoutedNodes = layoutResult.nodes;
       let layoutedEdges = layoutResult.edges;
 
@@ -1378,24 +1400,18 @@ function AIDiagramPage() {
       if (!isMindMapDiagram && groupMetadata.length > 0) {
         const withGroups = applyGroupingFromMetadata(layoutedNodes, groupMetadata);
         layoutedNodes = fitGroupBoundsAndCenterChildren(withGroups);
-        // Run layout again so compound graph has proper alignment and gaps between groups
-        const afterGroupLayout = await getLayoutedElements(
-          layoutedNodes,
-          layoutedEdges,
+        // Run layout again so compound graph has proper alignment and gaps between groups,
+        // then layout children inside each group with proper padding and extent
+        const afterGroupLayout = await layoutInWorker({
+          nodes: layoutedNodes,
+          edges: layoutedEdges,
           direction,
           spacing,
-          layoutAlgorithm
-        );
-        layoutedNodes = afterGroupLayout.nodes;
+          algorithm: layoutAlgorithm,
+          groupChildrenSpacing: [40, 32],
+        });
+        layoutedNodes = ensureExtentForGroupedNodes(afterGroupLayout.nodes);
         layoutedEdges = afterGroupLayout.edges;
-        // Layout children inside each group with proper padding and extent
-        layoutedNodes = await layoutChildrenInsideGroups(
-          layoutedNodes,
-          layoutedEdges,
-          direction,
-          [40, 32]
-        );
-        layoutedNodes = ensureExtentForGroupedNodes(layoutedNodes);
       }
 
       // Apply layout (ELK) for alignment — for mind map or when diagram type is "any" (auto).
@@ -1476,13 +1492,16 @@ function AIDiagramPage() {
           mindMapLayout?.spacingY ?? 60,
         ];
 
-        const mergedLayout = await getLayoutedElements(
-          mergedNodes,
-          mergedEdges,
-          mergedDirection,
-          mergedSpacing,
-          (mindMapLayout?.algorithm as LayoutAlgorithm) ?? "elk-mrtree"
-        );
+        // Pinned nodes stay put; with "Keep placement" only the new branch is arranged.
+        const incremental = incrementalLayoutFor(mergedNodes, incrementalLayout, [...existingIds]);
+        const mergedLayout = await layoutInWorker({
+          nodes: mergedNodes,
+          edges: mergedEdges,
+          direction: mergedDirection,
+          spacing: mergedSpacing,
+          algorithm: (mindMapLayout?.algorithm as LayoutAlgorithm) ?? "elk-mrtree",
+          incremental,
+        });
 
         const refinedEdges = normalizeMindMapEdgeHandles(
           mergedLayout.nodes,
@@ -1502,13 +1521,14 @@ function AIDiagramPage() {
         );
 
         // Apply layout (ELK) for alignment.
-        const refineLayoutAgain = await getLayoutedElements(
-          mergedLayout.nodes,
-          refinedEdges,
-          mergedDirection,
-          mergedSpacing,
-          (mindMapLayout?.algorithm as LayoutAlgorithm) ?? "elk-mrtree"
-        );
+        const refineLayoutAgain = await layoutInWorker({
+          nodes: mergedLayout.nodes,
+          edges: refinedEdges,
+          direction: mergedDirection,
+          spacing: mergedSpacing,
+          algorithm: (mindMapLayout?.algorithm as LayoutAlgorithm) ?? "elk-mrtree",
+          incremental,
+        });
         const refinedEdgesAfterLayout = normalizeMindMapEdgeHandles(
           refineLayoutAgain.nodes,
           refineLayoutAgain.edges.map((edge) => {
@@ -1522,10 +1542,14 @@ function AIDiagramPage() {
           }),
           mergedDirection
         );
-        const refinedResolved = resolveCollisionsWithGroups(
-          ensureExtentForGroupedNodes(refineLayoutAgain.nodes),
-          { margin: 24, maxIterations: 150, overlapThreshold: 0 }
-        );
+        // Incremental layouts already removed overlaps without moving pinned nodes.
+        const refinedResolved = incremental
+          ? refineLayoutAgain.nodes
+          : resolveCollisionsWithGroups(ensureExtentForGroupedNodes(refineLayoutAgain.nodes), {
+              margin: 24,
+              maxIterations: 150,
+              overlapThreshold: 0,
+            });
         await applyLayoutWithAnimation(
           setNodes,
           setEdges,
@@ -1534,6 +1558,8 @@ function AIDiagramPage() {
           existingNodes,
           applyAnimatedLayout
         );
+        // The refined diagram is the new baseline for "Keep placement", as after an auto-layout.
+        useCanvasStore.getState().setLayoutBaselineNodeIds(refinedResolved.map((n: { id: string }) => n.id));
         setPendingFitViewNodeIds(refinedResolved.map((n: { id: string }) => n.id));
         await syncDiagramToExcalidraw(refinedResolved, refinedEdgesAfterLayout);
       } else if (mode === "mindmap-refine") {
@@ -1647,6 +1673,13 @@ function AIDiagramPage() {
         targetCanvas: "reactflow",
       });
 
+      // Highlight what the AI changed so it can be reviewed, then accepted or reverted.
+      if (existingNodes.length > 0) {
+        const before = { nodes: existingNodes as Node[], edges: existingEdges as Edge[] };
+        setAiReviewBefore(before);
+        applied.setDiffBaseline({ projectId: applied.activeProjectId, title: "canvas before AI", ...before });
+      }
+
       // If user was in Excalidraw mode, switch view so they see the result there.
       if (targetCanvasMode === "excalidraw") setCanvasMode("excalidraw");
 
@@ -1969,6 +2002,31 @@ function AIDiagramPage() {
             />
             {/* Current model + API key status */}
             <ModelStatusBadge />
+            {aiReviewBefore && aiReviewDiff && !loading && (
+              <div className="flex flex-col gap-2 px-2.5 py-2 rounded-lg bg-violet-50 border border-violet-200 text-xs shrink-0">
+                <p className="font-medium text-violet-900">Review AI changes</p>
+                <p className="text-violet-700">
+                  {aiReviewDiff.counts.added} added · {aiReviewDiff.counts.removed} removed · {aiReviewDiff.counts.moved} moved ·{" "}
+                  {aiReviewDiff.counts.relabeled} relabeled. Changes are highlighted on the canvas.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleAcceptAIChanges}
+                    className="px-2.5 py-1.5 rounded-md bg-violet-600 text-white font-medium hover:bg-violet-500"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRevertAIChanges}
+                    className="px-2.5 py-1.5 rounded-md border border-violet-300 text-violet-800 hover:bg-violet-100"
+                  >
+                    Revert
+                  </button>
+                </div>
+              </div>
+            )}
             {/* Live LLM response at bottom of panel during generation */}
             {(loading || streamingText) && (
               <div className="flex flex-col gap-1 shrink-0">
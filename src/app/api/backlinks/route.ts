@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/db";
+import { documents } from "@/db/schema";
+import { and, eq, or, sql } from "drizzle-orm";
+import { findBacklinks, formatProjectLink } from "@/lib/node-links";
+
+/**
+ * GET /api/backlinks?projectId=&nodeId= – nodes in the current user's documents whose link
+ * points at the node. Postgres narrows the rows with LIKE over the node and page jsonb;
+ * lib/node-links then reads the links.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const projectId = request.nextUrl.searchParams.get("projectId") ?? "";
+  const nodeId = request.nextUrl.searchParams.get("nodeId") ?? "";
+  if (!projectId || !nodeId) return NextResponse.json({ error: "projectId and nodeId are required" }, { status: 400 });
+
+  const pattern = `%${formatProjectLink(projectId, nodeId).replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  try {
+    const rows = await db
+      .select({
+        id: documents.id,
+        name: documents.name,
+        nodes: documents.nodes,
+        pages: documents.pages,
+        activePageId: documents.activePageId,
+      })
+      .from(documents)
+      .where(
+        and(
+          eq(documents.userId, userId),
+          or(sql`${documents.nodes}::text LIKE ${pattern}`, sql`${documents.pages}::text LIKE ${pattern}`)
+        )
+      );
+
+    return NextResponse.json(findBacklinks(rows, projectId, nodeId));
+  } catch (err) {
+    console.error("Backlinks lookup failed:", err);
+    return NextResponse.json({ error: "Backlinks lookup failed" }, { status: 500 });
+  }
+}
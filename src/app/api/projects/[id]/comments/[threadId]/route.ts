@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { getAuthUserDisplayName, requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
+import { MAX_COMMENT_LENGTH, commentFromRow, parseMentions } from "@/lib/comments";
+import { db } from "@/db";
+import { documentCommentThreads, documentComments } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string; threadId: string }> };
+
+async function findThread(documentId: string, threadId: string) {
+  const [thread] = await db
+    .select()
+    .from(documentCommentThreads)
+    .where(and(eq(documentCommentThreads.id, threadId), eq(documentCommentThreads.documentId, documentId)));
+  return thread;
+}
+
+/** POST /api/projects/[id]/comments/[threadId] – reply. Body: { body }. Commenter role or above; the author is the signed-in user. */
+export async function POST(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId, threadId } = await params;
+  const role = await requireDocumentRole(request, documentId, "commenter", userId);
+  if (role instanceof NextResponse) return role;
+  if (!(await findThread(documentId, threadId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  let body: { body?: string } = {};
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const text = typeof body.body === "string" ? body.body.trim() : "";
+  if (!text || text.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `body is required (max ${MAX_COMMENT_LENGTH} characters)` }, { status: 400 });
+  }
+
+  const [comment] = await db
+    .insert(documentComments)
+    .values({
+      threadId,
+      userId,
+      authorName: await getAuthUserDisplayName(),
+      body: text,
+      mentions: parseMentions(text),
+    })
+    .returning();
+  if (!comment) {
+    return NextResponse.json({ error: "Insert failed" }, { status: 500 });
+  }
+  await db
+    .update(documentCommentThreads)
+    .set({ updatedAt: new Date() })
+    .where(eq(documentCommentThreads.id, threadId));
+
+  return NextResponse.json(commentFromRow(comment));
+}
+
+/** PATCH /api/projects/[id]/comments/[threadId] – resolve or reopen. Body: { resolved }. Commenter role or above. */
+export async function PATCH(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId, threadId } = await params;
+  const role = await requireDocumentRole(request, documentId, "commenter", userId);
+  if (role instanceof NextResponse) return role;
+
+  let body: { resolved?: boolean } = {};
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (typeof body.resolved !== "boolean") {
+    return NextResponse.json({ error: "resolved must be a boolean" }, { status: 400 });
+  }
+
+  const [updated] = await db
+    .update(documentCommentThreads)
+    .set({
+      resolvedAt: body.resolved ? new Date() : null,
+      resolvedBy: body.resolved ? userId : null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(documentCommentThreads.id, threadId), eq(documentCommentThreads.documentId, documentId)))
+    .returning();
+  if (!updated) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    id: updated.id,
+    resolvedAt: updated.resolvedAt ? new Date(updated.resolvedAt).getTime() : undefined,
+    resolvedBy: updated.resolvedBy ?? undefined,
+  });
+}
+
+/** DELETE /api/projects/[id]/comments/[threadId] – delete a thread and its replies (owner or the thread's author). */
+export async function DELETE(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId, threadId } = await params;
+  const role = await requireDocumentRole(request, documentId, "commenter", userId);
+  if (role instanceof NextResponse) return role;
+  const thread = await findThread(documentId, threadId);
+  if (!thread) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (role !== "owner" && thread.createdBy !== userId) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  await db.delete(documentCommentThreads).where(eq(documentCommentThreads.id, threadId));
+  return NextResponse.json({ ok: true });
+}
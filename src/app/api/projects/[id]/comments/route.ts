@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUserDisplayName, getAuthUserId, requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
+import {
+  MAX_COMMENT_LENGTH,
+  parseCommentAnchor,
+  parseMentions,
+  threadFromRow,
+  type CommentThread,
+} from "@/lib/comments";
+import { db } from "@/db";
+import { documentCommentThreads, documentComments, type DocumentComment } from "@/db/schema";
+import { eq, asc, inArray } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** GET /api/projects/[id]/comments – all threads (open and resolved) with their comments, oldest first. */
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = await getAuthUserId();
+  const { id: documentId } = await params;
+  const role = await requireDocumentRole(request, documentId, "viewer", userId);
+  if (role instanceof NextResponse) return role;
+
+  const threads = await db
+    .select()
+    .from(documentCommentThreads)
+    .where(eq(documentCommentThreads.documentId, documentId))
+    .orderBy(asc(documentCommentThreads.createdAt));
+  if (threads.length === 0) return NextResponse.json([]);
+
+  const comments = await db
+    .select()
+    .from(documentComments)
+    .where(inArray(documentComments.threadId, threads.map((t) => t.id)))
+    .orderBy(asc(documentComments.createdAt));
+  const byThread = new Map<string, DocumentComment[]>();
+  for (const c of comments) {
+    const list = byThread.get(c.threadId) ?? [];
+    list.push(c);
+    byThread.set(c.threadId, list);
+  }
+
+  const result: CommentThread[] = threads.map((t) => threadFromRow(t, byThread.get(t.id) ?? []));
+  return NextResponse.json(result);
+}
+
+/** POST /api/projects/[id]/comments – open a thread. Body: { anchor, body }. Commenter role or above; the author is the signed-in user. */
+export async function POST(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId } = await params;
+  const role = await requireDocumentRole(request, documentId, "commenter", userId);
+  if (role instanceof NextResponse) return role;
+
+  let body: { anchor?: unknown; body?: string } = {};
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const anchor = parseCommentAnchor(body.anchor);
+  if (!anchor) {
+    return NextResponse.json({ error: "anchor must be a node, edge or canvas point" }, { status: 400 });
+  }
+  const text = typeof body.body === "string" ? body.body.trim() : "";
+  if (!text || text.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `body is required (max ${MAX_COMMENT_LENGTH} characters)` }, { status: 400 });
+  }
+
+  const [thread] = await db
+    .insert(documentCommentThreads)
+    .values({
+      documentId,
+      createdBy: userId,
+      anchorKind: anchor.kind,
+      anchorId: anchor.kind === "canvas" ? null : anchor.id,
+      anchorPosition: anchor.kind === "canvas" ? { x: anchor.x, y: anchor.y } : null,
+    })
+    .returning();
+  if (!thread) {
+    return NextResponse.json({ error: "Insert failed" }, { status: 500 });
+  }
+
+  const [comment] = await db
+    .insert(documentComments)
+    .values({
+      threadId: thread.id,
+      userId,
+      authorName: await getAuthUserDisplayName(),
+      body: text,
+      mentions: parseMentions(text),
+    })
+    .returning();
+
+  return NextResponse.json(threadFromRow(thread, comment ? [comment] : []));
+}
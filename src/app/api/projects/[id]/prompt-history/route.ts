@@ -1,26 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAuth } from "@/lib/auth";
+import { getAuthUserId, requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
 import { db } from "@/db";
-import { documents, diagramPromptHistory } from "@/db/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { diagramPromptHistory } from "@/db/schema";
+import { eq, desc } from "drizzle-orm";
 
 type Params = { params: Promise<{ id: string }> };
 
 /** GET /api/projects/[id]/prompt-history – list all prompts used for this project (newest first). */
-export async function GET(_request: NextRequest, { params }: Params) {
-  const userId = await requireAuth();
-  if (userId instanceof NextResponse) return userId;
-
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = await getAuthUserId();
   const { id: documentId } = await params;
-
-  const [doc] = await db
-    .select({ id: documents.id })
-    .from(documents)
-    .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
-
-  if (!doc) {
-    return NextResponse.json({ error: "Not found" }, { status: 404 });
-  }
+  const role = await requireDocumentRole(request, documentId, "viewer", userId);
+  if (role instanceof NextResponse) return role;
 
   const list = await db
     .select()
@@ -48,15 +40,8 @@ export async function POST(request: Request, { params }: Params) {
   if (userId instanceof NextResponse) return userId;
 
   const { id: documentId } = await params;
-
-  const [doc] = await db
-    .select({ id: documents.id })
-    .from(documents)
-    .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
-
-  if (!doc) {
-    return NextResponse.json({ error: "Not found" }, { status: 404 });
-  }
+  const role = await requireDocumentRole(request, documentId, "editor", userId);
+  if (role instanceof NextResponse) return role;
 
   let body: {
     prompt?: string;
@@ -1,23 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAuth } from "@/lib/auth";
+import { getAuthUserId, requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
 import { db } from "@/db";
 import { documents } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 
 type Params = { params: Promise<{ id: string }> };
 
 /** Chunk size for streaming project JSON – large enough to avoid tiny backend writes. */
 const STREAM_CHUNK_SIZE = 8192;
 
-/** GET /api/projects/[id] – get one document. Use ?stream=1 to stream JSON for large projects. */
+/**
+ * GET /api/projects/[id] – get one document (owner, or any share link role via the share token header).
+ * Use ?stream=1 to stream JSON for large projects.
+ */
 export async function GET(request: NextRequest, { params }: Params) {
-  const userId = await requireAuth();
-  if (userId instanceof NextResponse) return userId;
+  const userId = await getAuthUserId();
   const { id } = await params;
-  const [doc] = await db
-    .select()
-    .from(documents)
-    .where(and(eq(documents.id, id), eq(documents.userId, userId)));
+  const role = await requireDocumentRole(request, id, "viewer", userId);
+  if (role instanceof NextResponse) return role;
+  const [doc] = await db.select().from(documents).where(eq(documents.id, id));
 
   if (!doc) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
@@ -30,12 +32,17 @@ export async function GET(request: NextRequest, { params }: Params) {
     edges: doc.edges ?? [],
     viewport: doc.viewport ?? undefined,
     savedLayout: doc.savedLayout ?? undefined,
+    presentation: doc.presentation ?? undefined,
+    pages: doc.pages ?? undefined,
+    activePageId: doc.activePageId ?? undefined,
+    propertySchema: doc.propertySchema ?? undefined,
     nodeNotes: doc.nodeNotes ?? {},
     nodeTasks: doc.nodeTasks ?? {},
     nodeAttachments: doc.nodeAttachments ?? {},
     excalidrawData: doc.excalidrawData ?? undefined,
     drawioData: doc.drawioData ?? undefined,
     isFavorite: doc.isFavorite ?? false,
+    role,
     createdAt: doc.createdAt ? new Date(doc.createdAt).getTime() : Date.now(),
     updatedAt: doc.updatedAt ? new Date(doc.updatedAt).getTime() : Date.now(),
   };
@@ -64,17 +71,24 @@ export async function GET(request: NextRequest, { params }: Params) {
   });
 }
 
-/** PATCH /api/projects/[id] – update document. */
+/** PATCH /api/projects/[id] – update document. Editors (share links) can change content but not name or favorite. */
 export async function PATCH(request: Request, { params }: Params) {
   const userId = await requireAuth();
   if (userId instanceof NextResponse) return userId;
   const { id } = await params;
+  const role = await requireDocumentRole(request, id, "editor", userId);
+  if (role instanceof NextResponse) return role;
+  const isOwner = role === "owner";
   let body: {
     name?: string;
     nodes?: object[];
     edges?: object[];
     viewport?: { x: number; y: number; zoom: number };
     savedLayout?: { direction: string; algorithm: string; spacingX: number; spacingY: number };
+    presentation?: { slides: object[] };
+    pages?: object[];
+    activePageId?: string;
+    propertySchema?: object[];
     nodeNotes?: Record<string, string>;
     nodeTasks?: Record<string, unknown>;
     nodeAttachments?: Record<string, unknown>;
@@ -91,20 +105,24 @@ export async function PATCH(request: Request, { params }: Params) {
   const [updated] = await db
     .update(documents)
     .set({
-      ...(body.name !== undefined && { name: body.name }),
+      ...(isOwner && body.name !== undefined && { name: body.name }),
       ...(body.nodes !== undefined && { nodes: body.nodes }),
       ...(body.edges !== undefined && { edges: body.edges }),
       ...(body.viewport !== undefined && { viewport: body.viewport }),
       ...(body.savedLayout !== undefined && { savedLayout: body.savedLayout }),
+      ...(body.presentation !== undefined && { presentation: body.presentation }),
+      ...(body.pages !== undefined && { pages: body.pages }),
+      ...(body.activePageId !== undefined && { activePageId: body.activePageId }),
+      ...(body.propertySchema !== undefined && { propertySchema: body.propertySchema }),
       ...(body.nodeNotes !== undefined && { nodeNotes: body.nodeNotes }),
       ...(body.nodeTasks !== undefined && { nodeTasks: body.nodeTasks }),
       ...(body.nodeAttachments !== undefined && { nodeAttachments: body.nodeAttachments }),
       ...(body.excalidrawData !== undefined && { excalidrawData: body.excalidrawData }),
       ...(body.drawioData !== undefined && { drawioData: body.drawioData }),
-      ...(body.isFavorite !== undefined && { isFavorite: body.isFavorite }),
+      ...(isOwner && body.isFavorite !== undefined && { isFavorite: body.isFavorite }),
       updatedAt: new Date(),
     })
-    .where(and(eq(documents.id, id), eq(documents.userId, userId)))
+    .where(eq(documents.id, id))
     .returning();
 
   if (!updated) {
@@ -118,26 +136,33 @@ export async function PATCH(request: Request, { params }: Params) {
     edges: updated.edges ?? [],
     viewport: updated.viewport ?? undefined,
     savedLayout: updated.savedLayout ?? undefined,
+    presentation: updated.presentation ?? undefined,
+    pages: updated.pages ?? undefined,
+    activePageId: updated.activePageId ?? undefined,
+    propertySchema: updated.propertySchema ?? undefined,
     nodeNotes: updated.nodeNotes ?? {},
     nodeTasks: updated.nodeTasks ?? {},
     nodeAttachments: updated.nodeAttachments ?? {},
     excalidrawData: updated.excalidrawData ?? undefined,
     drawioData: updated.drawioData ?? undefined,
     isFavorite: updated.isFavorite ?? false,
+    role,
     createdAt: updated.createdAt ? new Date(updated.createdAt).getTime() : Date.now(),
     updatedAt: updated.updatedAt ? new Date(updated.updatedAt).getTime() : Date.now(),
   });
 }
 
-/** DELETE /api/projects/[id] – delete document. */
-export async function DELETE(_request: Request, { params }: Params) {
+/** DELETE /api/projects/[id] – delete document (owner only). */
+export async function DELETE(request: Request, { params }: Params) {
   const userId = await requireAuth();
   if (userId instanceof NextResponse) return userId;
   const { id } = await params;
+  const role = await requireDocumentRole(request, id, "owner", userId);
+  if (role instanceof NextResponse) return role;
 
   const [deleted] = await db
     .delete(documents)
-    .where(and(eq(documents.id, id), eq(documents.userId, userId)))
+    .where(eq(documents.id, id))
     .returning({ id: documents.id });
 
   if (!deleted) {
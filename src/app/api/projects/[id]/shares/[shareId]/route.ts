@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
+import { db } from "@/db";
+import { documentShares } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string; shareId: string }> };
+
+/** DELETE /api/projects/[id]/shares/[shareId] – revoke a share link (owner only). The token stops working at once. */
+export async function DELETE(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId, shareId } = await params;
+  const role = await requireDocumentRole(request, documentId, "owner", userId);
+  if (role instanceof NextResponse) return role;
+
+  const [revoked] = await db
+    .update(documentShares)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(documentShares.id, shareId), eq(documentShares.documentId, documentId)))
+    .returning({ id: documentShares.id });
+
+  if (!revoked) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
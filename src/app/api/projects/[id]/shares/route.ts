@@ -0,0 +1,81 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
+import { isShareRole } from "@/lib/share-roles";
+import { db } from "@/db";
+import { documentShares, type DocumentShare } from "@/db/schema";
+import { eq, desc } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string }> };
+
+function toShareJson(row: DocumentShare) {
+  return {
+    id: row.id,
+    token: row.token,
+    role: row.role,
+    expiresAt: row.expiresAt ? new Date(row.expiresAt).getTime() : undefined,
+    revokedAt: row.revokedAt ? new Date(row.revokedAt).getTime() : undefined,
+    createdAt: row.createdAt ? new Date(row.createdAt).getTime() : Date.now(),
+  };
+}
+
+/** GET /api/projects/[id]/shares – list share links (owner only, newest first, revoked included). */
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId } = await params;
+  const role = await requireDocumentRole(request, documentId, "owner", userId);
+  if (role instanceof NextResponse) return role;
+
+  const list = await db
+    .select()
+    .from(documentShares)
+    .where(eq(documentShares.documentId, documentId))
+    .orderBy(desc(documentShares.createdAt));
+
+  return NextResponse.json(list.map(toShareJson));
+}
+
+/** POST /api/projects/[id]/shares – create a share link. Body: { role, expiresInDays? }. */
+export async function POST(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId } = await params;
+  const role = await requireDocumentRole(request, documentId, "owner", userId);
+  if (role instanceof NextResponse) return role;
+
+  let body: { role?: string; expiresInDays?: number | null } = {};
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (!isShareRole(body.role)) {
+    return NextResponse.json({ error: "role must be one of viewer, commenter, editor" }, { status: 400 });
+  }
+  const days = body.expiresInDays;
+  if (days != null && (typeof days !== "number" || !(days > 0))) {
+    return NextResponse.json({ error: "expiresInDays must be a positive number" }, { status: 400 });
+  }
+
+  const [inserted] = await db
+    .insert(documentShares)
+    .values({
+      documentId,
+      createdBy: userId,
+      token: randomBytes(24).toString("base64url"),
+      role: body.role,
+      expiresAt: days != null ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null,
+    })
+    .returning();
+
+  if (!inserted) {
+    return NextResponse.json({ error: "Insert failed" }, { status: 500 });
+  }
+
+  return NextResponse.json(toShareJson(inserted));
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUserId, requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
+import { db } from "@/db";
+import { documentVersions } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string; versionId: string }> };
+
+/** GET /api/projects/[id]/versions/[versionId] – full snapshot content for preview / restore. Editor role or above. */
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = await getAuthUserId();
+  const { id: documentId, versionId } = await params;
+  const role = await requireDocumentRole(request, documentId, "editor", userId);
+  if (role instanceof NextResponse) return role;
+
+  const [row] = await db
+    .select()
+    .from(documentVersions)
+    .where(and(eq(documentVersions.id, versionId), eq(documentVersions.documentId, documentId)));
+
+  if (!row) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    id: row.id,
+    kind: row.kind,
+    label: row.label ?? undefined,
+    nodes: row.nodes ?? [],
+    edges: row.edges ?? [],
+    pages: row.pages ?? undefined,
+    activePageId: row.activePageId ?? undefined,
+    savedLayout: row.savedLayout ?? undefined,
+    nodeNotes: row.nodeNotes ?? {},
+    nodeTasks: row.nodeTasks ?? {},
+    nodeAttachments: row.nodeAttachments ?? {},
+    excalidrawData: row.excalidrawData ?? undefined,
+    drawioData: row.drawioData ?? undefined,
+    nodeCount: row.nodeCount ?? 0,
+    edgeCount: row.edgeCount ?? 0,
+    createdAt: row.createdAt ? new Date(row.createdAt).getTime() : Date.now(),
+  });
+}
+
+/** DELETE /api/projects/[id]/versions/[versionId] – remove one version (owner only). */
+export async function DELETE(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId, versionId } = await params;
+  const role = await requireDocumentRole(request, documentId, "owner", userId);
+  if (role instanceof NextResponse) return role;
+
+  const [deleted] = await db
+    .delete(documentVersions)
+    .where(and(eq(documentVersions.id, versionId), eq(documentVersions.documentId, documentId)))
+    .returning({ id: documentVersions.id });
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUserId, requireAuth } from "@/lib/auth";
+import { requireDocumentRole } from "@/lib/document-access";
+import { db } from "@/db";
+import { documentVersions, DOCUMENT_VERSION_KINDS } from "@/db/schema";
+import { eq, and, desc, ne, inArray } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Versions kept per document besides named checkpoints; older ones are pruned on insert. */
+const MAX_VERSIONS_PER_DOCUMENT = 100;
+
+/** GET /api/projects/[id]/versions – list versions (metadata only, newest first). Editor role or above. */
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = await getAuthUserId();
+  const { id: documentId } = await params;
+  const role = await requireDocumentRole(request, documentId, "editor", userId);
+  if (role instanceof NextResponse) return role;
+
+  const list = await db
+    .select({
+      id: documentVersions.id,
+      kind: documentVersions.kind,
+      label: documentVersions.label,
+      nodeCount: documentVersions.nodeCount,
+      edgeCount: documentVersions.edgeCount,
+      createdAt: documentVersions.createdAt,
+    })
+    .from(documentVersions)
+    .where(eq(documentVersions.documentId, documentId))
+    .orderBy(desc(documentVersions.createdAt));
+
+  return NextResponse.json(
+    list.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      label: row.label ?? undefined,
+      nodeCount: row.nodeCount ?? 0,
+      edgeCount: row.edgeCount ?? 0,
+      createdAt: row.createdAt ? new Date(row.createdAt).getTime() : Date.now(),
+    }))
+  );
+}
+
+/** POST /api/projects/[id]/versions – store a snapshot of the document content. */
+export async function POST(request: Request, { params }: Params) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const { id: documentId } = await params;
+  const role = await requireDocumentRole(request, documentId, "editor", userId);
+  if (role instanceof NextResponse) return role;
+
+  let body: {
+    kind?: string;
+    label?: string;
+    nodes?: object[];
+    edges?: object[];
+    pages?: object[];
+    activePageId?: string;
+    savedLayout?: { direction: string; algorithm: string; spacingX: number; spacingY: number };
+    nodeNotes?: Record<string, string>;
+    nodeTasks?: Record<string, unknown>;
+    nodeAttachments?: Record<string, unknown>;
+    excalidrawData?: { elements: unknown[]; appState?: Record<string, unknown> } | null;
+    drawioData?: string | null;
+  } = {};
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (!body.kind || !(DOCUMENT_VERSION_KINDS as readonly string[]).includes(body.kind)) {
+    return NextResponse.json({ error: "kind must be one of auto, ai, checkpoint, restore" }, { status: 400 });
+  }
+
+  const nodes = Array.isArray(body.nodes) ? body.nodes : [];
+  const edges = Array.isArray(body.edges) ? body.edges : [];
+  const [inserted] = await db
+    .insert(documentVersions)
+    .values({
+      userId,
+      documentId,
+      kind: body.kind,
+      label: body.label?.trim() || null,
+      nodes,
+      edges,
+      pages: Array.isArray(body.pages) && body.pages.length > 0 ? body.pages : null,
+      activePageId: typeof body.activePageId === "string" ? body.activePageId : null,
+      savedLayout: body.savedLayout ?? null,
+      nodeNotes: body.nodeNotes ?? {},
+      nodeTasks: body.nodeTasks ?? {},
+      nodeAttachments: body.nodeAttachments ?? {},
+      excalidrawData: body.excalidrawData ?? null,
+      drawioData: body.drawioData ?? null,
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+    })
+    .returning({ id: documentVersions.id, createdAt: documentVersions.createdAt });
+
+  if (!inserted) {
+    return NextResponse.json({ error: "Insert failed" }, { status: 500 });
+  }
+
+  // Prune the oldest non-checkpoint versions beyond the cap (checkpoints are kept until deleted).
+  const stale = await db
+    .select({ id: documentVersions.id })
+    .from(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), ne(documentVersions.kind, "checkpoint")))
+    .orderBy(desc(documentVersions.createdAt))
+    .offset(MAX_VERSIONS_PER_DOCUMENT);
+  if (stale.length > 0) {
+    await db.delete(documentVersions).where(inArray(documentVersions.id, stale.map((v) => v.id)));
+  }
+
+  return NextResponse.json({
+    id: inserted.id,
+    kind: body.kind,
+    label: body.label?.trim() || undefined,
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+    createdAt: inserted.createdAt ? new Date(inserted.createdAt).getTime() : Date.now(),
+  });
+}
@@ -41,6 +41,10 @@ export async function GET(request: NextRequest) {
             nodeCount,
             viewport: doc.viewport ?? undefined,
             savedLayout: doc.savedLayout ?? undefined,
+            presentation: doc.presentation ?? undefined,
+            pages: doc.pages ?? undefined,
+            activePageId: doc.activePageId ?? undefined,
+            propertySchema: doc.propertySchema ?? undefined,
             nodeNotes: doc.nodeNotes ?? {},
             nodeTasks: doc.nodeTasks ?? {},
             nodeAttachments: doc.nodeAttachments ?? {},
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/db";
+import { documents } from "@/db/schema";
+import { and, desc, eq, or, sql, type AnyColumn } from "drizzle-orm";
+import { MIN_SEARCH_QUERY_LENGTH, searchProjects } from "@/lib/project-search";
+
+/** Most documents scanned per query (after the SQL prefilter). */
+const MAX_DOCUMENTS = 50;
+
+/** Searched text of a node / an edge, as jsonpath member chains (see lib/project-search). */
+const NODE_TEXT_PATHS = ["data.label", "data.columns[*].name", "data.properties[*].key", "data.properties[*].value"];
+const EDGE_TEXT_PATHS = ["data.label", "label"];
+
+/**
+ * True when a string the jsonpath selects from `column` contains the pattern. Matching extracted
+ * values (not the column's JSON text) keeps keys like "label" or "position" from matching.
+ */
+function jsonTextMatches(column: AnyColumn, path: string, pattern: string) {
+  return sql`EXISTS (SELECT 1 FROM jsonb_path_query(${column}, ${path}::jsonpath) AS v WHERE v #>> '{}' ILIKE ${pattern})`;
+}
+
+/**
+ * GET /api/search?q= – full-text search across all of the current user's documents.
+ * Postgres narrows the rows with ILIKE over the same text fields lib/project-search looks at
+ * on every page (labels, columns, properties, notes, tasks, edge labels, Excalidraw text; the
+ * Draw.io XML as a whole), and lib/project-search then finds the individual matches and builds
+ * snippets. Returns results grouped by project.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await requireAuth();
+  if (userId instanceof NextResponse) return userId;
+
+  const query = (request.nextUrl.searchParams.get("q") ?? "").trim().slice(0, 200);
+  if (query.length < MIN_SEARCH_QUERY_LENGTH) return NextResponse.json([]);
+
+  const pattern = `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  try {
+    const rows = await db
+      .select({
+        id: documents.id,
+        name: documents.name,
+        nodes: documents.nodes,
+        edges: documents.edges,
+        pages: documents.pages,
+        activePageId: documents.activePageId,
+        nodeNotes: documents.nodeNotes,
+        nodeTasks: documents.nodeTasks,
+        excalidrawData: documents.excalidrawData,
+        drawioData: documents.drawioData,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documents)
+      .where(
+        and(
+          eq(documents.userId, userId),
+          or(
+            ...NODE_TEXT_PATHS.map((path) => jsonTextMatches(documents.nodes, `$[*].${path}`, pattern)),
+            ...EDGE_TEXT_PATHS.map((path) => jsonTextMatches(documents.edges, `$[*].${path}`, pattern)),
+            // Inactive pages carry their own canvas.
+            ...NODE_TEXT_PATHS.map((path) => jsonTextMatches(documents.pages, `$[*].nodes[*].${path}`, pattern)),
+            ...EDGE_TEXT_PATHS.map((path) => jsonTextMatches(documents.pages, `$[*].edges[*].${path}`, pattern)),
+            jsonTextMatches(documents.nodeNotes, "$.*", pattern),
+            jsonTextMatches(documents.nodeTasks, "$.*[*].text", pattern),
+            jsonTextMatches(documents.excalidrawData, "$.elements[*].text", pattern),
+            sql`${documents.drawioData} ILIKE ${pattern}`
+          )
+        )
+      )
+      .orderBy(desc(documents.updatedAt))
+      .limit(MAX_DOCUMENTS);
+
+    const results = searchProjects(
+      rows.map((row) => ({ ...row, updatedAt: row.updatedAt ? new Date(row.updatedAt).getTime() : 0 })),
+      query
+    );
+    return NextResponse.json(results);
+  } catch (err) {
+    console.error("Search failed:", err);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findActiveShare } from "@/lib/document-access";
+import { db } from "@/db";
+import { documents } from "@/db/schema";
+import { eq } from "drizzle-orm";
+
+type Params = { params: Promise<{ token: string }> };
+
+/**
+ * GET /api/share/[token] – public: the shared document for the read-only viewer, plus the link's role.
+ * No sign-in needed; unknown, revoked and expired tokens all return 404.
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { token } = await params;
+  const share = await findActiveShare(token);
+  if (!share) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const [doc] = await db.select().from(documents).where(eq(documents.id, share.documentId));
+  if (!doc) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    {
+      documentId: doc.id,
+      name: doc.name,
+      role: share.role,
+      expiresAt: share.expiresAt ? new Date(share.expiresAt).getTime() : undefined,
+      nodes: doc.nodes ?? [],
+      edges: doc.edges ?? [],
+      viewport: doc.viewport ?? undefined,
+      nodeNotes: doc.nodeNotes ?? {},
+      updatedAt: doc.updatedAt ? new Date(doc.updatedAt).getTime() : Date.now(),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
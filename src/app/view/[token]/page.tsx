@@ -0,0 +1,10 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { SharedDiagramViewer } from "@/components/canvas/SharedDiagramViewer";
+
+/** Read-only viewer for share links — no sign-in required. */
+export default function SharedViewPage() {
+  const { token } = useParams<{ token: string }>();
+  return <SharedDiagramViewer token={token} />;
+}
@@ -5,6 +5,7 @@ import { Panel, useReactFlow, useStore } from "@xyflow/react";
 import {
   Undo2,
   Redo2,
+  History,
   ZoomIn,
   ZoomOut,
   Maximize,
@@ -14,10 +15,16 @@ import {
   Check,
   Circle,
   LayoutTemplate,
+  Pin,
+  Loader2,
+  X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useCanvasStore, hasUncommittedChange } from "@/lib/store/canvas-store";
 import { saveNow, isApiProjectId } from "@/lib/store/project-storage";
+import { LAYOUT_STAGE_LABELS } from "@/lib/layout-jobs";
+import { cancelLayout } from "@/lib/layout-worker-client";
+import { UndoHistoryMenu } from "./UndoHistoryMenu";
 
 interface CanvasBottomBarProps {
   selectedNodeCount: number;
@@ -44,14 +51,16 @@ function CanvasBottomBarInner({
   const zoom = useStore((s) => s.transform[2]);
   const undo = useCanvasStore((s) => s.undo);
   const redo = useCanvasStore((s) => s.redo);
-  const undoStack = useCanvasStore((s) => s.undoStack);
-  const redoStack = useCanvasStore((s) => s.redoStack);
+  const canUndo = useCanvasStore((s) => s.undoStack.length > 0 || hasUncommittedChange(s));
+  const canRedo = useCanvasStore((s) => s.redoStack.length > 0);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const lastSavedAt = useCanvasStore((s) => s.lastSavedAt);
   const lastSyncedToCloudAt = useCanvasStore((s) => s.lastSyncedToCloudAt);
   const hasUnsavedChanges = useCanvasStore((s) => s.hasUnsavedChanges);
   const persistenceSource = useCanvasStore((s) => s.persistenceSource);
   const activeProjectId = useCanvasStore((s) => s.activeProjectId);
   const showSaveLayoutLabel = useCanvasStore((s) => s.showSaveLayoutLabel);
+  const layoutProgress = useCanvasStore((s) => s.layoutProgress);
 
   const isCloudProject = Boolean(
     persistenceSource === "cloud" && activeProjectId && isApiProjectId(activeProjectId)
@@ -60,6 +69,8 @@ function CanvasBottomBarInner({
   const setShowSaveLayoutLabel = useCanvasStore((s) => s.setShowSaveLayoutLabel);
   const applyLayoutAtStart = useCanvasStore((s) => s.applyLayoutAtStart);
   const setApplyLayoutAtStart = useCanvasStore((s) => s.setApplyLayoutAtStart);
+  const incrementalLayout = useCanvasStore((s) => s.incrementalLayout);
+  const setIncrementalLayout = useCanvasStore((s) => s.setIncrementalLayout);
 
   // Update relative time display periodically
   const [, setTick] = useState(0);
@@ -181,6 +192,26 @@ function CanvasBottomBarInner({
         >
           Layout all
         </button>
+        {layoutProgress && (
+          <div
+            className="flex items-center gap-1.5 pl-1.5 pr-0.5 py-0.5 rounded-lg bg-violet-50 dark:bg-violet-900/20 text-[11px] text-violet-700 dark:text-violet-300"
+            title="Layout is running in the background"
+          >
+            <Loader2 className="w-3.5 h-3.5 shrink-0 animate-spin" />
+            <span className="whitespace-nowrap">
+              {LAYOUT_STAGE_LABELS[layoutProgress.stage]}
+              {layoutProgress.total > 1 && ` ${layoutProgress.done}/${layoutProgress.total}`}
+            </span>
+            <button
+              type="button"
+              onClick={cancelLayout}
+              className="p-0.5 rounded hover:bg-violet-100 dark:hover:bg-violet-900/40"
+              title="Cancel layout"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
 
         <label
           className="flex items-center gap-1.5 px-2 py-1 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-[11px] text-gray-600 dark:text-gray-400"
@@ -195,6 +226,19 @@ function CanvasBottomBarInner({
           <LayoutTemplate className="w-3.5 h-3.5 shrink-0" />
           <span>Layout at start</span>
         </label>
+        <label
+          className="flex items-center gap-1.5 px-2 py-1 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-[11px] text-gray-600 dark:text-gray-400"
+          title="Layouts keep your placement and only arrange nodes added since the last layout"
+        >
+          <input
+            type="checkbox"
+            checked={incrementalLayout}
+            onChange={(e) => setIncrementalLayout(e.target.checked)}
+            className="rounded border-gray-300 text-violet-600 focus:ring-violet-500"
+          />
+          <Pin className="w-3.5 h-3.5 shrink-0" />
+          <span>Keep placement</span>
+        </label>
 
         <div className="w-px h-5 bg-gray-200 dark:bg-gray-600 mx-1" />
 
@@ -202,7 +246,7 @@ function CanvasBottomBarInner({
         <button
           type="button"
           onClick={undo}
-          disabled={undoStack.length === 0}
+          disabled={!canUndo}
           className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
           title="Undo (Ctrl/Cmd+Z)"
         >
@@ -211,12 +255,32 @@ function CanvasBottomBarInner({
         <button
           type="button"
           onClick={redo}
-          disabled={redoStack.length === 0}
+          disabled={!canRedo}
           className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
           title="Redo (Ctrl/Cmd+Shift+Z)"
         >
           <Redo2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
         </button>
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setHistoryOpen((v) => !v)}
+            disabled={!canUndo && !canRedo}
+            className={cn(
+              "p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors",
+              historyOpen && "bg-gray-100 dark:bg-gray-700"
+            )}
+            title="Undo history"
+          >
+            <History className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+          {historyOpen && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={() => setHistoryOpen(false)} />
+              <UndoHistoryMenu onClose={() => setHistoryOpen(false)} />
+            </>
+          )}
+        </div>
 
         <div className="w-px h-5 bg-gray-200 dark:bg-gray-600 mx-1" />
 
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect } from "react";
+import { ViewportPortal, useReactFlow, useStore, useStoreApi } from "@xyflow/react";
+import { useCollabStore } from "@/lib/store/collab-store";
+import { updateCollabPresence } from "@/lib/collab/collab-client";
+
+/**
+ * Live collaboration: draws other participants' cursors in flow coordinates and reports this
+ * client's pointer position. Renders nothing outside a session.
+ */
+export function CollaboratorCursors() {
+  const roomId = useCollabStore((s) => s.roomId);
+  const peers = useCollabStore((s) => s.peers);
+  const { screenToFlowPosition } = useReactFlow();
+  const storeApi = useStoreApi();
+  // Cursors live in flow space; counter-scale so they keep their screen size at any zoom.
+  const zoom = useStore((s) => s.transform[2]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    const el = storeApi.getState().domNode;
+    if (!el) return;
+    const onMove = (e: PointerEvent) => {
+      updateCollabPresence({ cursor: screenToFlowPosition({ x: e.clientX, y: e.clientY }) });
+    };
+    const onLeave = () => updateCollabPresence({ cursor: null });
+    el.addEventListener("pointermove", onMove);
+    el.addEventListener("pointerleave", onLeave);
+    return () => {
+      el.removeEventListener("pointermove", onMove);
+      el.removeEventListener("pointerleave", onLeave);
+    };
+  }, [roomId, storeApi, screenToFlowPosition]);
+
+  if (!roomId) return null;
+
+  return (
+    <ViewportPortal>
+      {Object.values(peers).map((peer) =>
+        peer.cursor ? (
+          <div
+            key={peer.clientId}
+            className="absolute pointer-events-none z-[1000] transition-transform duration-75"
+            style={{ transform: `translate(${peer.cursor.x}px, ${peer.cursor.y}px) scale(${1 / zoom})`, transformOrigin: "0 0" }}
+          >
+            <svg width="18" height="18" viewBox="0 0 18 18" className="drop-shadow">
+              <path d="M1 1 L1 14 L5 10.5 L8 17 L10.5 16 L7.5 9.5 L13 9.5 Z" fill={peer.user.color} stroke="white" strokeWidth="1.2" />
+            </svg>
+            <span
+              className="absolute left-4 top-4 px-1.5 py-0.5 rounded text-[11px] font-medium text-white whitespace-nowrap shadow"
+              style={{ backgroundColor: peer.user.color }}
+            >
+              {peer.user.name}
+            </span>
+          </div>
+        ) : null
+      )}
+    </ViewportPortal>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect } from "react";
+import { ViewportPortal, useReactFlow, useStore, useStoreApi } from "@xyflow/react";
+import { MessageSquare } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCommentsStore } from "@/lib/store/comments-store";
+
+/**
+ * Comments anchored to canvas points: draws a pin per open thread (and the point being drafted),
+ * and while "pick a point" is active turns the next pane click into the draft anchor.
+ */
+export function CommentPins() {
+  const threads = useCommentsStore((s) => s.threads);
+  const draftAnchor = useCommentsStore((s) => s.draftAnchor);
+  const placingAnchor = useCommentsStore((s) => s.placingAnchor);
+  const focusedThreadId = useCommentsStore((s) => s.focusedThreadId);
+  const { screenToFlowPosition } = useReactFlow();
+  const storeApi = useStoreApi();
+  // Pins live in flow space; counter-scale so they keep their screen size at any zoom.
+  const zoom = useStore((s) => s.transform[2]);
+
+  useEffect(() => {
+    if (!placingAnchor) return;
+    const el = storeApi.getState().domNode;
+    if (!el) return;
+    const onClick = (e: MouseEvent) => {
+      if (!(e.target instanceof Element) || !e.target.closest(".react-flow__pane")) return;
+      e.stopPropagation();
+      const { x, y } = screenToFlowPosition({ x: e.clientX, y: e.clientY });
+      useCommentsStore.getState().setDraftAnchor({ kind: "canvas", x, y });
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") useCommentsStore.getState().setPlacingAnchor(false);
+    };
+    el.style.cursor = "crosshair";
+    el.addEventListener("click", onClick, true);
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      el.style.cursor = "";
+      el.removeEventListener("click", onClick, true);
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [placingAnchor, storeApi, screenToFlowPosition]);
+
+  const pins = threads.filter((t) => t.anchor.kind === "canvas" && !t.resolvedAt);
+  if (pins.length === 0 && draftAnchor?.kind !== "canvas") return null;
+
+  return (
+    <ViewportPortal>
+      {pins.map((thread) =>
+        thread.anchor.kind === "canvas" ? (
+          <button
+            key={thread.id}
+            type="button"
+            className={cn(
+              "nodrag nopan absolute z-[999] flex items-center gap-0.5 h-6 px-1.5 rounded-full rounded-bl-none text-white text-[10px] font-semibold shadow-md",
+              thread.id === focusedThreadId ? "bg-violet-700 ring-2 ring-violet-300" : "bg-violet-600 hover:bg-violet-700"
+            )}
+            style={{
+              transform: `translate(${thread.anchor.x}px, ${thread.anchor.y}px) scale(${1 / zoom}) translateY(-100%)`,
+              transformOrigin: "0 0",
+            }}
+            title={thread.comments[0]?.body}
+            onClick={() => useCommentsStore.getState().setPanelOpen(true, thread.id)}
+          >
+            <MessageSquare className="w-3 h-3" />
+            {thread.comments.length}
+          </button>
+        ) : null
+      )}
+      {draftAnchor?.kind === "canvas" && (
+        <div
+          className="absolute pointer-events-none z-[999] w-6 h-6 rounded-full rounded-bl-none border-2 border-dashed border-violet-500 bg-violet-100/80"
+          style={{
+            transform: `translate(${draftAnchor.x}px, ${draftAnchor.y}px) scale(${1 / zoom}) translateY(-100%)`,
+            transformOrigin: "0 0",
+          }}
+        />
+      )}
+    </ViewportPortal>
+  );
+}
@@ -23,39 +23,32 @@ import {
 } from "@xyflow/react";
 import { KeyboardHandler } from "./KeyboardHandler";
 import { PresentationMode } from "@/components/panels/PresentationMode";
+import { useCurrentSlideView } from "@/hooks/usePresentationSlides";
 import { HelperLines } from "./HelperLines";
-import { getLayoutedElements, resizeGroupToFitChildren, type LayoutDirection } from "@/lib/layout-engine";
+import { resizeGroupToFitChildren, type LayoutDirection } from "@/lib/layout-engine";
+import { requestLayout } from "@/lib/layout-worker-client";
 import { useAutoLayout } from "@/hooks/useAutoLayout";
-import { resolveCollisions, resolveCollisionsWithGroups } from "@/lib/resolve-collisions";
+import { resolveCollisionsWithGroups } from "@/lib/resolve-collisions";
 import { getHiddenNodeIds } from "@/lib/mindmap-utils";
+import { DIFF_COLORS, primaryChangeKind, type DiagramChangeKind } from "@/lib/diagram-diff";
+import { useDiagramDiff } from "@/hooks/useDiagramDiff";
+import { useNodeSpatialIndex } from "@/hooks/useNodeSpatialIndex";
+import { useCollabStore } from "@/lib/store/collab-store";
+import { CollaboratorCursors } from "./CollaboratorCursors";
+import { CommentPins } from "./CommentPins";
 import "@xyflow/react/dist/style.css";
 import { useCanvasStore } from "@/lib/store/canvas-store";
 
 const SNAP_THRESHOLD = 8;
 const DEFAULT_NODE_WIDTH = 150;
 const DEFAULT_NODE_HEIGHT = 50;
-import {
-  StickyNoteNode,
-  MindMapNode,
-  ShapeNode,
-  TextNode,
-  FreeDrawNode,
-  TableNode,
-  EdgeAnchorNode,
-  IconNode,
-  ImageNode,
-  DatabaseSchemaNode,
-  ServiceNode,
-  QueueNode,
-  ActorNode,
-  GroupNode,
-} from "@/components/nodes";
+import { nodeTypes, edgeTypes } from "./flow-types";
+import { shouldCullElements } from "@/lib/level-of-detail";
 import type { Stroke } from "./FreeDrawPreview";
 import { EdgeDrawPreview } from "./EdgeDrawPreview";
 import { EraserPreview } from "./EraserPreview";
 import { CustomMarkerDefs } from "@/components/edges/CustomMarkerDefs";
 import { FreehandOverlay } from "./FreehandOverlay";
-import LabeledConnectorEdge from "@/components/edges/LabeledConnectorEdge";
 import { CustomConnectionLine } from "@/components/edges/CustomConnectionLine";
 import { MindMapLayoutPanel } from "@/components/panels/MindMapLayoutPanel";
 import { saveNow } from "@/lib/store/project-storage";
@@ -64,39 +57,22 @@ import { MindMapLayoutProvider } from "@/contexts/MindMapLayoutContext";
 import { getDragPayload } from "@/lib/dnd-payload";
 import { AIContextMenu } from "@/components/panels/AIContextMenu";
 import { CanvasBottomBar } from "./CanvasBottomBar";
+import { PageTabs } from "./PageTabs";
+import { parseNodeLink } from "@/lib/node-links";
+import { followNodeLink } from "@/lib/store/node-links";
 import { MultiSelectToolbar } from "@/components/toolbar/MultiSelectToolbar";
+import { DiagramDiffPanel } from "@/components/panels/DiagramDiffPanel";
 
 const EDGE_ANCHOR_SIZE = 12;
 const LAYOUT_EXCLUDED_TYPES = new Set(["freeDraw", "edgeAnchor"]);
-
-const nodeTypes = {
-  stickyNote: StickyNoteNode,
-  mindMap: MindMapNode,
-  rectangle: ShapeNode,
-  diamond: ShapeNode,
-  circle: ShapeNode,
-  document: ShapeNode,
-  table: TableNode,
-  text: TextNode,
-  freeDraw: FreeDrawNode,
-  edgeAnchor: EdgeAnchorNode,
-  icon: IconNode,
-  image: ImageNode,
-  databaseSchema: DatabaseSchemaNode,
-  service: ServiceNode,
-  queue: QueueNode,
-  actor: ActorNode,
-  group: GroupNode,
-};
+/** Outline of in-canvas search hits; the current hit (Enter / Shift+Enter) is stronger. */
+const SEARCH_HIT_COLOR = "#f59e0b";
+const SEARCH_ACTIVE_COLOR = "#ea580c";
 
 // Default mind map template is now created in project-storage.ts only
 // for brand-new projects on first app load.
 const MIND_MAP_NODE_WIDTH = 170;
 
-const edgeTypes = {
-  labeledConnector: LabeledConnectorEdge,
-};
-
 export default function DiagramCanvas() {
   const storeNodes = useCanvasStore((s) => s.nodes);
   const storeEdges = useCanvasStore((s) => s.edges);
@@ -134,9 +110,10 @@ export default function DiagramCanvas() {
   const pendingFitViewNodeIds = useCanvasStore((s) => (s as any).pendingFitViewNodeIds);
   const setPendingFitView = useCanvasStore((s) => (s as any).setPendingFitView);
   const setPendingFitViewNodeIds = useCanvasStore((s) => (s as any).setPendingFitViewNodeIds);
+  const pendingViewport = useCanvasStore((s) => s.pendingViewport);
+  const setPendingViewport = useCanvasStore((s) => s.setPendingViewport);
   const presentationMode = useCanvasStore((s) => s.presentationMode);
   const canvasBackgroundVariant = useCanvasStore((s) => s.canvasBackgroundVariant);
-  const presentationNodeIndex = useCanvasStore((s) => s.presentationNodeIndex);
   const reactFlowRef = useRef<ReactFlowInstance | null>(null);
   /** Edge intersection: edge id under the currently dragged node (for insert-into-edge on drop). */
   const overlappedEdgeRef = useRef<string | null>(null);
@@ -152,10 +129,14 @@ export default function DiagramCanvas() {
   const [eraserPoints, setEraserPoints] = useState<{ x: number; y: number }[]>([]);
   const [isErasing, setIsErasing] = useState(false);
 
-  // Open details panel when clicking a node in presentation mode
+  // Cmd/Ctrl+click follows a node's link; in presentation mode a click opens the details panel
   const setDetailsPanelNodeId = useCanvasStore((s) => s.setDetailsPanelNodeId);
   const onNodeClick = useCallback(
-    (_: React.MouseEvent, node: Node) => {
+    (e: React.MouseEvent, node: Node) => {
+      if ((e.metaKey || e.ctrlKey) && parseNodeLink(node.data?.link)) {
+        followNodeLink(node.data.link);
+        return;
+      }
       if (presentationMode) {
         setDetailsPanelNodeId(node.id);
       }
@@ -183,68 +164,149 @@ export default function DiagramCanvas() {
     [nodes, edges]
   );
 
-  // Determine the focused node ID during presentation mode
-  const presentationFocusedNodeId = useMemo(() => {
-    if (!presentationMode) return null;
-    const presentable = nodes.filter(
-      (n) =>
-        n.type !== "freeDraw" &&
-        n.type !== "edgeAnchor" &&
-        n.type !== "group"
-    );
-    return presentable[presentationNodeIndex]?.id ?? null;
-  }, [presentationMode, presentationNodeIndex, nodes]);
+  // Nodes on the current slide (and those not revealed yet) during presentation mode
+  const slideView = useCurrentSlideView();
+
+  // Visual diff against an earlier state: highlight changed elements and draw removed ones as ghosts.
+  const diagramDiff = useDiagramDiff();
+  const diffKinds = useMemo(() => {
+    const byNode = new Map<string, DiagramChangeKind>();
+    const byEdge = new Map<string, DiagramChangeKind>();
+    for (const change of diagramDiff?.changes ?? []) {
+      if (change.kinds.includes("removed")) continue;
+      (change.element === "node" ? byNode : byEdge).set(change.id, primaryChangeKind(change.kinds));
+    }
+    return { byNode, byEdge };
+  }, [diagramDiff]);
+
+  // Live collaboration: ring nodes other participants have selected in their color.
+  const collabPeers = useCollabStore((s) => s.peers);
+  const searchHitIdList = useCanvasStore((s) => s.searchHitIds);
+  const searchActiveHitId = useCanvasStore((s) => s.searchActiveHitId);
+  const searchHitIds = useMemo(() => new Set(searchHitIdList), [searchHitIdList]);
+  const peerSelectionColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    for (const peer of Object.values(collabPeers)) {
+      for (const id of peer.selectedNodeIds) if (!colors.has(id)) colors.set(id, peer.user.color);
+    }
+    return colors;
+  }, [collabPeers]);
 
   const visibleNodes = useMemo(
-    () =>
-      nodes.map((n) => {
-        if (hiddenNodeIds.has(n.id)) return { ...n, hidden: true as const };
+    () => {
+      const shown = nodes.map((node) => {
+        if (hiddenNodeIds.has(node.id)) return { ...node, hidden: true as const };
+
+        const peerColor = peerSelectionColors.get(node.id);
+        const n = peerColor ? { ...node, style: { ...node.style, boxShadow: `0 0 0 2px ${peerColor}` } } : node;
+
+        const diffKind = diffKinds.byNode.get(n.id);
+        if (diffKind) {
+          return {
+            ...n,
+            style: {
+              ...n.style,
+              outline: `2px solid ${DIFF_COLORS[diffKind]}`,
+              outlineOffset: 4,
+              borderRadius: 8,
+            },
+          };
+        }
+
+        if (searchHitIds.has(n.id)) {
+          const active = n.id === searchActiveHitId;
+          return {
+            ...n,
+            style: {
+              ...n.style,
+              outline: `${active ? 3 : 2}px solid ${active ? SEARCH_ACTIVE_COLOR : SEARCH_HIT_COLOR}`,
+              outlineOffset: 4,
+              borderRadius: 8,
+            },
+          };
+        }
 
-        // In presentation mode, dim non-focused nodes
-        if (presentationMode && presentationFocusedNodeId) {
-          const isFocused = n.id === presentationFocusedNodeId;
+        // In presentation mode, dim nodes off the slide and hide the ones not revealed yet
+        if (slideView) {
+          const isFocused = slideView.visibleIds.has(n.id);
+          const isPending = slideView.pendingIds.has(n.id);
           return {
             ...n,
             style: {
               ...n.style,
-              opacity: isFocused ? 1 : 0.2,
+              opacity: isFocused ? 1 : isPending ? 0 : 0.2,
               transition: "opacity 0.4s ease, filter 0.4s ease",
-              filter: isFocused ? "drop-shadow(0 0 12px rgba(139, 92, 246, 0.5))" : "none",
+              filter: isFocused && n.type !== "group" ? "drop-shadow(0 0 12px rgba(139, 92, 246, 0.5))" : "none",
+              pointerEvents: isPending ? ("none" as const) : n.style?.pointerEvents,
               zIndex: isFocused ? 10 : 0,
             },
           };
         }
         return n;
-      }),
-    [nodes, hiddenNodeIds, presentationMode, presentationFocusedNodeId]
+      });
+      if (!diagramDiff || diagramDiff.removedNodes.length === 0) return shown;
+      const ghosts = diagramDiff.removedNodes.map((n) => ({
+        ...n,
+        style: {
+          ...n.style,
+          opacity: 0.45,
+          outline: `2px dashed ${DIFF_COLORS.removed}`,
+          outlineOffset: 4,
+          borderRadius: 8,
+          pointerEvents: "none" as const,
+        },
+      }));
+      return [...shown, ...ghosts];
+    },
+    [nodes, hiddenNodeIds, slideView, diffKinds, diagramDiff, peerSelectionColors, searchHitIds, searchActiveHitId]
   );
 
   const visibleEdges = useMemo(
-    () =>
-      edges.map((e) => {
+    () => {
+      const shown = edges.map((e) => {
         const base = { ...e, reconnectable: true as const }; // allow reconnecting source or target on every edge
         if (hiddenNodeIds.has(e.source) || hiddenNodeIds.has(e.target))
           return { ...base, hidden: true as const };
 
-        // In presentation mode, highlight edges connected to focused node, dim others
-        if (presentationMode && presentationFocusedNodeId) {
-          const isConnected =
-            e.source === presentationFocusedNodeId ||
-            e.target === presentationFocusedNodeId;
+        const diffKind = diffKinds.byEdge.get(e.id);
+        if (diffKind) {
+          const color = DIFF_COLORS[diffKind];
+          return { ...base, data: { ...e.data, strokeColor: color }, style: { ...e.style, stroke: color } };
+        }
+
+        if (searchHitIds.has(e.id)) {
+          const color = e.id === searchActiveHitId ? SEARCH_ACTIVE_COLOR : SEARCH_HIT_COLOR;
+          return { ...base, data: { ...e.data, strokeColor: color }, style: { ...e.style, stroke: color } };
+        }
+
+        // In presentation mode, highlight edges touching the slide, hide those to unrevealed nodes, dim others
+        if (slideView) {
+          const isPending = slideView.pendingIds.has(e.source) || slideView.pendingIds.has(e.target);
+          const isConnected = slideView.visibleIds.has(e.source) || slideView.visibleIds.has(e.target);
           return {
             ...base,
             style: {
               ...e.style,
-              opacity: isConnected ? 1 : 0.1,
+              opacity: isPending ? 0 : isConnected ? 1 : 0.1,
               transition: "opacity 0.4s ease",
             },
           };
         }
         return base;
-      }),
-    [edges, hiddenNodeIds, presentationMode, presentationFocusedNodeId]
+      });
+      if (!diagramDiff || diagramDiff.removedEdges.length === 0) return shown;
+      const ghosts = diagramDiff.removedEdges.map((e) => ({
+        ...e,
+        data: { ...e.data, strokeColor: DIFF_COLORS.removed, strokeDasharray: "6 4" },
+        style: { ...e.style, stroke: DIFF_COLORS.removed, strokeDasharray: "6 4", opacity: 0.6, pointerEvents: "none" as const },
+      }));
+      return [...shown, ...ghosts];
+    },
+    [edges, hiddenNodeIds, slideView, diffKinds, diagramDiff, searchHitIds, searchActiveHitId]
   );
 
+  const searchNodes = useNodeSpatialIndex(nodes);
+
   const getNodeBounds = useCallback((node: Node) => {
     const w = node.measured?.width ?? node.width ?? DEFAULT_NODE_WIDTH;
     const h = node.measured?.height ?? node.height ?? DEFAULT_NODE_HEIGHT;
@@ -329,7 +391,21 @@ export default function DiagramCanvas() {
       const nodeW = Number(w) || DEFAULT_NODE_WIDTH;
       const nodeH = Number(h) || DEFAULT_NODE_HEIGHT;
 
-      for (const n of nodes) {
+      // Any node the dragged node can align with overlaps the horizontal or vertical band
+      // through it; only the on-screen part of each band is searched.
+      const viewport = reactFlowRef.current?.getViewport() ?? { x: 0, y: 0, zoom: 1 };
+      const view = {
+        x: -viewport.x / viewport.zoom,
+        y: -viewport.y / viewport.zoom,
+        width: window.innerWidth / viewport.zoom,
+        height: window.innerHeight / viewport.zoom,
+      };
+      const candidates = new Set([
+        ...searchNodes({ x: view.x, y: bounds.top - SNAP_THRESHOLD, width: view.width, height: nodeH + SNAP_THRESHOLD * 2 }),
+        ...searchNodes({ x: bounds.left - SNAP_THRESHOLD, y: view.y, width: nodeW + SNAP_THRESHOLD * 2, height: view.height }),
+      ]);
+
+      for (const n of candidates) {
         if (n.id === draggedNode.id || !n.position || hiddenNodeIds.has(n.id)) continue;
         const nb = getNodeBounds(n);
 
@@ -365,7 +441,7 @@ export default function DiagramCanvas() {
       setHelperLines({ horizontal: horizontalLine, vertical: verticalLine });
       return { x: snapX, y: snapY };
     },
-    [nodes, hiddenNodeIds, getNodeBounds]
+    [searchNodes, hiddenNodeIds, getNodeBounds]
   );
 
   const onNodeDragStart = useCallback(() => {
@@ -622,6 +698,13 @@ export default function DiagramCanvas() {
     };
   }, [pendingFitView, pendingFitViewNodeIds, setPendingFitView, setPendingFitViewNodeIds]);
 
+  // Restore the viewport a page was left at when switching back to it.
+  useEffect(() => {
+    if (!pendingViewport || !reactFlowRef.current) return;
+    reactFlowRef.current.setViewport(pendingViewport);
+    setPendingViewport(null);
+  }, [pendingViewport, setPendingViewport]);
+
   // Sync store → canvas when undo/redo or hydration updates the Zustand store.
   // We track whether the store change originated from the canvas (via onNodesChange/onEdgesChange)
   // to avoid an infinite loop.  We use a counter instead of a boolean so that
@@ -949,28 +1032,27 @@ export default function DiagramCanvas() {
       );
 
       try {
-        const { nodes: layoutedNodes, edges: layoutedEdges } = await getLayoutedElements(
-          layoutableNodes,
-          layoutableEdges,
-          mindMapLayout.direction,
-          [mindMapLayout.spacingX, mindMapLayout.spacingY],
-          mindMapLayout.algorithm
-        );
+        const layout = await requestLayout({
+          nodes: layoutableNodes,
+          edges: layoutableEdges,
+          direction: mindMapLayout.direction,
+          spacing: [mindMapLayout.spacingX, mindMapLayout.spacingY],
+          algorithm: mindMapLayout.algorithm,
+          collisions: { maxIterations: 150, overlapThreshold: 0, margin: 24 },
+        });
+        if (!layout) return; // superseded by a newer layout
+        const layoutedEdges = new Map(layout.edges.map((e) => [e.id, e]));
         setEdges((all) =>
           all.map((e) => {
-            const le = layoutedEdges.find((x) => x.id === e.id);
+            const le = layoutedEdges.get(e.id);
             return le ? { ...e, ...le } : e;
           })
         );
-        const collisionFreeNodes = resolveCollisions(layoutedNodes, {
-          maxIterations: 150,
-          overlapThreshold: 0,
-          margin: 24,
-        });
+        const collisionFreeNodes = new Map(layout.nodes.map((n) => [n.id, n]));
         // Merge layouted positions back, leaving freehand nodes untouched
         setNodes((all) =>
           all.map((n) => {
-            const ln = collisionFreeNodes.find((x) => x.id === n.id);
+            const ln = collisionFreeNodes.get(n.id);
             return ln ? { ...n, position: ln.position } : n;
           })
         );
@@ -1643,12 +1725,12 @@ export default function DiagramCanvas() {
   });
 
   const handleLayoutSelectedNodes = useCallback(async () => {
-    pushUndo();
+    pushUndo("Auto-layout selection");
     await layoutSelection();
   }, [layoutSelection, pushUndo]);
 
   const handleLayoutAllNodes = useCallback(async () => {
-    pushUndo();
+    pushUndo("Auto-layout");
     await layoutAll();
   }, [layoutAll, pushUndo]);
 
@@ -1730,6 +1812,7 @@ export default function DiagramCanvas() {
           onNodeContextMenu={onNodeContextMenu}
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
+          onlyRenderVisibleElements={shouldCullElements(visibleNodes.length)}
           fitView
           nodesDraggable={!presentationMode && activeTool !== "freeDraw" && activeTool !== "connector"}
           nodesConnectable={!presentationMode && activeTool !== "freeDraw"}
@@ -1806,6 +1889,9 @@ export default function DiagramCanvas() {
           />
         )}
         {!presentationMode && <MultiSelectToolbar />}
+        {!presentationMode && <DiagramDiffPanel />}
+        {!presentationMode && <CollaboratorCursors />}
+        {!presentationMode && <CommentPins />}
         {!presentationMode && (
           <MindMapLayoutPanel
             setNodes={setNodesWithStoreSync}
@@ -1823,6 +1909,7 @@ export default function DiagramCanvas() {
             onLayoutAll={handleLayoutAllNodes}
           />
         )}
+        {!presentationMode && <PageTabs />}
         <PresentationMode />
       </ReactFlow>
       {contextMenu && (
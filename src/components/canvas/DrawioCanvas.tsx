@@ -18,6 +18,7 @@ export default function DrawioCanvas() {
   const drawioData = useCanvasStore((s) => s.drawioData);
   const setDrawioData = useCanvasStore((s) => s.setDrawioData);
   const setHasUnsavedChanges = useCanvasStore((s) => s.setHasUnsavedChanges);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
   const theme = useCanvasStore((s) => s.theme);
   const isMobile = useMediaQuery("(max-width: 768px)");
 
@@ -36,22 +37,24 @@ export default function DrawioCanvas() {
 
   const handleSave = useCallback(
     (data: { xml: string }) => {
-      if (data?.xml) {
+      if (data?.xml && data.xml !== useCanvasStore.getState().drawioData) {
+        pushUndo("Edit Draw.io diagram", "drawio");
         setDrawioData(data.xml);
         setHasUnsavedChanges(true);
       }
     },
-    [setDrawioData, setHasUnsavedChanges]
+    [setDrawioData, setHasUnsavedChanges, pushUndo]
   );
 
   const handleAutoSave = useCallback(
     (data: { xml: string }) => {
-      if (data?.xml) {
+      if (data?.xml && data.xml !== useCanvasStore.getState().drawioData) {
+        pushUndo("Edit Draw.io diagram", "drawio");
         setDrawioData(data.xml);
         setHasUnsavedChanges(true);
       }
     },
-    [setDrawioData, setHasUnsavedChanges]
+    [setDrawioData, setHasUnsavedChanges, pushUndo]
   );
 
   const uiValue = isMobile ? "min" : isDark ? "dark" : "kennedy";
@@ -62,12 +62,20 @@ async function loadLibraryItems(): Promise<unknown[]> {
  * Loads default libraries from localStorage (or fetches via API on first load).
  * Persists library changes. User can install more libraries via "Add library".
  */
+/** Changes whenever an element is added, removed or edited (Excalidraw bumps `version` on edits). */
+function elementVersionSum(elements: readonly unknown[]): number {
+  let sum = 0;
+  for (const el of elements) sum += (el as { version?: number }).version ?? 0;
+  return sum + elements.length;
+}
+
 export default function ExcalidrawCanvas() {
   const { isSignedIn } = useAuth();
   const theme = useCanvasStore((s) => s.theme);
   const excalidrawData = useCanvasStore((s) => s.excalidrawData);
   const setExcalidrawData = useCanvasStore((s) => s.setExcalidrawData);
   const setHasUnsavedChanges = useCanvasStore((s) => s.setHasUnsavedChanges);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
   const pendingExcalidrawLibraryUrl = useCanvasStore((s) => s.pendingExcalidrawLibraryUrl);
   const setPendingExcalidrawLibraryUrl = useCanvasStore((s) => s.setPendingExcalidrawLibraryUrl);
   const hasUnsavedChanges = useCanvasStore((s) => s.hasUnsavedChanges);
@@ -134,6 +142,11 @@ export default function ExcalidrawCanvas() {
       const nextFiles = files != null && typeof files === "object"
         ? (files as Record<string, { mimeType: string; id: string; dataURL: string }>)
         : excalidrawData?.files;
+      // onChange also fires for pointer moves, selection and pan/zoom; only element edits
+      // (which bump element versions) get an undo entry, merged while the user keeps drawing.
+      if (elementVersionSum(elements) !== elementVersionSum(excalidrawData?.elements ?? [])) {
+        pushUndo("Edit Excalidraw drawing", "excalidraw");
+      }
       setExcalidrawData({
         elements: [...elements],
         appState: safeAppState,
@@ -141,7 +154,7 @@ export default function ExcalidrawCanvas() {
       });
       setHasUnsavedChanges(true);
     },
-    [setExcalidrawData, setHasUnsavedChanges, excalidrawData?.files]
+    [setExcalidrawData, setHasUnsavedChanges, pushUndo, excalidrawData?.files, excalidrawData?.elements]
   );
 
   const syncLibraryToCloud = useCallback(
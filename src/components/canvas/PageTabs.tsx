@@ -0,0 +1,199 @@
+"use client";
+
+import { memo, useRef, useState } from "react";
+import { Panel, useReactFlow } from "@xyflow/react";
+import { Plus, MoreHorizontal, Pencil, Copy, ArrowLeft, ArrowRight, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useDocumentPages } from "@/hooks/useDocumentPages";
+
+/**
+ * Page tabs of a multi-page document (bottom-left of the canvas). Click to open a page,
+ * double-click to rename, drag to reorder; the ⋯ menu duplicates, moves and deletes.
+ */
+function PageTabsInner() {
+  const { pages, activePageId, goToPage } = useDocumentPages();
+  const { getViewport } = useReactFlow();
+  const addPage = useCanvasStore((s) => s.addPage);
+  const renamePage = useCanvasStore((s) => s.renamePage);
+  const movePage = useCanvasStore((s) => s.movePage);
+  const duplicatePage = useCanvasStore((s) => s.duplicatePage);
+  const deletePage = useCanvasStore((s) => s.deletePage);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [menuPageId, setMenuPageId] = useState<string | null>(null);
+
+  /* ── drag state ── */
+  const dragIdxRef = useRef<number | null>(null);
+  const [dragOverIdx, setDragOverIdx] = useState<number | null>(null);
+
+  const startRename = (pageId: string, name: string) => {
+    if (readOnly) return;
+    setMenuPageId(null);
+    setRenamingId(pageId);
+    setDraftName(name);
+  };
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) renamePage(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  const handleDrop = (idx: number) => {
+    const from = dragIdxRef.current;
+    if (from != null && from !== idx) movePage(pages[from].id, idx);
+    dragIdxRef.current = null;
+    setDragOverIdx(null);
+  };
+
+  const handleDelete = (pageId: string, name: string) => {
+    setMenuPageId(null);
+    if (!confirm(`Delete page "${name}" and everything on it?`)) return;
+    deletePage(pageId);
+  };
+
+  return (
+    <Panel position="bottom-left" className="!mb-3">
+      <div className="flex items-center gap-0.5 max-w-[min(640px,45vw)] bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 px-1.5 py-1">
+        <div className="flex items-center gap-0.5 overflow-x-auto min-w-0">
+          {pages.map((page, idx) => {
+            const active = page.id === activePageId;
+            return (
+              <div
+                key={page.id}
+                draggable={!readOnly && renamingId !== page.id}
+                onDragStart={() => {
+                  dragIdxRef.current = idx;
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDragOverIdx(idx);
+                }}
+                onDrop={() => handleDrop(idx)}
+                onDragEnd={() => {
+                  dragIdxRef.current = null;
+                  setDragOverIdx(null);
+                }}
+                className={cn(
+                  "relative flex items-center shrink-0 rounded-lg text-[11px] font-medium transition-colors",
+                  active
+                    ? "bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300"
+                    : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700",
+                  dragOverIdx === idx && "ring-1 ring-violet-400"
+                )}
+              >
+                {renamingId === page.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setRenamingId(null);
+                    }}
+                    className="w-28 px-2 py-1 bg-white dark:bg-gray-900 rounded-lg outline-none ring-1 ring-violet-400 text-gray-800 dark:text-gray-100"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => !active && goToPage(page.id)}
+                    onDoubleClick={() => startRename(page.id, page.name)}
+                    className="px-2.5 py-1 max-w-[140px] truncate"
+                    title={page.name}
+                  >
+                    {page.name}
+                  </button>
+                )}
+                {active && !readOnly && renamingId !== page.id && (
+                  <button
+                    type="button"
+                    onClick={() => setMenuPageId(menuPageId === page.id ? null : page.id)}
+                    className="p-0.5 mr-1 rounded hover:bg-violet-200/60 dark:hover:bg-violet-800/60"
+                    aria-label="Page actions"
+                  >
+                    <MoreHorizontal className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {menuPageId === page.id && (
+                  <div className="absolute bottom-full left-0 mb-1.5 w-40 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-10">
+                    <PageMenuItem icon={<Pencil className="w-3.5 h-3.5" />} label="Rename" onClick={() => startRename(page.id, page.name)} />
+                    <PageMenuItem
+                      icon={<Copy className="w-3.5 h-3.5" />}
+                      label="Duplicate"
+                      onClick={() => {
+                        setMenuPageId(null);
+                        duplicatePage(page.id);
+                      }}
+                    />
+                    <PageMenuItem
+                      icon={<ArrowLeft className="w-3.5 h-3.5" />}
+                      label="Move left"
+                      disabled={idx === 0}
+                      onClick={() => movePage(page.id, idx - 1)}
+                    />
+                    <PageMenuItem
+                      icon={<ArrowRight className="w-3.5 h-3.5" />}
+                      label="Move right"
+                      disabled={idx === pages.length - 1}
+                      onClick={() => movePage(page.id, idx + 1)}
+                    />
+                    <PageMenuItem
+                      icon={<Trash2 className="w-3.5 h-3.5" />}
+                      label="Delete"
+                      danger
+                      disabled={pages.length <= 1}
+                      onClick={() => handleDelete(page.id, page.name)}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={() => addPage(getViewport())}
+            className="p-1 rounded-lg text-gray-500 hover:text-violet-600 hover:bg-gray-100 dark:hover:bg-gray-700 shrink-0"
+            title="Add page"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+}
+
+function PageMenuItem({
+  icon,
+  label,
+  onClick,
+  disabled,
+  danger,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed",
+        danger ? "text-red-600" : "text-gray-700 dark:text-gray-200"
+      )}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
+
+export const PageTabs = memo(PageTabsInner);
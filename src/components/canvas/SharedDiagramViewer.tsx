@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  BackgroundVariant,
+  Controls,
+  useNodesState,
+  useEdgesState,
+  type Node,
+  type Edge,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Eye, Loader2, MessageSquare, Pencil, StickyNote, X } from "lucide-react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { fetchSharedDocument, setPageShareToken, type SharedDocument } from "@/lib/store/share-links";
+import { loadComments } from "@/lib/store/comments-store";
+import { sortParentsBeforeChildren } from "@/lib/chunked-nodes";
+import { SHARE_ROLE_LABELS, roleAtLeast } from "@/lib/share-roles";
+import { CustomMarkerDefs } from "@/components/edges/CustomMarkerDefs";
+import { NodeComments } from "@/components/panels/CommentsPanel";
+import { shouldCullElements } from "@/lib/level-of-detail";
+import { nodeTypes, edgeTypes } from "./flow-types";
+
+const ROLE_ICONS = { viewer: Eye, commenter: MessageSquare, editor: Pencil };
+
+function nodeLabel(node: Node | undefined): string {
+  const label = node?.data?.label;
+  return typeof label === "string" && label.trim() ? label : "Untitled node";
+}
+
+function ViewerCanvas({ doc }: { doc: SharedDocument }) {
+  const [nodes, , onNodesChange] = useNodesState<Node>(sortParentsBeforeChildren(doc.nodes));
+  const [edges, , onEdgesChange] = useEdgesState<Edge>(doc.edges);
+  const nodeNotes = useCanvasStore((s) => s.nodeNotes);
+  // The node whose notes are shown; shares the store field so comment badges open it too.
+  const notesNodeId = useCanvasStore((s) => s.detailsPanelNodeId);
+  const setNotesNodeId = useCanvasStore((s) => s.setDetailsPanelNodeId);
+  const { isSignedIn } = useAuth();
+  const note = notesNodeId ? nodeNotes[notesNodeId] : undefined;
+  // Commenting needs a commenter link and a signed-in user (comments carry the author's id).
+  const canComment = !!isSignedIn && roleAtLeast(doc.role, "commenter");
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      <CustomMarkerDefs />
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onNodeClick={(_, node) => setNotesNodeId(node.id)}
+        onPaneClick={() => setNotesNodeId(null)}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        onlyRenderVisibleElements={shouldCullElements(nodes.length)}
+        defaultViewport={doc.viewport}
+        fitView={!doc.viewport}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        edgesReconnectable={false}
+        elementsSelectable={false}
+        minZoom={0.1}
+        maxZoom={4}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background variant={BackgroundVariant.Dots} gap={16} size={1} />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+
+      {notesNodeId && (
+        <aside className="absolute top-3 right-3 bottom-3 w-80 max-w-[calc(100%-1.5rem)] rounded-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl flex flex-col">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <StickyNote className="w-4 h-4 text-violet-500 shrink-0" />
+            <h2 className="flex-1 min-w-0 text-sm font-semibold text-gray-900 dark:text-white truncate">
+              {nodeLabel(nodes.find((n) => n.id === notesNodeId))}
+            </h2>
+            <button
+              type="button"
+              onClick={() => setNotesNodeId(null)}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400"
+              aria-label="Close notes"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto px-4 py-3">
+            {note?.trim() ? (
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">{note}</p>
+            ) : (
+              <p className="text-sm text-gray-400">No notes for this node.</p>
+            )}
+          </div>
+          <div className="max-h-[55%] overflow-y-auto border-t border-gray-200 dark:border-gray-700">
+            <NodeComments nodeId={notesNodeId} canComment={canComment} />
+          </div>
+        </aside>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Public read-only view of a shared project (/view/[token]): pan, zoom, read node notes and
+ * comments. Commenter links can also add comments; editor links offer to open the project in the editor.
+ */
+export function SharedDiagramViewer({ token }: { token: string }) {
+  const [doc, setDoc] = useState<SharedDocument | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "missing">("loading");
+
+  useEffect(() => {
+    useCanvasStore.getState().setReadOnly(true);
+    let cancelled = false;
+    fetchSharedDocument(token)
+      .then((shared) => {
+        if (cancelled) return;
+        if (!shared) {
+          setStatus("missing");
+          return;
+        }
+        useCanvasStore.setState({ nodeNotes: shared.nodeNotes });
+        setPageShareToken(shared.documentId, token);
+        void loadComments(shared.documentId);
+        setDoc(shared);
+        setStatus("ready");
+      })
+      .catch((err) => {
+        console.error("Failed to load shared project:", err);
+        if (!cancelled) setStatus("missing");
+      });
+    return () => {
+      cancelled = true;
+      useCanvasStore.getState().setReadOnly(false);
+      void loadComments(null);
+    };
+  }, [token]);
+
+  if (status === "loading") {
+    return (
+      <div className="h-screen flex items-center justify-center text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === "missing" || !doc) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-2 px-6 text-center">
+        <p className="text-base font-semibold text-gray-900 dark:text-white">This link is not available</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">It may have expired or been revoked by the owner.</p>
+      </div>
+    );
+  }
+
+  const RoleIcon = ROLE_ICONS[doc.role];
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-950">
+      <header className="shrink-0 flex items-center gap-3 px-4 py-2.5 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+        <h1 className="flex-1 min-w-0 text-sm font-semibold text-gray-900 dark:text-white truncate">{doc.name}</h1>
+        <span className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-xs text-gray-600 dark:text-gray-300">
+          <RoleIcon className="w-3.5 h-3.5" />
+          {SHARE_ROLE_LABELS[doc.role]}
+        </span>
+        {doc.role === "editor" && (
+          <a
+            href={`/editor?share=${encodeURIComponent(token)}`}
+            className="px-3 py-1.5 rounded-lg bg-violet-600 hover:bg-violet-700 text-white text-xs font-medium"
+          >
+            Open in editor
+          </a>
+        )}
+      </header>
+      <ReactFlowProvider>
+        <ViewerCanvas doc={doc} />
+      </ReactFlowProvider>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { Check, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCanvasStore, hasUncommittedChange } from "@/lib/store/canvas-store";
+import type { HistoryEntry } from "@/lib/undo-history";
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+/**
+ * Undo history list (opened from the bottom bar), newest first: undone entries greyed at the
+ * top, then the applied ones down to when the canvas was opened. Click an entry to jump there.
+ */
+export function UndoHistoryMenu({ onClose }: { onClose: () => void }) {
+  const undoStack = useCanvasStore((s) => s.undoStack);
+  const redoStack = useCanvasStore((s) => s.redoStack);
+  const pending = useCanvasStore((s) => (hasUncommittedChange(s) ? s.historyCheckpoint : null));
+  const goToHistoryEntry = useCanvasStore((s) => s.goToHistoryEntry);
+  const current = pending ? "pending" : (undoStack.at(-1)?.id ?? null);
+
+  const row = (key: string, label: string, at: number | null, state: "future" | "current" | "past", onClick?: () => void) => (
+    <button
+      key={key}
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className={cn(
+        "w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors",
+        state === "current"
+          ? "bg-violet-50 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300 font-medium"
+          : "hover:bg-gray-50 dark:hover:bg-gray-700",
+        state === "future" ? "text-gray-400 dark:text-gray-500" : state === "past" && "text-gray-700 dark:text-gray-200"
+      )}
+    >
+      <span className="w-3.5 shrink-0">{state === "current" && <Check className="w-3.5 h-3.5" />}</span>
+      <span className="flex-1 truncate">{label}</span>
+      {at !== null && <span className="shrink-0 text-[10px] text-gray-400 tabular-nums">{formatTime(at)}</span>}
+    </button>
+  );
+
+  const jump = (id: string | null) => () => {
+    goToHistoryEntry(id);
+    onClose();
+  };
+  const pastState = (entry: HistoryEntry) => (entry.id === current ? "current" : "past");
+
+  return (
+    <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 max-h-80 overflow-auto py-1 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 z-20">
+      <p className="px-3 pt-1 pb-1.5 text-[10px] font-semibold uppercase tracking-wide text-gray-400">History</p>
+      {redoStack.map((entry) => row(entry.id, entry.label, entry.at, "future", jump(entry.id)))}
+      {pending && row("pending", pending.label ?? "Current changes", pending.at, "current")}
+      {[...undoStack].reverse().map((entry) => row(entry.id, entry.label, entry.at, pastState(entry), jump(entry.id)))}
+      <div className="border-t border-gray-100 dark:border-gray-700 mt-1 pt-1">
+        <button
+          type="button"
+          onClick={jump(null)}
+          disabled={current === null}
+          className={cn(
+            "w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors",
+            current === null
+              ? "bg-violet-50 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300 font-medium"
+              : "text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700"
+          )}
+        >
+          <RotateCcw className="w-3.5 h-3.5 shrink-0" />
+          <span className="flex-1">Opened</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import {
+  StickyNoteNode,
+  MindMapNode,
+  ShapeNode,
+  TextNode,
+  FreeDrawNode,
+  TableNode,
+  EdgeAnchorNode,
+  IconNode,
+  ImageNode,
+  DatabaseSchemaNode,
+  ServiceNode,
+  QueueNode,
+  ActorNode,
+  GroupNode,
+  withLevelOfDetail,
+} from "@/components/nodes";
+import LabeledConnectorEdge from "@/components/edges/LabeledConnectorEdge";
+import { withEdgeLevelOfDetail } from "@/components/edges/LowDetailEdge";
+
+const LodShapeNode = withLevelOfDetail(ShapeNode);
+
+/**
+ * React Flow node / edge renderers, shared by the editor canvas and the read-only share viewer.
+ * Zoomed out, they draw as simple boxes and paths (see lib/level-of-detail); free-draw strokes
+ * and edge anchors are cheap already and always render in full.
+ */
+export const nodeTypes = {
+  stickyNote: withLevelOfDetail(StickyNoteNode),
+  mindMap: withLevelOfDetail(MindMapNode),
+  rectangle: LodShapeNode,
+  diamond: LodShapeNode,
+  circle: LodShapeNode,
+  document: LodShapeNode,
+  table: withLevelOfDetail(TableNode),
+  text: withLevelOfDetail(TextNode, "text"),
+  freeDraw: FreeDrawNode,
+  edgeAnchor: EdgeAnchorNode,
+  icon: withLevelOfDetail(IconNode, "text"),
+  image: withLevelOfDetail(ImageNode),
+  databaseSchema: withLevelOfDetail(DatabaseSchemaNode),
+  service: withLevelOfDetail(ServiceNode),
+  queue: withLevelOfDetail(QueueNode),
+  actor: withLevelOfDetail(ActorNode, "text"),
+  group: withLevelOfDetail(GroupNode, "container"),
+};
+
+export const edgeTypes = {
+  labeledConnector: withEdgeLevelOfDetail(LabeledConnectorEdge),
+};
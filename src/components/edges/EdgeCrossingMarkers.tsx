@@ -2,9 +2,20 @@
 
 import { memo, useMemo } from "react";
 import { useNodes, useEdges, Position, getSmoothStepPath } from "@xyflow/react";
+import { useLowDetail } from "@/hooks/useLevelOfDetail";
+import { createSpatialIndex, cellSizeFor } from "@/lib/spatial-index";
 
 const DEFAULT_NODE_WIDTH = 150;
 const DEFAULT_NODE_HEIGHT = 50;
+/**
+ * Crossings are recomputed on every node change (each drag frame), so diagrams with more edges
+ * than this get no markers; the spatial index keeps the work near-linear below it.
+ */
+const MAX_CROSSING_EDGES = 400;
+/** Upper bound on markers drawn, so a dense diagram doesn't flood the DOM. */
+const MAX_CROSSING_MARKERS = 300;
+
+type Segment = { x1: number; y1: number; x2: number; y2: number };
 
 function getHandlePosition(
   node: { position?: { x: number; y: number }; width?: number; height?: number; measured?: { width?: number; height?: number } },
@@ -23,8 +34,8 @@ function getHandlePosition(
   }
 }
 
-function parsePathToSegments(pathStr: string): { x1: number; y1: number; x2: number; y2: number }[] {
-  const segments: { x1: number; y1: number; x2: number; y2: number }[] = [];
+function parsePathToSegments(pathStr: string): Segment[] {
+  const segments: Segment[] = [];
   const commands = pathStr.match(/[MLHVCSQTAZ][^MLHVCSQTAZ]*/gi) || [];
   let x = 0, y = 0;
   for (const cmd of commands) {
@@ -64,10 +75,12 @@ function lineIntersection(
 function EdgeCrossingMarkersInner() {
   const nodes = useNodes();
   const edges = useEdges();
+  const lowDetail = useLowDetail();
   const crossings = useMemo(() => {
+    // Markers are noise when zoomed out (hidden along with edge labels); skip the work too.
+    if (lowDetail || edges.length > MAX_CROSSING_EDGES) return [];
     const nodeMap = new Map(nodes.map((n) => [n.id, n]));
-    if (edges.length > 35) return [];
-    const paths: { id: string; segments: { x1: number; y1: number; x2: number; y2: number }[] }[] = [];
+    const paths: { id: string; segments: Segment[] }[] = [];
     for (const e of edges) {
       const src = nodeMap.get(e.source);
       const tgt = nodeMap.get(e.target);
@@ -87,22 +100,32 @@ function EdgeCrossingMarkersInner() {
       });
       paths.push({ id: e.id, segments: parsePathToSegments(pathStr || "") });
     }
+    // Index every segment by its bounding box; only segments of different edges whose boxes
+    // touch are tested, instead of every segment pair.
+    const segments = paths.flatMap((p, pathIndex) => p.segments.map((seg) => ({ ...seg, pathIndex })));
+    const boxOf = (seg: Segment) => ({
+      x: Math.min(seg.x1, seg.x2),
+      y: Math.min(seg.y1, seg.y2),
+      width: Math.abs(seg.x2 - seg.x1),
+      height: Math.abs(seg.y2 - seg.y1),
+    });
+    const index = createSpatialIndex<number>(cellSizeFor(segments.map(boxOf)));
+    segments.forEach((seg, i) => index.insert(i, boxOf(seg)));
     const result: { x: number; y: number }[] = [];
-    for (let i = 0; i < paths.length; i++) {
-      for (let j = i + 1; j < paths.length; j++) {
-        for (const sa of paths[i].segments) {
-          for (const sb of paths[j].segments) {
-            const pt = lineIntersection(
-              { x: sa.x1, y: sa.y1 }, { x: sa.x2, y: sa.y2 },
-              { x: sb.x1, y: sb.y1 }, { x: sb.x2, y: sb.y2 }
-            );
-            if (pt) result.push(pt);
-          }
-        }
+    for (let i = 0; i < segments.length && result.length < MAX_CROSSING_MARKERS; i++) {
+      const sa = segments[i];
+      for (const j of index.search(boxOf(sa))) {
+        const sb = segments[j];
+        if (j <= i || sb.pathIndex === sa.pathIndex) continue;
+        const pt = lineIntersection(
+          { x: sa.x1, y: sa.y1 }, { x: sa.x2, y: sa.y2 },
+          { x: sb.x1, y: sb.y1 }, { x: sb.x2, y: sb.y2 }
+        );
+        if (pt) result.push(pt);
       }
     }
     return result;
-  }, [nodes, edges]);
+  }, [nodes, edges, lowDetail]);
 
   if (crossings.length === 0) return null;
   return (
@@ -0,0 +1,62 @@
+"use client";
+
+import { memo, type ComponentType } from "react";
+import { getBezierPath, getSmoothStepPath, getStraightPath, type EdgeProps } from "@xyflow/react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useLowDetail } from "@/hooks/useLevelOfDetail";
+import { BaseEdge } from "./BaseEdge";
+
+interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/** Zoomed-out stand-in for a connector: the bare path, without labels, markers, toolbar or parallel offsets. */
+function LowDetailEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  data,
+  selected,
+}: EdgeProps) {
+  const defaultConnectorType = useCanvasStore((s) => s.defaultEdgeConnectorType);
+  const defaultStrokeColor = useCanvasStore((s) => s.defaultEdgeStrokeColor);
+  const connectorType = (data?.connectorType as string | undefined) ?? defaultConnectorType ?? "default";
+  const pathPoints = (data?.pathPoints as PathPoint[] | undefined) ?? [];
+  const params = { sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition };
+
+  const path =
+    pathPoints.length > 0
+      ? [{ x: sourceX, y: sourceY }, ...pathPoints, { x: targetX, y: targetY }]
+          .map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`)
+          .join(" ")
+      : connectorType === "straight"
+        ? getStraightPath(params)[0]
+        : connectorType === "default"
+          ? getBezierPath({ ...params, curvature: 0.2 })[0]
+          : getSmoothStepPath({ ...params, borderRadius: connectorType === "step" ? 8 : 12 })[0];
+
+  return (
+    <BaseEdge
+      id={id}
+      path={path}
+      selected={selected}
+      strokeColor={(data?.strokeColor as string | undefined) ?? defaultStrokeColor ?? undefined}
+      strokeWidth={2}
+      strokeDasharray={data?.strokeDasharray as string | undefined}
+    />
+  );
+}
+
+/** Wrap an edge renderer so it draws as a LowDetailEdge while the canvas is zoomed out. */
+export function withEdgeLevelOfDetail(FullEdge: ComponentType<EdgeProps>) {
+  function LevelOfDetailEdge(props: EdgeProps) {
+    const lowDetail = useLowDetail();
+    return lowDetail ? <LowDetailEdge {...props} /> : <FullEdge {...props} />;
+  }
+  return memo(LevelOfDetailEdge);
+}
@@ -4,13 +4,14 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import dynamic from "next/dynamic";
 import { useCanvasStore } from "@/lib/store/canvas-store";
 import { useProjectPersistence, renameProjectApi } from "@/lib/store/project-storage";
+import { recordVersion } from "@/lib/store/version-history";
 import AppSidebar from "@/components/sidebar/AppSidebar";
 import CanvasToolbar from "@/components/toolbar/CanvasToolbar";
 import DiagramCanvas from "@/components/canvas/DiagramCanvas";
 import { cn } from "@/lib/utils";
 import { diagramToExcalidraw } from "@/lib/excalidraw-convert";
 import { excalidrawToDiagram } from "@/lib/excalidraw-convert";
-import { diagramToDrawioXml } from "@/lib/diagram-to-drawio";
+import { diagramToDrawioXml, diagramImageToDrawioXml } from "@/lib/diagram-to-drawio";
 import { excalidrawToDrawioXml } from "@/lib/excalidraw-to-drawio";
 import { validateAndFixXml } from "@/lib/drawio-utils";
 import { drawioXmlToDiagram } from "@/lib/drawio-to-diagram";
@@ -33,6 +34,14 @@ import { NodeDetailsPanel } from "@/components/panels/NodeDetailsPanel";
 import { KeyboardShortcutsPanel } from "@/components/panels/KeyboardShortcutsPanel";
 import { SearchPanel } from "@/components/panels/SearchPanel";
 import { PromptHistoryPanel } from "@/components/panels/PromptHistoryPanel";
+import { VersionHistoryPanel } from "@/components/panels/VersionHistoryPanel";
+import { CommentsPanel } from "@/components/panels/CommentsPanel";
+import { OutlinePanel } from "@/components/panels/OutlinePanel";
+import { CollabPresenceBar } from "@/components/toolbar/CollabPresenceBar";
+import { useCollabSession } from "@/hooks/useCollabSession";
+import { useSharedProjectLink } from "@/hooks/useSharedProjectLink";
+import { useProjectComments } from "@/hooks/useProjectComments";
+import { useCommentsStore } from "@/lib/store/comments-store";
 // PresentationMode is rendered inside DiagramCanvas
 import { PresentationFlowEditor } from "@/components/panels/PresentationMode";
 import { SettingsPanel } from "@/components/panels/SettingsPanel";
@@ -65,7 +74,10 @@ import {
   Minus,
   LayoutTemplate,
   History,
+  Clock,
   FolderOpen,
+  MessageSquare,
+  ListTree,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import * as Dropdown from "@radix-ui/react-dropdown-menu";
@@ -76,6 +88,9 @@ export default function EditorLayout() {
   const router = useRouter();
   // ─── Project persistence ────────────────────────────────────────
   useProjectPersistence();
+  useCollabSession();
+  useSharedProjectLink();
+  useProjectComments();
 
   const { activeTool, setActiveTool } = useCanvasStore();
   const setSearchOpen = useCanvasStore((s) => s.setSearchOpen);
@@ -83,6 +98,10 @@ export default function EditorLayout() {
   const setSettingsOpen = useCanvasStore((s) => s.setSettingsOpen);
   const setLibraryOpen = useCanvasStore((s) => s.setLibraryOpen);
   const setDailyNotesOpen = useCanvasStore((s) => s.setDailyNotesOpen);
+  const outlineOpen = useCanvasStore((s) => s.outlineOpen);
+  const setOutlineOpen = useCanvasStore((s) => s.setOutlineOpen);
+  const commentsOpen = useCommentsStore((s) => s.panelOpen);
+  const setCommentsOpen = useCommentsStore((s) => s.setPanelOpen);
   const focusedBranchNodeId = useCanvasStore((s) => s.focusedBranchNodeId);
   const setFocusedBranchNodeId = useCanvasStore((s) => s.setFocusedBranchNodeId);
   const presentationMode = useCanvasStore((s) => s.presentationMode);
@@ -151,7 +170,7 @@ export default function EditorLayout() {
   const handleConvertToDiagram = useCallback(() => {
     const els = excalidrawData?.elements ?? [];
     const { nodes: newNodes, edges: newEdges } = excalidrawToDiagram(Array.isArray(els) ? els : []);
-    pushUndo();
+    pushUndo("Convert to diagram");
     applyNodesAndEdgesInChunks(setNodes, setEdges, newNodes, newEdges);
     setCanvasMode("reactflow");
     setPendingFitView(true);
@@ -208,6 +227,7 @@ export default function EditorLayout() {
       return;
     }
     setConvertExcalidrawToDiagramLoading(true);
+    void recordVersion("ai", "Before AI: convert Excalidraw to diagram");
     try {
       const { llmProvider, llmModel, llmApiKey, cloudModelId } = useCanvasStore.getState();
       const res = await fetch("/api/diagrams/convert-excalidraw-to-diagram", {
@@ -357,7 +377,7 @@ export default function EditorLayout() {
       });
       const w = Math.min(imgEl.naturalWidth, 1600);
       const h = Math.min(imgEl.naturalHeight, 1200);
-      const xml = diagramToDrawioXml(dataUrl, w, h);
+      const xml = diagramImageToDrawioXml(dataUrl, w, h);
       setDrawioData(xml);
       setCanvasMode("drawio");
       setHasUnsavedChanges(true);
@@ -368,14 +388,13 @@ export default function EditorLayout() {
   }, [setDrawioData, setCanvasMode, setHasUnsavedChanges]);
 
   const handleConvertToDrawio = useCallback(() => {
-    const skeletons = diagramToExcalidraw(nodes, edges);
-    if (skeletons.length === 0) {
+    if (nodes.length === 0) {
       setDrawioData(null);
       setCanvasMode("drawio");
       setHasUnsavedChanges(true);
       return;
     }
-    let xml = excalidrawToDrawioXml(skeletons as { type: string; id?: string; x: number; y: number; width?: number; height?: number; label?: { text?: string }; start?: { id?: string }; end?: { id?: string } }[]);
+    let xml = diagramToDrawioXml(nodes, edges);
     const v = validateAndFixXml(xml);
     if (v.fixed) xml = v.fixed;
     setDrawioData(xml);
@@ -393,6 +412,7 @@ export default function EditorLayout() {
       return;
     }
     setConvertDrawioLoading(true);
+    void recordVersion("ai", "Before AI: convert to Draw.io");
     try {
       const { llmProvider, llmModel, llmApiKey, cloudModelId } = useCanvasStore.getState();
       const res = await fetch("/api/diagrams/convert-to-excalidraw", {
@@ -459,6 +479,7 @@ export default function EditorLayout() {
   const [exportOpen, setExportOpen] = useState(false);
   const [shareOpen, setShareOpen] = useState(false);
   const [promptHistoryOpen, setPromptHistoryOpen] = useState(false);
+  const [versionHistoryOpen, setVersionHistoryOpen] = useState(false);
   const [editingTitle, setEditingTitle] = useState(false);
   const [convertExcalidrawLoading, setConvertExcalidrawLoading] = useState(false);
   const [convertExcalidrawToDiagramLoading, setConvertExcalidrawToDiagramLoading] = useState(false);
@@ -471,6 +492,7 @@ export default function EditorLayout() {
       return;
     }
     setConvertExcalidrawLoading(true);
+    void recordVersion("ai", "Before AI: convert to Excalidraw");
     try {
       const { llmProvider, llmModel, llmApiKey, cloudModelId } = useCanvasStore.getState();
       const res = await fetch("/api/diagrams/convert-to-excalidraw", {
@@ -813,6 +835,8 @@ export default function EditorLayout() {
                 </button>
               )}
 
+              <CollabPresenceBar onClick={() => setShareOpen(true)} />
+
               {/* Quick action buttons */}
               <button
                 type="button"
@@ -838,6 +862,30 @@ export default function EditorLayout() {
               >
                 <History className="w-4 h-4 text-gray-500 dark:text-gray-400" />
               </button>
+              <button
+                type="button"
+                onClick={() => setVersionHistoryOpen(true)}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title="Version history"
+              >
+                <Clock className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setCommentsOpen(!commentsOpen)}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title="Comments"
+              >
+                <MessageSquare className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setOutlineOpen(!outlineOpen)}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title="Outline"
+              >
+                <ListTree className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+              </button>
               <button
                 type="button"
                 onClick={() => setPresentationMode(true)}
@@ -962,6 +1010,13 @@ export default function EditorLayout() {
                       <History className="w-3.5 h-3.5" />
                       Prompt history
                     </Dropdown.Item>
+                    <Dropdown.Item
+                      className="px-3 py-2 text-xs text-gray-700 dark:text-gray-200 hover:bg-violet-50 dark:hover:bg-violet-900/20 outline-none cursor-pointer flex items-center gap-2"
+                      onSelect={() => setVersionHistoryOpen(true)}
+                    >
+                      <Clock className="w-3.5 h-3.5" />
+                      Version history
+                    </Dropdown.Item>
                     <Dropdown.Item
                       className="px-3 py-2 text-xs text-gray-700 dark:text-gray-200 hover:bg-violet-50 dark:hover:bg-violet-900/20 outline-none cursor-pointer flex items-center gap-2"
                       onSelect={() => router.push("/ai-diagram")}
@@ -1048,6 +1103,8 @@ export default function EditorLayout() {
 
         {/* Feature panels */}
         <NodeDetailsPanel />
+        <CommentsPanel />
+        <OutlinePanel />
         <KeyboardShortcutsPanel />
         <SearchPanel />
         <LibraryPanel />
@@ -1056,6 +1113,7 @@ export default function EditorLayout() {
         <ExportImportPanel open={exportOpen} onClose={() => setExportOpen(false)} />
         <SharePanel open={shareOpen} onClose={() => setShareOpen(false)} />
         <PromptHistoryPanel open={promptHistoryOpen} onOpenChange={setPromptHistoryOpen} />
+        <VersionHistoryPanel open={versionHistoryOpen} onOpenChange={setVersionHistoryOpen} />
         <PresentationFlowEditor />
       </div>
     </ThemeProvider>
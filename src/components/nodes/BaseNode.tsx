@@ -2,8 +2,12 @@
 
 import { type ReactNode, useCallback, useEffect, useMemo, useState, useRef } from "react";
 import { Handle, NodeResizer, Position, useReactFlow, useUpdateNodeInternals } from "@xyflow/react";
+import { MessageSquare, Pin } from "lucide-react";
 import { NodeInlineToolbar } from "@/components/toolbar/NodeInlineToolbar";
+import { PageLinkButton } from "./PageLinkButton";
+import { NodeLinkButton } from "./NodeLinkButton";
 import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useCommentsStore, countOpenThreads } from "@/lib/store/comments-store";
 import { cn } from "@/lib/utils";
 
 /* ──────────────── Extra Handles ──────────────── */
@@ -82,6 +86,10 @@ export function BaseNode({
     return { done, total: tasks.length, percent: (done / tasks.length) * 100 };
   }, [tasks]);
 
+  // Open comment threads on this node
+  const openComments = useCommentsStore((s) => countOpenThreads(s.threads, "node", nodeId));
+  const setDetailsPanelNodeId = useCanvasStore((s) => s.setDetailsPanelNodeId);
+
   // Extra handles from node data
   const extraHandles = useMemo(
     () => (node?.data?.extraHandles as ExtraHandle[] | undefined) ?? [],
@@ -100,7 +108,8 @@ export function BaseNode({
     ...(node?.height != null && { height: node.height }),
   };
 
-  const presentationMode = useCanvasStore((s) => s.presentationMode);
+  // Presentation and the read-only viewer hide the same editing affordances.
+  const viewOnly = useCanvasStore((s) => s.presentationMode || s.readOnly);
   const { updateNodeData } = useReactFlow();
 
   // ── Floating annotation label (stored in node.data.annotation) ──
@@ -131,8 +140,8 @@ export function BaseNode({
 
   return (
     <>
-      {!presentationMode && <NodeInlineToolbar nodeId={nodeId} selected={selected} />}
-      {!presentationMode && (
+      {!viewOnly && <NodeInlineToolbar nodeId={nodeId} selected={selected} />}
+      {!viewOnly && (
         <NodeResizer
           nodeId={nodeId}
           isVisible={selected}
@@ -170,7 +179,7 @@ export function BaseNode({
       <div
         className={cn(
           "relative transition-shadow",
-          selected && !presentationMode && "ring-2 ring-violet-400 ring-offset-1 shadow-md",
+          selected && !viewOnly && "ring-2 ring-violet-400 ring-offset-1 shadow-md",
           className
         )}
         style={resolvedStyle}
@@ -199,6 +208,44 @@ export function BaseNode({
             />
           </div>
         )}
+        {/* Comment count badge */}
+        {openComments > 0 && (
+          <button
+            type="button"
+            className="nodrag nopan absolute -top-2.5 -right-2.5 flex items-center gap-0.5 h-5 min-w-5 px-1 rounded-full bg-violet-600 text-white text-[10px] font-semibold shadow-sm hover:bg-violet-700"
+            title={`${openComments} open comment thread${openComments === 1 ? "" : "s"}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setDetailsPanelNodeId(nodeId, "comments");
+            }}
+          >
+            <MessageSquare className="w-3 h-3" />
+            {openComments}
+          </button>
+        )}
+        {/* Hyperlink / link to another project or node */}
+        {node?.data?.link != null && (
+          <NodeLinkButton
+            link={node.data.link}
+            className="absolute -bottom-2.5 -right-2.5 w-5 h-5 rounded-full bg-white border border-sky-300 text-sky-600 shadow-sm hover:bg-sky-50"
+          />
+        )}
+        {/* Pinned: layouts keep this node in place */}
+        {node?.data?.pinned === true && (
+          <div
+            className="absolute -bottom-2.5 -left-2.5 flex items-center justify-center w-5 h-5 rounded-full bg-white border border-amber-300 text-amber-600 shadow-sm"
+            title="Pinned: layouts keep this node in place"
+          >
+            <Pin className="w-3 h-3" />
+          </div>
+        )}
+        {/* Link to another page of the document */}
+        {node?.data?.pageLink != null && (
+          <PageLinkButton
+            pageId={node.data.pageLink}
+            className="absolute -top-2.5 -left-2.5 h-5 px-1.5 rounded-full bg-white border border-violet-300 text-violet-700 text-[10px] font-medium shadow-sm hover:bg-violet-50"
+          />
+        )}
       </div>
       {/* ── Floating annotation label below node ── */}
       {(annotation || isEditingAnnotation) && (
@@ -225,7 +272,7 @@ export function BaseNode({
               )}
               onDoubleClick={(e) => {
                 e.stopPropagation();
-                setIsEditingAnnotation(true);
+                if (!viewOnly) setIsEditingAnnotation(true);
               }}
               title={annotation}
             >
@@ -8,6 +8,7 @@ import { Database, Plus, Trash2, Key, Link } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useCanvasStore } from "@/lib/store/canvas-store";
 import { getIconById } from "@/lib/icon-registry";
+import { COMMON_SCHEMA_TYPES, getSchemaColumnHandleIds, isCommonSchemaType } from "@/lib/database-schema";
 
 export interface SchemaColumn {
   name: string;
@@ -19,21 +20,6 @@ const DEFAULT_WIDTH = 260;
 const DEFAULT_HEIGHT = 220;
 const KEY_OPTIONS: ("PK" | "FK" | "")[] = ["", "PK", "FK"];
 
-const COMMON_TYPES = [
-  "varchar",
-  "text",
-  "uuid",
-  "int4",
-  "int8",
-  "serial",
-  "float8",
-  "boolean",
-  "timestamp",
-  "timestamptz",
-  "date",
-  "money",
-  "jsonb",
-] as const;
 const CUSTOM_TYPE = "__custom__";
 
 function DatabaseSchemaNode({ id, data, selected }: NodeProps) {
@@ -102,13 +88,7 @@ function DatabaseSchemaNode({ id, data, selected }: NodeProps) {
     [columns, updateColumn]
   );
 
-  const getHandleIds = useCallback((index: number, col: SchemaColumn) => {
-    const base = (col.name || `col-${index}`).replace(/\s+/g, "_").replace(/[^a-zA-Z0-9_]/g, "") || `col-${index}`;
-    return { target: base, source: `${base}-out` };
-  }, []);
-
-  const isCommonType = (t: string) => COMMON_TYPES.includes(t as (typeof COMMON_TYPES)[number]);
-  const showCustomType = (col: SchemaColumn) => !col.type || !isCommonType(col.type);
+  const showCustomType = (col: SchemaColumn) => !col.type || !isCommonSchemaType(col.type);
 
   return (
     <BaseNode
@@ -163,7 +143,7 @@ function DatabaseSchemaNode({ id, data, selected }: NodeProps) {
         {/* Columns */}
         <div className="flex-1 min-h-0 overflow-auto">
           {columns.map((col, i) => {
-            const { target: targetId, source: sourceId } = getHandleIds(i, col);
+            const { target: targetId, source: sourceId } = getSchemaColumnHandleIds(i, col);
             return (
               <div
                 key={i}
@@ -220,14 +200,14 @@ function DatabaseSchemaNode({ id, data, selected }: NodeProps) {
                   <div className="nodrag nokey min-h-[20px] flex items-center gap-1" key={`col-${i}-type`}>
                     <select
                       className="nodrag nokey text-[11px] text-slate-500 bg-white border border-slate-200 rounded px-1 py-0.5 h-6 min-w-0 max-w-[90px] font-mono"
-                      value={isCommonType(col.type ?? "") ? col.type : CUSTOM_TYPE}
+                      value={isCommonSchemaType(col.type ?? "") ? col.type : CUSTOM_TYPE}
                       onChange={(e) => {
                         const v = e.target.value;
                         updateColumn(i, { type: v === CUSTOM_TYPE ? "" : v });
                       }}
                       title="Column type"
                     >
-                      {COMMON_TYPES.map((t) => (
+                      {COMMON_SCHEMA_TYPES.map((t) => (
                         <option key={t} value={t}>{t}</option>
                       ))}
                       <option value={CUSTOM_TYPE}>custom...</option>
@@ -235,7 +215,7 @@ function DatabaseSchemaNode({ id, data, selected }: NodeProps) {
                     {showCustomType(col) && (
                       <EditableNodeContent
                         nodeId={id}
-                        value={isCommonType(col.type ?? "") ? "" : (col.type ?? "")}
+                        value={isCommonSchemaType(col.type ?? "") ? "" : (col.type ?? "")}
                         placeholder="type"
                         className="text-slate-500 flex-1 min-w-[30px] text-[11px] font-mono"
                         onCommit={(value) => updateColumn(i, { type: value })}
@@ -66,6 +66,7 @@ export function EditableNodeContent({
   const editingNodeId = useCanvasStore((s) => s.editingNodeId);
   const setEditingNodeId = useCanvasStore((s) => s.setEditingNodeId);
   const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const readOnly = useCanvasStore((s) => s.readOnly);
   const internalRef = useRef<HTMLDivElement>(null);
   const ref = editRef ?? internalRef;
 
@@ -129,10 +130,10 @@ export function EditableNodeContent({
   const textAlignClass = formatting?.textAlign ? TEXT_ALIGN_CLASSES[formatting.textAlign] : undefined;
 
   const handleDoubleClickToEdit = useCallback(() => {
-    if (editOnlyViaToolbar) {
+    if (editOnlyViaToolbar && !readOnly) {
       setEditingNodeId(nodeId);
     }
-  }, [editOnlyViaToolbar, nodeId, setEditingNodeId]);
+  }, [editOnlyViaToolbar, readOnly, nodeId, setEditingNodeId]);
 
   if (editOnlyViaToolbar && !isEditing) {
     return (
@@ -156,7 +157,7 @@ export function EditableNodeContent({
   return (
     <div
       ref={ref}
-      contentEditable
+      contentEditable={!readOnly}
       suppressContentEditableWarning
       className={cn(
         "nodrag nokey outline-none min-w-[1ch] cursor-text",
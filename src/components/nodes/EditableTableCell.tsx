@@ -25,6 +25,7 @@ export function EditableTableCell({
 }: EditableTableCellProps) {
   const { getNode, updateNodeData } = useReactFlow();
   const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const readOnly = useCanvasStore((s) => s.readOnly);
   const ref = useRef<HTMLDivElement>(null);
   const undoPushedRef = useRef(false);
 
@@ -64,7 +65,7 @@ export function EditableTableCell({
   return (
     <div
       ref={ref}
-      contentEditable
+      contentEditable={!readOnly}
       suppressContentEditableWarning
       className={cn(
         "nodrag nokey outline-none min-w-[1ch] cursor-text w-full min-h-[1.5em]",
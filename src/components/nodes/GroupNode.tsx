@@ -84,7 +84,8 @@ function GroupNode({ id, data: dataProp, selected }: NodeProps) {
   const hoveredNodeId = useCanvasStore((s) => s.hoveredNodeId);
   const setHoveredNodeId = useCanvasStore((s) => s.setHoveredNodeId);
   const setDetailsPanelNodeId = useCanvasStore((s) => s.setDetailsPanelNodeId);
-  const presentationMode = useCanvasStore((s) => s.presentationMode);
+  // Presentation and the read-only viewer hide the same editing affordances.
+  const viewOnly = useCanvasStore((s) => s.presentationMode || s.readOnly);
 
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(label);
@@ -166,7 +167,7 @@ function GroupNode({ id, data: dataProp, selected }: NodeProps) {
   return (
     <>
       {/* ── Group Toolbar ── */}
-      {!presentationMode && (
+      {!viewOnly && (
         <NodeToolbar position={Position.Top} offset={8} align="center" isVisible={toolbarVisible}>
           <div
             className="flex flex-wrap items-center gap-0.5 bg-gray-800 text-gray-200 rounded-lg px-1 py-1 shadow-lg border border-gray-700"
@@ -321,7 +322,7 @@ function GroupNode({ id, data: dataProp, selected }: NodeProps) {
                 fontWeight === "bold" && "font-bold",
                 fontStyle === "italic" && "italic"
               )}
-              onDoubleClick={(e) => { e.stopPropagation(); setIsEditing(true); }}
+              onDoubleClick={(e) => { e.stopPropagation(); if (!viewOnly) setIsEditing(true); }}
             >
               {label}
             </span>
@@ -364,7 +365,7 @@ function GroupNode({ id, data: dataProp, selected }: NodeProps) {
             ) : (
               <p
                 className="text-[11px] text-gray-500 truncate cursor-text"
-                onDoubleClick={(e) => { e.stopPropagation(); setIsEditingDesc(true); }}
+                onDoubleClick={(e) => { e.stopPropagation(); if (!viewOnly) setIsEditingDesc(true); }}
                 title={description}
               >
                 {description}
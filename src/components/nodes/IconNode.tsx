@@ -41,6 +41,7 @@ function IconNode({ id, data, selected }: NodeProps) {
     );
   };
   const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const readOnly = useCanvasStore((s) => s.readOnly);
   const [editingLabel, setEditingLabel] = useState(false);
   const [labelInput, setLabelInput] = useState(label ?? "");
   const inputRef = useRef<HTMLInputElement>(null);
@@ -98,7 +99,7 @@ function IconNode({ id, data, selected }: NodeProps) {
           ) : (
             <button
               type="button"
-              onClick={(e) => { e.stopPropagation(); setLabelInput(label ?? ""); setEditingLabel(true); }}
+              onClick={(e) => { e.stopPropagation(); if (readOnly) return; setLabelInput(label ?? ""); setEditingLabel(true); }}
               className={cn(
                 "w-full min-w-0 text-[10px] truncate text-center rounded px-1 py-0.5 transition-colors",
                 showLabel ? "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700" : "text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -0,0 +1,83 @@
+"use client";
+
+import { memo, type ComponentType } from "react";
+import { useStore, type NodeProps } from "@xyflow/react";
+import { cn } from "@/lib/utils";
+import { lowDetailFontSize } from "@/lib/level-of-detail";
+import { useLowDetail } from "@/hooks/useLevelOfDetail";
+
+type LowDetailVariant = "box" | "container" | "text";
+
+/**
+ * Zoomed-out stand-in for a node: a box of the node's measured size with its label. Keeping
+ * the size means React Flow keeps the handle positions it measured on the full node, so edges
+ * still attach where they did (nodes not measured yet render in full first).
+ */
+function LowDetailBox({
+  label,
+  color,
+  width,
+  height,
+  selected,
+  variant,
+}: {
+  label: string;
+  color?: string;
+  width: number;
+  height: number;
+  selected: boolean;
+  variant: LowDetailVariant;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex overflow-hidden rounded-md text-gray-800",
+        variant === "box" && "items-center justify-center border-2 border-gray-300 bg-white",
+        variant === "container" && "items-start justify-start border-2 border-dashed border-gray-300 bg-gray-50/40",
+        variant === "text" && "items-center justify-center",
+        selected && "ring-4 ring-violet-500"
+      )}
+      style={{
+        width,
+        height,
+        ...(variant === "box" && color && { backgroundColor: color }),
+      }}
+    >
+      {label && (
+        <span
+          className="px-2 font-medium leading-tight truncate"
+          style={{ fontSize: lowDetailFontSize(width, variant === "container" ? Math.min(height, 60) : height, label) }}
+        >
+          {label}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/** Wrap a node renderer so it draws as a LowDetailBox while the canvas is zoomed out. */
+export function withLevelOfDetail<P extends NodeProps>(
+  FullNode: ComponentType<P>,
+  variant: LowDetailVariant = "box"
+) {
+  function LevelOfDetailNode(props: P) {
+    const lowDetail = useLowDetail();
+    const width = useStore((s) => s.nodeLookup.get(props.id)?.measured.width ?? 0);
+    const height = useStore((s) => s.nodeLookup.get(props.id)?.measured.height ?? 0);
+    if (!lowDetail || !width || !height) return <FullNode {...props} />;
+    const label = typeof props.data?.label === "string" ? props.data.label : "";
+    const color = typeof props.data?.color === "string" ? props.data.color : undefined;
+    return (
+      <LowDetailBox
+        label={label}
+        color={color}
+        width={width}
+        height={height}
+        selected={!!props.selected}
+        variant={variant}
+      />
+    );
+  }
+  LevelOfDetailNode.displayName = `LevelOfDetail(${FullNode.displayName ?? FullNode.name ?? "Node"})`;
+  return memo(LevelOfDetailNode);
+}
@@ -21,6 +21,7 @@ import {
   ChevronRight,
   GripVertical,
   Pencil,
+  Pin,
   Wand2,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
@@ -28,6 +29,8 @@ import { cn } from "@/lib/utils";
 import { getHandlePositions, getHandleIds } from "@/lib/layout-engine";
 import { getNodeBranchStyle } from "@/lib/branch-colors";
 import { EditableNodeContent } from "./EditableNodeContent";
+import { PageLinkButton } from "./PageLinkButton";
+import { NodeLinkButton } from "./NodeLinkButton";
 import { NodeInlineToolbar } from "@/components/toolbar/NodeInlineToolbar";
 import { useMindMapLayout, useMindMapUpdateNodeData } from "@/contexts/MindMapLayoutContext";
 import { getChildCount } from "@/lib/mindmap-utils";
@@ -62,7 +65,8 @@ function MindMapNode({ id, data, selected }: NodeProps) {
   const customIcon = data.customIcon as string | undefined;
   const iconDef = getIconById(data.icon as string);
   const IconComponent = iconDef?.Icon;
-  const presentationMode = useCanvasStore((s) => s.presentationMode);
+  // Presentation and the read-only viewer hide the same editing affordances.
+  const viewOnly = useCanvasStore((s) => s.presentationMode || s.readOnly);
   const activeTool = useCanvasStore((s) => s.activeTool);
 
   // Extra handles from node data
@@ -177,8 +181,8 @@ function MindMapNode({ id, data, selected }: NodeProps) {
 
   return (
     <>
-      {!presentationMode && <NodeInlineToolbar nodeId={id} selected={selected} />}
-      {!presentationMode && (
+      {!viewOnly && <NodeInlineToolbar nodeId={id} selected={selected} />}
+      {!viewOnly && (
         <NodeResizer
           nodeId={id}
           isVisible={selected}
@@ -232,7 +236,7 @@ function MindMapNode({ id, data, selected }: NodeProps) {
       >
         {/* All 4 handles so edges always find their connection point (avoids disappearing when direction/layout mismatch) */}
         {/* Drag handle: large tap target for dragging on mobile — hidden in presentation & connector mode */}
-        {!presentationMode && activeTool !== "connector" && (
+        {!viewOnly && activeTool !== "connector" && (
           <div
             className="shrink-0 flex items-center justify-center w-9 min-w-[36px] h-9 min-h-[36px] rounded-l-2xl cursor-grab active:cursor-grabbing touch-manipulation opacity-70 hover:opacity-100 transition-opacity border border-transparent border-r-0"
             style={{
@@ -256,9 +260,9 @@ function MindMapNode({ id, data, selected }: NodeProps) {
           className={cn(
             "flex-1 min-w-0 flex items-center gap-2 px-3 py-2.5 transition-all shadow-sm",
             (activeTool === "connector" || activeTool === "freeDraw" || activeTool === "eraser") && "nodrag",
-            presentationMode ? "rounded-2xl" : activeTool === "connector" ? "rounded-2xl" : "rounded-r-2xl rounded-l-none",
+            viewOnly ? "rounded-2xl" : activeTool === "connector" ? "rounded-2xl" : "rounded-r-2xl rounded-l-none",
             "border border-transparent",
-            selected && !presentationMode && "ring-2 ring-violet-400 ring-offset-2 shadow-md"
+            selected && !viewOnly && "ring-2 ring-violet-400 ring-offset-2 shadow-md"
           )}
           style={{
             backgroundColor: branchStyle.bg,
@@ -266,7 +270,7 @@ function MindMapNode({ id, data, selected }: NodeProps) {
             color: branchStyle.text,
           }}
         >
-          {!presentationMode && (hasChildren ? (
+          {!viewOnly && (hasChildren ? (
             <button
               type="button"
               onClick={handleToggleCollapse}
@@ -309,7 +313,26 @@ function MindMapNode({ id, data, selected }: NodeProps) {
               textVerticalAlign: (data.textVerticalAlign as "top" | "center" | "bottom") ?? "center",
             }}
           />
-          {!presentationMode && (
+          <NodeLinkButton
+            link={data.link}
+            className="shrink-0 w-6 h-6 rounded hover:bg-black/5 opacity-70 hover:opacity-100"
+          />
+          {data.pageLink != null && (
+            <PageLinkButton
+              pageId={data.pageLink}
+              compact
+              className="shrink-0 justify-center w-6 h-6 rounded hover:bg-black/5 opacity-70 hover:opacity-100"
+            />
+          )}
+          {data.pinned === true && (
+            <span
+              className="shrink-0 flex items-center justify-center w-6 h-6 text-amber-600 opacity-80"
+              title="Pinned: layouts keep this node in place"
+            >
+              <Pin className="w-3.5 h-3.5" />
+            </span>
+          )}
+          {!viewOnly && (
             <button
               type="button"
               onClick={handleEdit}
@@ -321,7 +344,7 @@ function MindMapNode({ id, data, selected }: NodeProps) {
             </button>
           )}
         </div>
-        {!presentationMode && <Popover.Root open={menuOpen} onOpenChange={setMenuOpen}>
+        {!viewOnly && <Popover.Root open={menuOpen} onOpenChange={setMenuOpen}>
           <Popover.Trigger asChild>
             <button
               type="button"
@@ -0,0 +1,39 @@
+"use client";
+
+import { ExternalLink, Link2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { followNodeLink } from "@/lib/store/node-links";
+import { parseNodeLink } from "@/lib/node-links";
+
+/**
+ * Indicator for a node's link (`node.data.link`); click (or Cmd/Ctrl+click on the node) follows
+ * it. Renders nothing when the node has no valid link.
+ */
+export function NodeLinkButton({ link: value, className }: { link: unknown; className?: string }) {
+  const link = parseNodeLink(value);
+  const projectName = useCanvasStore((s) =>
+    link?.kind === "project" ? s.projects.find((p) => p.id === link.projectId)?.name : undefined
+  );
+  if (!link) return null;
+
+  const title =
+    link.kind === "url"
+      ? link.url
+      : `Open ${link.nodeId ? "node in " : ""}project "${projectName ?? "missing project"}"`;
+
+  return (
+    <button
+      type="button"
+      className={cn("nodrag nopan nokey flex items-center justify-center", className)}
+      title={`${title} (Cmd/Ctrl+click the node)`}
+      aria-label="Follow link"
+      onClick={(e) => {
+        e.stopPropagation();
+        followNodeLink(value);
+      }}
+    >
+      {link.kind === "url" ? <ExternalLink className="w-3.5 h-3.5" /> : <Link2 className="w-3.5 h-3.5" />}
+    </button>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { FileStack } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useDocumentPages } from "@/hooks/useDocumentPages";
+
+/**
+ * Jump to the document page a node links to (`node.data.pageLink`). Renders nothing when the
+ * page no longer exists or is the one already open.
+ */
+export function PageLinkButton({
+  pageId,
+  compact,
+  className,
+}: {
+  pageId: unknown;
+  /** Icon only (name in the tooltip). */
+  compact?: boolean;
+  className?: string;
+}) {
+  const { pages, activePageId, goToPage } = useDocumentPages();
+  const page = typeof pageId === "string" && pageId !== activePageId ? pages.find((p) => p.id === pageId) : undefined;
+  if (!page) return null;
+
+  return (
+    <button
+      type="button"
+      className={cn("nodrag nopan nokey flex items-center gap-1", className)}
+      title={`Go to page "${page.name}"`}
+      aria-label={`Go to page ${page.name}`}
+      onClick={(e) => {
+        e.stopPropagation();
+        goToPage(page.id);
+      }}
+    >
+      <FileStack className="w-3 h-3 shrink-0" />
+      {!compact && <span className="max-w-[120px] truncate">{page.name}</span>}
+    </button>
+  );
+}
@@ -12,4 +12,5 @@ export { default as DatabaseSchemaNode } from "./DatabaseSchemaNode";
 export { default as ServiceNode } from "./ServiceNode";
 export { default as QueueNode } from "./QueueNode";
 export { default as ActorNode } from "./ActorNode";
-export { default as GroupNode } from "./GroupNode";
\ No newline at end of file
+export { default as GroupNode } from "./GroupNode";
+export { withLevelOfDetail } from "./LowDetailNode";
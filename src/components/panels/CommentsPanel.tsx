@@ -0,0 +1,527 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { MessageSquare, X, Check, RotateCcw, Trash2, MapPin, Loader2, Crosshair } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import {
+  useCommentsStore,
+  createCommentThread,
+  replyToThread,
+  setThreadResolved,
+  deleteCommentThread,
+} from "@/lib/store/comments-store";
+import {
+  MAX_COMMENT_LENGTH,
+  mentionHandle,
+  splitMentions,
+  type CommentAnchor,
+  type CommentThread,
+} from "@/lib/comments";
+
+// ─── Shared pieces ───────────────────────────────────────────────────
+
+function formatTime(ts: number): string {
+  const diff = Date.now() - ts;
+  if (diff < 60_000) return "just now";
+  if (diff < 3_600_000) return `${Math.floor(diff / 60_000)}m ago`;
+  if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)}h ago`;
+  return new Date(ts).toLocaleDateString();
+}
+
+/** Human label for what a thread is attached to. */
+function useAnchorLabel(anchor: CommentAnchor): string {
+  return useCanvasStore((s) => {
+    if (anchor.kind === "canvas") return "Canvas";
+    const labelOf = (id: string) => {
+      const label = s.nodes.find((n) => n.id === id)?.data?.label;
+      return typeof label === "string" && label.trim() ? label : "Untitled";
+    };
+    if (anchor.kind === "node") {
+      return s.nodes.some((n) => n.id === anchor.id) ? labelOf(anchor.id) : "Deleted node";
+    }
+    const edge = s.edges.find((e) => e.id === anchor.id);
+    if (!edge) return "Deleted edge";
+    const label = edge.data?.label;
+    return typeof label === "string" && label.trim() ? label : `${labelOf(edge.source)} → ${labelOf(edge.target)}`;
+  });
+}
+
+/** Names that @ autocompletes to: everyone who commented on the project. */
+function useMentionCandidates(): string[] {
+  const threads = useCommentsStore((s) => s.threads);
+  return useMemo(() => {
+    const names = new Set<string>();
+    for (const t of threads) for (const c of t.comments) names.add(mentionHandle(c.authorName));
+    return [...names].sort((a, b) => a.localeCompare(b));
+  }, [threads]);
+}
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+      {splitMentions(body).map((part, i) =>
+        part.mention ? (
+          <span key={i} className="font-medium text-violet-600 dark:text-violet-400">
+            {part.text}
+          </span>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+/** Textarea with @mention suggestions. Enter submits, Shift+Enter adds a line. */
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  disabled,
+  autoFocus,
+  onSubmit,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+}) {
+  const [value, setValue] = useState("");
+  const [sending, setSending] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const candidates = useMentionCandidates();
+
+  // The word being typed right before the caret, when it starts with "@".
+  const mentionQuery = useMemo(() => {
+    const match = /@([\p{L}\p{N}_.-]*)$/u.exec(value.slice(0, caret));
+    return match ? match[1] : null;
+  }, [value, caret]);
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const q = mentionQuery.toLowerCase();
+    return candidates.filter((name) => name.toLowerCase().startsWith(q) && name !== mentionQuery).slice(0, 5);
+  }, [candidates, mentionQuery]);
+
+  const insertMention = useCallback(
+    (name: string) => {
+      if (mentionQuery === null) return;
+      const start = caret - mentionQuery.length;
+      const next = `${value.slice(0, start)}${name} ${value.slice(caret)}`;
+      setValue(next);
+      const pos = start + name.length + 1;
+      setCaret(pos);
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(pos, pos);
+      });
+    },
+    [value, caret, mentionQuery]
+  );
+
+  const submit = useCallback(async () => {
+    const body = value.trim();
+    if (!body || sending || disabled) return;
+    setSending(true);
+    try {
+      await onSubmit(body);
+      setValue("");
+      setCaret(0);
+    } catch (err) {
+      console.error("Comment failed:", err);
+      alert("Could not save the comment. Try again.");
+    } finally {
+      setSending(false);
+    }
+  }, [value, sending, disabled, onSubmit]);
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        autoFocus={autoFocus}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={2}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            if (suggestions.length > 0) insertMention(suggestions[0]);
+            else void submit();
+          }
+        }}
+        className="w-full px-2.5 py-2 text-xs text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg resize-none focus:ring-2 focus:ring-violet-500 focus:border-transparent outline-none placeholder-gray-400"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 bottom-full mb-1 z-10 min-w-[140px] py-1 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+          {suggestions.map((name) => (
+            <button
+              key={name}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(name);
+              }}
+              className="w-full px-2.5 py-1 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-violet-50 dark:hover:bg-violet-900/20"
+            >
+              @{name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          onClick={() => void submit()}
+          disabled={!value.trim() || sending || disabled}
+          className="px-2.5 py-1 rounded-md bg-violet-600 hover:bg-violet-700 disabled:opacity-40 text-white text-[11px] font-medium"
+        >
+          {sending ? <Loader2 className="w-3 h-3 animate-spin" /> : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CommentThreadCard({
+  thread,
+  canComment,
+  showAnchor,
+  highlighted,
+  onJump,
+}: {
+  thread: CommentThread;
+  canComment: boolean;
+  showAnchor?: boolean;
+  highlighted?: boolean;
+  onJump?: (thread: CommentThread) => void;
+}) {
+  const { userId } = useAuth();
+  const anchorLabel = useAnchorLabel(thread.anchor);
+  const [replying, setReplying] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlighted) cardRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlighted]);
+
+  const handleResolve = useCallback(async () => {
+    try {
+      await setThreadResolved(thread.id, !thread.resolvedAt);
+    } catch (err) {
+      console.error("Failed to update thread:", err);
+      alert("Could not update the thread. Try again.");
+    }
+  }, [thread.id, thread.resolvedAt]);
+
+  const handleDelete = useCallback(async () => {
+    if (!confirm("Delete this thread and all its replies?")) return;
+    try {
+      await deleteCommentThread(thread.id);
+    } catch (err) {
+      console.error("Failed to delete thread:", err);
+      alert("Could not delete the thread. Try again.");
+    }
+  }, [thread.id]);
+
+  return (
+    <div
+      ref={cardRef}
+      className={cn(
+        "rounded-lg border bg-white dark:bg-gray-900 p-2.5 space-y-2",
+        highlighted ? "border-violet-400 ring-2 ring-violet-200 dark:ring-violet-900" : "border-gray-200 dark:border-gray-700",
+        thread.resolvedAt && "opacity-70"
+      )}
+    >
+      <div className="flex items-center gap-1.5">
+        {showAnchor && (
+          <button
+            type="button"
+            onClick={() => onJump?.(thread)}
+            disabled={!onJump}
+            className="flex-1 min-w-0 flex items-center gap-1 text-[11px] text-gray-500 dark:text-gray-400 hover:text-violet-600 truncate text-left"
+            title="Show on canvas"
+          >
+            <MapPin className="w-3 h-3 shrink-0" />
+            <span className="truncate">{anchorLabel}</span>
+          </button>
+        )}
+        {!showAnchor && <div className="flex-1" />}
+        {thread.resolvedAt && <span className="text-[10px] text-green-600 font-medium">Resolved</span>}
+        {canComment && (
+          <button
+            type="button"
+            onClick={handleResolve}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600"
+            title={thread.resolvedAt ? "Reopen" : "Resolve"}
+            aria-label={thread.resolvedAt ? "Reopen thread" : "Resolve thread"}
+          >
+            {thread.resolvedAt ? <RotateCcw className="w-3.5 h-3.5" /> : <Check className="w-3.5 h-3.5" />}
+          </button>
+        )}
+        {userId && thread.createdBy === userId && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500"
+            title="Delete thread"
+            aria-label="Delete thread"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {thread.comments.map((comment) => (
+        <div key={comment.id}>
+          <div className="flex items-baseline gap-1.5">
+            <span className="text-xs font-semibold text-gray-900 dark:text-white">{comment.authorName}</span>
+            <span className="text-[10px] text-gray-400">{formatTime(comment.createdAt)}</span>
+          </div>
+          <CommentBody body={comment.body} />
+        </div>
+      ))}
+
+      {canComment && !thread.resolvedAt && (
+        replying ? (
+          <CommentComposer
+            placeholder="Reply… (@ to mention)"
+            submitLabel="Reply"
+            autoFocus
+            onSubmit={async (body) => {
+              await replyToThread(thread.id, body);
+              setReplying(false);
+            }}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setReplying(true)}
+            className="text-[11px] font-medium text-violet-600 dark:text-violet-400 hover:underline"
+          >
+            Reply
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+// ─── Node details tab ────────────────────────────────────────────────
+
+/** Threads on one node plus a composer; used by NodeDetailsPanel and the shared viewer. */
+export function NodeComments({ nodeId, canComment }: { nodeId: string; canComment: boolean }) {
+  const allThreads = useCommentsStore((s) => s.threads);
+  const status = useCommentsStore((s) => s.status);
+  const projectId = useCommentsStore((s) => s.projectId);
+  const threads = useMemo(
+    () => allThreads.filter((t) => t.anchor.kind === "node" && t.anchor.id === nodeId),
+    [allThreads, nodeId]
+  );
+
+  if (!projectId) {
+    return <p className="p-4 text-xs text-gray-500">Comments are available for cloud projects. Sign in to sync this project.</p>;
+  }
+
+  return (
+    <div className="p-4 space-y-3">
+      {status === "loading" && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+      {threads.map((thread) => (
+        <CommentThreadCard key={thread.id} thread={thread} canComment={canComment} />
+      ))}
+      {status === "ready" && threads.length === 0 && (
+        <p className="text-xs text-gray-400">No comments on this node yet.</p>
+      )}
+      {canComment && (
+        <CommentComposer
+          placeholder="Start a thread… (@ to mention)"
+          submitLabel="Comment"
+          onSubmit={async (body) => {
+            await createCommentThread({ kind: "node", id: nodeId }, body);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ─── Project-wide sidebar ────────────────────────────────────────────
+
+/** Anchor for a new thread from the sidebar: the picked canvas point, else the single selected node or edge. */
+function useComposerAnchor(): CommentAnchor | null {
+  const draftAnchor = useCommentsStore((s) => s.draftAnchor);
+  const selectedNodeId = useCanvasStore((s) => {
+    const selected = s.nodes.filter((n) => n.selected);
+    return selected.length === 1 ? selected[0].id : null;
+  });
+  const selectedEdgeId = useCanvasStore((s) => {
+    const selected = s.edges.filter((e) => e.selected);
+    return selected.length === 1 ? selected[0].id : null;
+  });
+  return useMemo(() => {
+    if (draftAnchor) return draftAnchor;
+    if (selectedNodeId) return { kind: "node", id: selectedNodeId };
+    if (selectedEdgeId) return { kind: "edge", id: selectedEdgeId };
+    return null;
+  }, [draftAnchor, selectedNodeId, selectedEdgeId]);
+}
+
+function AnchorTarget({ anchor }: { anchor: CommentAnchor }) {
+  const label = useAnchorLabel(anchor);
+  return (
+    <span className="truncate">
+      {anchor.kind === "canvas" ? "Canvas point" : anchor.kind === "node" ? `Node “${label}”` : `Edge “${label}”`}
+    </span>
+  );
+}
+
+export function CommentsPanel() {
+  const { isSignedIn } = useAuth();
+  const panelOpen = useCommentsStore((s) => s.panelOpen);
+  const setPanelOpen = useCommentsStore((s) => s.setPanelOpen);
+  const projectId = useCommentsStore((s) => s.projectId);
+  const threads = useCommentsStore((s) => s.threads);
+  const status = useCommentsStore((s) => s.status);
+  const focusedThreadId = useCommentsStore((s) => s.focusedThreadId);
+  const placingAnchor = useCommentsStore((s) => s.placingAnchor);
+  const setPlacingAnchor = useCommentsStore((s) => s.setPlacingAnchor);
+  const setDraftAnchor = useCommentsStore((s) => s.setDraftAnchor);
+  const draftAnchor = useCommentsStore((s) => s.draftAnchor);
+  const setNodes = useCanvasStore((s) => s.setNodes);
+  const setEdges = useCanvasStore((s) => s.setEdges);
+  const setPendingFitView = useCanvasStore((s) => s.setPendingFitView);
+  const setPendingFitViewNodeIds = useCanvasStore((s) => s.setPendingFitViewNodeIds);
+  const anchor = useComposerAnchor();
+  const [showResolved, setShowResolved] = useState(false);
+
+  const visible = useMemo(
+    () => [...threads].filter((t) => showResolved || !t.resolvedAt).sort((a, b) => b.updatedAt - a.updatedAt),
+    [threads, showResolved]
+  );
+  const resolvedCount = useMemo(() => threads.filter((t) => t.resolvedAt).length, [threads]);
+
+  const handleJump = useCallback(
+    (thread: CommentThread) => {
+      const a = thread.anchor;
+      if (a.kind === "node") {
+        setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === a.id })));
+        setPendingFitViewNodeIds([a.id]);
+        setPendingFitView(true);
+      } else if (a.kind === "edge") {
+        const edge = useCanvasStore.getState().edges.find((e) => e.id === a.id);
+        if (!edge) return;
+        setEdges((eds) => eds.map((e) => ({ ...e, selected: e.id === a.id })));
+        setPendingFitViewNodeIds([edge.source, edge.target]);
+        setPendingFitView(true);
+      }
+    },
+    [setNodes, setEdges, setPendingFitView, setPendingFitViewNodeIds]
+  );
+
+  if (!panelOpen) return null;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 flex pointer-events-none">
+      <div className="pointer-events-auto w-[360px] max-w-full h-full bg-gray-50 dark:bg-gray-950 border-l border-gray-200 dark:border-gray-800 shadow-xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-violet-500" />
+          <h2 className="flex-1 text-sm font-semibold text-gray-900 dark:text-white">Comments</h2>
+          <button
+            type="button"
+            onClick={() => setPanelOpen(false)}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600"
+            aria-label="Close comments"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {!projectId ? (
+          <p className="p-4 text-xs text-gray-500 dark:text-gray-400">
+            Comments are available for cloud projects. Sign in to sync this project.
+          </p>
+        ) : (
+          <>
+            {isSignedIn && (
+              <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 space-y-2">
+                <div className="flex items-center gap-1.5 text-[11px] text-gray-500 dark:text-gray-400 min-w-0">
+                  <MapPin className="w-3 h-3 shrink-0" />
+                  {anchor ? (
+                    <>
+                      <AnchorTarget anchor={anchor} />
+                      {draftAnchor && (
+                        <button
+                          type="button"
+                          onClick={() => setDraftAnchor(null)}
+                          className="ml-auto shrink-0 text-gray-400 hover:text-gray-600"
+                          aria-label="Clear canvas point"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <span>{placingAnchor ? "Click the canvas to place the comment…" : "Select a node or edge, or"}</span>
+                  )}
+                  {!anchor && !placingAnchor && (
+                    <button
+                      type="button"
+                      onClick={() => setPlacingAnchor(true)}
+                      className="flex items-center gap-0.5 font-medium text-violet-600 dark:text-violet-400 hover:underline"
+                    >
+                      <Crosshair className="w-3 h-3" />
+                      pick a point
+                    </button>
+                  )}
+                </div>
+                <CommentComposer
+                  placeholder="Start a thread… (@ to mention)"
+                  submitLabel="Comment"
+                  disabled={!anchor}
+                  onSubmit={async (body) => {
+                    if (!anchor) return;
+                    const thread = await createCommentThread(anchor, body);
+                    setPanelOpen(true, thread.id);
+                  }}
+                />
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-2">
+              {status === "loading" && <Loader2 className="w-4 h-4 animate-spin text-gray-400 mx-auto" />}
+              {status === "error" && <p className="text-xs text-red-500">Could not load comments.</p>}
+              {status === "ready" && visible.length === 0 && (
+                <p className="text-xs text-gray-400 text-center py-6">No open threads.</p>
+              )}
+              {visible.map((thread) => (
+                <CommentThreadCard
+                  key={thread.id}
+                  thread={thread}
+                  canComment={!!isSignedIn}
+                  showAnchor
+                  highlighted={thread.id === focusedThreadId}
+                  onJump={handleJump}
+                />
+              ))}
+            </div>
+
+            {resolvedCount > 0 && (
+              <label className="px-4 py-2 border-t border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 flex items-center gap-2 text-[11px] text-gray-500 dark:text-gray-400">
+                <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+                Show resolved ({resolvedCount})
+              </label>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { Panel } from "@xyflow/react";
+import { GitCompare, ChevronDown, ChevronRight, X } from "lucide-react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useDiagramDiff } from "@/hooks/useDiagramDiff";
+import { DIFF_COLORS, primaryChangeKind, type DiagramChange, type DiagramChangeKind } from "@/lib/diagram-diff";
+import { cn } from "@/lib/utils";
+
+const KIND_LABELS: Record<DiagramChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  moved: "Moved",
+  relabeled: "Relabeled",
+};
+
+const KIND_ORDER: DiagramChangeKind[] = ["added", "removed", "moved", "relabeled"];
+
+/**
+ * Change list for the active visual diff (store.diffBaseline). Rendered inside React Flow;
+ * clicking a change fits the view to it and selects it when it still exists.
+ */
+export function DiagramDiffPanel() {
+  const diff = useDiagramDiff();
+  const baseline = useCanvasStore((s) => s.diffBaseline);
+  const setDiffBaseline = useCanvasStore((s) => s.setDiffBaseline);
+  const setNodes = useCanvasStore((s) => s.setNodes);
+  const setEdges = useCanvasStore((s) => s.setEdges);
+  const setPendingFitView = useCanvasStore((s) => s.setPendingFitView);
+  const setPendingFitViewNodeIds = useCanvasStore((s) => s.setPendingFitViewNodeIds);
+  const [collapsed, setCollapsed] = useState(false);
+  const [filter, setFilter] = useState<DiagramChangeKind | null>(null);
+
+  const handleJump = useCallback(
+    (change: DiagramChange) => {
+      if (!change.kinds.includes("removed")) {
+        if (change.element === "node") {
+          setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === change.id })));
+        } else {
+          setEdges((eds) => eds.map((e) => ({ ...e, selected: e.id === change.id })));
+        }
+      }
+      setPendingFitViewNodeIds(change.focusNodeIds);
+      setPendingFitView(true);
+    },
+    [setNodes, setEdges, setPendingFitView, setPendingFitViewNodeIds]
+  );
+
+  if (!diff || !baseline) return null;
+
+  const visible = filter ? diff.changes.filter((c) => c.kinds.includes(filter)) : diff.changes;
+
+  return (
+    <Panel position="top-left" className="m-2">
+      <div className="w-72 rounded-lg bg-white/95 dark:bg-gray-900/95 shadow-lg border border-gray-200 dark:border-gray-700 flex flex-col max-h-[60vh]">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={() => setCollapsed((c) => !c)}
+            className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label={collapsed ? "Expand changes" : "Collapse changes"}
+          >
+            {collapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          </button>
+          <GitCompare className="w-3.5 h-3.5 text-violet-500 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-semibold text-gray-900 dark:text-white">
+              {diff.changes.length} change{diff.changes.length === 1 ? "" : "s"}
+            </p>
+            <p className="text-[11px] text-gray-500 dark:text-gray-400 truncate" title={baseline.title}>
+              vs {baseline.title}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setDiffBaseline(null)}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400"
+            aria-label="Close comparison"
+            title="Close comparison"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {!collapsed && (
+          <>
+            <div className="flex flex-wrap gap-1 px-3 py-2 border-b border-gray-100 dark:border-gray-800">
+              {KIND_ORDER.map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => setFilter((f) => (f === kind ? null : kind))}
+                  disabled={diff.counts[kind] === 0}
+                  className={cn(
+                    "flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] border transition-colors disabled:opacity-40",
+                    filter === kind
+                      ? "border-gray-400 bg-gray-100 dark:border-gray-500 dark:bg-gray-800"
+                      : "border-transparent hover:bg-gray-100 dark:hover:bg-gray-800"
+                  )}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIFF_COLORS[kind] }} />
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {diff.counts[kind]} {KIND_LABELS[kind].toLowerCase()}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {visible.length === 0 ? (
+              <div className="px-3 py-4 text-xs text-gray-500 dark:text-gray-400">No differences.</div>
+            ) : (
+              <div className="flex-1 overflow-y-auto py-1">
+                {visible.map((change) => (
+                  <button
+                    key={`${change.element}:${change.id}`}
+                    type="button"
+                    onClick={() => handleJump(change)}
+                    className="w-full flex items-start gap-2 px-3 py-1.5 text-left hover:bg-violet-50 dark:hover:bg-violet-900/20"
+                  >
+                    <span
+                      className="mt-1 w-2 h-2 rounded-full shrink-0"
+                      style={{ backgroundColor: DIFF_COLORS[primaryChangeKind(change.kinds)] }}
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-xs text-gray-900 dark:text-white truncate">{change.label}</span>
+                      <span className="block text-[11px] text-gray-500 dark:text-gray-400 truncate">
+                        {change.element === "node" ? "Node" : "Edge"} · {change.kinds.map((k) => KIND_LABELS[k]).join(", ")}
+                        {change.previousLabel !== undefined && <> · was “{change.previousLabel || "empty"}”</>}
+                      </span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Panel>
+  );
+}
@@ -1,10 +1,29 @@
 "use client";
 
-import { useCallback, useRef } from "react";
-import { Download, Upload, X, FileJson, FileText, FileCode, Image } from "lucide-react";
+import { useCallback, useRef, useState } from "react";
+import { Download, Upload, X, FileJson, FileText, FileCode, Image, GitBranch, Loader2, Database, ListTree } from "lucide-react";
+import type { Node, Edge } from "@xyflow/react";
 import { toPng } from "html-to-image";
 import { useCanvasStore } from "@/lib/store/canvas-store";
 import { applyNodesAndEdgesInChunks } from "@/lib/chunked-nodes";
+import { diagramToSvg, type SvgExportTheme } from "@/lib/diagram-to-svg";
+import { layoutMermaidDiagram } from "@/lib/mermaid-to-diagram";
+import { layoutSqlDiagram } from "@/lib/sql-to-diagram";
+import { diagramToMermaid } from "@/lib/diagram-to-mermaid";
+import { diagramToDrizzleSchema, diagramToPostgresSql } from "@/lib/diagram-to-sql";
+import {
+  detectOutlineFormat,
+  layoutOutlineImport,
+  mindMapToMarkdown,
+  mindMapToOpml,
+} from "@/lib/mindmap-outline-format";
+import { importMindMapFile } from "@/lib/mindmap-file-import";
+import {
+  collectPropertyKeys,
+  formatPropertyValue,
+  getNodeProperties,
+  normalizePropertySchema,
+} from "@/lib/node-properties";
 
 interface ExportImportPanelProps {
   open: boolean;
@@ -20,16 +39,31 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
   const setNodes = useCanvasStore((s) => s.setNodes);
   const setEdges = useCanvasStore((s) => s.setEdges);
   const setPendingFitView = useCanvasStore((s) => s.setPendingFitView);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const setCanvasMode = useCanvasStore((s) => s.setCanvasMode);
+  const setPendingApplyLayout = useCanvasStore((s) => s.setPendingApplyLayout);
+  const mindMapLayout = useCanvasStore((s) => s.mindMapLayout);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [svgTheme, setSvgTheme] = useState<SvgExportTheme>(() =>
+    typeof document !== "undefined" && document.documentElement.classList.contains("dark") ? "dark" : "light"
+  );
+  const [svgPadding, setSvgPadding] = useState(40);
+  const [svgSelectionOnly, setSvgSelectionOnly] = useState(false);
+  const selectedCount = nodes.filter((n) => n.selected).length;
+  const schemaNodes = nodes.filter((n) => n.type === "databaseSchema");
+  const selectedSchemaCount = schemaNodes.filter((n) => n.selected).length;
+  const hasMindMap = nodes.some((n) => n.type === "mindMap");
 
   // Export as JSON
   const handleExportJSON = useCallback(() => {
+    const { projects, activeProjectId } = useCanvasStore.getState();
     const data = {
       version: 1,
       nodes,
       edges,
       nodeNotes,
       nodeTasks,
+      propertySchema: projects.find((p) => p.id === activeProjectId)?.propertySchema,
       exportedAt: new Date().toISOString(),
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], {
@@ -43,8 +77,19 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
     URL.revokeObjectURL(url);
   }, [nodes, edges, nodeNotes, nodeTasks]);
 
-  // Export as Markdown
+  // Export as Markdown: mind maps as nested bullets (outliner-friendly), other diagrams as a node list
   const handleExportMarkdown = useCallback(() => {
+    if (hasMindMap) {
+      const blob = new Blob([mindMapToMarkdown(nodes, edges, nodeNotes, nodeTasks)], { type: "text/markdown" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `mindmap-${Date.now()}.md`;
+      a.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
     let md = "# Diagram Export\n\n";
 
     // Nodes
@@ -55,6 +100,9 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
       md += `### ${label}\n`;
       md += `- **Type**: ${type}\n`;
       md += `- **Position**: (${Math.round(node.position.x)}, ${Math.round(node.position.y)})\n`;
+      getNodeProperties(node.data).forEach((p) => {
+        md += `- **${p.key}**: ${formatPropertyValue(p.value)}\n`;
+      });
 
       const note = nodeNotes[node.id];
       if (note) {
@@ -71,6 +119,27 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
       md += "\n";
     });
 
+    // Properties as a table (one row per node that has any), for inventories
+    const { projects, activeProjectId } = useCanvasStore.getState();
+    const schema = normalizePropertySchema(projects.find((p) => p.id === activeProjectId)?.propertySchema);
+    const propertyKeys = collectPropertyKeys(nodes, schema);
+    const withProperties = nodes.filter((n) => getNodeProperties(n.data).length > 0);
+    if (withProperties.length > 0) {
+      const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+      md += "## Properties\n\n";
+      md += `| Node | ${propertyKeys.map(cell).join(" | ")} |\n`;
+      md += `|${" --- |".repeat(propertyKeys.length + 1)}\n`;
+      withProperties.forEach((node) => {
+        const properties = getNodeProperties(node.data);
+        const values = propertyKeys.map((key) => {
+          const p = properties.find((x) => x.key === key);
+          return p ? cell(formatPropertyValue(p.value)) : "";
+        });
+        md += `| ${cell((node.data?.label as string) || "Untitled")} | ${values.join(" | ")} |\n`;
+      });
+      md += "\n";
+    }
+
     // Edges
     if (edges.length > 0) {
       md += "## Connections\n\n";
@@ -91,27 +160,83 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
     a.download = `diagram-${Date.now()}.md`;
     a.click();
     URL.revokeObjectURL(url);
+  }, [hasMindMap, nodes, edges, nodeNotes, nodeTasks]);
+
+  // Export the mind map as OPML (Workflowy, OmniOutliner, Logseq)
+  const handleExportOpml = useCallback(() => {
+    const { projects, activeProjectId } = useCanvasStore.getState();
+    const title = projects.find((p) => p.id === activeProjectId)?.name;
+    const blob = new Blob([mindMapToOpml(nodes, edges, nodeNotes, nodeTasks, title)], { type: "text/x-opml" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `mindmap-${Date.now()}.opml`;
+    a.click();
+    URL.revokeObjectURL(url);
   }, [nodes, edges, nodeNotes, nodeTasks]);
 
-  // Export as SVG (extracts the React Flow SVG edges + renders node labels)
-  const handleExportSVG = useCallback(() => {
-    const reactFlowEl = document.querySelector(".react-flow");
-    if (!reactFlowEl) return;
-
-    // Clone the SVG layer for edges
-    const svgEdges = reactFlowEl.querySelector(".react-flow__edges svg");
-    if (!svgEdges) {
-      // Fallback to JSON export if no SVG found
-      handleExportJSON();
+
+  // Export as Mermaid (mindmap / flowchart / erDiagram depending on node types)
+  const handleExportMermaid = useCallback(() => {
+    if (nodes.length === 0) {
+      alert("Nothing to export — the diagram is empty.");
       return;
     }
+    const { projects, activeProjectId } = useCanvasStore.getState();
+    const direction = projects.find((p) => p.id === activeProjectId)?.savedLayout?.direction;
+    const blob = new Blob([diagramToMermaid(nodes, edges, direction)], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `diagram-${Date.now()}.mmd`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [nodes, edges]);
 
-    const clone = svgEdges.cloneNode(true) as SVGSVGElement;
-    clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
-    clone.setAttribute("width", "1920");
-    clone.setAttribute("height", "1080");
+  // Export database schema tables (selected ones, or all) as Postgres DDL or a Drizzle schema file
+  const handleExportSchema = useCallback(
+    (format: "sql" | "drizzle") => {
+      const selectedIds = nodes.filter((n) => n.type === "databaseSchema" && n.selected).map((n) => n.id);
+      const nodeIds = selectedIds.length > 0 ? selectedIds : undefined;
+      try {
+        const content =
+          format === "sql" ? diagramToPostgresSql(nodes, edges, nodeIds) : diagramToDrizzleSchema(nodes, edges, nodeIds);
+        const blob = new Blob([content], { type: format === "sql" ? "application/sql" : "text/typescript" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = format === "sql" ? `schema-${Date.now()}.sql` : `schema-${Date.now()}.ts`;
+        a.click();
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        console.error("Schema export failed:", err);
+        alert(`Failed to export schema: ${err instanceof Error ? err.message : "unknown error"}`);
+      }
+    },
+    [nodes, edges]
+  );
 
-    const svgString = new XMLSerializer().serializeToString(clone);
+  // Export as SVG (vector render of nodes + edges, cropped to content)
+  const handleExportSVG = useCallback(() => {
+    const selectedIds = nodes.filter((n) => n.selected).map((n) => n.id);
+    const exportSelection = svgSelectionOnly && selectedIds.length > 0;
+    if ((exportSelection ? selectedIds.length : nodes.length) === 0) {
+      alert("Nothing to export — the diagram is empty.");
+      return;
+    }
+    const state = useCanvasStore.getState();
+    const svgString = diagramToSvg(nodes, edges, {
+      theme: svgTheme,
+      padding: svgPadding,
+      nodeIds: exportSelection ? selectedIds : undefined,
+      edgeDefaults: {
+        strokeColor: state.defaultEdgeStrokeColor,
+        strokeWidth: state.defaultEdgeStrokeWidth,
+        markerEnd: state.defaultEdgeMarkerEnd,
+        markerStart: state.defaultEdgeMarkerStart,
+        connectorType: state.defaultEdgeConnectorType,
+      },
+    });
     const blob = new Blob([svgString], { type: "image/svg+xml" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -119,7 +244,7 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
     a.download = `diagram-${Date.now()}.svg`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [handleExportJSON]);
+  }, [nodes, edges, svgTheme, svgPadding, svgSelectionOnly]);
 
   // Export as PNG (Diagram or Excalidraw)
   const handleExportPNG = useCallback(async () => {
@@ -191,6 +316,13 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
               useCanvasStore.getState().setNodeTasks(id, tasks as any);
             });
           }
+          // Add the file's property schema to the project's (existing definitions win)
+          const importedSchema = normalizePropertySchema(data.propertySchema);
+          if (importedSchema.length > 0) {
+            const { projects, activeProjectId, setActiveProjectPropertySchema } = useCanvasStore.getState();
+            const current = normalizePropertySchema(projects.find((p) => p.id === activeProjectId)?.propertySchema);
+            setActiveProjectPropertySchema(normalizePropertySchema([...current, ...importedSchema]));
+          }
           setPendingFitView(true);
           onClose();
         } catch {
@@ -203,6 +335,96 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
     [setNodes, setEdges, setPendingFitView, onClose]
   );
 
+  // Replace the canvas with imported React Flow nodes/edges (one undo step)
+  const applyImported = useCallback(
+    (importedNodes: Node[], importedEdges: Edge[]) => {
+      pushUndo("Import");
+      applyNodesAndEdgesInChunks(setNodes, setEdges, importedNodes, importedEdges);
+      if (canvasMode !== "reactflow") setCanvasMode("reactflow");
+      setPendingFitView(true);
+      onClose();
+    },
+    [pushUndo, setNodes, setEdges, canvasMode, setCanvasMode, setPendingFitView, onClose]
+  );
+
+  // Import a FreeMind (.mm) or XMind (.xmind) map; the mind map layout runs once the nodes are on the canvas
+  const handleImportMindMapFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      e.target.value = "";
+      try {
+        const imported = await importMindMapFile(file, mindMapLayout.direction);
+        applyImported(imported.nodes, imported.edges);
+        const { setNodeNote } = useCanvasStore.getState();
+        Object.entries(imported.nodeNotes).forEach(([id, note]) => setNodeNote(id, note));
+        setPendingApplyLayout(true);
+      } catch (err) {
+        console.error("Mind map import failed:", err);
+        alert(`Failed to import ${file.name}: ${err instanceof Error ? err.message : "invalid file"}`);
+      }
+    },
+    [applyImported, mindMapLayout.direction, setPendingApplyLayout]
+  );
+
+  // Import from the file picker: FreeMind / XMind maps, otherwise a JSON export
+  const handleImportFile = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file && /\.(mm|xmind)$/i.test(file.name)) void handleImportMindMapFile(e);
+      else handleImportJSON(e);
+    },
+    [handleImportMindMapFile, handleImportJSON]
+  );
+
+  // Import Mermaid (flowchart / sequenceDiagram / erDiagram) as editable nodes, laid out with ELK
+  const importMermaid = useCallback(
+    async (source: string) => {
+      try {
+        const { nodes: importedNodes, edges: importedEdges } = await layoutMermaidDiagram(source);
+        applyImported(importedNodes, importedEdges);
+      } catch (err) {
+        console.error("Mermaid import failed:", err);
+        alert(`Failed to import Mermaid: ${err instanceof Error ? err.message : "invalid diagram"}`);
+      }
+    },
+    [applyImported]
+  );
+
+  // Import SQL DDL (CREATE TABLE scripts) as database schema tables with FK edges
+  const importSql = useCallback(
+    async (source: string) => {
+      try {
+        const { nodes: importedNodes, edges: importedEdges } = await layoutSqlDiagram(source);
+        applyImported(importedNodes, importedEdges);
+      } catch (err) {
+        console.error("SQL import failed:", err);
+        alert(`Failed to import SQL: ${err instanceof Error ? err.message : "invalid DDL"}`);
+      }
+    },
+    [applyImported]
+  );
+
+  // Import a Markdown bullet list or OPML outline as a mind map, laid out with elk-mrtree
+  const importOutline = useCallback(
+    async (source: string) => {
+      try {
+        const imported = await layoutOutlineImport(source, detectOutlineFormat(source), mindMapLayout.direction, [
+          mindMapLayout.spacingX,
+          mindMapLayout.spacingY,
+        ]);
+        applyImported(imported.nodes, imported.edges);
+        const { setNodeNote, setNodeTasks } = useCanvasStore.getState();
+        Object.entries(imported.nodeNotes).forEach(([id, note]) => setNodeNote(id, note));
+        Object.entries(imported.nodeTasks).forEach(([id, tasks]) => setNodeTasks(id, tasks));
+      } catch (err) {
+        console.error("Outline import failed:", err);
+        alert(`Failed to import outline: ${err instanceof Error ? err.message : "invalid outline"}`);
+      }
+    },
+    [applyImported, mindMapLayout]
+  );
+
   if (!open) return null;
 
   return (
@@ -228,7 +450,7 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
             <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">
               Export
             </h3>
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
               <ExportButton
                 icon={<FileJson className="w-5 h-5" />}
                 label="JSON"
@@ -244,16 +466,87 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
               <ExportButton
                 icon={<FileText className="w-5 h-5" />}
                 label="Markdown"
-                description="Text format"
+                description={hasMindMap ? "Nested outline" : "Text format"}
                 onClick={handleExportMarkdown}
               />
+              {hasMindMap && (
+                <ExportButton
+                  icon={<ListTree className="w-5 h-5" />}
+                  label="OPML"
+                  description="Outliners"
+                  onClick={handleExportOpml}
+                />
+              )}
+              <ExportButton
+                icon={<GitBranch className="w-5 h-5" />}
+                label="Mermaid"
+                description="README / PR"
+                onClick={handleExportMermaid}
+              />
               <ExportButton
                 icon={<FileCode className="w-5 h-5" />}
                 label="SVG"
-                description="Vector"
+                description={svgSelectionOnly && selectedCount > 0 ? "Selection" : "Vector"}
                 onClick={handleExportSVG}
               />
+              {canvasMode === "reactflow" && schemaNodes.length > 0 && (
+                <>
+                  <ExportButton
+                    icon={<Database className="w-5 h-5" />}
+                    label="SQL"
+                    description={selectedSchemaCount > 0 ? `${selectedSchemaCount} selected tables` : "Postgres DDL"}
+                    onClick={() => handleExportSchema("sql")}
+                  />
+                  <ExportButton
+                    icon={<FileCode className="w-5 h-5" />}
+                    label="Drizzle"
+                    description={selectedSchemaCount > 0 ? `${selectedSchemaCount} selected tables` : "pgTable schema"}
+                    onClick={() => handleExportSchema("drizzle")}
+                  />
+                </>
+              )}
             </div>
+            {canvasMode === "reactflow" && (
+              <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+                <span className="font-medium text-gray-500 dark:text-gray-400">SVG</span>
+                <label className="flex items-center gap-1.5">
+                  Theme
+                  <select
+                    value={svgTheme}
+                    onChange={(e) => setSvgTheme(e.target.value as SvgExportTheme)}
+                    className="h-7 px-1.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                  >
+                    <option value="light">Light</option>
+                    <option value="dark">Dark</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-1.5">
+                  Padding
+                  <input
+                    type="number"
+                    min={0}
+                    max={400}
+                    step={10}
+                    value={svgPadding}
+                    onChange={(e) => setSvgPadding(Math.max(0, Math.min(400, Number(e.target.value) || 0)))}
+                    className="h-7 w-16 px-1.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                  />
+                </label>
+                <label
+                  className="flex items-center gap-1.5"
+                  title={selectedCount === 0 ? "Select nodes on the canvas to export only them" : undefined}
+                >
+                  <input
+                    type="checkbox"
+                    checked={svgSelectionOnly}
+                    disabled={selectedCount === 0}
+                    onChange={(e) => setSvgSelectionOnly(e.target.checked)}
+                    className="accent-violet-600"
+                  />
+                  Selection only{selectedCount > 0 ? ` (${selectedCount})` : ""}
+                </label>
+              </div>
+            )}
           </div>
 
           {/* Import section */}
@@ -267,15 +560,40 @@ export function ExportImportPanel({ open, onClose }: ExportImportPanelProps) {
               className="w-full flex items-center justify-center gap-2 px-4 py-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg hover:border-violet-400 hover:bg-violet-50/50 dark:hover:bg-violet-900/20 text-gray-500 hover:text-violet-600 transition-colors"
             >
               <Upload className="w-5 h-5" />
-              <span className="text-sm font-medium">Import JSON file</span>
+              <span className="text-sm font-medium">Import file</span>
+              <span className="text-xs text-gray-400">JSON, FreeMind, XMind</span>
             </button>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json"
-              onChange={handleImportJSON}
+              accept=".json,.mm,.xmind"
+              onChange={handleImportFile}
               className="hidden"
             />
+            <TextImportSection
+              icon={<GitBranch className="w-4 h-4" />}
+              label="Import Mermaid"
+              placeholder={"flowchart LR\n  A[Start] --> B{Decision}\n  B -->|Yes| C[Done]"}
+              hint="Flowchart, sequence and ER diagrams. Replaces the current canvas (undo with ⌘Z)."
+              accept=".mmd,.mermaid,.md,.txt"
+              onImport={importMermaid}
+            />
+            <TextImportSection
+              icon={<Database className="w-4 h-4" />}
+              label="Import SQL"
+              placeholder={"CREATE TABLE users (\n  id uuid PRIMARY KEY,\n  org_id int REFERENCES orgs(id)\n);"}
+              hint="Postgres or MySQL CREATE TABLE statements; foreign keys become edges. Replaces the current canvas (undo with ⌘Z)."
+              accept=".sql,.txt"
+              onImport={importSql}
+            />
+            <TextImportSection
+              icon={<ListTree className="w-4 h-4" />}
+              label="Import outline"
+              placeholder={"- Project\n  - Goals\n    Notes go on indented lines\n    - [ ] Draft plan\n  - Risks"}
+              hint="Markdown bullets or OPML (Obsidian, Logseq, Workflowy) become a mind map; indented text becomes notes, checkboxes become tasks. Replaces the current canvas (undo with ⌘Z)."
+              accept=".md,.markdown,.txt,.opml,.xml"
+              onImport={importOutline}
+            />
           </div>
         </div>
       </div>
@@ -308,3 +626,98 @@ function ExportButton({
     </button>
   );
 }
+
+/** Collapsible "paste or upload" importer for text formats (Mermaid, SQL, outlines). */
+function TextImportSection({
+  icon,
+  label,
+  placeholder,
+  hint,
+  accept,
+  onImport,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  placeholder: string;
+  hint: string;
+  accept: string;
+  onImport: (source: string) => Promise<void>;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [text, setText] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  const runImport = useCallback(
+    async (source: string) => {
+      if (!source.trim()) return;
+      setImporting(true);
+      try {
+        await onImport(source);
+      } finally {
+        setImporting(false);
+      }
+    },
+    [onImport]
+  );
+
+  const handleFile = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = () => {
+        void runImport(reader.result as string);
+      };
+      reader.readAsText(file);
+      e.target.value = "";
+    },
+    [runImport]
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="mt-2 w-full flex items-center justify-center gap-2 px-4 py-2.5 border border-gray-200 dark:border-gray-700 rounded-lg hover:border-violet-400 hover:bg-violet-50/50 dark:hover:bg-violet-900/20 text-gray-600 dark:text-gray-300 hover:text-violet-600 transition-colors"
+      >
+        {icon}
+        <span className="text-sm font-medium">{label}</span>
+      </button>
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={placeholder}
+            rows={6}
+            spellCheck={false}
+            className="w-full px-3 py-2 text-xs font-mono rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-violet-500"
+          />
+          <p className="text-[10px] text-gray-400">{hint}</p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={!text.trim() || importing}
+              onClick={() => void runImport(text)}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-violet-600 hover:bg-violet-700 disabled:opacity-50 text-white text-sm font-medium"
+            >
+              {importing && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import
+            </button>
+            <button
+              type="button"
+              disabled={importing}
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-300 hover:border-violet-400 disabled:opacity-50"
+            >
+              Upload file
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept={accept} onChange={handleFile} className="hidden" />
+        </div>
+      )}
+    </>
+  );
+}
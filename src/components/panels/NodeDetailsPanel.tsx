@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import {
   X,
   FileText,
@@ -13,12 +13,25 @@ import {
   Check,
   Square,
   Loader2,
+  MessageSquare,
+  FileStack,
+  Link2,
+  CornerUpLeft,
+  SlidersHorizontal,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useCanvasStore, type NodeTask } from "@/lib/store/canvas-store";
+import { useCommentsStore, countOpenThreads } from "@/lib/store/comments-store";
 import { uploadWithProgress } from "@/lib/upload-with-progress";
+import { getDocumentPages } from "@/lib/document-pages";
+import { formatProjectLink, normalizeLinkInput, parseNodeLink, type Backlink } from "@/lib/node-links";
+import { fetchCloudBacklinks, findLocalBacklinks } from "@/lib/store/node-links";
+import { openProjectNode } from "@/lib/store/cross-project-search";
+import { NodeComments } from "./CommentsPanel";
+import { NodePropertiesTab } from "./NodePropertiesTab";
 
-type Tab = "notes" | "tasks" | "attachments";
+type Tab = "notes" | "properties" | "tasks" | "attachments" | "comments";
+const TABS: Tab[] = ["notes", "properties", "tasks", "attachments", "comments"];
 
 export function NodeDetailsPanel() {
   const detailsPanelNodeId = useCanvasStore((s) => s.detailsPanelNodeId);
@@ -49,6 +62,17 @@ function NodeDetailsPanelContent({
   const node = nodes.find((n) => n.id === nodeId);
   const label = (node?.data?.label as string) || "Node";
   const [activeTab, setActiveTab] = useState<Tab>("notes");
+  const initialTab = useCanvasStore((s) => s.detailsPanelInitialTab);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const openComments = useCommentsStore((s) => countOpenThreads(s.threads, "node", nodeId));
+
+  // When the panel opens on a node with an initial tab request (e.g. the comment badge), switch to it
+  const tabRequest = initialTab && TABS.includes(initialTab as Tab) ? `${nodeId}:${initialTab}` : null;
+  const [handledTabRequest, setHandledTabRequest] = useState<string | null>(null);
+  if (tabRequest !== handledTabRequest) {
+    setHandledTabRequest(tabRequest);
+    if (tabRequest) setActiveTab(initialTab as Tab);
+  }
 
   return (
     <>
@@ -70,6 +94,9 @@ function NodeDetailsPanelContent({
         </button>
       </div>
 
+      <NodeLinkRow key={nodeId} nodeId={nodeId} link={node?.data?.link} readOnly={readOnly} />
+      <PageLinkRow nodeId={nodeId} pageLink={node?.data?.pageLink} readOnly={readOnly} />
+
       {/* Tabs */}
       <div className="flex border-b border-gray-200">
         <TabButton
@@ -78,6 +105,12 @@ function NodeDetailsPanelContent({
           icon={<FileText className="w-3.5 h-3.5" />}
           label="Notes"
         />
+        <TabButton
+          active={activeTab === "properties"}
+          onClick={() => setActiveTab("properties")}
+          icon={<SlidersHorizontal className="w-3.5 h-3.5" />}
+          label="Properties"
+        />
         <TabButton
           active={activeTab === "tasks"}
           onClick={() => setActiveTab("tasks")}
@@ -91,14 +124,25 @@ function NodeDetailsPanelContent({
           icon={<Paperclip className="w-3.5 h-3.5" />}
           label="Attachments"
         />
+        <TabButton
+          active={activeTab === "comments"}
+          onClick={() => setActiveTab("comments")}
+          icon={<MessageSquare className="w-3.5 h-3.5" />}
+          label="Comments"
+          badge={openComments}
+        />
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-auto">
         {activeTab === "notes" && <NotesTab nodeId={nodeId} />}
+        {activeTab === "properties" && <NodePropertiesTab key={nodeId} nodeId={nodeId} readOnly={readOnly} />}
         {activeTab === "tasks" && <TasksTab nodeId={nodeId} />}
         {activeTab === "attachments" && <AttachmentsTab nodeId={nodeId} />}
+        {activeTab === "comments" && <NodeComments nodeId={nodeId} canComment={!readOnly} />}
       </div>
+
+      <BacklinksSection nodeId={nodeId} />
     </>
   );
 }
@@ -109,12 +153,14 @@ function TabButton({
   icon,
   label,
   nodeId,
+  badge,
 }: {
   active: boolean;
   onClick: () => void;
   icon: React.ReactNode;
   label: string;
   nodeId?: string;
+  badge?: number;
 }) {
   const tasks = useCanvasStore((s) => (nodeId ? s.nodeTasks[nodeId] : undefined));
   const doneCount = tasks?.filter((t) => t.done).length ?? 0;
@@ -124,29 +170,284 @@ function TabButton({
     <button
       type="button"
       onClick={onClick}
+      title={label}
       className={cn(
-        "flex-1 flex items-center justify-center gap-1.5 px-3 py-2.5 text-xs font-medium transition-colors",
+        "flex-1 min-w-0 flex items-center justify-center gap-1 px-1.5 py-2.5 text-xs font-medium transition-colors",
         active
           ? "text-violet-700 border-b-2 border-violet-500 bg-violet-50/50"
           : "text-gray-500 hover:text-gray-700 hover:bg-gray-50"
       )}
     >
-      {icon}
-      {label}
+      <span className="shrink-0">{icon}</span>
+      <span className="truncate">{label}</span>
       {totalCount > 0 && label === "Tasks" && (
         <span className="text-[10px] bg-gray-200 text-gray-600 rounded-full px-1.5">
           {doneCount}/{totalCount}
         </span>
       )}
+      {!!badge && (
+        <span className="text-[10px] bg-violet-100 text-violet-700 rounded-full px-1.5">
+          {badge}
+        </span>
+      )}
     </button>
   );
 }
 
+// ─── Node link ────────────────────────────────────────────────────────
+
+/** Nodes of a project that a link can point at (live canvas for the open project, every page). */
+function useLinkTargetNodes(projectId: string): { id: string; label: string }[] {
+  const project = useCanvasStore((s) => s.projects.find((p) => p.id === projectId));
+  const isActive = useCanvasStore((s) => s.activeProjectId === projectId);
+  const liveNodes = useCanvasStore((s) => s.nodes);
+  const nodes = [
+    ...(isActive ? liveNodes : project?.nodes ?? []),
+    ...(project?.pages ?? []).filter((p) => p.id !== project?.activePageId).flatMap((p) => p.nodes),
+  ];
+  return nodes
+    .filter((n) => typeof n.data?.label === "string" && n.data.label.trim())
+    .map((n) => ({ id: n.id, label: (n.data.label as string).trim() }));
+}
+
+/**
+ * The node's link: a web address typed in, or a project (and optionally one of its nodes) picked
+ * from the lists. Followed from the badge on the node or with Cmd/Ctrl+click.
+ */
+function NodeLinkRow({ nodeId, link, readOnly }: { nodeId: string; link: unknown; readOnly: boolean }) {
+  const projects = useCanvasStore((s) => s.projects);
+  const activeProjectId = useCanvasStore((s) => s.activeProjectId);
+  const setNodes = useCanvasStore((s) => s.setNodes);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const parsed = parseNodeLink(link);
+  const [draft, setDraft] = useState(parsed?.kind === "url" ? parsed.url : "");
+  const [error, setError] = useState(false);
+  const linkedProjectId = parsed?.kind === "project" ? parsed.projectId : "";
+  const targetNodes = useLinkTargetNodes(linkedProjectId);
+
+  const saveLink = (next: string | null) => {
+    if ((next ?? undefined) === (typeof link === "string" ? link : undefined)) return;
+    pushUndo();
+    setNodes((nds) => nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, link: next ?? undefined } } : n)));
+  };
+
+  const commitDraft = () => {
+    if (!draft.trim()) {
+      setError(false);
+      if (parsed?.kind === "url") saveLink(null);
+      return;
+    }
+    const next = normalizeLinkInput(draft);
+    setError(!next);
+    if (next) {
+      setDraft(next);
+      saveLink(next);
+    }
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 space-y-1.5 text-xs text-gray-500">
+      <div className="flex items-center gap-2">
+        <Link2 className="w-3.5 h-3.5 shrink-0" />
+        <span className="shrink-0 w-[86px]">Link</span>
+        {parsed?.kind === "project" ? (
+          <>
+            <select
+              value={linkedProjectId}
+              onChange={(e) => saveLink(formatProjectLink(e.target.value))}
+              disabled={readOnly}
+              className="flex-1 min-w-0 px-2 py-1 text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-md"
+            >
+              {!projects.some((p) => p.id === linkedProjectId) && <option value={linkedProjectId}>Missing project</option>}
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                  {p.id === activeProjectId ? " (this project)" : ""}
+                </option>
+              ))}
+            </select>
+            <select
+              value={parsed.nodeId ?? ""}
+              onChange={(e) => saveLink(formatProjectLink(linkedProjectId, e.target.value || undefined))}
+              disabled={readOnly}
+              className="flex-1 min-w-0 px-2 py-1 text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-md"
+              title="Node in the project (open the project once to list its nodes)"
+            >
+              <option value="">Whole project</option>
+              {parsed.nodeId && !targetNodes.some((n) => n.id === parsed.nodeId) && (
+                <option value={parsed.nodeId}>Node {parsed.nodeId}</option>
+              )}
+              {targetNodes
+                .filter((n) => n.id !== nodeId)
+                .map((n) => (
+                  <option key={n.id} value={n.id}>
+                    {n.label}
+                  </option>
+                ))}
+            </select>
+          </>
+        ) : (
+          <>
+            <input
+              value={draft}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setError(false);
+              }}
+              onBlur={commitDraft}
+              onKeyDown={(e) => e.key === "Enter" && commitDraft()}
+              disabled={readOnly}
+              placeholder="https://…"
+              className={cn(
+                "flex-1 min-w-0 px-2 py-1 text-xs text-gray-700 bg-gray-50 border rounded-md focus:ring-2 focus:ring-violet-500 focus:border-transparent",
+                error ? "border-red-300" : "border-gray-200"
+              )}
+            />
+            <select
+              value=""
+              onChange={(e) => e.target.value && saveLink(formatProjectLink(e.target.value))}
+              disabled={readOnly}
+              className="w-[110px] shrink-0 px-1 py-1 text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-md"
+            >
+              <option value="">Project…</option>
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                  {p.id === activeProjectId ? " (this project)" : ""}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        {parsed && !readOnly && (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft("");
+              saveLink(null);
+            }}
+            className="p-1 rounded hover:bg-gray-100 text-gray-400 hover:text-red-500 shrink-0"
+            title="Remove link"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      {error && <p className="pl-[110px] text-[11px] text-red-500">Enter a web or mail address, or pick a project.</p>}
+    </div>
+  );
+}
+
+// ─── Backlinks ────────────────────────────────────────────────────────
+
+/** Nodes across projects whose link points at this node. */
+function BacklinksSection({ nodeId }: { nodeId: string }) {
+  const projectId = useCanvasStore((s) => s.activeProjectId);
+  const nodes = useCanvasStore((s) => s.nodes);
+  const projects = useCanvasStore((s) => s.projects);
+  const [cloud, setCloud] = useState<{ key: string; backlinks: Backlink[] } | null>(null);
+  const [status, setStatus] = useState<"idle" | "error">("idle");
+  const key = projectId ? `${projectId}#${nodeId}` : "";
+
+  // Recomputed whenever the canvas or the saved projects change (links may have been added or removed)
+  const local = useMemo(
+    () => (projectId ? findLocalBacklinks(projectId, nodeId) : []),
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- nodes/projects are read from the store inside
+    [projectId, nodeId, nodes, projects]
+  );
+
+  useEffect(() => {
+    if (!projectId) return;
+    const controller = new AbortController();
+    fetchCloudBacklinks(projectId, nodeId, controller.signal)
+      .then((backlinks) => {
+        setCloud({ key: `${projectId}#${nodeId}`, backlinks });
+        setStatus("idle");
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Backlinks lookup failed:", err);
+        setStatus("error");
+      });
+    return () => controller.abort();
+  }, [projectId, nodeId]);
+
+  const backlinks = cloud?.key === key ? local.concat(cloud.backlinks) : local;
+  if (!projectId || (backlinks.length === 0 && status !== "error")) return null;
+
+  return (
+    <div className="border-t border-gray-200 px-4 py-2 max-h-48 overflow-y-auto">
+      <p className="flex items-center gap-1.5 text-[11px] text-gray-400 uppercase tracking-wider mb-1">
+        <CornerUpLeft className="w-3 h-3" />
+        Backlinks ({backlinks.length})
+      </p>
+      {status === "error" && <p className="text-xs text-red-500">Couldn&apos;t load backlinks from the cloud.</p>}
+      {backlinks.map((b) => (
+        <button
+          key={`${b.projectId}:${b.nodeId}`}
+          type="button"
+          onClick={() => void openProjectNode(b.projectId, b.nodeId)}
+          className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left hover:bg-violet-50"
+        >
+          <span className="flex-1 min-w-0 text-sm text-gray-700 truncate">{b.label}</span>
+          <span className="text-[11px] text-gray-400 truncate max-w-[50%]">
+            {b.projectId === projectId ? "This project" : b.projectName}
+            {b.pageName ? ` · ${b.pageName}` : ""}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ─── Page link ────────────────────────────────────────────────────────
+
+/** Link the node to another page of the document (followed from the badge on the node). */
+function PageLinkRow({ nodeId, pageLink, readOnly }: { nodeId: string; pageLink: unknown; readOnly: boolean }) {
+  const storedPages = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.pages);
+  const storedActivePageId = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.activePageId);
+  const setNodes = useCanvasStore((s) => s.setNodes);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const { pages, activePageId } = getDocumentPages({ pages: storedPages, activePageId: storedActivePageId });
+  const otherPages = pages.filter((p) => p.id !== activePageId);
+  const value = typeof pageLink === "string" && otherPages.some((p) => p.id === pageLink) ? pageLink : "";
+
+  if (otherPages.length === 0 && !value) return null;
+
+  const handleChange = (next: string) => {
+    pushUndo();
+    setNodes((nds) =>
+      nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, pageLink: next || undefined } } : n))
+    );
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 flex items-center gap-2 text-xs text-gray-500">
+      <FileStack className="w-3.5 h-3.5 shrink-0" />
+      <span className="shrink-0">Links to page</span>
+      <select
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={readOnly}
+        className="flex-1 min-w-0 px-2 py-1 text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-md focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+      >
+        <option value="">None</option>
+        {otherPages.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 // ─── Notes Tab ────────────────────────────────────────────────────────
 
 function NotesTab({ nodeId }: { nodeId: string }) {
   const note = useCanvasStore((s) => s.nodeNotes[nodeId] ?? "");
   const setNodeNote = useCanvasStore((s) => s.setNodeNote);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
@@ -158,7 +459,10 @@ function NotesTab({ nodeId }: { nodeId: string }) {
       <textarea
         ref={textareaRef}
         value={note}
-        onChange={(e) => setNodeNote(nodeId, e.target.value)}
+        onChange={(e) => {
+          pushUndo("Edit note", `note:${nodeId}`);
+          setNodeNote(nodeId, e.target.value);
+        }}
         placeholder="Write your notes here... (supports Markdown)"
         className="w-full h-full min-h-[300px] px-3 py-2 text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded-lg resize-none focus:ring-2 focus:ring-violet-500 focus:border-transparent placeholder-gray-400 leading-relaxed"
       />
@@ -176,6 +480,7 @@ function TasksTab({ nodeId }: { nodeId: string }) {
   const addNodeTask = useCanvasStore((s) => s.addNodeTask);
   const toggleNodeTask = useCanvasStore((s) => s.toggleNodeTask);
   const removeNodeTask = useCanvasStore((s) => s.removeNodeTask);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
   const [newTaskText, setNewTaskText] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -189,10 +494,11 @@ function TasksTab({ nodeId }: { nodeId: string }) {
       text: newTaskText.trim(),
       done: false,
     };
+    pushUndo("Add task");
     addNodeTask(nodeId, task);
     setNewTaskText("");
     inputRef.current?.focus();
-  }, [nodeId, newTaskText, addNodeTask]);
+  }, [nodeId, newTaskText, addNodeTask, pushUndo]);
 
   return (
     <div className="p-4 flex flex-col gap-3">
@@ -221,7 +527,10 @@ function TasksTab({ nodeId }: { nodeId: string }) {
           >
             <button
               type="button"
-              onClick={() => toggleNodeTask(nodeId, task.id)}
+              onClick={() => {
+                pushUndo(task.done ? "Reopen task" : "Complete task");
+                toggleNodeTask(nodeId, task.id);
+              }}
               className="shrink-0 text-gray-400 hover:text-green-500"
             >
               {task.done ? (
@@ -240,7 +549,10 @@ function TasksTab({ nodeId }: { nodeId: string }) {
             </span>
             <button
               type="button"
-              onClick={() => removeNodeTask(nodeId, task.id)}
+              onClick={() => {
+                pushUndo("Delete task");
+                removeNodeTask(nodeId, task.id);
+              }}
               className="shrink-0 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 transition-opacity"
             >
               <Trash2 className="w-3.5 h-3.5" />
@@ -286,6 +598,7 @@ function AttachmentsTab({ nodeId }: { nodeId: string }) {
   const attachments = attachmentsFromStore ?? EMPTY_ATTACHMENTS;
   const addNodeAttachment = useCanvasStore((s) => s.addNodeAttachment);
   const removeNodeAttachment = useCanvasStore((s) => s.removeNodeAttachment);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploading, setUploading] = useState<Map<string, UploadingFile>>(new Map());
 
@@ -322,6 +635,7 @@ function AttachmentsTab({ nodeId }: { nodeId: string }) {
         });
 
         if (result.ok) {
+          pushUndo("Add attachment");
           addNodeAttachment(nodeId, {
             id: `att-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
             name: file.name,
@@ -334,6 +648,7 @@ function AttachmentsTab({ nodeId }: { nodeId: string }) {
             // Fallback to data URL when S3 not configured or not signed in
             const reader = new FileReader();
             reader.onload = () => {
+              pushUndo("Add attachment");
               addNodeAttachment(nodeId, {
                 id: `att-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
                 name: file.name,
@@ -349,7 +664,7 @@ function AttachmentsTab({ nodeId }: { nodeId: string }) {
         }
       }
     },
-    [nodeId, addNodeAttachment]
+    [nodeId, addNodeAttachment, pushUndo]
   );
 
   const isImage = (type: string) => type.startsWith("image/");
@@ -432,7 +747,10 @@ function AttachmentsTab({ nodeId }: { nodeId: string }) {
               </div>
               <button
                 type="button"
-                onClick={() => removeNodeAttachment(nodeId, att.id)}
+                onClick={() => {
+                  pushUndo("Remove attachment");
+                  removeNodeAttachment(nodeId, att.id);
+                }}
                 className="shrink-0 opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-red-50 text-gray-400 hover:text-red-500 transition-all"
               >
                 <Trash2 className="w-3.5 h-3.5" />
@@ -0,0 +1,457 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Plus, Trash2, X, BookmarkPlus, Settings2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import {
+  PROPERTY_TYPES,
+  coercePropertyValue,
+  collectPropertyValues,
+  formatPropertyValue,
+  getNodeProperties,
+  normalizePropertySchema,
+  removeNodeProperty,
+  resolveNodeProperties,
+  setNodeProperty,
+  type NodeProperty,
+  type PropertyDefinition,
+  type PropertyType,
+  type PropertyValue,
+  type ResolvedProperty,
+} from "@/lib/node-properties";
+
+const inputClass =
+  "w-full min-w-0 px-2 py-1 text-xs text-gray-800 bg-gray-50 border border-gray-200 rounded-md focus:ring-2 focus:ring-violet-500 focus:border-transparent disabled:opacity-60";
+
+const STATUS_COLORS: Record<string, string> = {
+  "not started": "bg-gray-400",
+  "in progress": "bg-blue-500",
+  blocked: "bg-red-500",
+  done: "bg-green-500",
+};
+
+function typeLabel(type: PropertyType): string {
+  return PROPERTY_TYPES.find((t) => t.type === type)?.label ?? type;
+}
+
+/** The project's property schema (normalized) and a setter that saves it on the project. */
+function usePropertySchema(): [PropertyDefinition[], (schema: PropertyDefinition[]) => void] {
+  const stored = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.propertySchema);
+  const setSchema = useCanvasStore((s) => s.setActiveProjectPropertySchema);
+  const schema = useMemo(() => normalizePropertySchema(stored), [stored]);
+  return [schema, setSchema];
+}
+
+// ─── Properties Tab ───────────────────────────────────────────────────
+
+/** Typed custom properties of a node: the project's schema properties first, then the node's own. */
+export function NodePropertiesTab({ nodeId, readOnly }: { nodeId: string; readOnly: boolean }) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const setNodes = useCanvasStore((s) => s.setNodes);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const [schema, setSchema] = usePropertySchema();
+  const node = nodes.find((n) => n.id === nodeId);
+  const properties = useMemo(() => getNodeProperties(node?.data), [node?.data]);
+  const resolved = useMemo(() => resolveNodeProperties(properties, schema), [properties, schema]);
+  // A property being added: shown as a row until it gets a value
+  const [pending, setPending] = useState<NodeProperty | null>(null);
+  const [newKey, setNewKey] = useState("");
+  const [newType, setNewType] = useState<PropertyType>("text");
+  const [editingSchema, setEditingSchema] = useState(false);
+
+  const updateProperties = (next: NodeProperty[]) => {
+    pushUndo();
+    setNodes((nds) =>
+      nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, properties: next.length > 0 ? next : undefined } } : n))
+    );
+  };
+
+  const commitValue = (property: ResolvedProperty, value: PropertyValue) => {
+    const current = properties.find((p) => p.key === property.key);
+    const next = coercePropertyValue(value, property.type);
+    if (pending?.key === property.key) setPending(null);
+    if (current && formatPropertyValue(current.value) === formatPropertyValue(next) && current.type === property.type) return;
+    if (!current && formatPropertyValue(next) === "") return;
+    updateProperties(setNodeProperty(properties, { key: property.key, type: property.type, value: next }));
+  };
+
+  const handleAdd = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    if (resolved.some((p) => p.key.toLowerCase() === key.toLowerCase())) {
+      alert(`This node already has a property named "${key}".`);
+      return;
+    }
+    setPending({ key, type: newType, value: coercePropertyValue(undefined, newType) });
+    setNewKey("");
+  };
+
+  const rows: ResolvedProperty[] = pending
+    ? [...resolved, { ...pending, options: [], inSchema: false, isSet: false }]
+    : resolved;
+
+  return (
+    <div className="p-4 flex flex-col gap-3">
+      {rows.length === 0 && (
+        <p className="text-xs text-gray-400">
+          No properties yet. Add owners, statuses, dates or tags to use the diagram as an inventory; they export with
+          JSON and Markdown and can be filtered in search.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {rows.map((property) => (
+          <div key={property.key} className="group grid grid-cols-[110px_1fr_auto] items-start gap-2">
+            <div className="pt-1 min-w-0">
+              <p className="text-xs font-medium text-gray-700 truncate" title={property.key}>
+                {property.key}
+              </p>
+              <p className="text-[10px] text-gray-400">
+                {typeLabel(property.type)}
+                {property.inSchema && " · project"}
+              </p>
+            </div>
+            <PropertyEditor
+              // Remount when the stored value changes so text drafts pick it up
+              key={`${property.type}:${formatPropertyValue(property.value)}`}
+              property={property}
+              nodes={nodes}
+              readOnly={readOnly}
+              autoFocus={pending?.key === property.key}
+              onCommit={(value) => commitValue(property, value)}
+            />
+            {!readOnly && (
+              <div className="flex items-center gap-0.5 pt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {!property.inSchema && property.isSet && (
+                  <button
+                    type="button"
+                    onClick={() => setSchema([...schema, { key: property.key, type: property.type }])}
+                    className="text-gray-400 hover:text-violet-600"
+                    title="Add to project properties (offered on every node)"
+                  >
+                    <BookmarkPlus className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {(property.isSet || pending?.key === property.key) && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (pending?.key === property.key) setPending(null);
+                      else updateProperties(removeNodeProperty(properties, property.key));
+                    }}
+                    className="text-gray-400 hover:text-red-500"
+                    title={property.inSchema ? "Clear value" : "Remove property"}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <div className="flex items-center gap-2 pt-1">
+          <input
+            type="text"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleAdd();
+            }}
+            placeholder="Add a property..."
+            className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+          />
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as PropertyType)}
+            className="px-2 py-2 text-xs text-gray-700 border border-gray-200 rounded-lg bg-white"
+            aria-label="Property type"
+          >
+            {PROPERTY_TYPES.map((t) => (
+              <option key={t.type} value={t.type}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!newKey.trim()}
+            className="p-2 rounded-lg bg-violet-600 text-white hover:bg-violet-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="border-t border-gray-100 pt-3">
+          <button
+            type="button"
+            onClick={() => setEditingSchema((v) => !v)}
+            className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-violet-600"
+          >
+            <Settings2 className="w-3.5 h-3.5" />
+            Project properties ({schema.length})
+          </button>
+          {editingSchema && <PropertySchemaEditor schema={schema} onChange={setSchema} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Value editors ────────────────────────────────────────────────────
+
+function PropertyEditor({
+  property,
+  nodes,
+  readOnly,
+  autoFocus,
+  onCommit,
+}: {
+  property: ResolvedProperty;
+  nodes: { data?: Record<string, unknown> }[];
+  readOnly: boolean;
+  autoFocus?: boolean;
+  onCommit: (value: PropertyValue) => void;
+}) {
+  const [draft, setDraft] = useState(Array.isArray(property.value) ? "" : String(property.value));
+  const listId = `property-values-${property.key.replace(/\W+/g, "-")}`;
+
+  if (property.type === "tags") {
+    return <TagsEditor tags={property.value as string[]} nodes={nodes} propertyKey={property.key} readOnly={readOnly} onCommit={onCommit} />;
+  }
+
+  if (property.type === "date") {
+    return (
+      <input
+        type="date"
+        value={draft}
+        disabled={readOnly}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          onCommit(e.target.value);
+        }}
+        className={inputClass}
+      />
+    );
+  }
+
+  if ((property.type === "select" || property.type === "status") && property.options.length > 0) {
+    const value = String(property.value);
+    // Keep a value that is no longer among the options visible rather than silently dropping it
+    const options = value && !property.options.includes(value) ? [...property.options, value] : property.options;
+    return (
+      <div className="flex items-center gap-1.5 min-w-0">
+        {property.type === "status" && (
+          <span className={cn("w-2 h-2 rounded-full shrink-0", STATUS_COLORS[value.toLowerCase()] ?? (value ? "bg-violet-500" : "bg-gray-200"))} />
+        )}
+        <select value={value} disabled={readOnly} onChange={(e) => onCommit(e.target.value)} className={inputClass}>
+          <option value="">—</option>
+          {options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  // Text, number, owner, and select/status without options: free entry, suggesting values used elsewhere
+  const suggest = property.type !== "text" && property.type !== "number";
+  return (
+    <>
+      <input
+        type={property.type === "number" ? "number" : "text"}
+        autoFocus={autoFocus}
+        value={draft}
+        disabled={readOnly}
+        list={suggest ? listId : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onCommit(draft)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+          if (e.key === "Escape") setDraft(String(property.value));
+        }}
+        placeholder={property.type === "owner" ? "Name or team" : "Empty"}
+        className={inputClass}
+      />
+      {suggest && (
+        <datalist id={listId}>
+          {collectPropertyValues(nodes, property.key).map((v) => (
+            <option key={v} value={v} />
+          ))}
+        </datalist>
+      )}
+    </>
+  );
+}
+
+function TagsEditor({
+  tags,
+  nodes,
+  propertyKey,
+  readOnly,
+  onCommit,
+}: {
+  tags: string[];
+  nodes: { data?: Record<string, unknown> }[];
+  propertyKey: string;
+  readOnly: boolean;
+  onCommit: (value: PropertyValue) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const listId = `property-tags-${propertyKey.replace(/\W+/g, "-")}`;
+
+  const addDraft = () => {
+    if (!draft.trim()) return;
+    onCommit([...tags, ...draft.split(",")]);
+    setDraft("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 min-w-0 px-1.5 py-1 bg-gray-50 border border-gray-200 rounded-md">
+      {tags.map((tag) => (
+        <span key={tag} className="flex items-center gap-0.5 px-1.5 py-0.5 text-[11px] rounded-full bg-violet-100 text-violet-700">
+          {tag}
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={() => onCommit(tags.filter((t) => t !== tag))}
+              className="hover:text-violet-900"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      {!readOnly && (
+        <>
+          <input
+            type="text"
+            value={draft}
+            list={listId}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={addDraft}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addDraft();
+              }
+              if (e.key === "Backspace" && !draft && tags.length > 0) onCommit(tags.slice(0, -1));
+            }}
+            placeholder={tags.length === 0 ? "Add tags..." : ""}
+            className="flex-1 min-w-[60px] text-xs bg-transparent outline-none"
+          />
+          <datalist id={listId}>
+            {collectPropertyValues(nodes, propertyKey)
+              .filter((v) => !tags.includes(v))
+              .map((v) => (
+                <option key={v} value={v} />
+              ))}
+          </datalist>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ─── Project schema ───────────────────────────────────────────────────
+
+/** Edit the properties offered on every node of the project. */
+function PropertySchemaEditor({
+  schema,
+  onChange,
+}: {
+  schema: PropertyDefinition[];
+  onChange: (schema: PropertyDefinition[]) => void;
+}) {
+  const [newKey, setNewKey] = useState("");
+
+  const update = (index: number, patch: Partial<PropertyDefinition>) =>
+    onChange(schema.map((def, i) => (i === index ? { ...def, ...patch } : def)));
+
+  const handleAdd = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    if (schema.some((d) => d.key.toLowerCase() === key.toLowerCase())) {
+      alert(`The project already has a property named "${key}".`);
+      return;
+    }
+    onChange([...schema, { key, type: "text" }]);
+    setNewKey("");
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-2">
+      <p className="text-[11px] text-gray-400">
+        Offered on every node of this project. Removing one keeps the values already set on nodes.
+      </p>
+      {schema.map((def, index) => (
+        <div key={def.key} className="flex flex-col gap-1 p-2 rounded-lg bg-gray-50">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 min-w-0 text-xs font-medium text-gray-700 truncate">{def.key}</span>
+            <select
+              value={def.type}
+              onChange={(e) => update(index, { type: e.target.value as PropertyType })}
+              className="px-1.5 py-0.5 text-xs text-gray-700 border border-gray-200 rounded bg-white"
+              aria-label={`Type of ${def.key}`}
+            >
+              {PROPERTY_TYPES.map((t) => (
+                <option key={t.type} value={t.type}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(schema.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-500"
+              title="Remove from project properties"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {(def.type === "select" || def.type === "status") && (
+            <input
+              type="text"
+              defaultValue={(def.options ?? []).join(", ")}
+              onBlur={(e) => {
+                const options = coercePropertyValue(e.target.value, "tags") as string[];
+                update(index, { options: options.length > 0 ? options : undefined });
+              }}
+              placeholder={def.type === "status" ? "Not started, In progress, Blocked, Done" : "Options, comma-separated"}
+              className={inputClass}
+            />
+          )}
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="New project property..."
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!newKey.trim()}
+          className="p-1.5 rounded-md bg-violet-600 text-white hover:bg-violet-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
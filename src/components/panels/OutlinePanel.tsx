@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useMemo, useRef } from "react";
+import { X, ListTree, ChevronRight, ChevronDown, Trash2, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { getHandleIds } from "@/lib/layout-engine";
+import {
+  flattenOutline,
+  indentOutlineNode,
+  outdentOutlineNode,
+  moveOutlineNode,
+  deleteOutlineNode,
+  insertOutlineNode,
+  type OutlineEdit,
+} from "@/lib/mindmap-outline";
+
+/**
+ * Outline editor of the mind map: the mindMap node tree as an indented list, edited with the
+ * keyboard. Structural edits rewrite nodes/edges in the store and re-run the mind map layout.
+ *
+ * Enter new sibling · Tab / Shift+Tab indent / outdent · Alt+↑/↓ reorder ·
+ * Backspace on an empty row deletes it · ↑/↓ move between rows.
+ */
+export function OutlinePanel() {
+  const outlineOpen = useCanvasStore((s) => s.outlineOpen);
+  const setOutlineOpen = useCanvasStore((s) => s.setOutlineOpen);
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const setNodes = useCanvasStore((s) => s.setNodes);
+  const setEdges = useCanvasStore((s) => s.setEdges);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
+  const setPendingApplyLayout = useCanvasStore((s) => s.setPendingApplyLayout);
+  const mindMapDirection = useCanvasStore((s) => s.mindMapLayout.direction);
+  const inputRefs = useRef(new Map<string, HTMLInputElement>());
+  // Node whose label edit already has an undo snapshot (one snapshot per focused row).
+  const undoPushedFor = useRef<string | null>(null);
+  const labelChangedFor = useRef<string | null>(null);
+
+  const items = useMemo(() => (outlineOpen ? flattenOutline(nodes, edges) : []), [outlineOpen, nodes, edges]);
+
+  const focusRow = useCallback((id: string | undefined, caret: "start" | "end" = "end") => {
+    if (!id) return;
+    requestAnimationFrame(() => {
+      const input = inputRefs.current.get(id);
+      if (!input) return;
+      input.focus();
+      const pos = caret === "start" ? 0 : input.value.length;
+      input.setSelectionRange(pos, pos);
+    });
+  }, []);
+
+  /** Apply a structural edit as one undo step and lay the mind map out again. */
+  const applyEdit = useCallback(
+    (edit: OutlineEdit | null) => {
+      if (!edit) return false;
+      pushUndo();
+      setNodes(edit.nodes);
+      setEdges(edit.edges);
+      setPendingApplyLayout(true);
+      return true;
+    },
+    [pushUndo, setNodes, setEdges, setPendingApplyLayout]
+  );
+
+  const handles = useMemo(() => {
+    const { source, target } = getHandleIds(mindMapDirection);
+    return { sourceHandle: source, targetHandle: target };
+  }, [mindMapDirection]);
+
+  const handleLabelChange = useCallback(
+    (id: string, label: string) => {
+      if (undoPushedFor.current !== id) {
+        pushUndo();
+        undoPushedFor.current = id;
+      }
+      labelChangedFor.current = id;
+      setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, label } } : n)));
+    },
+    [pushUndo, setNodes]
+  );
+
+  const handleBlur = useCallback(
+    (id: string) => {
+      undoPushedFor.current = null;
+      // Node sizes follow their labels; re-layout once typing in a row is done.
+      if (labelChangedFor.current === id) {
+        labelChangedFor.current = null;
+        setPendingApplyLayout(true);
+      }
+    },
+    [setPendingApplyLayout]
+  );
+
+  const toggleCollapsed = useCallback(
+    (id: string) => {
+      pushUndo();
+      setNodes((nds) =>
+        nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, collapsed: !n.data?.collapsed } } : n))
+      );
+    },
+    [pushUndo, setNodes]
+  );
+
+  const handleDelete = useCallback(
+    (id: string) => {
+      const index = items.findIndex((item) => item.id === id);
+      const { nodes: current, edges: currentEdges } = useCanvasStore.getState();
+      applyEdit(deleteOutlineNode(current, currentEdges, id));
+      focusRow(items[index - 1]?.id ?? items[index + 1]?.id);
+    },
+    [items, applyEdit, focusRow]
+  );
+
+  const handleInsertAfter = useCallback(
+    (id: string) => {
+      const { nodes: current, edges: currentEdges } = useCanvasStore.getState();
+      const edit = insertOutlineNode(current, currentEdges, id, handles);
+      if (edit && applyEdit(edit)) focusRow(edit.newId);
+    },
+    [handles, applyEdit, focusRow]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>, id: string, index: number) => {
+      const { nodes: current, edges: currentEdges } = useCanvasStore.getState();
+      if (e.key === "Enter") {
+        e.preventDefault();
+        handleInsertAfter(id);
+      } else if (e.key === "Tab") {
+        e.preventDefault();
+        const edit = e.shiftKey ? outdentOutlineNode(current, currentEdges, id) : indentOutlineNode(current, currentEdges, id, handles);
+        if (applyEdit(edit)) focusRow(id);
+      } else if (e.altKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+        e.preventDefault();
+        if (applyEdit(moveOutlineNode(current, currentEdges, id, e.key === "ArrowUp" ? -1 : 1))) focusRow(id);
+      } else if (e.key === "ArrowUp") {
+        e.preventDefault();
+        focusRow(items[index - 1]?.id);
+      } else if (e.key === "ArrowDown") {
+        e.preventDefault();
+        focusRow(items[index + 1]?.id);
+      } else if (e.key === "Backspace" && e.currentTarget.value === "" && !items[index].hasChildren) {
+        e.preventDefault();
+        handleDelete(id);
+      } else if (e.key === "Escape") {
+        e.currentTarget.blur();
+      }
+    },
+    [items, handles, applyEdit, focusRow, handleInsertAfter, handleDelete]
+  );
+
+  const handleAddRoot = useCallback(() => {
+    const id = `node-${Date.now()}`;
+    pushUndo();
+    setNodes((nds) => [...nds, { id, type: "mindMap", position: { x: 100, y: 100 }, data: { label: "" } }]);
+    setPendingApplyLayout(true);
+    focusRow(id);
+  }, [pushUndo, setNodes, setPendingApplyLayout, focusRow]);
+
+  if (!outlineOpen) return null;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 flex pointer-events-none">
+      <div className="pointer-events-auto w-[360px] max-w-full h-full bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 shadow-xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+          <ListTree className="w-4 h-4 text-violet-500" />
+          <h2 className="flex-1 text-sm font-semibold text-gray-900 dark:text-white">Outline</h2>
+          <button
+            type="button"
+            onClick={() => setOutlineOpen(false)}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600"
+            aria-label="Close outline"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {items.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-gray-400">
+              No mind map on this canvas yet.
+            </div>
+          ) : (
+            items.map((item, index) => (
+              <div
+                key={item.id}
+                className="group flex items-center gap-1 pr-2 hover:bg-gray-50 dark:hover:bg-gray-800/60"
+                style={{ paddingLeft: 8 + item.depth * 18 }}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(item.id)}
+                  disabled={!item.hasChildren}
+                  className={cn(
+                    "w-5 h-5 flex items-center justify-center rounded text-gray-400 hover:text-gray-700 shrink-0",
+                    !item.hasChildren && "invisible"
+                  )}
+                  aria-label={item.collapsed ? "Expand" : "Collapse"}
+                >
+                  {item.collapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                </button>
+                <span className={cn("w-1.5 h-1.5 rounded-full shrink-0", item.collapsed ? "bg-violet-500" : "bg-gray-400")} />
+                <input
+                  ref={(el) => {
+                    if (el) inputRefs.current.set(item.id, el);
+                    else inputRefs.current.delete(item.id);
+                  }}
+                  value={item.label}
+                  placeholder="Untitled"
+                  onChange={(e) => handleLabelChange(item.id, e.target.value)}
+                  onKeyDown={(e) => handleKeyDown(e, item.id, index)}
+                  onBlur={() => handleBlur(item.id)}
+                  className={cn(
+                    "flex-1 min-w-0 px-1.5 py-1 text-sm bg-transparent rounded outline-none focus:bg-violet-50 dark:focus:bg-violet-900/20 text-gray-800 dark:text-gray-200 placeholder-gray-400",
+                    item.depth === 0 && "font-semibold"
+                  )}
+                />
+                <button
+                  type="button"
+                  onClick={() => handleDelete(item.id)}
+                  className="p-1 rounded text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 shrink-0"
+                  title={item.hasChildren ? "Delete with children" : "Delete"}
+                  aria-label="Delete"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-2">
+          <p className="text-[10px] text-gray-400 leading-snug">
+            Enter new · Tab / Shift+Tab indent · Alt+↑/↓ move
+          </p>
+          <button
+            type="button"
+            onClick={handleAddRoot}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-violet-600 hover:bg-violet-50 dark:hover:bg-violet-900/20 shrink-0"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Topic
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useCallback, useMemo, useState, useRef } from "react";
+import { createPortal } from "react-dom";
 import { useReactFlow } from "@xyflow/react";
 import {
   ChevronLeft,
@@ -15,118 +16,165 @@ import {
   Trash2,
   Plus,
   RotateCcw,
+  MonitorPlay,
+  Printer,
+  Frame,
+  Layers,
+  Timer,
 } from "lucide-react";
 import { useCanvasStore } from "@/lib/store/canvas-store";
+import { saveNow } from "@/lib/store/project-storage";
+import { usePresentationSlides } from "@/hooks/usePresentationSlides";
 import { cn } from "@/lib/utils";
-import type { Node } from "@xyflow/react";
+import type { DiagramSvgOptions } from "@/lib/diagram-to-svg";
+import {
+  createFrameSlide,
+  createNodesSlide,
+  defaultSlides,
+  getNodeLabel,
+  getSlideTitle,
+  getSlideView,
+  getSpeakerNotes,
+  isPresentable,
+  slideNodeIds,
+  slideStepCount,
+  slideToSvg,
+  slidesToPrintHtml,
+  SLIDE_TRANSITIONS,
+  TRANSITION_DURATION_MS,
+  type PresentationSlide,
+  type SlideTransition,
+} from "@/lib/presentation";
+
+/** Edge styling defaults for slide images, as in the SVG export. */
+function svgEdgeDefaults(): DiagramSvgOptions["edgeDefaults"] {
+  const state = useCanvasStore.getState();
+  return {
+    strokeColor: state.defaultEdgeStrokeColor,
+    strokeWidth: state.defaultEdgeStrokeWidth,
+    markerEnd: state.defaultEdgeMarkerEnd,
+    markerStart: state.defaultEdgeMarkerStart,
+    connectorType: state.defaultEdgeConnectorType,
+  };
+}
 
-/* ─── helpers ─── */
-const EXCLUDED_TYPES = new Set(["freeDraw", "edgeAnchor"]);
-const isPresentable = (n: Node) => !EXCLUDED_TYPES.has(n.type ?? "");
-const getNodeLabel = (n: Node) => (n.data?.label as string) || n.type || "Untitled";
+function formatElapsed(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
 
 /**
  * Presentation controls rendered inside <ReactFlow> (DiagramCanvas).
  * NO overlay — the canvas background is set to white by DiagramCanvas when
- * presentationMode is active. Nodes, edges, and the canvas remain fully
- * visible and clickable so users can inspect notes/progress.
+ * presentationMode is active, and the current slide is highlighted there.
+ * Arrow keys / space step through reveals and slides; the presenter view
+ * (second window) shows speaker notes, the next slide and a timer.
  */
 export function PresentationMode() {
   const presentationMode = useCanvasStore((s) => s.presentationMode);
   const setPresentationMode = useCanvasStore((s) => s.setPresentationMode);
-  const presentationNodeIndex = useCanvasStore((s) => s.presentationNodeIndex);
-  const setPresentationNodeIndex = useCanvasStore(
-    (s) => s.setPresentationNodeIndex
-  );
+  const slideIndex = useCanvasStore((s) => s.presentationNodeIndex);
+  const step = useCanvasStore((s) => s.presentationStep);
+  const setPresentationNodeIndex = useCanvasStore((s) => s.setPresentationNodeIndex);
+  const setPresentationStep = useCanvasStore((s) => s.setPresentationStep);
   const nodes = useCanvasStore((s) => s.nodes);
-  const setDetailsPanelNodeId = useCanvasStore(
-    (s) => s.setDetailsPanelNodeId
-  );
-  const presentationOrder = useCanvasStore((s) => s.presentationOrder);
+  const setDetailsPanelNodeId = useCanvasStore((s) => s.setDetailsPanelNodeId);
+  const slides = usePresentationSlides();
   const { fitView } = useReactFlow();
-
-  // Build the ordered list of presentable nodes
-  const allPresentable = useMemo(
-    () => nodes.filter(isPresentable),
-    [nodes]
+  const [presenterWindow, setPresenterWindow] = useState<Window | null>(null);
+  const zoomTimer = useRef<number | undefined>(undefined);
+
+  const currentSlide = slides[slideIndex];
+  const stepCount = currentSlide ? slideStepCount(currentSlide, nodes) : 1;
+  const atStart = slideIndex <= 0 && step <= 0;
+  const atEnd = slideIndex >= slides.length - 1 && step >= stepCount - 1;
+
+  /** Move the viewport onto a slide, animated with the slide's transition. */
+  const showSlide = useCallback(
+    (slide: PresentationSlide) => {
+      const transition: SlideTransition = slide.transition ?? "smooth";
+      const { fitIds } = getSlideView(slide, 0, useCanvasStore.getState().nodes);
+      const target = {
+        nodes: fitIds.map((id) => ({ id })),
+        padding: fitIds.length === 1 ? 0.4 : 0.15,
+        maxZoom: 1.5,
+      };
+      window.clearTimeout(zoomTimer.current);
+      if (transition === "zoom") {
+        fitView({ duration: TRANSITION_DURATION_MS.zoom, padding: 0.1 });
+        zoomTimer.current = window.setTimeout(
+          () => fitView({ ...target, duration: TRANSITION_DURATION_MS.zoom }),
+          TRANSITION_DURATION_MS.zoom + 50
+        );
+      } else {
+        fitView({ ...target, duration: TRANSITION_DURATION_MS[transition] });
+      }
+    },
+    [fitView]
   );
 
-  const presentableNodes = useMemo(() => {
-    if (presentationOrder.length === 0) return allPresentable;
-    // Use custom order — map IDs to nodes, skip any that no longer exist
-    const nodeMap = new Map(allPresentable.map((n) => [n.id, n]));
-    const ordered: Node[] = [];
-    for (const id of presentationOrder) {
-      const n = nodeMap.get(id);
-      if (n) ordered.push(n);
-    }
-    return ordered.length > 0 ? ordered : allPresentable;
-  }, [allPresentable, presentationOrder]);
-
-  const currentNode = presentableNodes[presentationNodeIndex];
-
-  const navigateTo = useCallback(
-    (index: number) => {
-      if (index < 0 || index >= presentableNodes.length) return;
-      setPresentationNodeIndex(index);
-      const node = presentableNodes[index];
-      if (!node) return;
-
-      // Zoom into the single target node
-      fitView({
-        nodes: [{ id: node.id }],
-        duration: 400,
-        padding: 0.4,
-        maxZoom: 1.5,
-      });
+  const goToSlide = useCallback(
+    (index: number, atStep = 0) => {
+      const slide = slides[index];
+      if (!slide) return;
+      setPresentationNodeIndex(index, atStep);
+      showSlide(slide);
     },
-    [presentableNodes, setPresentationNodeIndex, fitView]
+    [slides, setPresentationNodeIndex, showSlide]
   );
 
-  // On entering presentation mode, navigate to the first (or currently selected) node
+  /** Reveal the next item of the slide, or move on to the next slide. */
+  const next = useCallback(() => {
+    if (step < stepCount - 1) setPresentationStep(step + 1);
+    else goToSlide(slideIndex + 1);
+  }, [step, stepCount, slideIndex, setPresentationStep, goToSlide]);
+
+  /** Hide the last revealed item, or go back to the previous slide fully revealed. */
+  const prev = useCallback(() => {
+    if (step > 0) {
+      setPresentationStep(step - 1);
+      return;
+    }
+    const previous = slides[slideIndex - 1];
+    if (previous) goToSlide(slideIndex - 1, slideStepCount(previous, useCanvasStore.getState().nodes) - 1);
+  }, [step, slides, slideIndex, setPresentationStep, goToSlide]);
+
+  // On entering presentation mode, start at the first slide (or the one holding the selected node)
   useEffect(() => {
-    if (!presentationMode || presentableNodes.length === 0) return;
+    if (!presentationMode || slides.length === 0) return;
 
-    const selectedIdx = presentableNodes.findIndex((n) => n.selected);
+    const selected = nodes.find((n) => n.selected);
+    const selectedIdx = selected ? slides.findIndex((s) => slideNodeIds(s, nodes).includes(selected.id)) : -1;
     const startIdx = selectedIdx >= 0 ? selectedIdx : 0;
     setPresentationNodeIndex(startIdx);
 
     // Small delay so React Flow viewport is ready
-    const timer = setTimeout(() => {
-      const node = presentableNodes[startIdx];
-      if (node) {
-        fitView({
-          nodes: [{ id: node.id }],
-          duration: 500,
-          padding: 0.4,
-          maxZoom: 1.5,
-        });
-      }
-    }, 100);
+    const timer = setTimeout(() => showSlide({ ...slides[startIdx], transition: "smooth" }), 100);
 
     return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [presentationMode]);
 
-  // Keyboard navigation (arrow keys + escape)
+  // Keyboard navigation (arrow keys, space, page up/down + escape), in the presenter view too
   useEffect(() => {
     if (!presentationMode) return;
 
     const handleKey = (e: KeyboardEvent) => {
-      const inInput =
-        e.target instanceof HTMLInputElement ||
-        e.target instanceof HTMLTextAreaElement ||
-        (e.target as HTMLElement).isContentEditable;
+      // tagName rather than instanceof: events from the presenter window belong to another realm
+      const target = e.target as HTMLElement | null;
+      const inInput = target?.tagName === "INPUT" || target?.tagName === "TEXTAREA" || !!target?.isContentEditable;
       if (inInput) return;
 
-      if (e.key === "ArrowRight" || e.key === "ArrowDown" || e.key === " ") {
+      if (e.key === "ArrowRight" || e.key === "ArrowDown" || e.key === " " || e.key === "PageDown") {
         e.preventDefault();
         e.stopPropagation();
-        navigateTo(presentationNodeIndex + 1);
-      } else if (e.key === "ArrowLeft" || e.key === "ArrowUp") {
+        next();
+      } else if (e.key === "ArrowLeft" || e.key === "ArrowUp" || e.key === "PageUp") {
         e.preventDefault();
         e.stopPropagation();
-        navigateTo(presentationNodeIndex - 1);
+        prev();
       } else if (e.key === "Escape") {
         e.preventDefault();
         e.stopPropagation();
@@ -134,12 +182,51 @@ export function PresentationMode() {
       }
     };
 
-    window.addEventListener("keydown", handleKey, true);
-    return () => window.removeEventListener("keydown", handleKey, true);
-  }, [presentationMode, presentationNodeIndex, navigateTo, setPresentationMode]);
+    const targets: Window[] = presenterWindow ? [window, presenterWindow] : [window];
+    targets.forEach((w) => w.addEventListener("keydown", handleKey, true));
+    return () => targets.forEach((w) => w.removeEventListener("keydown", handleKey, true));
+  }, [presentationMode, next, prev, setPresentationMode, presenterWindow]);
+
+  const openPresenterView = useCallback(() => {
+    if (presenterWindow && !presenterWindow.closed) {
+      presenterWindow.focus();
+      return;
+    }
+    const win = window.open("", "presenter-view", "width=1024,height=640");
+    if (!win) {
+      alert("Allow pop-ups for this site to open the presenter view.");
+      return;
+    }
+    // Same styles as the app so the portal renders with Tailwind classes
+    win.document.title = "Presenter view";
+    win.document.head.querySelectorAll("link[rel='stylesheet'], style").forEach((el) => el.remove());
+    document.head
+      .querySelectorAll("link[rel='stylesheet'], style")
+      .forEach((el) => win.document.head.appendChild(el.cloneNode(true)));
+    win.document.documentElement.className = document.documentElement.className;
+    win.document.body.innerHTML = "";
+    setPresenterWindow(win);
+  }, [presenterWindow]);
+
+  // Forget the presenter window once the user closes it
+  useEffect(() => {
+    if (!presenterWindow) return;
+    const handleClose = () => setPresenterWindow(null);
+    presenterWindow.addEventListener("pagehide", handleClose);
+    return () => presenterWindow.removeEventListener("pagehide", handleClose);
+  }, [presenterWindow]);
+
+  // Close it when the presentation ends
+  useEffect(() => {
+    if (!presentationMode) presenterWindow?.close();
+  }, [presentationMode, presenterWindow]);
+
+  useEffect(() => () => window.clearTimeout(zoomTimer.current), []);
 
   if (!presentationMode) return null;
 
+  const notesNodeId = currentSlide?.frameId ?? currentSlide?.nodeIds[0];
+
   return (
     /* Bottom navigation controls — no overlay, just the nav bar */
     <div
@@ -150,8 +237,8 @@ export function PresentationMode() {
         {/* Previous */}
         <button
           type="button"
-          onClick={() => navigateTo(presentationNodeIndex - 1)}
-          disabled={presentationNodeIndex <= 0}
+          onClick={prev}
+          disabled={atStart}
           className="p-2 rounded-xl hover:bg-white/10 disabled:opacity-20 disabled:cursor-not-allowed transition-colors"
           title="Previous (←)"
         >
@@ -159,21 +246,24 @@ export function PresentationMode() {
         </button>
 
         {/* Counter */}
-        <div className="flex items-center gap-1.5 px-3 min-w-[80px] justify-center">
-          <span className="text-lg font-bold tabular-nums">
-            {presentationNodeIndex + 1}
-          </span>
-          <span className="text-gray-500 text-sm">/</span>
-          <span className="text-sm text-gray-400 tabular-nums">
-            {presentableNodes.length}
-          </span>
+        <div className="flex flex-col items-center px-3 min-w-[80px]">
+          <div className="flex items-center gap-1.5">
+            <span className="text-lg font-bold tabular-nums">{slideIndex + 1}</span>
+            <span className="text-gray-500 text-sm">/</span>
+            <span className="text-sm text-gray-400 tabular-nums">{slides.length}</span>
+          </div>
+          {stepCount > 1 && (
+            <span className="text-[10px] text-gray-500 tabular-nums">
+              step {step + 1} of {stepCount}
+            </span>
+          )}
         </div>
 
         {/* Next */}
         <button
           type="button"
-          onClick={() => navigateTo(presentationNodeIndex + 1)}
-          disabled={presentationNodeIndex >= presentableNodes.length - 1}
+          onClick={next}
+          disabled={atEnd}
           className="p-2 rounded-xl hover:bg-white/10 disabled:opacity-20 disabled:cursor-not-allowed transition-colors"
           title="Next (→)"
         >
@@ -182,10 +272,10 @@ export function PresentationMode() {
 
         <div className="w-px h-6 bg-white/10 mx-1" />
 
-        {/* Current node label */}
-        {currentNode && (
+        {/* Current slide title */}
+        {currentSlide && (
           <span className="text-sm text-gray-300 max-w-[220px] truncate font-medium">
-            {getNodeLabel(currentNode)}
+            {getSlideTitle(currentSlide, nodes)}
           </span>
         )}
 
@@ -193,32 +283,32 @@ export function PresentationMode() {
 
         {/* Slide dots / mini progress */}
         <div className="flex items-center gap-1">
-          {presentableNodes.slice(0, 12).map((n, i) => (
+          {slides.slice(0, 12).map((s, i) => (
             <button
-              key={n.id}
+              key={s.id}
               type="button"
-              onClick={() => navigateTo(i)}
+              onClick={() => goToSlide(i)}
               className={cn(
                 "w-2 h-2 rounded-full transition-all",
-                i === presentationNodeIndex
+                i === slideIndex
                   ? "bg-violet-400 scale-125"
                   : "bg-gray-600 hover:bg-gray-400"
               )}
-              title={getNodeLabel(n)}
+              title={getSlideTitle(s, nodes)}
             />
           ))}
-          {presentableNodes.length > 12 && (
-            <span className="text-[10px] text-gray-500 ml-0.5">+{presentableNodes.length - 12}</span>
+          {slides.length > 12 && (
+            <span className="text-[10px] text-gray-500 ml-0.5">+{slides.length - 12}</span>
           )}
         </div>
 
         <div className="w-px h-6 bg-white/10 mx-1" />
 
         {/* View notes button */}
-        {currentNode && (
+        {notesNodeId && (
           <button
             type="button"
-            onClick={() => setDetailsPanelNodeId(currentNode.id)}
+            onClick={() => setDetailsPanelNodeId(notesNodeId)}
             className="p-2 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
             title="View notes & tasks (Shift+E)"
           >
@@ -226,6 +316,19 @@ export function PresentationMode() {
           </button>
         )}
 
+        {/* Presenter view */}
+        <button
+          type="button"
+          onClick={openPresenterView}
+          className={cn(
+            "p-2 rounded-xl hover:bg-white/10 transition-colors",
+            presenterWindow ? "text-violet-300" : "text-gray-400 hover:text-white"
+          )}
+          title="Presenter view (notes, next slide, timer)"
+        >
+          <MonitorPlay className="w-4 h-4" />
+        </button>
+
         {/* Exit */}
         <button
           type="button"
@@ -236,6 +339,137 @@ export function PresentationMode() {
           <X className="w-5 h-5" />
         </button>
       </div>
+
+      {presenterWindow &&
+        createPortal(
+          <PresenterView
+            slides={slides}
+            slideIndex={slideIndex}
+            step={step}
+            stepCount={stepCount}
+            onPrev={prev}
+            onNext={next}
+            atStart={atStart}
+            atEnd={atEnd}
+          />,
+          presenterWindow.document.body
+        )}
+    </div>
+  );
+}
+
+/** Presenter view, rendered into the second window: speaker notes, the next slide and a timer. */
+function PresenterView({
+  slides,
+  slideIndex,
+  step,
+  stepCount,
+  onPrev,
+  onNext,
+  atStart,
+  atEnd,
+}: {
+  slides: PresentationSlide[];
+  slideIndex: number;
+  step: number;
+  stepCount: number;
+  onPrev: () => void;
+  onNext: () => void;
+  atStart: boolean;
+  atEnd: boolean;
+}) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const nodeNotes = useCanvasStore((s) => s.nodeNotes);
+  const startedAt = useCanvasStore((s) => s.presentationStartedAt);
+  const restartTimer = useCanvasStore((s) => s.restartPresentationTimer);
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const current = slides[slideIndex];
+  const upcoming = slides[slideIndex + 1];
+  const notes = current ? getSpeakerNotes(current, nodeNotes) : "";
+  const previewSvg = useMemo(
+    () => (upcoming ? slideToSvg(upcoming, nodes, edges, { padding: 24, edgeDefaults: svgEdgeDefaults() }) : null),
+    [upcoming, nodes, edges]
+  );
+  const elapsed = startedAt && now ? Math.max(0, Math.floor((now - startedAt) / 1000)) : 0;
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-gray-950 text-gray-100">
+      {/* Top bar: position + timer */}
+      <div className="flex items-center gap-4 px-6 py-3 border-b border-white/10">
+        <span className="text-sm text-gray-400 tabular-nums">
+          Slide {slideIndex + 1} / {slides.length}
+          {stepCount > 1 && ` · step ${step + 1} of ${stepCount}`}
+        </span>
+        <div className="flex-1" />
+        <Timer className="w-4 h-4 text-gray-500" />
+        <span className="text-2xl font-semibold tabular-nums">{formatElapsed(elapsed)}</span>
+        <button
+          type="button"
+          onClick={restartTimer}
+          className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+          title="Restart timer"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-[3fr_2fr] gap-6 p-6">
+        {/* Current slide + speaker notes */}
+        <div className="flex flex-col min-h-0">
+          <p className="text-[11px] uppercase tracking-wider text-gray-500 mb-1">Current</p>
+          <h1 className="text-2xl font-bold mb-4 truncate">{current ? getSlideTitle(current, nodes) : "—"}</h1>
+          <div className="flex-1 overflow-y-auto text-lg leading-relaxed whitespace-pre-wrap text-gray-200">
+            {notes || <span className="text-gray-500 italic">No speaker notes for this slide.</span>}
+          </div>
+        </div>
+
+        {/* Next slide preview */}
+        <div className="flex flex-col min-h-0">
+          <p className="text-[11px] uppercase tracking-wider text-gray-500 mb-1">Next</p>
+          <h2 className="text-base font-semibold text-gray-300 mb-3 truncate">
+            {upcoming ? getSlideTitle(upcoming, nodes) : "End of presentation"}
+          </h2>
+          <div className="aspect-video rounded-xl bg-white overflow-hidden flex items-center justify-center">
+            {previewSvg ? (
+              <div
+                className="w-full h-full [&>svg]:w-full [&>svg]:h-full"
+                dangerouslySetInnerHTML={{ __html: previewSvg }}
+              />
+            ) : (
+              <span className="text-sm text-gray-400">—</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <div className="flex items-center justify-center gap-3 px-6 py-4 border-t border-white/10">
+        <button
+          type="button"
+          onClick={onPrev}
+          disabled={atStart}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 disabled:opacity-20 disabled:cursor-not-allowed transition-colors"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={onNext}
+          disabled={atEnd}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-violet-600 hover:bg-violet-700 disabled:opacity-20 disabled:cursor-not-allowed transition-colors"
+        >
+          Next
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
     </div>
   );
 }
@@ -263,7 +497,7 @@ export function PresentationModeButton() {
         onClick={() => setPresentationEditorOpen(true)}
         disabled={!hasNodes}
         className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-        title="Edit presentation flow"
+        title="Edit presentation slides"
       >
         <ListOrdered className="w-4 h-4 text-gray-600" />
       </button>
@@ -272,43 +506,40 @@ export function PresentationModeButton() {
 }
 
 /* ═════════════════════════════════════════════════════════════════
-   Presentation Flow Editor — a panel to reorder the presentation
-   sequence by dragging or using up/down arrows.
+   Presentation Slides Editor — a panel to build the slide sequence:
+   frames and node sets, reorder by dragging or arrows, per-slide
+   reveal and transition. Saved with the project.
    ═════════════════════════════════════════════════════════════════ */
 
 export function PresentationFlowEditor() {
   const open = useCanvasStore((s) => s.presentationEditorOpen);
+  if (!open) return null;
+  return <SlidesEditor />;
+}
+
+function SlidesEditor() {
   const setOpen = useCanvasStore((s) => s.setPresentationEditorOpen);
   const nodes = useCanvasStore((s) => s.nodes);
-  const presentationOrder = useCanvasStore((s) => s.presentationOrder);
-  const setPresentationOrder = useCanvasStore((s) => s.setPresentationOrder);
+  const edges = useCanvasStore((s) => s.edges);
   const setPresentationMode = useCanvasStore((s) => s.setPresentationMode);
+  const setActiveProjectPresentation = useCanvasStore((s) => s.setActiveProjectPresentation);
+  const savedSlides = usePresentationSlides();
 
-  const allPresentable = useMemo(() => nodes.filter(isPresentable), [nodes]);
+  // Local working copy, initialised from the project's slides when the editor opens
+  const [slides, setSlides] = useState<PresentationSlide[]>(savedSlides);
 
-  // Local working order (initialised from store or from default)
-  const [localOrder, setLocalOrder] = useState<string[]>([]);
-
-  // Sync when panel opens
-  useEffect(() => {
-    if (!open) return;
-    if (presentationOrder.length > 0) {
-      // filter out stale IDs
-      const valid = new Set(allPresentable.map((n) => n.id));
-      setLocalOrder(presentationOrder.filter((id) => valid.has(id)));
-    } else {
-      setLocalOrder(allPresentable.map((n) => n.id));
-    }
-  }, [open, presentationOrder, allPresentable]);
+  const nodeMap = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
 
-  // Node lookup
-  const nodeMap = useMemo(() => new Map(allPresentable.map((n) => [n.id, n])), [allPresentable]);
+  // Frames and nodes not on any slide yet
+  const available = useMemo(() => {
+    const used = new Set(slides.flatMap((s) => (s.frameId ? [s.frameId] : s.nodeIds)));
+    return nodes.filter((n) => isPresentable(n) && !used.has(n.id));
+  }, [nodes, slides]);
 
-  // IDs not yet in the order
-  const unordered = useMemo(() => {
-    const set = new Set(localOrder);
-    return allPresentable.filter((n) => !set.has(n.id));
-  }, [allPresentable, localOrder]);
+  const selectedIds = useMemo(
+    () => nodes.filter((n) => n.selected && isPresentable(n)).map((n) => n.id),
+    [nodes]
+  );
 
   /* ── drag state ── */
   const dragIdxRef = useRef<number | null>(null);
@@ -324,7 +555,7 @@ export function PresentationFlowEditor() {
   const handleDrop = (idx: number) => {
     const from = dragIdxRef.current;
     if (from == null || from === idx) { setDragOverIdx(null); return; }
-    setLocalOrder((prev) => {
+    setSlides((prev) => {
       const next = [...prev];
       const [item] = next.splice(from, 1);
       next.splice(idx, 0, item);
@@ -338,54 +569,78 @@ export function PresentationFlowEditor() {
     setDragOverIdx(null);
   };
 
-  /* ── reorder helpers ── */
+  /* ── slide helpers ── */
   const moveUp = (idx: number) => {
     if (idx <= 0) return;
-    setLocalOrder((prev) => {
+    setSlides((prev) => {
       const next = [...prev];
       [next[idx - 1], next[idx]] = [next[idx], next[idx - 1]];
       return next;
     });
   };
   const moveDown = (idx: number) => {
-    if (idx >= localOrder.length - 1) return;
-    setLocalOrder((prev) => {
+    if (idx >= slides.length - 1) return;
+    setSlides((prev) => {
       const next = [...prev];
       [next[idx], next[idx + 1]] = [next[idx + 1], next[idx]];
       return next;
     });
   };
-  const removeFromOrder = (idx: number) => {
-    setLocalOrder((prev) => prev.filter((_, i) => i !== idx));
+  const updateSlide = (idx: number, patch: Partial<PresentationSlide>) => {
+    setSlides((prev) => prev.map((s, i) => (i === idx ? { ...s, ...patch } : s)));
+  };
+  const removeSlide = (idx: number) => {
+    setSlides((prev) => prev.filter((_, i) => i !== idx));
   };
-  const addToOrder = (nodeId: string) => {
-    setLocalOrder((prev) => [...prev, nodeId]);
+  const addSlide = (nodeId: string) => {
+    const node = nodeMap.get(nodeId);
+    setSlides((prev) => [...prev, node?.type === "group" ? createFrameSlide(nodeId) : createNodesSlide([nodeId])]);
   };
-  const resetOrder = () => {
-    setLocalOrder(allPresentable.map((n) => n.id));
+  const addSelection = () => {
+    if (selectedIds.length === 0) return;
+    setSlides((prev) => [...prev, createNodesSlide(selectedIds)]);
+  };
+  const resetSlides = () => {
+    setSlides(defaultSlides(nodes));
   };
 
   const handleSave = () => {
-    setPresentationOrder(localOrder);
+    setActiveProjectPresentation({ slides });
+    saveNow();
     setOpen(false);
   };
 
   const handleSaveAndPresent = () => {
-    setPresentationOrder(localOrder);
-    setOpen(false);
+    handleSave();
     setPresentationMode(true);
   };
 
-  if (!open) return null;
+  /** One page per slide in a print window; "Save as PDF" in the print dialog makes the PDF. */
+  const handleExportPdf = () => {
+    const state = useCanvasStore.getState();
+    const title = state.projects.find((p) => p.id === state.activeProjectId)?.name ?? "Presentation";
+    const html = slidesToPrintHtml(slides, nodes, edges, title, { padding: 24, edgeDefaults: svgEdgeDefaults() });
+    const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+    const win = window.open(url, "_blank");
+    if (!win) {
+      URL.revokeObjectURL(url);
+      alert("Allow pop-ups for this site to export the slides.");
+      return;
+    }
+    win.addEventListener("load", () => {
+      win.print();
+      URL.revokeObjectURL(url);
+    });
+  };
 
   return (
     <div className="fixed inset-0 z-[9998] flex items-center justify-center bg-black/40 backdrop-blur-sm">
-      <div className="w-[440px] max-h-[80vh] flex flex-col bg-white dark:bg-gray-900 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="w-[520px] max-h-[80vh] flex flex-col bg-white dark:bg-gray-900 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-center gap-2">
             <ListOrdered className="w-5 h-5 text-violet-500" />
-            <h2 className="text-base font-semibold text-gray-800 dark:text-gray-100">Presentation Flow</h2>
+            <h2 className="text-base font-semibold text-gray-800 dark:text-gray-100">Presentation Slides</h2>
           </div>
           <button
             type="button"
@@ -399,120 +654,180 @@ export function PresentationFlowEditor() {
 
         {/* Description */}
         <div className="px-5 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-800">
-          Drag to reorder nodes, or use arrows. This defines the sequence when presenting.
+          Each frame (group) or set of nodes is one slide. Drag to reorder; turn on reveal to show a
+          slide&apos;s items one step at a time. Speaker notes come from the nodes&apos; notes.
         </div>
 
-        {/* Ordered list */}
+        {/* Slide list */}
         <div className="flex-1 overflow-y-auto px-3 py-2 min-h-0">
-          {localOrder.length === 0 && (
-            <p className="text-sm text-gray-400 text-center py-6">No nodes in sequence. Add some below.</p>
+          {slides.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-6">No slides yet. Add some below.</p>
           )}
-          {localOrder.map((nodeId, idx) => {
-            const node = nodeMap.get(nodeId);
-            if (!node) return null;
-            return (
-              <div
-                key={nodeId}
-                draggable
-                onDragStart={() => handleDragStart(idx)}
-                onDragOver={(e) => handleDragOver(e, idx)}
-                onDrop={() => handleDrop(idx)}
-                onDragEnd={handleDragEnd}
+          {slides.map((slide, idx) => (
+            <div
+              key={slide.id}
+              draggable
+              onDragStart={() => handleDragStart(idx)}
+              onDragOver={(e) => handleDragOver(e, idx)}
+              onDrop={() => handleDrop(idx)}
+              onDragEnd={handleDragEnd}
+              className={cn(
+                "flex items-center gap-2 px-2 py-2 rounded-lg mb-1 group cursor-grab active:cursor-grabbing transition-colors",
+                dragOverIdx === idx
+                  ? "bg-violet-100 dark:bg-violet-900/40 border border-violet-300 dark:border-violet-600"
+                  : "bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-750 border border-transparent"
+              )}
+            >
+              {/* Drag handle */}
+              <GripVertical className="w-4 h-4 text-gray-400 shrink-0" />
+
+              {/* Index */}
+              <span className="w-6 h-6 flex items-center justify-center rounded-full bg-violet-100 dark:bg-violet-900/60 text-violet-600 dark:text-violet-300 text-[11px] font-bold shrink-0">
+                {idx + 1}
+              </span>
+
+              {/* Slide kind badge */}
+              <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 uppercase tracking-wider shrink-0">
+                {slide.frameId ? (
+                  <>
+                    <Frame className="w-3 h-3" />
+                    Frame
+                  </>
+                ) : slide.nodeIds.length > 1 ? (
+                  `${slide.nodeIds.length} nodes`
+                ) : (
+                  nodeMap.get(slide.nodeIds[0])?.type ?? "node"
+                )}
+              </span>
+
+              {/* Title */}
+              <input
+                value={slide.title ?? ""}
+                onChange={(e) => updateSlide(idx, { title: e.target.value || undefined })}
+                placeholder={getSlideTitle({ ...slide, title: undefined }, nodes)}
+                className="flex-1 min-w-0 px-1.5 py-0.5 text-sm bg-transparent rounded outline-none focus:bg-white dark:focus:bg-gray-900 text-gray-700 dark:text-gray-200 placeholder-gray-500"
+              />
+
+              {/* Reveal + transition */}
+              <button
+                type="button"
+                onClick={() => updateSlide(idx, { reveal: !slide.reveal })}
                 className={cn(
-                  "flex items-center gap-2 px-2 py-2 rounded-lg mb-1 group cursor-grab active:cursor-grabbing transition-colors",
-                  dragOverIdx === idx
-                    ? "bg-violet-100 dark:bg-violet-900/40 border border-violet-300 dark:border-violet-600"
-                    : "bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-750 border border-transparent"
+                  "p-1 rounded transition-colors shrink-0",
+                  slide.reveal
+                    ? "bg-violet-100 dark:bg-violet-900/60 text-violet-600 dark:text-violet-300"
+                    : "text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
                 )}
+                title={slide.reveal ? "Reveal step by step (on)" : "Reveal step by step (off)"}
+              >
+                <Layers className="w-3.5 h-3.5" />
+              </button>
+              <select
+                value={slide.transition ?? "smooth"}
+                onChange={(e) => updateSlide(idx, { transition: e.target.value as SlideTransition })}
+                className="text-[11px] px-1 py-0.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 shrink-0"
+                title="Transition into this slide"
               >
-                {/* Drag handle */}
-                <GripVertical className="w-4 h-4 text-gray-400 shrink-0" />
-
-                {/* Index */}
-                <span className="w-6 h-6 flex items-center justify-center rounded-full bg-violet-100 dark:bg-violet-900/60 text-violet-600 dark:text-violet-300 text-[11px] font-bold shrink-0">
-                  {idx + 1}
-                </span>
-
-                {/* Node type badge */}
-                <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 uppercase tracking-wider shrink-0">
-                  {node.type ?? "node"}
-                </span>
-
-                {/* Label */}
-                <span className="flex-1 text-sm text-gray-700 dark:text-gray-200 truncate">
-                  {getNodeLabel(node)}
-                </span>
-
-                {/* Move up / down / remove */}
-                <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button
-                    type="button"
-                    onClick={() => moveUp(idx)}
-                    disabled={idx === 0}
-                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-20 transition-colors"
-                    title="Move up"
-                  >
-                    <ArrowUp className="w-3 h-3" />
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => moveDown(idx)}
-                    disabled={idx === localOrder.length - 1}
-                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-20 transition-colors"
-                    title="Move down"
-                  >
-                    <ArrowDown className="w-3 h-3" />
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => removeFromOrder(idx)}
-                    className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/40 text-red-400 hover:text-red-600 transition-colors"
-                    title="Remove from presentation"
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </button>
-                </div>
+                {SLIDE_TRANSITIONS.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+
+              {/* Move up / down / remove */}
+              <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => moveUp(idx)}
+                  disabled={idx === 0}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-20 transition-colors"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveDown(idx)}
+                  disabled={idx === slides.length - 1}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-20 transition-colors"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeSlide(idx)}
+                  className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/40 text-red-400 hover:text-red-600 transition-colors"
+                  title="Remove slide"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
               </div>
-            );
-          })}
+            </div>
+          ))}
         </div>
 
-        {/* Unordered nodes (not in the sequence) */}
-        {unordered.length > 0 && (
-          <div className="border-t border-gray-200 dark:border-gray-700 px-3 py-2">
-            <p className="text-[11px] text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1.5 px-1">
-              Available nodes ({unordered.length})
+        {/* Frames / nodes not on a slide yet */}
+        <div className="border-t border-gray-200 dark:border-gray-700 px-3 py-2">
+          <div className="flex items-center justify-between mb-1.5 px-1">
+            <p className="text-[11px] text-gray-400 dark:text-gray-500 uppercase tracking-wider">
+              Available ({available.length})
             </p>
+            <button
+              type="button"
+              onClick={addSelection}
+              disabled={selectedIds.length === 0}
+              className="flex items-center gap-1 text-[11px] text-violet-600 hover:text-violet-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+              title="Add the nodes selected on the canvas as one slide"
+            >
+              <Plus className="w-3 h-3" />
+              Selected nodes as one slide{selectedIds.length > 0 ? ` (${selectedIds.length})` : ""}
+            </button>
+          </div>
+          {available.length > 0 && (
             <div className="max-h-32 overflow-y-auto flex flex-col gap-1">
-              {unordered.map((node) => (
+              {available.map((node) => (
                 <button
                   key={node.id}
                   type="button"
-                  onClick={() => addToOrder(node.id)}
+                  onClick={() => addSlide(node.id)}
                   className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-left hover:bg-green-50 dark:hover:bg-green-900/20 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors group"
                 >
                   <Plus className="w-3.5 h-3.5 text-green-500 shrink-0" />
                   <span className="text-[10px] px-1 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-400 uppercase tracking-wider shrink-0">
-                    {node.type ?? "node"}
+                    {node.type === "group" ? "frame" : node.type ?? "node"}
                   </span>
                   <span className="flex-1 text-sm truncate">{getNodeLabel(node)}</span>
                 </button>
               ))}
             </div>
-          </div>
-        )}
+          )}
+        </div>
 
         {/* Footer */}
         <div className="flex items-center justify-between gap-2 px-5 py-3 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
-          <button
-            type="button"
-            onClick={resetOrder}
-            className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
-            title="Reset to default order"
-          >
-            <RotateCcw className="w-3.5 h-3.5" />
-            Reset
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={resetSlides}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              title="One slide per top-level frame and node"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={handleExportPdf}
+              disabled={slides.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Print one page per slide (Save as PDF)"
+            >
+              <Printer className="w-3.5 h-3.5" />
+              Export PDF
+            </button>
+          </div>
           <div className="flex items-center gap-2">
             <button
               type="button"
@@ -524,7 +839,7 @@ export function PresentationFlowEditor() {
             <button
               type="button"
               onClick={handleSaveAndPresent}
-              disabled={localOrder.length === 0}
+              disabled={slides.length === 0}
               className="flex items-center gap-1.5 px-4 py-1.5 text-xs font-medium text-white bg-violet-600 hover:bg-violet-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
             >
               <Play className="w-3.5 h-3.5" />
@@ -2,11 +2,12 @@
 
 import { useState, useEffect, useCallback } from "react";
 import type { Node, Edge } from "@xyflow/react";
-import { MessageSquare, Loader2, RotateCcw, X } from "lucide-react";
+import { MessageSquare, Loader2, RotateCcw, GitCompare, X } from "lucide-react";
 import * as Dialog from "@radix-ui/react-dialog";
 import { useCanvasStore } from "@/lib/store/canvas-store";
 import { applyNodesAndEdgesInChunks } from "@/lib/chunked-nodes";
 import { isApiProjectId } from "@/lib/store/project-storage";
+import { shareHeaders } from "@/lib/store/share-links";
 import { cn } from "@/lib/utils";
 
 export type PromptHistoryItem = {
@@ -46,6 +47,8 @@ export function PromptHistoryPanel({ open, onOpenChange }: PromptHistoryPanelPro
   const setPendingFitView = useCanvasStore((s) => (s as { setPendingFitView: (v: boolean) => void }).setPendingFitView);
   const setPendingFitViewNodeIds = useCanvasStore((s) => (s as { setPendingFitViewNodeIds: (ids: string[] | null) => void }).setPendingFitViewNodeIds);
   const setHasUnsavedChanges = useCanvasStore((s) => s.setHasUnsavedChanges);
+  const setDiffBaseline = useCanvasStore((s) => s.setDiffBaseline);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
 
   const [items, setItems] = useState<PromptHistoryItem[]>([]);
   const [loading, setLoading] = useState(false);
@@ -60,7 +63,10 @@ export function PromptHistoryPanel({ open, onOpenChange }: PromptHistoryPanelPro
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/projects/${activeProjectId}/prompt-history`, { credentials: "include" });
+      const res = await fetch(`/api/projects/${activeProjectId}/prompt-history`, {
+        headers: shareHeaders(activeProjectId),
+        credentials: "include",
+      });
       if (!res.ok) throw new Error("Failed to load");
       const data = await res.json();
       setItems(Array.isArray(data) ? data : []);
@@ -77,10 +83,11 @@ export function PromptHistoryPanel({ open, onOpenChange }: PromptHistoryPanelPro
   }, [open, isApiProject, fetchHistory]);
 
   const handleRestore = useCallback(
-    (item: PromptHistoryItem) => {
+    (item: PromptHistoryItem, undoLabel = "Restore prompt version") => {
       const nodes = item.nodes as Node[];
       const edges = item.edges as Edge[];
       if (!Array.isArray(nodes) || nodes.length === 0) return;
+      pushUndo(undoLabel);
       setCanvasMode("reactflow");
       applyNodesAndEdgesInChunks(setNodes, setEdges, nodes, edges);
       setPendingFitView(true);
@@ -88,7 +95,7 @@ export function PromptHistoryPanel({ open, onOpenChange }: PromptHistoryPanelPro
       setHasUnsavedChanges(true);
       onOpenChange(false);
     },
-    [setNodes, setEdges, setCanvasMode, setPendingFitView, setPendingFitViewNodeIds, setHasUnsavedChanges, onOpenChange]
+    [pushUndo, setNodes, setEdges, setCanvasMode, setPendingFitView, setPendingFitViewNodeIds, setHasUnsavedChanges, onOpenChange]
   );
 
   const hasRestorableDiagram = (item: PromptHistoryItem) => {
@@ -96,6 +103,26 @@ export function PromptHistoryPanel({ open, onOpenChange }: PromptHistoryPanelPro
     return Array.isArray(nodes) && nodes.length > 0 && item.targetCanvas === "reactflow";
   };
 
+  /**
+   * Show this entry's diagram with its changes highlighted against the previous (older) diagram
+   * entry. This replaces the canvas, so it is one undo step like a restore.
+   */
+  const handleCompare = useCallback(
+    (item: PromptHistoryItem, previous: PromptHistoryItem) => {
+      handleRestore(item, "Compare prompt versions");
+      setDiffBaseline({
+        projectId: activeProjectId,
+        title: `previous prompt: ${previous.prompt.slice(0, 60)}`,
+        nodes: previous.nodes as Node[],
+        edges: Array.isArray(previous.edges) ? (previous.edges as Edge[]) : [],
+      });
+    },
+    [handleRestore, setDiffBaseline, activeProjectId]
+  );
+
+  /** Next older entry with a React Flow diagram (items are newest first). */
+  const previousDiagramItem = (index: number) => items.slice(index + 1).find(hasRestorableDiagram);
+
   return (
     <Dialog.Root open={open} onOpenChange={onOpenChange}>
       <Dialog.Portal>
@@ -141,35 +168,51 @@ export function PromptHistoryPanel({ open, onOpenChange }: PromptHistoryPanelPro
             </div>
           ) : (
             <div className="flex-1 overflow-y-auto p-3 space-y-2">
-              {items.map((item) => (
-                <div
-                  key={item.id}
-                  className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 hover:bg-gray-50 dark:hover:bg-gray-800/50"
-                >
-                  <p className="text-sm text-gray-900 dark:text-white line-clamp-2">{item.prompt}</p>
-                  <div className="mt-2 flex items-center justify-between">
-                    <span className="text-[11px] text-gray-500 dark:text-gray-400">
-                      {item.nodeCount ?? 0} nodes · {item.edgeCount ?? 0} edges
-                      {item.targetCanvas && item.targetCanvas !== "reactflow" && (
-                        <span className="ml-1">· {item.targetCanvas}</span>
-                      )}
-                      {item.createdAt && (
-                        <span className="ml-1">· {timeAgo(item.createdAt)}</span>
-                      )}
-                    </span>
-                    {hasRestorableDiagram(item) && (
-                      <button
-                        type="button"
-                        onClick={() => handleRestore(item)}
-                        className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded"
-                      >
-                        <RotateCcw className="w-3 h-3" />
-                        View diagram
-                      </button>
-                    )}
+              {items.map((item, index) => {
+                const previous = hasRestorableDiagram(item) ? previousDiagramItem(index) : undefined;
+                return (
+                  <div
+                    key={item.id}
+                    className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                  >
+                    <p className="text-sm text-gray-900 dark:text-white line-clamp-2">{item.prompt}</p>
+                    <div className="mt-2 flex items-center justify-between">
+                      <span className="text-[11px] text-gray-500 dark:text-gray-400">
+                        {item.nodeCount ?? 0} nodes · {item.edgeCount ?? 0} edges
+                        {item.targetCanvas && item.targetCanvas !== "reactflow" && (
+                          <span className="ml-1">· {item.targetCanvas}</span>
+                        )}
+                        {item.createdAt && (
+                          <span className="ml-1">· {timeAgo(item.createdAt)}</span>
+                        )}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        {previous && (
+                          <button
+                            type="button"
+                            onClick={() => handleCompare(item, previous)}
+                            className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-violet-600 dark:text-violet-400 hover:bg-violet-50 dark:hover:bg-violet-900/30 rounded"
+                            title="View this diagram with changes since the previous prompt highlighted"
+                          >
+                            <GitCompare className="w-3 h-3" />
+                            Compare
+                          </button>
+                        )}
+                        {hasRestorableDiagram(item) && (
+                          <button
+                            type="button"
+                            onClick={() => handleRestore(item)}
+                            className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            View diagram
+                          </button>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </Dialog.Content>
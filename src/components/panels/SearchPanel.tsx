@@ -1,19 +1,276 @@
 "use client";
 
-import { useMemo, useRef, useEffect, useCallback } from "react";
-import { Search, X } from "lucide-react";
+import { useMemo, useRef, useEffect, useCallback, useState } from "react";
+import { Search, X, Loader2, FolderOpen, Filter, Replace, ChevronUp, ChevronDown, Regex, CaseSensitive } from "lucide-react";
+import type { Edge, Node } from "@xyflow/react";
 import { cn } from "@/lib/utils";
 import { useCanvasStore } from "@/lib/store/canvas-store";
+import { searchAllProjects, openSearchMatch } from "@/lib/store/cross-project-search";
+import {
+  EMPTY_CANVAS_SEARCH_FILTERS,
+  collectNodeColors,
+  createTextMatcher,
+  edgeLabelText,
+  hasActiveFilters,
+  isTextMatcherError,
+  nodeLabelText,
+  replaceInLabels,
+  searchCanvas,
+  type CanvasSearchFilters,
+  type CanvasSearchHit,
+} from "@/lib/canvas-search";
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  type ProjectSearchMatch,
+  type ProjectSearchResult,
+  type SearchMatchKind,
+} from "@/lib/project-search";
+import { collectPropertyKeys, collectPropertyValues, normalizePropertySchema } from "@/lib/node-properties";
+
+type SearchScope = "canvas" | "projects";
+
+const MATCH_KIND_LABELS: Record<SearchMatchKind, string> = {
+  label: "Node",
+  note: "Note",
+  task: "Task",
+  column: "Column",
+  edge: "Edge",
+  property: "Property",
+  excalidraw: "Excalidraw",
+  drawio: "Draw.io",
+};
+
+/** Debounce for the cross-project search (hits /api/search for cloud projects). */
+const PROJECT_SEARCH_DEBOUNCE_MS = 300;
+
+function HighlightedSnippet({ match }: { match: ProjectSearchMatch }) {
+  const [start, length] = match.highlight;
+  return (
+    <p className="text-xs text-gray-500 truncate">
+      {match.snippet.slice(0, start)}
+      <mark className="bg-yellow-200 text-gray-900 rounded-sm">{match.snippet.slice(start, start + length)}</mark>
+      {match.snippet.slice(start + length)}
+    </p>
+  );
+}
+
+/** Toggle button in the search options row (regex, case, filters, replace). */
+function OptionToggle({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      aria-label={title}
+      aria-pressed={active}
+      className={cn(
+        "p-1 rounded transition-colors",
+        active ? "bg-violet-100 text-violet-700" : "text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function CanvasSearchFiltersSection({
+  filters,
+  onChange,
+  nodes,
+}: {
+  filters: CanvasSearchFilters;
+  onChange: (filters: CanvasSearchFilters) => void;
+  nodes: Node[];
+}) {
+  const types = useMemo(() => [...new Set(nodes.map((n) => n.type ?? "").filter(Boolean))].sort(), [nodes]);
+  const colors = useMemo(() => collectNodeColors(nodes), [nodes]);
+  const groups = useMemo(() => nodes.filter((n) => n.type === "group"), [nodes]);
+  const storedSchema = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.propertySchema);
+  const propertyKeys = useMemo(() => collectPropertyKeys(nodes, normalizePropertySchema(storedSchema)), [nodes, storedSchema]);
+  const propertyFilter = filters.property;
+  const propertyValues = useMemo(
+    () => (propertyFilter ? collectPropertyValues(nodes, propertyFilter.key) : []),
+    [nodes, propertyFilter]
+  );
+
+  const toggleType = (type: string) =>
+    onChange({
+      ...filters,
+      types: filters.types.includes(type) ? filters.types.filter((t) => t !== type) : [...filters.types, type],
+    });
+
+  return (
+    <div className="px-4 py-2.5 border-b border-gray-100 space-y-2 text-xs">
+      <div className="flex flex-wrap gap-1">
+        {types.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggleType(type)}
+            className={cn(
+              "px-2 py-0.5 rounded-full border transition-colors",
+              filters.types.includes(type)
+                ? "bg-violet-100 border-violet-300 text-violet-700"
+                : "border-gray-200 text-gray-500 hover:bg-gray-50"
+            )}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+      {colors.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-gray-400 mr-1">Color</span>
+          {colors.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => onChange({ ...filters, color: filters.color === color ? null : color })}
+              title={color}
+              aria-label={`Color ${color}`}
+              className={cn(
+                "w-4 h-4 rounded-full border border-gray-300",
+                filters.color === color && "ring-2 ring-violet-500 ring-offset-1"
+              )}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      )}
+      {groups.length > 0 && (
+        <label className="flex items-center gap-2">
+          <span className="text-gray-400">In group</span>
+          <select
+            value={filters.parentId ?? ""}
+            onChange={(e) => onChange({ ...filters, parentId: e.target.value || null })}
+            className="flex-1 px-1.5 py-0.5 rounded border border-gray-200 bg-white text-gray-700"
+          >
+            <option value="">Any</option>
+            {groups.map((g) => (
+              <option key={g.id} value={g.id}>
+                {nodeLabelText(g) || "Untitled group"}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {propertyKeys.length > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-gray-400">Property</span>
+          <select
+            value={propertyFilter?.key ?? ""}
+            onChange={(e) => onChange({ ...filters, property: e.target.value ? { key: e.target.value, value: "" } : null })}
+            className="flex-1 min-w-0 px-1.5 py-0.5 rounded border border-gray-200 bg-white text-gray-700"
+          >
+            <option value="">Any</option>
+            {propertyKeys.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+          {propertyFilter && (
+            <select
+              value={propertyFilter.value}
+              onChange={(e) => onChange({ ...filters, property: { key: propertyFilter.key, value: e.target.value } })}
+              className="flex-1 min-w-0 px-1.5 py-0.5 rounded border border-gray-200 bg-white text-gray-700"
+              aria-label="Property value"
+            >
+              <option value="">Is set</option>
+              {propertyValues.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3 text-gray-600">
+        {(
+          [
+            ["hasOpenTasks", "Open tasks"],
+            ["hasAttachments", "Attachments"],
+            ["hasNotes", "Notes"],
+          ] as const
+        ).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={filters[key]}
+              onChange={(e) => onChange({ ...filters, [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_CANVAS_SEARCH_FILTERS)}
+            className="ml-auto text-violet-600 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function hitTitle(hit: CanvasSearchHit, nodes: Node[], edges: Edge[]): { title: string; subtitle: string; type?: string } {
+  if (hit.kind === "edge") {
+    const edge = edges.find((e) => e.id === hit.id);
+    const label = (id: string | undefined) => nodeLabelText(nodes.find((n) => n.id === id) ?? ({} as Node)) || "Untitled";
+    return { title: edge ? edgeLabelText(edge) : "Edge", subtitle: `Edge · ${label(edge?.source)} → ${label(edge?.target)}` };
+  }
+  const node = nodes.find((n) => n.id === hit.id);
+  return {
+    title: (node && nodeLabelText(node)) || "Untitled",
+    subtitle:
+      hit.field === "note" || hit.field === "property"
+        ? `${node?.type ?? ""} · matched in ${hit.field}`
+        : node?.type ?? "",
+    type: node?.type,
+  };
+}
 
 export function SearchPanel() {
   const searchOpen = useCanvasStore((s) => s.searchOpen);
   const setSearchOpen = useCanvasStore((s) => s.setSearchOpen);
   const searchQuery = useCanvasStore((s) => s.searchQuery);
   const setSearchQuery = useCanvasStore((s) => s.setSearchQuery);
+  const setSearchHits = useCanvasStore((s) => s.setSearchHits);
   const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const nodeNotes = useCanvasStore((s) => s.nodeNotes);
+  const nodeTasks = useCanvasStore((s) => s.nodeTasks);
+  const nodeAttachments = useCanvasStore((s) => s.nodeAttachments);
   const storeSetNodes = useCanvasStore((s) => s.setNodes);
+  const storeSetEdges = useCanvasStore((s) => s.setEdges);
+  const pushUndo = useCanvasStore((s) => s.pushUndo);
   const setPendingFitView = useCanvasStore((s) => s.setPendingFitView);
+  const setPendingFitViewNodeIds = useCanvasStore((s) => s.setPendingFitViewNodeIds);
   const inputRef = useRef<HTMLInputElement>(null);
+  const [scope, setScope] = useState<SearchScope>("canvas");
+  const [projectResults, setProjectResults] = useState<ProjectSearchResult[]>([]);
+  const [projectSearchStatus, setProjectSearchStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [useRegex, setUseRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<CanvasSearchFilters>(EMPTY_CANVAS_SEARCH_FILTERS);
+  const [showReplace, setShowReplace] = useState(false);
+  const [replacement, setReplacement] = useState("");
+  const [activeIndex, setActiveIndex] = useState(-1);
 
   useEffect(() => {
     if (searchOpen) {
@@ -21,34 +278,122 @@ export function SearchPanel() {
     }
   }, [searchOpen]);
 
-  const results = useMemo(() => {
-    if (!searchQuery.trim()) return [];
-    const q = searchQuery.toLowerCase();
-    return nodes.filter((n) => {
-      const label = ((n.data?.label as string) ?? "").toLowerCase();
-      const type = (n.type ?? "").toLowerCase();
-      const note = (useCanvasStore.getState().nodeNotes[n.id] ?? "").toLowerCase();
-      return label.includes(q) || type.includes(q) || note.includes(q);
-    });
-  }, [searchQuery, nodes]);
-
-  const handleSelectNode = useCallback(
-    (nodeId: string) => {
-      // Select the node and trigger fit view
-      storeSetNodes((nds) =>
-        nds.map((n) => ({ ...n, selected: n.id === nodeId }))
-      );
+  const projectQuery = scope === "projects" && searchOpen ? searchQuery.trim() : "";
+  useEffect(() => {
+    if (projectQuery.length < MIN_SEARCH_QUERY_LENGTH) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      setProjectSearchStatus("loading");
+      searchAllProjects(projectQuery, controller.signal)
+        .then((results) => {
+          setProjectResults(results);
+          setProjectSearchStatus("idle");
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error("Project search failed:", err);
+          setProjectSearchStatus("error");
+        });
+    }, PROJECT_SEARCH_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [projectQuery]);
+
+  const matcher = useMemo(
+    () => createTextMatcher(searchQuery.trim() ? searchQuery : "", { regex: useRegex, caseSensitive }),
+    [searchQuery, useRegex, caseSensitive]
+  );
+  const matcherError = isTextMatcherError(matcher) ? matcher.error : null;
+
+  const hits = useMemo(() => {
+    if (!searchOpen || scope !== "canvas" || isTextMatcherError(matcher)) return [];
+    return searchCanvas(nodes, edges, matcher, filters, { nodeNotes, nodeTasks, nodeAttachments });
+  }, [searchOpen, scope, matcher, nodes, edges, filters, nodeNotes, nodeTasks, nodeAttachments]);
+
+  const activeHit = activeIndex >= 0 && activeIndex < hits.length ? hits[activeIndex] : null;
+
+  // Highlight every hit on the canvas; the current one is drawn stronger.
+  useEffect(() => {
+    if (!searchOpen) return;
+    setSearchHits(
+      hits.map((h) => h.id),
+      activeHit?.id ?? null
+    );
+  }, [searchOpen, hits, activeHit, setSearchHits]);
+
+  const focusHit = useCallback(
+    (hit: CanvasSearchHit) => {
+      if (hit.kind === "edge") {
+        const edge = useCanvasStore.getState().edges.find((e) => e.id === hit.id);
+        if (!edge) return;
+        storeSetNodes((nds) => nds.map((n) => (n.selected ? { ...n, selected: false } : n)));
+        storeSetEdges((eds) => eds.map((e) => ({ ...e, selected: e.id === hit.id })));
+        setPendingFitViewNodeIds([edge.source, edge.target]);
+      } else {
+        storeSetNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === hit.id })));
+        setPendingFitViewNodeIds([hit.id]);
+      }
       setPendingFitView(true);
+    },
+    [storeSetNodes, storeSetEdges, setPendingFitView, setPendingFitViewNodeIds]
+  );
+
+  const handleSelectHit = useCallback(
+    (hit: CanvasSearchHit) => {
+      focusHit(hit);
+      setSearchOpen(false);
+    },
+    [focusHit, setSearchOpen]
+  );
+
+  /** Enter / Shift+Enter: move to the next / previous hit and bring it into view. */
+  const cycleHit = useCallback(
+    (step: 1 | -1) => {
+      if (hits.length === 0) return;
+      const next = activeIndex < 0 ? (step === 1 ? 0 : hits.length - 1) : (activeIndex + step + hits.length) % hits.length;
+      setActiveIndex(next);
+      focusHit(hits[next]);
+    },
+    [hits, activeIndex, focusHit]
+  );
+
+  const handleReplaceAll = useCallback(() => {
+    if (!matcher || isTextMatcherError(matcher) || hits.length === 0) return;
+    const { nodes: currentNodes, edges: currentEdges } = useCanvasStore.getState();
+    const result = replaceInLabels(currentNodes, currentEdges, matcher, replacement, {
+      nodeIds: new Set(hits.filter((h) => h.kind === "node").map((h) => h.id)),
+      edgeIds: new Set(hits.filter((h) => h.kind === "edge").map((h) => h.id)),
+    });
+    if (result.count === 0) return;
+    // One undo step for the whole replace.
+    pushUndo(`Replace ${result.count} match${result.count === 1 ? "" : "es"}`);
+    storeSetNodes(result.nodes);
+    storeSetEdges(result.edges);
+    setActiveIndex(-1);
+  }, [matcher, hits, replacement, pushUndo, storeSetNodes, storeSetEdges]);
+
+  const handleOpenMatch = useCallback(
+    (projectId: string, match: ProjectSearchMatch) => {
       setSearchOpen(false);
+      openSearchMatch(projectId, match).catch((err) => console.error("Failed to open search result:", err));
     },
-    [storeSetNodes, setPendingFitView, setSearchOpen]
+    [setSearchOpen]
+  );
+
+  const visibleProjectResults = projectQuery.length >= MIN_SEARCH_QUERY_LENGTH ? projectResults : [];
+  const replaceableCount = useMemo(
+    () => hits.filter((h) => h.kind === "edge" || h.field === "label").length,
+    [hits]
   );
 
   if (!searchOpen) return null;
 
   return (
-    <div className="fixed inset-0 z-[100] flex items-start justify-center pt-[15vh] bg-black/30">
-      <div className="bg-white rounded-xl shadow-2xl border border-gray-200 w-[480px] max-w-[90vw] flex flex-col max-h-[60vh]">
+    // Non-modal so hits stay visible on the canvas while cycling through them.
+    <div className="fixed top-16 right-4 z-[100] pointer-events-none">
+      <div className="pointer-events-auto bg-white rounded-xl shadow-2xl border border-gray-200 w-[480px] max-w-[90vw] flex flex-col max-h-[70vh]">
         {/* Search input */}
         <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-200">
           <Search className="w-5 h-5 text-gray-400 shrink-0" />
@@ -56,16 +401,51 @@ export function SearchPanel() {
             ref={inputRef}
             type="text"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search nodes, labels, notes..."
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setActiveIndex(-1);
+            }}
+            placeholder={scope === "canvas" ? "Search nodes, labels, notes..." : "Search all projects..."}
             className="flex-1 text-sm text-gray-800 outline-none placeholder-gray-400"
             onKeyDown={(e) => {
               if (e.key === "Escape") setSearchOpen(false);
-              if (e.key === "Enter" && results.length > 0) {
-                handleSelectNode(results[0].id);
+              if (e.key === "Enter" && scope === "canvas") {
+                e.preventDefault();
+                cycleHit(e.shiftKey ? -1 : 1);
+              }
+              if (e.key === "Enter" && scope === "projects" && visibleProjectResults.length > 0) {
+                handleOpenMatch(visibleProjectResults[0].projectId, visibleProjectResults[0].matches[0]);
               }
             }}
           />
+          {projectSearchStatus === "loading" && scope === "projects" && (
+            <Loader2 className="w-4 h-4 text-gray-400 animate-spin shrink-0" />
+          )}
+          {scope === "canvas" && hits.length > 0 && (
+            <div className="flex items-center gap-0.5 shrink-0 text-xs text-gray-400">
+              <span className="tabular-nums mr-1">
+                {activeHit ? activeIndex + 1 : 0}/{hits.length}
+              </span>
+              <button
+                type="button"
+                onClick={() => cycleHit(-1)}
+                className="p-0.5 rounded hover:bg-gray-100"
+                title="Previous match (Shift+Enter)"
+                aria-label="Previous match"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => cycleHit(1)}
+                className="p-0.5 rounded hover:bg-gray-100"
+                title="Next match (Enter)"
+                aria-label="Next match"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          )}
           <button
             type="button"
             onClick={() => setSearchOpen(false)}
@@ -75,44 +455,169 @@ export function SearchPanel() {
           </button>
         </div>
 
-        {/* Results */}
-        <div className="flex-1 overflow-auto">
-          {searchQuery.trim() && results.length === 0 ? (
-            <div className="px-4 py-8 text-center text-sm text-gray-400">
-              No results found
-            </div>
-          ) : (
-            results.map((node) => (
-              <button
-                key={node.id}
-                type="button"
-                onClick={() => handleSelectNode(node.id)}
-                className="w-full flex items-center gap-3 px-4 py-2.5 hover:bg-violet-50 text-left transition-colors"
+        {/* Scope and options */}
+        <div className="flex items-center gap-1 px-4 py-2 border-b border-gray-100">
+          {(["canvas", "projects"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setScope(value)}
+              className={cn(
+                "px-2.5 py-1 rounded-md text-xs font-medium transition-colors",
+                scope === value ? "bg-violet-100 text-violet-700" : "text-gray-500 hover:bg-gray-100"
+              )}
+            >
+              {value === "canvas" ? "This canvas" : "All projects"}
+            </button>
+          ))}
+          {scope === "canvas" && (
+            <div className="ml-auto flex items-center gap-0.5">
+              <OptionToggle active={useRegex} onClick={() => setUseRegex((v) => !v)} title="Regular expression">
+                <Regex className="w-4 h-4" />
+              </OptionToggle>
+              <OptionToggle active={caseSensitive} onClick={() => setCaseSensitive((v) => !v)} title="Match case">
+                <CaseSensitive className="w-4 h-4" />
+              </OptionToggle>
+              <OptionToggle
+                active={showFilters || hasActiveFilters(filters)}
+                onClick={() => setShowFilters((v) => !v)}
+                title="Filters"
               >
-                <div
-                  className={cn(
-                    "w-8 h-8 rounded flex items-center justify-center text-xs font-medium shrink-0",
-                    node.type === "mindMap"
-                      ? "bg-violet-100 text-violet-700"
-                      : node.type === "stickyNote"
-                        ? "bg-amber-100 text-amber-700"
-                        : "bg-blue-100 text-blue-700"
-                  )}
-                >
-                  {(node.type ?? "N")[0].toUpperCase()}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-800 truncate">
-                    {(node.data?.label as string) || "Untitled"}
-                  </p>
-                  <p className="text-xs text-gray-400 truncate">
-                    {node.type}
-                  </p>
-                </div>
-              </button>
-            ))
+                <Filter className="w-4 h-4" />
+              </OptionToggle>
+              <OptionToggle active={showReplace} onClick={() => setShowReplace((v) => !v)} title="Find and replace">
+                <Replace className="w-4 h-4" />
+              </OptionToggle>
+            </div>
           )}
         </div>
+
+        {scope === "canvas" && showFilters && (
+          <CanvasSearchFiltersSection filters={filters} onChange={setFilters} nodes={nodes} />
+        )}
+
+        {scope === "canvas" && showReplace && (
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100">
+            <input
+              type="text"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder={useRegex ? "Replace with ($1 for groups)" : "Replace with"}
+              className="flex-1 px-2 py-1 text-sm text-gray-800 border border-gray-200 rounded outline-none focus:ring-2 focus:ring-violet-500 placeholder-gray-400"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleReplaceAll();
+                if (e.key === "Escape") setSearchOpen(false);
+              }}
+            />
+            <button
+              type="button"
+              onClick={handleReplaceAll}
+              disabled={replaceableCount === 0}
+              className="px-2.5 py-1 rounded-md bg-violet-600 hover:bg-violet-700 disabled:opacity-40 text-white text-xs font-medium shrink-0"
+            >
+              Replace all{replaceableCount > 0 ? ` (${replaceableCount})` : ""}
+            </button>
+          </div>
+        )}
+
+        {matcherError && scope === "canvas" && (
+          <div className="px-4 py-2 text-xs text-red-500 border-b border-gray-100">{matcherError}</div>
+        )}
+
+        {/* Results */}
+        {scope === "projects" ? (
+          <div className="flex-1 overflow-auto">
+            {projectQuery.length < MIN_SEARCH_QUERY_LENGTH ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-400">
+                Type at least {MIN_SEARCH_QUERY_LENGTH} characters
+              </div>
+            ) : projectSearchStatus === "error" ? (
+              <div className="px-4 py-8 text-center text-sm text-red-500">
+                Search failed. Try again.
+              </div>
+            ) : projectSearchStatus === "idle" && visibleProjectResults.length === 0 ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-400">
+                No results found
+              </div>
+            ) : (
+              visibleProjectResults.map((result) => (
+                <div key={result.projectId} className="py-1">
+                  <div className="flex items-center gap-2 px-4 pt-2 pb-1 text-xs font-semibold text-gray-600">
+                    <FolderOpen className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+                    <span className="truncate">{result.projectName || "Untitled"}</span>
+                    <span className="ml-auto text-[10px] font-normal text-gray-400 shrink-0">
+                      {result.matches.length}{result.truncated ? "+" : ""}
+                    </span>
+                  </div>
+                  {result.matches.map((match, i) => (
+                    <button
+                      key={`${match.kind}-${match.nodeId ?? match.edgeId ?? ""}-${i}`}
+                      type="button"
+                      onClick={() => handleOpenMatch(result.projectId, match)}
+                      className="w-full flex items-center gap-3 px-4 py-1.5 pl-9 hover:bg-violet-50 text-left transition-colors"
+                    >
+                      <span className="w-16 shrink-0 text-[10px] uppercase tracking-wide text-gray-400">
+                        {MATCH_KIND_LABELS[match.kind]}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        {match.context && match.kind !== "label" && (
+                          <p className="text-xs font-medium text-gray-700 truncate">{match.context}</p>
+                        )}
+                        <HighlightedSnippet match={match} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto">
+            {(searchQuery.trim() || hasActiveFilters(filters)) && hits.length === 0 && !matcherError ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-400">
+                No results found
+              </div>
+            ) : (
+              hits.map((hit, i) => {
+                const { title, subtitle, type } = hitTitle(hit, nodes, edges);
+                return (
+                  <button
+                    key={`${hit.kind}-${hit.id}`}
+                    type="button"
+                    onClick={() => handleSelectHit(hit)}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-4 py-2.5 hover:bg-violet-50 text-left transition-colors",
+                      i === activeIndex && "bg-violet-50"
+                    )}
+                  >
+                    <div
+                      className={cn(
+                        "w-8 h-8 rounded flex items-center justify-center text-xs font-medium shrink-0",
+                        hit.kind === "edge"
+                          ? "bg-gray-100 text-gray-600"
+                          : type === "mindMap"
+                            ? "bg-violet-100 text-violet-700"
+                            : type === "stickyNote"
+                              ? "bg-amber-100 text-amber-700"
+                              : "bg-blue-100 text-blue-700"
+                      )}
+                    >
+                      {hit.kind === "edge" ? "E" : (type ?? "N")[0].toUpperCase()}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-800 truncate">
+                        {title}
+                      </p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {subtitle}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
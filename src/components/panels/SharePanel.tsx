@@ -1,16 +1,184 @@
 "use client";
 
-import { useCallback, useState } from "react";
-import { X, FileJson, Image, Link2, Sparkles, Check } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { X, FileJson, Image, Link2, Sparkles, Check, Users, Copy, Loader2 } from "lucide-react";
 import { toPng } from "html-to-image";
 import { useUser } from "@clerk/nextjs";
 import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useCollabStore } from "@/lib/store/collab-store";
+import { startCollabSession, stopCollabSession } from "@/lib/collab/collab-client";
+import { useCollabDisplayName } from "@/hooks/useCollabSession";
+import { isApiProjectId } from "@/lib/store/project-storage";
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  shareViewUrl,
+  type DocumentShareLink,
+} from "@/lib/store/share-links";
+import { SHARE_ROLES, SHARE_ROLE_LABELS, type ShareRole } from "@/lib/share-roles";
 
 interface SharePanelProps {
   open: boolean;
   onClose: () => void;
 }
 
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never expires", days: null },
+  { label: "Expires in 1 day", days: 1 },
+  { label: "Expires in 7 days", days: 7 },
+  { label: "Expires in 30 days", days: 30 },
+];
+
+function shareLinkStatus(link: DocumentShareLink): string {
+  if (link.revokedAt) return "Revoked";
+  if (link.expiresAt && link.expiresAt <= Date.now()) return "Expired";
+  if (link.expiresAt) return `Expires ${new Date(link.expiresAt).toLocaleDateString()}`;
+  return "No expiry";
+}
+
+/** Owner-only: create, copy and revoke role-based share links for a cloud project. */
+function ShareLinksSection({ projectId }: { projectId: string }) {
+  const [links, setLinks] = useState<DocumentShareLink[] | null>(null);
+  const [role, setRole] = useState<ShareRole>("viewer");
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listShareLinks(projectId)
+      .then((list) => {
+        if (!cancelled) setLinks(list);
+      })
+      .catch(() => {
+        // Not the owner (e.g. opened from an editor link): hide the section.
+        if (!cancelled) setLinks(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const copyLink = useCallback(async (link: DocumentShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareViewUrl(link.token));
+      setCopiedId(link.id);
+      window.setTimeout(() => setCopiedId((id) => (id === link.id ? null : id)), 2000);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    setCreating(true);
+    try {
+      const link = await createShareLink(projectId, { role, expiresInDays: expiryDays });
+      setLinks((prev) => [link, ...(prev ?? [])]);
+      await copyLink(link);
+    } catch (err) {
+      console.error("Failed to create share link:", err);
+      alert("Could not create the share link. Try again.");
+    } finally {
+      setCreating(false);
+    }
+  }, [projectId, role, expiryDays, copyLink]);
+
+  const handleRevoke = useCallback(
+    async (link: DocumentShareLink) => {
+      if (!confirm("Revoke this link? Anyone using it loses access immediately.")) return;
+      try {
+        await revokeShareLink(projectId, link.id);
+        setLinks((prev) => (prev ?? []).map((l) => (l.id === link.id ? { ...l, revokedAt: Date.now() } : l)));
+      } catch (err) {
+        console.error("Failed to revoke share link:", err);
+        alert("Could not revoke the share link. Try again.");
+      }
+    },
+    [projectId]
+  );
+
+  if (!links) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 px-4 py-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Link2 className="w-4 h-4 text-violet-500" />
+        <span className="text-sm font-medium text-gray-800 dark:text-gray-200">Share links</span>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as ShareRole)}
+          className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+          aria-label="Link role"
+        >
+          {SHARE_ROLES.map((r) => (
+            <option key={r} value={r}>
+              {SHARE_ROLE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={expiryDays ?? ""}
+          onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+          className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+          aria-label="Link expiry"
+        >
+          {EXPIRY_OPTIONS.map((o) => (
+            <option key={o.label} value={o.days ?? ""}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={creating}
+          className="shrink-0 px-2.5 py-1.5 rounded-lg bg-violet-600 hover:bg-violet-700 disabled:opacity-50 text-white text-xs font-medium"
+        >
+          {creating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : "Create"}
+        </button>
+      </div>
+      {links.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto -mx-1">
+          {links.map((link) => {
+            const inactive = !!link.revokedAt || (!!link.expiresAt && link.expiresAt <= Date.now());
+            return (
+              <li key={link.id} className="flex items-center gap-2 px-1 py-1">
+                <div className={`flex-1 min-w-0 ${inactive ? "opacity-50" : ""}`}>
+                  <span className="block text-xs text-gray-800 dark:text-gray-200">{SHARE_ROLE_LABELS[link.role]}</span>
+                  <span className="block text-[11px] text-gray-500 dark:text-gray-400">{shareLinkStatus(link)}</span>
+                </div>
+                {!inactive && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => copyLink(link)}
+                      className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600"
+                      title="Copy link"
+                      aria-label="Copy link"
+                    >
+                      {copiedId === link.id ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Copy className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(link)}
+                      className="px-1.5 py-0.5 rounded text-[11px] font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      Revoke
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export function SharePanel({ open, onClose }: SharePanelProps) {
   const nodes = useCanvasStore((s) => s.nodes);
   const edges = useCanvasStore((s) => s.edges);
@@ -18,10 +186,15 @@ export function SharePanel({ open, onClose }: SharePanelProps) {
   const nodeTasks = useCanvasStore((s) => s.nodeTasks);
   const activeProjectId = useCanvasStore((s) => s.activeProjectId);
   const canvasMode = useCanvasStore((s) => s.canvasMode);
+  const persistenceSource = useCanvasStore((s) => s.persistenceSource);
   const setSettingsOpen = useCanvasStore((s) => s.setSettingsOpen);
 
   const { isSignedIn } = useUser();
   const [copyLinkFeedback, setCopyLinkFeedback] = useState(false);
+  const collabRoomId = useCollabStore((s) => s.roomId);
+  const collabPeerCount = useCollabStore((s) => Object.keys(s.peers).length);
+  const collabDisplayName = useCollabDisplayName();
+  const [inviteFeedback, setInviteFeedback] = useState(false);
 
   // Export as JSON (same as ExportImportPanel)
   const handleExportJSON = useCallback(() => {
@@ -102,6 +275,24 @@ export function SharePanel({ open, onClose }: SharePanelProps) {
     }
   }, [isSignedIn, activeProjectId]);
 
+  // Live collaboration: the room is the active project; the invite link joins it from any browser.
+  const handleCopyInvite = useCallback(async () => {
+    let roomId = useCollabStore.getState().roomId;
+    if (!roomId) {
+      if (!activeProjectId) return;
+      startCollabSession(activeProjectId, { name: collabDisplayName });
+      roomId = activeProjectId;
+    }
+    const url = `${window.location.origin}/editor?collab=${encodeURIComponent(roomId)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setInviteFeedback(true);
+      window.setTimeout(() => setInviteFeedback(false), 2000);
+    } catch {
+      // ignore
+    }
+  }, [activeProjectId, collabDisplayName]);
+
   const handlePremium = useCallback(() => {
     onClose();
     setSettingsOpen(true);
@@ -167,6 +358,42 @@ export function SharePanel({ open, onClose }: SharePanelProps) {
             </button>
           )}
 
+          {isSignedIn && persistenceSource === "cloud" && activeProjectId && isApiProjectId(activeProjectId) && (
+            <ShareLinksSection projectId={activeProjectId} />
+          )}
+
+          {canvasMode === "reactflow" && (
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700">
+              <button
+                type="button"
+                onClick={handleCopyInvite}
+                className="w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-violet-50/50 dark:hover:bg-violet-900/20 transition-colors text-left"
+              >
+                <Users className="w-5 h-5 text-violet-500" />
+                <div className="flex-1">
+                  <span className="text-sm font-medium text-gray-800 dark:text-gray-200 block">
+                    {inviteFeedback ? "Invite link copied!" : collabRoomId ? "Copy invite link" : "Start live session"}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {collabRoomId
+                      ? `Live now · ${collabPeerCount} other${collabPeerCount === 1 ? "" : "s"} editing`
+                      : "Edit together in real time; copies an invite link"}
+                  </span>
+                </div>
+                {inviteFeedback && <Check className="w-4 h-4 text-green-500 shrink-0" />}
+              </button>
+              {collabRoomId && (
+                <button
+                  type="button"
+                  onClick={stopCollabSession}
+                  className="w-full px-4 py-2 border-t border-gray-200 dark:border-gray-700 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-b-xl text-left"
+                >
+                  Leave live session
+                </button>
+              )}
+            </div>
+          )}
+
           <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
             <button
               type="button"
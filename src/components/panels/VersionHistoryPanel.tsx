@@ -0,0 +1,357 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Clock, Loader2, RotateCcw, Trash2, Bookmark, Sparkles, GitCompare, X } from "lucide-react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { restoreVersion } from "@/lib/store/project-storage";
+import {
+  listVersions,
+  loadVersion,
+  deleteVersion,
+  recordVersion,
+  type DocumentVersion,
+  type DocumentVersionMeta,
+  type VersionKind,
+} from "@/lib/store/version-history";
+import { diagramToSvg } from "@/lib/diagram-to-svg";
+import { cn } from "@/lib/utils";
+
+interface VersionHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_LABELS: Record<VersionKind, string> = {
+  auto: "Auto-save",
+  ai: "Before AI",
+  checkpoint: "Checkpoint",
+  restore: "Restore",
+};
+
+function timeAgo(ts: number): string {
+  const diff = Date.now() - ts;
+  const mins = Math.floor(diff / 60000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h ago`;
+  const days = Math.floor(hrs / 24);
+  if (days < 30) return `${days}d ago`;
+  return new Date(ts).toLocaleDateString();
+}
+
+export function VersionHistoryPanel({ open, onOpenChange }: VersionHistoryPanelProps) {
+  const activeProjectId = useCanvasStore((s) => s.activeProjectId);
+  const persistenceSource = useCanvasStore((s) => s.persistenceSource);
+  const setDiffBaseline = useCanvasStore((s) => s.setDiffBaseline);
+  const setCanvasMode = useCanvasStore((s) => s.setCanvasMode);
+
+  const [items, setItems] = useState<DocumentVersionMeta[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<DocumentVersion | null>(null);
+  const [selectedLoading, setSelectedLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    if (!activeProjectId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setItems(await listVersions(activeProjectId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed");
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (!open) {
+      setSelected(null);
+      return;
+    }
+    fetchVersions();
+  }, [open, fetchVersions, persistenceSource]);
+
+  const handleSelect = useCallback(
+    async (item: DocumentVersionMeta) => {
+      if (!activeProjectId) return;
+      setSelectedLoading(true);
+      try {
+        const version = await loadVersion(activeProjectId, item.id);
+        if (!version) {
+          setError("This version no longer exists.");
+          return;
+        }
+        setSelected(version);
+      } finally {
+        setSelectedLoading(false);
+      }
+    },
+    [activeProjectId]
+  );
+
+  const handleSaveCheckpoint = useCallback(async () => {
+    const name = checkpointName.trim();
+    if (!name) return;
+    setSaving(true);
+    try {
+      await recordVersion("checkpoint", name);
+      setCheckpointName("");
+      await fetchVersions();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to save checkpoint.");
+    } finally {
+      setSaving(false);
+    }
+  }, [checkpointName, fetchVersions]);
+
+  const handleRestore = useCallback(async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await restoreVersion(selected);
+      onOpenChange(false);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to restore version.");
+    } finally {
+      setRestoring(false);
+    }
+  }, [selected, onOpenChange]);
+
+  /** Highlight what changed on the canvas since the selected version. */
+  const handleCompare = useCallback(() => {
+    if (!selected) return;
+    setDiffBaseline({
+      projectId: activeProjectId,
+      title: selected.label || `version from ${new Date(selected.createdAt).toLocaleString()}`,
+      nodes: selected.nodes,
+      edges: Array.isArray(selected.edges) ? selected.edges : [],
+    });
+    setCanvasMode("reactflow");
+    onOpenChange(false);
+  }, [selected, activeProjectId, setDiffBaseline, setCanvasMode, onOpenChange]);
+
+  const handleDelete = useCallback(
+    async (item: DocumentVersionMeta) => {
+      if (!activeProjectId) return;
+      if (!window.confirm("Delete this version?")) return;
+      try {
+        await deleteVersion(activeProjectId, item.id);
+        if (selected?.id === item.id) setSelected(null);
+        setItems((prev) => prev.filter((v) => v.id !== item.id));
+      } catch (err) {
+        console.error(err);
+        alert("Failed to delete version.");
+      }
+    },
+    [activeProjectId, selected]
+  );
+
+  /** Read-only preview of the selected version's React Flow diagram. */
+  const previewUrl = useMemo(() => {
+    if (!selected || !Array.isArray(selected.nodes) || selected.nodes.length === 0) return null;
+    const svg = diagramToSvg(selected.nodes, Array.isArray(selected.edges) ? selected.edges : []);
+    return URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  }, [selected]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/30" />
+        <Dialog.Content
+          className={cn(
+            "fixed left-1/2 top-1/2 z-50 w-full max-w-3xl -translate-x-1/2 -translate-y-1/2",
+            "rounded-xl bg-white dark:bg-gray-900 shadow-xl border border-gray-200 dark:border-gray-700",
+            "h-[80vh] flex flex-col"
+          )}
+          onPointerDownOutside={() => onOpenChange(false)}
+          onEscapeKeyDown={() => onOpenChange(false)}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Version history
+            </h2>
+            <Dialog.Close asChild>
+              <button
+                type="button"
+                className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"
+                aria-label="Close"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {!activeProjectId ? (
+            <div className="p-6 text-sm text-gray-500 dark:text-gray-400">Open a project to see its versions.</div>
+          ) : (
+            <div className="flex-1 flex min-h-0">
+              <div className="w-72 shrink-0 flex flex-col border-r border-gray-200 dark:border-gray-700">
+                <form
+                  className="flex gap-1.5 p-3 border-b border-gray-200 dark:border-gray-700"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSaveCheckpoint();
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={checkpointName}
+                    onChange={(e) => setCheckpointName(e.target.value)}
+                    placeholder="Checkpoint name"
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-violet-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving || !checkpointName.trim()}
+                    className="flex items-center gap-1 px-2 py-1.5 text-xs font-medium rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50"
+                  >
+                    {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Bookmark className="w-3 h-3" />}
+                    Save
+                  </button>
+                </form>
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                  </div>
+                ) : error ? (
+                  <div className="p-4 text-sm text-red-600 dark:text-red-400">{error}</div>
+                ) : items.length === 0 ? (
+                  <div className="p-4 text-sm text-gray-500 dark:text-gray-400">
+                    No versions yet. Versions are saved automatically as you work, before AI changes, and when you save a
+                    checkpoint.
+                  </div>
+                ) : (
+                  <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                    {items.map((item) => (
+                      <div
+                        key={item.id}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => handleSelect(item)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleSelect(item);
+                        }}
+                        className={cn(
+                          "group rounded-lg border p-2 cursor-pointer",
+                          selected?.id === item.id
+                            ? "border-violet-400 bg-violet-50 dark:border-violet-500 dark:bg-violet-900/20"
+                            : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span
+                            className={cn(
+                              "flex items-center gap-1 text-[10px] font-medium uppercase tracking-wide",
+                              item.kind === "checkpoint"
+                                ? "text-violet-600 dark:text-violet-400"
+                                : item.kind === "ai"
+                                  ? "text-amber-600 dark:text-amber-400"
+                                  : "text-gray-500 dark:text-gray-400"
+                            )}
+                          >
+                            {item.kind === "checkpoint" && <Bookmark className="w-3 h-3" />}
+                            {item.kind === "ai" && <Sparkles className="w-3 h-3" />}
+                            {KIND_LABELS[item.kind] ?? item.kind}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(item);
+                            }}
+                            className="p-0.5 rounded opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                            aria-label="Delete version"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                        {item.label && (
+                          <p className="mt-0.5 text-xs text-gray-900 dark:text-white line-clamp-2">{item.label}</p>
+                        )}
+                        <p className="mt-0.5 text-[11px] text-gray-500 dark:text-gray-400">
+                          {item.nodeCount} nodes · {item.edgeCount} edges · {timeAgo(item.createdAt)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 flex flex-col min-w-0">
+                {selectedLoading ? (
+                  <div className="flex-1 flex items-center justify-center">
+                    <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                  </div>
+                ) : !selected ? (
+                  <div className="flex-1 flex items-center justify-center p-6 text-sm text-gray-500 dark:text-gray-400">
+                    Select a version to preview it.
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex-1 min-h-0 p-3 bg-gray-50 dark:bg-gray-950/40">
+                      {previewUrl ? (
+                        // eslint-disable-next-line @next/next/no-img-element -- blob URL of a generated SVG
+                        <img src={previewUrl} alt="Version preview" className="w-full h-full object-contain" />
+                      ) : (
+                        <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400 text-center px-6">
+                          {selected.drawioData || selected.excalidrawData
+                            ? "This version only has Draw.io or Excalidraw content. Restore it to view."
+                            : "This version is empty."}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {new Date(selected.createdAt).toLocaleString()}
+                        {selected.label && <> · {selected.label}</>}
+                      </span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {previewUrl && (
+                          <button
+                            type="button"
+                            onClick={handleCompare}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            title="Highlight what changed on the canvas since this version"
+                          >
+                            <GitCompare className="w-3 h-3" />
+                            Compare with current
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={handleRestore}
+                          disabled={restoring}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50"
+                        >
+                          {restoring ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                          Restore this version
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCollabStore } from "@/lib/store/collab-store";
+import { cn } from "@/lib/utils";
+
+const MAX_AVATARS = 4;
+
+/** Header avatars of everyone in the live session; hidden outside a session. */
+export function CollabPresenceBar({ onClick }: { onClick?: () => void }) {
+  const status = useCollabStore((s) => s.status);
+  const self = useCollabStore((s) => s.self);
+  const peers = useCollabStore((s) => s.peers);
+
+  if (!self) return null;
+
+  const people = [{ clientId: self.clientId, name: `${self.name} (you)`, color: self.color }].concat(
+    Object.values(peers).map((p) => ({ clientId: p.clientId, name: p.user.name, color: p.user.color }))
+  );
+  const statusLabel =
+    status === "connected" ? "Live" : status === "connecting" ? "Connecting…" : "Offline — reconnecting";
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex items-center gap-2 px-2 py-1 mr-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+      title={`${statusLabel}: ${people.map((p) => p.name).join(", ")}`}
+    >
+      <span
+        className={cn(
+          "w-2 h-2 rounded-full",
+          status === "connected" ? "bg-green-500" : status === "connecting" ? "bg-amber-400 animate-pulse" : "bg-red-500"
+        )}
+      />
+      <span className="flex -space-x-1.5">
+        {people.slice(0, MAX_AVATARS).map((p) => (
+          <span
+            key={p.clientId}
+            className="w-6 h-6 rounded-full border-2 border-white dark:border-gray-800 flex items-center justify-center text-[10px] font-semibold text-white"
+            style={{ backgroundColor: p.color }}
+          >
+            {p.name.charAt(0).toUpperCase()}
+          </span>
+        ))}
+        {people.length > MAX_AVATARS && (
+          <span className="w-6 h-6 rounded-full border-2 border-white dark:border-gray-800 bg-gray-400 flex items-center justify-center text-[10px] font-semibold text-white">
+            +{people.length - MAX_AVATARS}
+          </span>
+        )}
+      </span>
+    </button>
+  );
+}
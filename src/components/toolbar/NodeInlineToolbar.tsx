@@ -23,6 +23,8 @@ import {
   FileText,
   CheckSquare,
   Focus,
+  Pin,
+  PinOff,
   Trash2,
   Replace,
   ChevronDown,
@@ -157,6 +159,12 @@ export function NodeInlineToolbar({ nodeId, selected = false }: NodeInlineToolba
     setFocusedBranchNodeId(focusedBranchNodeId === nodeId ? null : nodeId);
   };
 
+  const pinned = node?.data?.pinned === true;
+  const handleTogglePin = () => {
+    pushUndo(pinned ? "Unpin node" : "Pin node");
+    updateNodeData(nodeId, { pinned: !pinned });
+  };
+
   // Task progress for this node
   const tasks = useCanvasStore((s) => s.nodeTasks[nodeId]);
   const taskCount = tasks?.length ?? 0;
@@ -772,6 +780,13 @@ export function NodeInlineToolbar({ nodeId, selected = false }: NodeInlineToolba
         <ToolbarButton title="Focus mode" onClick={handleFocusMode} active={focusedBranchNodeId === nodeId}>
           <Focus className="w-3.5 h-3.5" />
         </ToolbarButton>
+        <ToolbarButton
+          title={pinned ? "Unpin (layouts may move it)" : "Pin position (layouts keep it in place)"}
+          onClick={handleTogglePin}
+          active={pinned}
+        >
+          {pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+        </ToolbarButton>
         {isInGroup && (
           <ToolbarButton title="Exit group" onClick={handleExitGroup}>
             <LogOut className="w-3.5 h-3.5" />
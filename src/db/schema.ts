@@ -90,11 +90,104 @@ export const documents = pgTable("documents", {
   nodeAttachments: jsonb("node_attachments").$type<Record<string, unknown>>().default({}),
   excalidrawData: jsonb("excalidraw_data").$type<{ elements: unknown[]; appState?: Record<string, unknown> }>(),
   drawioData: text("drawio_data"),
+  /** Presentation slides (see lib/presentation.ts). */
+  presentation: jsonb("presentation").$type<{ slides: object[] }>(),
+  /** Pages of a multi-page document (see lib/document-pages.ts); nodes/edges hold the active page. */
+  pages: jsonb("pages").$type<object[]>(),
+  activePageId: text("active_page_id"),
+  /** Node property schema (see lib/node-properties.ts). */
+  propertySchema: jsonb("property_schema").$type<object[]>(),
   isFavorite: boolean("is_favorite").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+/**
+ * Version history: full snapshots of a document's content. Auto snapshots (throttled, on save),
+ * before every AI apply, manual named checkpoints, and the state written by a restore.
+ */
+export const DOCUMENT_VERSION_KINDS = ["auto", "ai", "checkpoint", "restore"] as const;
+
+export const documentVersions = pgTable("document_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  documentId: uuid("document_id")
+    .notNull()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  /** auto | ai | checkpoint | restore (see DOCUMENT_VERSION_KINDS) */
+  kind: text("kind").notNull(),
+  /** Checkpoint name, or a short description such as "Before AI: <prompt>". */
+  label: text("label"),
+  nodes: jsonb("nodes").$type<object[]>().default([]),
+  edges: jsonb("edges").$type<object[]>().default([]),
+  savedLayout: jsonb("saved_layout").$type<{ direction: string; algorithm: string; spacingX: number; spacingY: number }>(),
+  nodeNotes: jsonb("node_notes").$type<Record<string, string>>().default({}),
+  nodeTasks: jsonb("node_tasks").$type<Record<string, unknown>>().default({}),
+  nodeAttachments: jsonb("node_attachments").$type<Record<string, unknown>>().default({}),
+  excalidrawData: jsonb("excalidraw_data").$type<{ elements: unknown[]; appState?: Record<string, unknown> }>(),
+  drawioData: text("drawio_data"),
+  nodeCount: integer("node_count"),
+  edgeCount: integer("edge_count"),
+  /** Pages of a multi-page document when the version was taken; nodes/edges hold the active page. */
+  pages: jsonb("pages").$type<object[]>(),
+  activePageId: text("active_page_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/**
+ * Share links: a random token grants access to one document with a role (viewer | commenter | editor,
+ * see SHARE_ROLES in lib/share-roles). Revoked links are kept (revokedAt) so the list shows them.
+ */
+export const documentShares = pgTable("document_shares", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  documentId: uuid("document_id")
+    .notNull()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  /** Owner who created the link. */
+  createdBy: text("created_by").notNull(),
+  token: text("token").notNull().unique(),
+  role: text("role").notNull(),
+  /** Null = never expires. */
+  expiresAt: timestamp("expires_at", { mode: "date" }),
+  revokedAt: timestamp("revoked_at", { mode: "date" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/**
+ * Comment threads: anchored to a node id, an edge id or a canvas point (anchorKind node | edge | canvas,
+ * see COMMENT_ANCHOR_KINDS in lib/comments). Resolving keeps the thread; it just leaves the open list.
+ */
+export const documentCommentThreads = pgTable("document_comment_threads", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  documentId: uuid("document_id")
+    .notNull()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  createdBy: text("created_by").notNull(),
+  anchorKind: text("anchor_kind").notNull(),
+  /** Node or edge id; null for canvas anchors. */
+  anchorId: text("anchor_id"),
+  /** Flow coordinates for canvas anchors. */
+  anchorPosition: jsonb("anchor_position").$type<{ x: number; y: number }>(),
+  resolvedAt: timestamp("resolved_at", { mode: "date" }),
+  resolvedBy: text("resolved_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/** Comments in a thread (the first one opens it). authorName is the display name at the time of writing. */
+export const documentComments = pgTable("document_comments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  threadId: uuid("thread_id")
+    .notNull()
+    .references(() => documentCommentThreads.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  authorName: text("author_name").notNull(),
+  body: text("body").notNull(),
+  /** @mentioned names parsed from the body. */
+  mentions: jsonb("mentions").$type<string[]>().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 /** User Excalidraw library items (cloud sync when signed in) */
 export const userExcalidrawLibraries = pgTable("user_excalidraw_libraries", {
   userId: text("user_id").primaryKey(),
@@ -217,6 +310,11 @@ export type UserCredits = typeof userCredits.$inferSelect;
 export type Workspace = typeof workspaces.$inferSelect;
 export type Document = typeof documents.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type NewDocumentVersion = typeof documentVersions.$inferInsert;
+export type DocumentShare = typeof documentShares.$inferSelect;
+export type DocumentCommentThread = typeof documentCommentThreads.$inferSelect;
+export type DocumentComment = typeof documentComments.$inferSelect;
 export type UserFile = typeof userFiles.$inferSelect;
 export type DiagramPreset = typeof diagramPresets.$inferSelect;
 export type NewDiagramPreset = typeof diagramPresets.$inferInsert;
@@ -4,9 +4,21 @@ import type { Node } from "@xyflow/react";
 
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 
+/** The current `node` at the layout's placement: data, style etc. edited meanwhile are kept. */
+function withPlacement(node: Node, target: Node, position = target.position): Node {
+  return {
+    ...node,
+    position: position ?? node.position,
+    targetPosition: target.targetPosition,
+    sourcePosition: target.sourcePosition,
+  };
+}
+
 /**
  * Applies layout with smooth position animation.
  * Uses d3-timer and lerp for transitions (like React Flow Pro examples).
+ * `targetNodes` may be a subset of the canvas (e.g. a layout-worker result): only their position
+ * and handle sides are applied, so nodes added or edited meanwhile are kept.
  */
 export function useAnimatedLayout() {
   const timerRef = useRef<ReturnType<typeof timer> | null>(null);
@@ -20,42 +32,39 @@ export function useAnimatedLayout() {
     ) => {
       if (timerRef.current) timerRef.current.stop();
 
-      if (!targetNodes.length) {
-        setNodes(targetNodes);
-        return;
-      }
+      if (!targetNodes.length) return;
 
       const startMap = new Map(startNodes.map((n) => [n.id, n]));
+      const targetMap = new Map(targetNodes.map((n) => [n.id, n]));
 
       timerRef.current = timer((elapsed) => {
         const progress = Math.min(elapsed / duration, 1);
 
+        if (progress >= 1) {
+          timerRef.current?.stop();
+          setNodes((nds) =>
+            nds.map((node) => {
+              const target = targetMap.get(node.id);
+              return target ? withPlacement(node, target) : node;
+            })
+          );
+          return;
+        }
+
         setNodes((nds) =>
           nds.map((node) => {
-            const target = targetNodes.find((n) => n.id === node.id);
+            const target = targetMap.get(node.id);
             const start = startMap.get(node.id);
 
             if (!target) return node;
-            if (!start?.position || !target.position) {
-              return { ...node, ...target };
-            }
+            if (!start?.position || !target.position) return withPlacement(node, target);
 
-            return {
-              ...node,
-              position: {
-                x: lerp(start.position.x, target.position.x, progress),
-                y: lerp(start.position.y, target.position.y, progress),
-              },
-              targetPosition: target.targetPosition,
-              sourcePosition: target.sourcePosition,
-            };
+            return withPlacement(node, target, {
+              x: lerp(start.position.x, target.position.x, progress),
+              y: lerp(start.position.y, target.position.y, progress),
+            });
           })
         );
-
-        if (progress >= 1) {
-          timerRef.current?.stop();
-          setNodes(targetNodes);
-        }
       });
     },
     []
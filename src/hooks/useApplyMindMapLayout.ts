@@ -1,8 +1,10 @@
 import { useCallback } from "react";
 import { useStore } from "@xyflow/react";
 import { useCanvasStore, type SavedLayout } from "@/lib/store/canvas-store";
-import { getLayoutedElements, type LayoutDirection } from "@/lib/layout-engine";
-import { resolveCollisions } from "@/lib/resolve-collisions";
+import type { LayoutAlgorithm, LayoutDirection } from "@/lib/layout-engine";
+import { requestLayout } from "@/lib/layout-worker-client";
+import { incrementalLayoutFor } from "@/lib/incremental-layout";
+import { useAnimatedLayout } from "@/hooks/useAnimatedLayout";
 import type { Node, Edge } from "@xyflow/react";
 
 interface UseApplyMindMapLayoutProps {
@@ -14,7 +16,13 @@ interface UseApplyMindMapLayoutProps {
 /** Node types that must never be repositioned by layout algorithms. */
 const LAYOUT_EXCLUDED_TYPES = new Set(["freeDraw", "edgeAnchor", "group"]);
 
-function runLayoutAndMerge(
+type ApplyAnimatedLayout = ReturnType<typeof useAnimatedLayout>;
+
+/**
+ * Lay out `layoutableNodes` and animate the canvas to the new positions. Pinned nodes stay put;
+ * with "Keep placement" on, only nodes added since the last layout move (see incremental-layout.ts).
+ */
+async function runLayoutAndMerge(
   layoutableNodes: Node[],
   layoutableEdges: Edge[],
   direction: LayoutDirection,
@@ -22,36 +30,37 @@ function runLayoutAndMerge(
   algorithm: string,
   setNodes: (nodes: Node[] | ((prev: Node[]) => Node[])) => void,
   setEdges: (edges: Edge[] | ((prev: Edge[]) => Edge[])) => void,
+  applyAnimatedLayout: ApplyAnimatedLayout,
   fitView?: () => void
 ) {
-  return getLayoutedElements(layoutableNodes, layoutableEdges, direction, spacing, algorithm as "elk-layered").then(
-    ({ nodes: layoutedNodes, edges: layoutedEdges }) => {
-      const collisionFreeNodes = resolveCollisions(layoutedNodes, {
-        maxIterations: 150,
-        overlapThreshold: 0,
-        margin: 24,
-      });
-      setNodes((all) =>
-        all.map((n) => {
-          const ln = collisionFreeNodes.find((x) => x.id === n.id);
-          return ln ? { ...n, position: ln.position } : n;
-        })
-      );
-      setEdges((all) =>
-        all.map((e) => {
-          const le = layoutedEdges.find((x) => x.id === e.id);
-          return le
-            ? {
-                ...e,
-                sourceHandle: le.sourceHandle ?? e.sourceHandle,
-                targetHandle: le.targetHandle ?? e.targetHandle,
-              }
-            : e;
-        })
-      );
-      setTimeout(() => fitView?.(), 50);
-    }
+  const { incrementalLayout, layoutBaselineNodeIds, setLayoutBaselineNodeIds } = useCanvasStore.getState();
+  const layout = await requestLayout({
+    nodes: layoutableNodes,
+    edges: layoutableEdges,
+    direction,
+    spacing,
+    algorithm: algorithm as LayoutAlgorithm,
+    collisions: { maxIterations: 150, overlapThreshold: 0, margin: 24 },
+    incremental: incrementalLayoutFor(layoutableNodes, incrementalLayout, layoutBaselineNodeIds),
+  });
+  if (!layout) return; // superseded by a newer layout
+  setLayoutBaselineNodeIds(useCanvasStore.getState().nodes.map((n) => n.id));
+  const layoutedEdges = new Map(layout.edges.map((e) => [e.id, e]));
+  applyAnimatedLayout(layout.nodes, setNodes, useCanvasStore.getState().nodes);
+  setEdges((all) =>
+    all.map((e) => {
+      const le = layoutedEdges.get(e.id);
+      return le
+        ? {
+            ...e,
+            sourceHandle: le.sourceHandle ?? e.sourceHandle,
+            targetHandle: le.targetHandle ?? e.targetHandle,
+          }
+        : e;
+    })
   );
+  // After the animation settles
+  setTimeout(() => fitView?.(), 650);
 }
 
 export function useApplyMindMapLayout({
@@ -63,6 +72,7 @@ export function useApplyMindMapLayout({
   const edges = useStore((s) => s.edges);
   const mindMapLayout = useCanvasStore((s) => s.mindMapLayout);
   const setMindMapLayout = useCanvasStore((s) => s.setMindMapLayout);
+  const applyAnimatedLayout = useAnimatedLayout();
 
   const applyLayout = useCallback(
     async (directionOrLayout?: LayoutDirection | SavedLayout) => {
@@ -99,13 +109,14 @@ export function useApplyMindMapLayout({
           algorithm,
           setNodes,
           setEdges,
+          applyAnimatedLayout,
           fitView
         );
       } catch {
         fitView?.();
       }
     },
-    [nodes, edges, setNodes, setEdges, mindMapLayout, fitView, setMindMapLayout]
+    [nodes, edges, setNodes, setEdges, mindMapLayout, fitView, setMindMapLayout, applyAnimatedLayout]
   );
 
   /** Apply layout only to currently selected nodes (and edges between them). Uses same config as panel. */
@@ -130,12 +141,13 @@ export function useApplyMindMapLayout({
         mindMapLayout.algorithm,
         setNodes,
         setEdges,
+        applyAnimatedLayout,
         fitView
       );
     } catch {
       fitView?.();
     }
-  }, [nodes, edges, setNodes, setEdges, mindMapLayout, fitView]);
+  }, [nodes, edges, setNodes, setEdges, mindMapLayout, fitView, applyAnimatedLayout]);
 
   const selectedCount = nodes.filter((n) => n.selected).length;
 
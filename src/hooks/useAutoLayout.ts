@@ -1,14 +1,11 @@
 "use client";
 
 import { useCallback } from "react";
-import {
-  getLayoutedElements,
-  chooseBestLayoutOptions,
-  layoutChildrenInsideGroups,
-  ensureExtentForGroupedNodes,
-  type LayoutDirection,
-} from "@/lib/layout-engine";
-import { resolveCollisionsWithGroups } from "@/lib/resolve-collisions";
+import { chooseBestLayoutOptions, type LayoutDirection } from "@/lib/layout-engine";
+import { requestLayout } from "@/lib/layout-worker-client";
+import { incrementalLayoutFor } from "@/lib/incremental-layout";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useAnimatedLayout } from "@/hooks/useAnimatedLayout";
 import type { Node, Edge } from "@xyflow/react";
 
 /** Node types excluded from layout (freeform positions). */
@@ -25,6 +22,9 @@ export interface UseAutoLayoutProps {
 /**
  * Hook for smart auto-layout that chooses the best algorithm based on graph structure.
  * Layouts all layoutable nodes, resolves collisions, and produces a clean flow with no overlaps.
+ * The layout runs in the layout worker (a newer layout cancels this one) and nodes animate
+ * to their new positions. Pinned nodes stay put; with "Keep placement" on, only nodes added
+ * since the last layout are arranged (see incremental-layout.ts).
  */
 export function useAutoLayout({
   nodes,
@@ -33,6 +33,10 @@ export function useAutoLayout({
   setEdges,
   fitView,
 }: UseAutoLayoutProps) {
+  const applyAnimatedLayout = useAnimatedLayout();
+  const incrementalLayout = useCanvasStore((s) => s.incrementalLayout);
+  const setLayoutBaselineNodeIds = useCanvasStore((s) => s.setLayoutBaselineNodeIds);
+
   const applyAutoLayout = useCallback(
     async (options?: {
       /** If true, only layout selected nodes. Default: false (layout all). */
@@ -67,41 +71,38 @@ export function useAutoLayout({
       const resolvedDirection = options?.direction ?? direction;
 
       try {
-        const { nodes: layoutedNodes, edges: layoutedEdges } =
-          await getLayoutedElements(
+        // Layout children inside each group with proper padding and extent, then remove overlaps
+        const layout = await requestLayout({
+          nodes: targetNodes,
+          edges: targetEdges,
+          direction: resolvedDirection,
+          spacing,
+          algorithm,
+          groupChildrenSpacing: [40, 32],
+          collisions: { groups: true, maxIterations: 150, overlapThreshold: 0, margin: 24 },
+          incremental: incrementalLayoutFor(
             targetNodes,
-            targetEdges,
-            resolvedDirection,
-            spacing,
-            algorithm
-          );
-
-        // Layout children inside each group with proper padding and extent
-        const withGroupChildren = await layoutChildrenInsideGroups(
-          layoutedNodes,
-          layoutedEdges,
-          resolvedDirection,
-          [40, 32]
-        );
-
-        const collisionFreeNodes = resolveCollisionsWithGroups(
-          ensureExtentForGroupedNodes(withGroupChildren),
-          {
-            maxIterations: 150,
-            overlapThreshold: 0,
-            margin: 24,
-          }
-        );
-
-        setNodes((all) =>
-          all.map((n) => {
-            const ln = collisionFreeNodes.find((x) => x.id === n.id);
+            incrementalLayout,
+            useCanvasStore.getState().layoutBaselineNodeIds
+          ),
+        });
+        if (!layout) return; // superseded by a newer layout
+
+        const laidOut = new Map(layout.nodes.map((n) => [n.id, n]));
+        const layoutedEdges = new Map(layout.edges.map((e) => [e.id, e]));
+        applyAnimatedLayout(
+          targetNodes.map((n) => {
+            const ln = laidOut.get(n.id);
             return ln ? { ...n, position: ln.position } : n;
-          })
+          }),
+          setNodes,
+          targetNodes
         );
+        // Every node on the canvas once the layout is applied, including any added while it ran.
+        setLayoutBaselineNodeIds(useCanvasStore.getState().nodes.map((n) => n.id));
         setEdges((all) =>
           all.map((e) => {
-            const le = layoutedEdges.find((x) => x.id === e.id);
+            const le = layoutedEdges.get(e.id);
             return le
               ? {
                   ...e,
@@ -111,16 +112,17 @@ export function useAutoLayout({
               : e;
           })
         );
+        // After the animation settles
         setTimeout(() => {
           fitView?.();
           options?.onComplete?.();
-        }, 50);
+        }, 650);
       } catch {
         fitView?.();
         options?.onComplete?.();
       }
     },
-    [nodes, edges, setNodes, setEdges, fitView]
+    [nodes, edges, setNodes, setEdges, fitView, applyAnimatedLayout, incrementalLayout, setLayoutBaselineNodeIds]
   );
 
   const layoutAll = useCallback(() => {
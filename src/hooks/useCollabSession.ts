@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAuth, useUser } from "@clerk/nextjs";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { useCollabStore } from "@/lib/store/collab-store";
+import { createProjectApi } from "@/lib/store/project-storage";
+import { getDocumentPages } from "@/lib/document-pages";
+import { startCollabSession, stopCollabSession } from "@/lib/collab/collab-client";
+import { whenCanvasLoaded } from "@/lib/chunked-nodes";
+
+/** Invite rooms this browser joined as a guest → local project that mirrors the room. */
+const GUEST_ROOMS_KEY = "ai-diagram-collab-rooms-v1";
+
+function loadGuestRooms(): Record<string, string> {
+  try {
+    const raw = window.localStorage.getItem(GUEST_ROOMS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveGuestRoom(roomId: string, projectId: string) {
+  try {
+    window.localStorage.setItem(GUEST_ROOMS_KEY, JSON.stringify({ ...loadGuestRooms(), [roomId]: projectId }));
+  } catch {
+    // ignore
+  }
+}
+
+/** Name shown next to this user's cursor. */
+export function useCollabDisplayName(): string {
+  const { user } = useUser();
+  return user?.firstName || user?.username || "Guest";
+}
+
+/**
+ * Live collaboration lifecycle for the editor:
+ * - `?collab=<room>` joins the room (the owner's project, or a guest project that mirrors it);
+ * - the room holds the page that was open when joining: opening another page leaves the room, and
+ *   returning to that page joins it again (re-seeding from the page);
+ * - switching to another project leaves the room.
+ */
+export function useCollabSession() {
+  const { isSignedIn } = useAuth();
+  const displayName = useCollabDisplayName();
+  const activeProjectId = useCanvasStore((s) => s.activeProjectId);
+  const activePageId = useCanvasStore((s) => {
+    const project = s.projects.find((p) => p.id === s.activeProjectId);
+    return project ? getDocumentPages(project).activePageId : null;
+  });
+  const sessionProjectId = useCollabStore((s) => s.projectId);
+  const inviteHandled = useRef(false);
+  /** Room left while another page of its project is open. */
+  const pausedRoom = useRef<{ roomId: string; projectId: string; pageId: string } | null>(null);
+
+  useEffect(() => {
+    if (sessionProjectId && activeProjectId !== sessionProjectId) stopCollabSession();
+  }, [activeProjectId, sessionProjectId]);
+
+  useEffect(() => {
+    const { roomId, projectId, pageId } = useCollabStore.getState();
+    if (roomId && projectId && pageId && projectId === activeProjectId && pageId !== activePageId) {
+      pausedRoom.current = { roomId, projectId, pageId };
+      stopCollabSession();
+      return;
+    }
+    const paused = pausedRoom.current;
+    if (!paused || roomId) return;
+    if (paused.projectId !== activeProjectId) {
+      pausedRoom.current = null;
+    } else if (paused.pageId === activePageId) {
+      pausedRoom.current = null;
+      startCollabSession(paused.roomId, { name: displayName });
+    }
+  }, [activeProjectId, activePageId, displayName]);
+
+  useEffect(() => {
+    // Wait for persistence to hydrate (it always ends with an active project).
+    if (inviteHandled.current || !activeProjectId || isSignedIn === undefined) return;
+    inviteHandled.current = true;
+    const roomId = new URLSearchParams(window.location.search).get("collab");
+    if (!roomId) return;
+
+    void (async () => {
+      const store = useCanvasStore.getState();
+      const hasProject = (id: string | undefined) => !!id && store.projects.some((p) => p.id === id);
+      let projectId = hasProject(roomId) ? roomId : loadGuestRooms()[roomId];
+      if (!hasProject(projectId)) {
+        projectId = await createProjectApi(!!isSignedIn, "Live session");
+        saveGuestRoom(roomId, projectId);
+      } else if (projectId !== store.activeProjectId) {
+        store.switchProject(projectId);
+      }
+      // Join with the loaded project, not the first chunks of it.
+      await whenCanvasLoaded();
+      startCollabSession(roomId, { name: displayName });
+    })();
+  }, [activeProjectId, isSignedIn, displayName]);
+}
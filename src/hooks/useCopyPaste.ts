@@ -43,7 +43,7 @@ export function useCopyPaste(
   const paste = useCallback(() => {
     const clipboard = clipboardRef.current;
     if (!clipboard?.nodes.length) return;
-      pushUndo();
+      pushUndo("Paste");
 
       const center = screenToFlowPosition({
         x: typeof window !== "undefined" ? window.innerWidth / 2 : 400,
@@ -0,0 +1,18 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { diffDiagrams, type DiagramDiff } from "@/lib/diagram-diff";
+
+/** Diff of the current canvas against the store's diff baseline; null when no comparison is active. */
+export function useDiagramDiff(): DiagramDiff | null {
+  const baseline = useCanvasStore((s) => s.diffBaseline);
+  const activeProjectId = useCanvasStore((s) => s.activeProjectId);
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+
+  return useMemo(() => {
+    if (!baseline || baseline.projectId !== activeProjectId) return null;
+    return diffDiagrams(baseline, { nodes, edges });
+  }, [baseline, activeProjectId, nodes, edges]);
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useReactFlow } from "@xyflow/react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { getDocumentPages, type DocumentPage } from "@/lib/document-pages";
+
+/**
+ * Pages of the active document and navigation between them. Use inside <ReactFlow>: switching
+ * remembers the current viewport for the page being left.
+ */
+export function useDocumentPages(): {
+  pages: DocumentPage[];
+  activePageId: string;
+  goToPage: (pageId: string) => void;
+} {
+  const storedPages = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.pages);
+  const storedActivePageId = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.activePageId);
+  const switchPage = useCanvasStore((s) => s.switchPage);
+  const { getViewport } = useReactFlow();
+
+  const { pages, activePageId } = useMemo(
+    () => getDocumentPages({ pages: storedPages, activePageId: storedActivePageId }),
+    [storedPages, storedActivePageId]
+  );
+
+  const goToPage = useCallback((pageId: string) => switchPage(pageId, getViewport()), [switchPage, getViewport]);
+
+  return { pages, activePageId, goToPage };
+}
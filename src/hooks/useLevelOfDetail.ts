@@ -0,0 +1,12 @@
+"use client";
+
+import { useStore } from "@xyflow/react";
+import { isLowDetailZoom } from "@/lib/level-of-detail";
+
+/**
+ * True while the canvas is zoomed out far enough for low-detail rendering. Selects a boolean,
+ * so components only re-render when the threshold is crossed, not on every zoom step.
+ */
+export function useLowDetail(): boolean {
+  return useStore((s) => isLowDetailZoom(s.transform[2]));
+}
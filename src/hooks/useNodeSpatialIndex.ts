@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Node } from "@xyflow/react";
+import { createSpatialIndex, type SpatialRect } from "@/lib/spatial-index";
+
+const DEFAULT_NODE_WIDTH = 150;
+const DEFAULT_NODE_HEIGHT = 50;
+
+/** A node's box as the canvas sizes it (measured size, else width/height, else the default). */
+export function getNodeRect(node: Node): SpatialRect {
+  const w = node.measured?.width ?? node.width ?? DEFAULT_NODE_WIDTH;
+  const h = node.measured?.height ?? node.height ?? DEFAULT_NODE_HEIGHT;
+  return {
+    x: node.position.x,
+    y: node.position.y,
+    width: Number(w) || DEFAULT_NODE_WIDTH,
+    height: Number(h) || DEFAULT_NODE_HEIGHT,
+  };
+}
+
+/**
+ * Spatial index over the canvas nodes, kept in step with `nodes`: only nodes whose object
+ * changed since the last render (moved, resized, added, removed) are re-indexed, so a drag
+ * touches one entry per frame. Returns a stable search function for the nodes intersecting
+ * a rectangle. Positions are as stored on each node (relative to the parent for grouped nodes).
+ */
+export function useNodeSpatialIndex(nodes: Node[]): (rect: SpatialRect) => Node[] {
+  const [state] = useState(() => ({
+    index: createSpatialIndex<string>(),
+    indexed: new Map<string, Node>(),
+  }));
+
+  useEffect(() => {
+    const { index, indexed } = state;
+    const present = new Set<string>();
+    for (const node of nodes) {
+      present.add(node.id);
+      if (indexed.get(node.id) === node) continue;
+      indexed.set(node.id, node);
+      if (node.position) index.insert(node.id, getNodeRect(node));
+      else index.remove(node.id);
+    }
+    if (indexed.size === present.size) return;
+    for (const id of [...indexed.keys()]) {
+      if (present.has(id)) continue;
+      indexed.delete(id);
+      index.remove(id);
+    }
+  }, [nodes, state]);
+
+  return useCallback(
+    (rect: SpatialRect) => state.index.search(rect).map((id) => state.indexed.get(id)!),
+    [state]
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { getSlideView, resolveSlides, type PresentationSlide, type SlideView } from "@/lib/presentation";
+
+/** The active project's slides (saved or default), resolved against the current nodes. */
+export function usePresentationSlides(): PresentationSlide[] {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const saved = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.presentation?.slides);
+  return useMemo(() => resolveSlides(saved, nodes), [saved, nodes]);
+}
+
+/** What the current slide and reveal step show; null outside presentation mode. */
+export function useCurrentSlideView(): SlideView | null {
+  const presentationMode = useCanvasStore((s) => s.presentationMode);
+  const index = useCanvasStore((s) => s.presentationNodeIndex);
+  const step = useCanvasStore((s) => s.presentationStep);
+  const nodes = useCanvasStore((s) => s.nodes);
+  const slides = usePresentationSlides();
+  return useMemo(() => {
+    const slide = presentationMode ? slides[index] : undefined;
+    return slide ? getSlideView(slide, step, nodes) : null;
+  }, [presentationMode, slides, index, step, nodes]);
+}
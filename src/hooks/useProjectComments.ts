@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { isApiProjectId } from "@/lib/store/project-storage";
+import { loadComments } from "@/lib/store/comments-store";
+
+/** Keeps the comments store on the active project. Only cloud projects have comments. */
+export function useProjectComments() {
+  const activeProjectId = useCanvasStore((s) => s.activeProjectId);
+  const persistenceSource = useCanvasStore((s) => s.persistenceSource);
+
+  useEffect(() => {
+    const cloudId =
+      activeProjectId && persistenceSource === "cloud" && isApiProjectId(activeProjectId) ? activeProjectId : null;
+    void loadComments(cloudId);
+  }, [activeProjectId, persistenceSource]);
+}
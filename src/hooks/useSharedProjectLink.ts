@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import { openSharedProject } from "@/lib/store/share-links";
+
+/**
+ * `/editor?share=<token>`: opens an editor link's project in the editor. Signed-out users and
+ * links with a lower role go to the read-only viewer instead.
+ */
+export function useSharedProjectLink() {
+  const { isSignedIn } = useAuth();
+  const activeProjectId = useCanvasStore((s) => s.activeProjectId);
+  const persistenceSource = useCanvasStore((s) => s.persistenceSource);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    // Wait for persistence to hydrate (it always ends with an active project).
+    if (handled.current || !activeProjectId || isSignedIn === undefined) return;
+    handled.current = true;
+    const token = new URLSearchParams(window.location.search).get("share");
+    if (!token) return;
+
+    const viewerUrl = `/view/${encodeURIComponent(token)}`;
+    if (!isSignedIn || persistenceSource !== "cloud") {
+      window.location.assign(viewerUrl);
+      return;
+    }
+    openSharedProject(token)
+      .then((opened) => {
+        if (!opened) window.location.assign(viewerUrl);
+      })
+      .catch((err) => {
+        console.error("Failed to open shared project:", err);
+        alert("Could not open the shared project. The link may have been revoked.");
+      });
+  }, [activeProjectId, isSignedIn, persistenceSource]);
+}
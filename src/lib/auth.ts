@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
 
 /** Returns Clerk user id or null (use in API routes / server components). */
 export async function getAuthUserId(): Promise<string | null> {
@@ -15,3 +15,10 @@ export async function requireAuth(): Promise<string | NextResponse> {
   }
   return userId;
 }
+
+/** Display name of the signed-in user (first name, username or email name), for attributing comments. */
+export async function getAuthUserDisplayName(): Promise<string> {
+  const user = await currentUser();
+  const email = user?.primaryEmailAddress?.emailAddress;
+  return user?.firstName || user?.username || email?.split("@")[0] || "Anonymous";
+}
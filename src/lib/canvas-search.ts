@@ -0,0 +1,203 @@
+/**
+ * In-canvas search for SearchPanel: text matching (substring or regex), node filters
+ * (type, color, parent group, custom property, has tasks/attachments/notes) and find-and-replace
+ * on node and edge labels.
+ */
+
+import type { Edge, Node } from "@xyflow/react";
+import type { NodeAttachment, NodeTask } from "@/lib/store/canvas-store";
+import { formatPropertyValue, getNodeProperties, matchesPropertyFilter, type PropertyFilter } from "@/lib/node-properties";
+
+export interface TextMatchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface CanvasSearchFilters {
+  /** Node types to keep; empty keeps all. */
+  types: string[];
+  /** `data.color` to keep, or null for any. */
+  color: string | null;
+  /** Group node whose descendants to keep, or null for any. */
+  parentId: string | null;
+  /** Custom property (and value) to keep, or null for any. */
+  property: PropertyFilter | null;
+  hasOpenTasks: boolean;
+  hasAttachments: boolean;
+  hasNotes: boolean;
+}
+
+export const EMPTY_CANVAS_SEARCH_FILTERS: CanvasSearchFilters = {
+  types: [],
+  color: null,
+  parentId: null,
+  property: null,
+  hasOpenTasks: false,
+  hasAttachments: false,
+  hasNotes: false,
+};
+
+export interface CanvasSearchContext {
+  nodeNotes: Record<string, string>;
+  nodeTasks: Record<string, NodeTask[]>;
+  nodeAttachments: Record<string, NodeAttachment[]>;
+}
+
+/** One hit, in canvas order: nodes first, then edges. */
+export interface CanvasSearchHit {
+  kind: "node" | "edge";
+  id: string;
+  /** What matched; "filter" when the query is empty and only filters apply. */
+  field: "label" | "type" | "note" | "property" | "filter";
+}
+
+export interface TextMatcher {
+  test: (text: string) => boolean;
+  replace: (text: string, replacement: string) => string;
+}
+
+/** Matcher for `query`, or an error message when the regex does not compile. Null for an empty query. */
+export function createTextMatcher(query: string, options: TextMatchOptions): TextMatcher | { error: string } | null {
+  if (!query) return null;
+  let pattern: RegExp;
+  try {
+    const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    pattern = new RegExp(source, options.caseSensitive ? "g" : "gi");
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Invalid regular expression" };
+  }
+  return {
+    test: (text) => {
+      pattern.lastIndex = 0;
+      return pattern.test(text);
+    },
+    // With regex on, the replacement may use $1, $& etc.; literal mode inserts it as-is.
+    replace: (text, replacement) =>
+      options.regex ? text.replace(pattern, replacement) : text.replace(pattern, () => replacement),
+  };
+}
+
+export function isTextMatcherError(matcher: TextMatcher | { error: string } | null): matcher is { error: string } {
+  return !!matcher && "error" in matcher;
+}
+
+export function nodeLabelText(node: Node): string {
+  return typeof node.data?.label === "string" ? node.data.label : "";
+}
+
+export function edgeLabelText(edge: Edge): string {
+  if (typeof edge.data?.label === "string") return edge.data.label;
+  return typeof edge.label === "string" ? edge.label : "";
+}
+
+/** Distinct `data.color` values on the canvas, in first-seen order. */
+export function collectNodeColors(nodes: Node[]): string[] {
+  const colors = new Set<string>();
+  for (const n of nodes) if (typeof n.data?.color === "string" && n.data.color) colors.add(n.data.color);
+  return [...colors];
+}
+
+export function hasActiveFilters(filters: CanvasSearchFilters): boolean {
+  return (
+    filters.types.length > 0 ||
+    filters.color !== null ||
+    filters.parentId !== null ||
+    filters.property !== null ||
+    filters.hasOpenTasks ||
+    filters.hasAttachments ||
+    filters.hasNotes
+  );
+}
+
+function isDescendant(nodeId: string, ancestorId: string, parentOf: Map<string, string | undefined>): boolean {
+  let current = parentOf.get(nodeId);
+  while (current) {
+    if (current === ancestorId) return true;
+    current = parentOf.get(current);
+  }
+  return false;
+}
+
+/** True when the node passes every active filter. */
+function passesFilters(
+  node: Node,
+  filters: CanvasSearchFilters,
+  context: CanvasSearchContext,
+  parentOf: Map<string, string | undefined>
+): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(node.type ?? "")) return false;
+  if (filters.color !== null && node.data?.color !== filters.color) return false;
+  if (filters.parentId !== null && !isDescendant(node.id, filters.parentId, parentOf)) return false;
+  if (filters.property !== null && !matchesPropertyFilter(getNodeProperties(node.data), filters.property)) return false;
+  if (filters.hasOpenTasks && !(context.nodeTasks[node.id] ?? []).some((t) => !t.done)) return false;
+  if (filters.hasAttachments && (context.nodeAttachments[node.id] ?? []).length === 0) return false;
+  if (filters.hasNotes && !(context.nodeNotes[node.id] ?? "").trim()) return false;
+  return true;
+}
+
+/**
+ * Nodes (label, type, note or property value) and edges (label) matching the query among the filtered nodes.
+ * Edges are only searched when no node filter is active, since the filters describe nodes.
+ */
+export function searchCanvas(
+  nodes: Node[],
+  edges: Edge[],
+  matcher: TextMatcher | null,
+  filters: CanvasSearchFilters,
+  context: CanvasSearchContext
+): CanvasSearchHit[] {
+  const filtering = hasActiveFilters(filters);
+  if (!matcher && !filtering) return [];
+  const parentOf = new Map(nodes.map((n) => [n.id, n.parentId]));
+  const hits: CanvasSearchHit[] = [];
+
+  for (const node of nodes) {
+    if (node.hidden || !passesFilters(node, filters, context, parentOf)) continue;
+    if (!matcher) hits.push({ kind: "node", id: node.id, field: "filter" });
+    else if (matcher.test(nodeLabelText(node))) hits.push({ kind: "node", id: node.id, field: "label" });
+    else if (matcher.test(node.type ?? "")) hits.push({ kind: "node", id: node.id, field: "type" });
+    else if (matcher.test(context.nodeNotes[node.id] ?? "")) hits.push({ kind: "node", id: node.id, field: "note" });
+    else if (getNodeProperties(node.data).some((p) => matcher.test(formatPropertyValue(p.value))))
+      hits.push({ kind: "node", id: node.id, field: "property" });
+  }
+
+  if (matcher && !filtering) {
+    for (const edge of edges) {
+      if (!edge.hidden && matcher.test(edgeLabelText(edge))) hits.push({ kind: "edge", id: edge.id, field: "label" });
+    }
+  }
+  return hits;
+}
+
+/**
+ * Rewrite matched label text on the given nodes and edges. Returns new arrays (unchanged
+ * items keep their identity) and how many labels changed.
+ */
+export function replaceInLabels(
+  nodes: Node[],
+  edges: Edge[],
+  matcher: TextMatcher,
+  replacement: string,
+  target: { nodeIds: Set<string>; edgeIds: Set<string> }
+): { nodes: Node[]; edges: Edge[]; count: number } {
+  let count = 0;
+  const nextNodes = nodes.map((node) => {
+    if (!target.nodeIds.has(node.id)) return node;
+    const label = nodeLabelText(node);
+    const next = matcher.replace(label, replacement);
+    if (next === label) return node;
+    count++;
+    return { ...node, data: { ...node.data, label: next } };
+  });
+  const nextEdges = edges.map((edge) => {
+    if (!target.edgeIds.has(edge.id)) return edge;
+    const label = edgeLabelText(edge);
+    const next = matcher.replace(label, replacement);
+    if (next === label) return edge;
+    count++;
+    return typeof edge.data?.label === "string" || typeof edge.label !== "string"
+      ? { ...edge, data: { ...edge.data, label: next } }
+      : { ...edge, label: next };
+  });
+  return { nodes: nextNodes, edges: nextEdges, count };
+}
@@ -7,7 +7,7 @@ const NODES_CHUNK_SIZE = 25;
  * Sort nodes so parents come before children. Required for React Flow's clampPositionToParent
  * to avoid "Cannot read properties of undefined (reading 'measured')" when loading.
  */
-function sortParentsBeforeChildren(nodes: Node[]): Node[] {
+export function sortParentsBeforeChildren(nodes: Node[]): Node[] {
   const byId = new Map(nodes.map((n) => [n.id, n]));
   const added = new Set<string>();
   const result: Node[] = [];
@@ -69,3 +69,39 @@ export function applyNodesAndEdgesInChunks(
     requestAnimationFrame(scheduleNext);
   });
 }
+
+/** Project loads (loadNodesAndEdgesInChunks) still applying chunks. */
+let pendingLoads = 0;
+let loadWaiters: (() => void)[] = [];
+
+/** True while a project's nodes are being loaded into the canvas in chunks. */
+export function isCanvasLoading(): boolean {
+  return pendingLoads > 0;
+}
+
+/** Resolves once no project load is applying chunks (right away when none is). */
+export function whenCanvasLoaded(): Promise<void> {
+  if (pendingLoads === 0) return Promise.resolve();
+  return new Promise((resolve) => loadWaiters.push(resolve));
+}
+
+/**
+ * applyNodesAndEdgesInChunks for opening a project rather than editing one. The chunks are not
+ * edits, so store listeners that must not treat them as such (live collaboration) can check
+ * isCanvasLoading and wait for whenCanvasLoaded.
+ */
+export function loadNodesAndEdgesInChunks(
+  setNodes: (nodesOrUpdater: Node[] | ((prev: Node[]) => Node[])) => void,
+  setEdges: (edgesOrUpdater: Edge[] | ((prev: Edge[]) => Edge[])) => void,
+  nodes: Node[],
+  edges: Edge[]
+): Promise<void> {
+  pendingLoads++;
+  return applyNodesAndEdgesInChunks(setNodes, setEdges, nodes, edges).finally(() => {
+    pendingLoads--;
+    if (pendingLoads > 0) return;
+    const waiters = loadWaiters;
+    loadWaiters = [];
+    for (const resolve of waiters) resolve();
+  });
+}
@@ -0,0 +1,473 @@
+"use client";
+
+/**
+ * Live collaboration client: keeps the canvas store's nodes/edges in sync with a room on the
+ * collaboration server (see lib/collab/protocol for the merge rules).
+ *
+ * - Local changes: a store subscription diffs nodes/edges by id and sends ops for the elements whose
+ *   shared form changed (selection, drag state and measurements stay local).
+ * - Remote ops: merged into the local replica, then patched into the store in place.
+ * - Ops made while disconnected are kept in the replica and re-sent after the next join.
+ * - The room holds one page of the project: changes while another page is active are not synced
+ *   (hooks/useCollabSession leaves the room until that page is back).
+ * - A project load applying chunks is not an edit: the session waits for it to finish and then
+ *   re-seeds from the loaded canvas (see seedFromStore).
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { useCanvasStore, type Project } from "@/lib/store/canvas-store";
+import { useCollabStore } from "@/lib/store/collab-store";
+import { isCanvasLoading, sortParentsBeforeChildren, whenCanvasLoaded } from "@/lib/chunked-nodes";
+import { getCollabServerUrl } from "@/lib/env";
+import { getDocumentPages } from "@/lib/document-pages";
+import {
+  applyCollabOp,
+  compareStamps,
+  emptyDocState,
+  maxClock,
+  type CollabClientMessage,
+  type CollabDocState,
+  type CollabElementKind,
+  type CollabOp,
+  type CollabPresence,
+  type CollabServerMessage,
+  type CollabUser,
+} from "./protocol";
+
+/** Per-element fields that describe local UI state, never synced. */
+const LOCAL_NODE_FIELDS = ["selected", "dragging", "measured", "resizing"] as const;
+const LOCAL_EDGE_FIELDS = ["selected"] as const;
+
+const FLUSH_DELAY_MS = 30;
+const PRESENCE_THROTTLE_MS = 50;
+const RECONNECT_DELAY_MS = 2000;
+/**
+ * The canvas pushes its own node array back to the store; if that array predates a remote change,
+ * it would look like a local revert. Within this window such a revert is re-patched instead of sent.
+ */
+const STALE_ECHO_WINDOW_MS = 1000;
+
+const CURSOR_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899"];
+
+type Session = {
+  roomId: string;
+  clientId: string;
+  user: CollabUser;
+  socket: WebSocket | null;
+  doc: CollabDocState;
+  clock: number;
+  /** Last synced JSON per "kind:id" — a store change only becomes an op when it differs. */
+  known: Map<string, string>;
+  /** JSON an element had locally before the last remote change to it (see STALE_ECHO_WINDOW_MS). */
+  replaced: Map<string, { json: string; at: number }>;
+  outbox: Map<string, CollabOp>;
+  flushTimer: number | null;
+  reconnectTimer: number | null;
+  unsubscribe: () => void;
+  presence: CollabPresence;
+  presenceTimer: number | null;
+  lastPresenceAt: number;
+  /** Waiting for a project load to finish before re-seeding (see seedFromStore). */
+  awaitingLoad: boolean;
+  closed: boolean;
+};
+
+let session: Session | null = null;
+/** True while remote state is written to the store, so the subscription does not echo it back. */
+let applyingRemote = false;
+
+/** Active page of the active project (the page a session syncs). */
+function activePageOf(state: { projects: Project[]; activeProjectId: string | null }): string | null {
+  const project = state.projects.find((p) => p.id === state.activeProjectId);
+  return project ? getDocumentPages(project).activePageId : null;
+}
+
+function key(kind: CollabElementKind, id: string) {
+  return `${kind}:${id}`;
+}
+
+function toShared(element: Node | Edge, kind: CollabElementKind): Record<string, unknown> {
+  const shared: Record<string, unknown> = { ...element };
+  for (const field of kind === "node" ? LOCAL_NODE_FIELDS : LOCAL_EDGE_FIELDS) delete shared[field];
+  return shared;
+}
+
+export function pickCursorColor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+function send(message: CollabClientMessage) {
+  const socket = session?.socket;
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function flush() {
+  if (!session) return;
+  session.flushTimer = null;
+  if (session.outbox.size === 0 || session.socket?.readyState !== WebSocket.OPEN) return;
+  send({ type: "ops", ops: [...session.outbox.values()] });
+  session.outbox.clear();
+}
+
+function scheduleFlush() {
+  if (!session || session.flushTimer != null) return;
+  session.flushTimer = window.setTimeout(flush, FLUSH_DELAY_MS);
+}
+
+function emitLocal(kind: CollabElementKind, id: string, value: Record<string, unknown> | null, json: string) {
+  if (!session) return;
+  const op: CollabOp = { kind, id, value, clock: ++session.clock, clientId: session.clientId };
+  applyCollabOp(session.doc, op);
+  session.known.set(key(kind, id), json);
+  session.replaced.delete(key(kind, id));
+  session.outbox.set(key(kind, id), op);
+  scheduleFlush();
+}
+
+/** Send ops for elements that differ between two store states. */
+function diffAndEmit<T extends Node | Edge>(kind: CollabElementKind, prev: T[], next: T[]) {
+  if (!session) return;
+  const prevById = new Map(prev.map((e) => [e.id, e]));
+  const nextIds = new Set<string>();
+  const stale = new Set<string>();
+  for (const element of next) {
+    nextIds.add(element.id);
+    if (prevById.get(element.id) === element) continue;
+    const shared = toShared(element, kind);
+    const json = JSON.stringify(shared);
+    const k = key(kind, element.id);
+    if (session.known.get(k) === json) continue;
+    if (isStaleEcho(k, json)) {
+      stale.add(element.id);
+      continue;
+    }
+    emitLocal(kind, element.id, shared, json);
+  }
+  for (const element of prev) {
+    if (nextIds.has(element.id)) continue;
+    const entry = (kind === "node" ? session.doc.nodes : session.doc.edges)[element.id];
+    if (entry && entry.value === null) continue;
+    if (isStaleEcho(key(kind, element.id), "null")) {
+      stale.add(element.id);
+      continue;
+    }
+    emitLocal(kind, element.id, null, "null");
+  }
+  if (stale.size > 0) {
+    // Outside the subscription callback, so the store update is not nested in the current one.
+    queueMicrotask(() => applyToStore(kind === "node" ? stale : new Set(), kind === "edge" ? stale : new Set()));
+  }
+}
+
+function isStaleEcho(k: string, json: string): boolean {
+  const replaced = session?.replaced.get(k);
+  return !!replaced && replaced.json === json && Date.now() - replaced.at < STALE_ECHO_WINDOW_MS;
+}
+
+/** Patch merged replica entries into a store list, keeping local-only fields of existing elements. */
+function mergeEntries<T extends Node | Edge>(
+  kind: CollabElementKind,
+  list: T[],
+  ids: Set<string>
+): T[] {
+  if (!session || ids.size === 0) return list;
+  const entries = kind === "node" ? session.doc.nodes : session.doc.edges;
+  const localFields = kind === "node" ? LOCAL_NODE_FIELDS : LOCAL_EDGE_FIELDS;
+  const seen = new Set<string>();
+  const result: T[] = [];
+  for (const element of list) {
+    if (!ids.has(element.id)) {
+      result.push(element);
+      continue;
+    }
+    seen.add(element.id);
+    const value = entries[element.id]?.value;
+    if (!value) continue;
+    const merged = { ...value } as Record<string, unknown>;
+    for (const field of localFields) {
+      if ((element as Record<string, unknown>)[field] !== undefined) merged[field] = (element as Record<string, unknown>)[field];
+    }
+    result.push(merged as unknown as T);
+  }
+  let added = false;
+  for (const id of ids) {
+    if (seen.has(id)) continue;
+    const value = entries[id]?.value;
+    if (!value) continue;
+    result.push({ ...value } as unknown as T);
+    added = true;
+  }
+  return kind === "node" && added ? (sortParentsBeforeChildren(result as Node[]) as T[]) : result;
+}
+
+/** Write replica entries (by id) into the canvas store without echoing them back as local ops. */
+function applyToStore(nodeIds: Set<string>, edgeIds: Set<string>) {
+  if (!session) return;
+  // Another page is open: the session is about to be paused (see useCollabSession).
+  if (activePageOf(useCanvasStore.getState()) !== useCollabStore.getState().pageId) return;
+  const now = Date.now();
+  for (const [kind, ids] of [
+    ["node", nodeIds],
+    ["edge", edgeIds],
+  ] as const) {
+    for (const id of ids) {
+      const k = key(kind, id);
+      const previous = session.known.get(k) ?? "null";
+      const value = (kind === "node" ? session.doc.nodes : session.doc.edges)[id]?.value ?? null;
+      const json = JSON.stringify(value);
+      if (previous !== json) session.replaced.set(k, { json: previous, at: now });
+      session.known.set(k, json);
+    }
+  }
+  const store = useCanvasStore.getState();
+  applyingRemote = true;
+  try {
+    if (nodeIds.size > 0) store.setNodes((nodes) => mergeEntries("node", nodes, nodeIds));
+    if (edgeIds.size > 0) store.setEdges((edges) => mergeEntries("edge", edges, edgeIds));
+  } finally {
+    applyingRemote = false;
+  }
+  if (nodeIds.size > 0 || edgeIds.size > 0) store.setHasUnsavedChanges(true);
+}
+
+/**
+ * Reconcile the replica with a freshly loaded canvas: elements the replica does not know are
+ * seeded (low stamps, so the room wins any conflict) and sent, and everything else is patched
+ * to the replica's state, so stale local content never overwrites or deletes the room's.
+ */
+function seedFromStore() {
+  if (!session) return;
+  const { nodes, edges } = useCanvasStore.getState();
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+  for (const [kind, list, ids] of [
+    ["node", nodes, nodeIds],
+    ["edge", edges, edgeIds],
+  ] as const) {
+    const entries = kind === "node" ? session.doc.nodes : session.doc.edges;
+    const local = new Set<string>();
+    for (const element of list) {
+      local.add(element.id);
+      const k = key(kind, element.id);
+      const value = toShared(element, kind);
+      const json = JSON.stringify(value);
+      if (!Object.hasOwn(entries, element.id)) {
+        const op: CollabOp = { kind, id: element.id, value, clock: 1, clientId: "" };
+        applyCollabOp(session.doc, op);
+        session.known.set(k, json);
+        session.outbox.set(k, op);
+      } else if (JSON.stringify(entries[element.id].value) !== json) {
+        ids.add(element.id);
+      }
+    }
+    for (const [id, entry] of Object.entries(entries)) {
+      if (!local.has(id) && entry.value !== null) ids.add(id);
+    }
+  }
+  applyToStore(nodeIds, edgeIds);
+  scheduleFlush();
+}
+
+/** Ignore the store while a project load applies chunks, then re-seed from the loaded canvas. */
+function reseedAfterLoad(current: Session) {
+  if (current.awaitingLoad) return;
+  current.awaitingLoad = true;
+  void whenCanvasLoaded().then(() => {
+    current.awaitingLoad = false;
+    if (session === current) seedFromStore();
+  });
+}
+
+function handleSnapshot(state: CollabDocState) {
+  if (!session) return;
+  session.clock = Math.max(session.clock, maxClock(state));
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+  for (const [kind, entries, ids] of [
+    ["node", state.nodes, nodeIds],
+    ["edge", state.edges, edgeIds],
+  ] as const) {
+    for (const [id, entry] of Object.entries(entries)) {
+      if (applyCollabOp(session.doc, { kind, id, ...entry })) ids.add(id);
+    }
+  }
+  // Re-send everything the room does not have yet: the initial content when we are first in
+  // the room, and edits made while disconnected.
+  for (const [kind, entries, roomEntries] of [
+    ["node", session.doc.nodes, state.nodes],
+    ["edge", session.doc.edges, state.edges],
+  ] as const) {
+    for (const [id, entry] of Object.entries(entries)) {
+      const roomEntry = Object.hasOwn(roomEntries, id) ? roomEntries[id] : undefined;
+      if (!roomEntry || compareStamps(entry, roomEntry) > 0) session.outbox.set(key(kind, id), { kind, id, ...entry });
+    }
+  }
+  applyToStore(nodeIds, edgeIds);
+  flush();
+}
+
+function handleMessage(message: CollabServerMessage) {
+  if (!session) return;
+  const collab = useCollabStore.getState();
+  switch (message.type) {
+    case "snapshot":
+      collab.setPeers(message.peers);
+      collab.setStatus("connected");
+      handleSnapshot(message.state);
+      sendPresenceNow();
+      break;
+    case "ops": {
+      const nodeIds = new Set<string>();
+      const edgeIds = new Set<string>();
+      for (const op of message.ops) {
+        session.clock = Math.max(session.clock, op.clock);
+        if (applyCollabOp(session.doc, op)) (op.kind === "node" ? nodeIds : edgeIds).add(op.id);
+      }
+      applyToStore(nodeIds, edgeIds);
+      break;
+    }
+    case "peer-joined":
+      collab.upsertPeer(message.peer.clientId, message.peer);
+      break;
+    case "peer-left":
+      collab.removePeer(message.clientId);
+      break;
+    case "presence":
+      collab.upsertPeer(message.clientId, message.presence);
+      break;
+  }
+}
+
+function connect() {
+  if (!session || session.closed) return;
+  const current = session;
+  useCollabStore.getState().setStatus("connecting");
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(getCollabServerUrl());
+  } catch (err) {
+    console.error("Collaboration connection failed:", err);
+    useCollabStore.getState().setStatus("disconnected");
+    return;
+  }
+  current.socket = socket;
+  socket.onopen = () => {
+    send({ type: "join", room: current.roomId, clientId: current.clientId, user: current.user });
+  };
+  socket.onmessage = (event) => {
+    if (session !== current) return;
+    try {
+      handleMessage(JSON.parse(String(event.data)) as CollabServerMessage);
+    } catch (err) {
+      console.error("Invalid collaboration message:", err);
+    }
+  };
+  socket.onclose = () => {
+    if (session !== current || current.closed) return;
+    current.socket = null;
+    useCollabStore.getState().setStatus("disconnected");
+    useCollabStore.getState().setPeers([]);
+    current.reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+  };
+}
+
+/**
+ * Join a collaboration room with the active project. Its current content seeds the room when nobody
+ * else is there; otherwise the canvas is updated to the room's state. Started while the project is
+ * still loading, the session seeds again once the load finishes.
+ */
+export function startCollabSession(roomId: string, user: { name: string }) {
+  const projectId = useCanvasStore.getState().activeProjectId;
+  const pageId = activePageOf(useCanvasStore.getState());
+  if (!projectId || !pageId) return;
+  if (session?.roomId === roomId) return;
+  stopCollabSession();
+
+  const clientId = `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const self = { clientId, name: user.name, color: pickCursorColor(clientId) };
+  const doc = emptyDocState();
+  const known = new Map<string, string>();
+  let clock = 0;
+  // Seed the replica with the current canvas; stamps are low so an existing room wins on conflicts.
+  const { nodes, edges } = useCanvasStore.getState();
+  for (const [kind, list] of [
+    ["node", nodes],
+    ["edge", edges],
+  ] as const) {
+    for (const element of list) {
+      const value = toShared(element, kind);
+      applyCollabOp(doc, { kind, id: element.id, value, clock: ++clock, clientId: "" });
+      known.set(key(kind, element.id), JSON.stringify(value));
+    }
+  }
+
+  const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+    if (applyingRemote || !session) return;
+    const collab = useCollabStore.getState();
+    if (state.activeProjectId !== collab.projectId || activePageOf(state) !== collab.pageId) return;
+    if (isCanvasLoading()) {
+      reseedAfterLoad(session);
+      return;
+    }
+    if (state.nodes !== prev.nodes) {
+      diffAndEmit("node", prev.nodes, state.nodes);
+      const selectedNodeIds = state.nodes.filter((n) => n.selected).map((n) => n.id);
+      if (selectedNodeIds.join() !== session.presence.selectedNodeIds.join()) updateCollabPresence({ selectedNodeIds });
+    }
+    if (state.edges !== prev.edges) diffAndEmit("edge", prev.edges, state.edges);
+  });
+
+  session = {
+    roomId,
+    clientId,
+    user: { name: self.name, color: self.color },
+    socket: null,
+    doc,
+    clock,
+    known,
+    replaced: new Map(),
+    outbox: new Map(),
+    flushTimer: null,
+    reconnectTimer: null,
+    unsubscribe,
+    presence: { cursor: null, selectedNodeIds: [] },
+    presenceTimer: null,
+    lastPresenceAt: 0,
+    awaitingLoad: false,
+    closed: false,
+  };
+  useCollabStore.getState().setSession({ roomId, projectId, pageId, self });
+  if (isCanvasLoading()) reseedAfterLoad(session);
+  connect();
+}
+
+export function stopCollabSession() {
+  const current = session;
+  if (!current) return;
+  session = null;
+  current.closed = true;
+  current.unsubscribe();
+  if (current.flushTimer != null) window.clearTimeout(current.flushTimer);
+  if (current.reconnectTimer != null) window.clearTimeout(current.reconnectTimer);
+  if (current.presenceTimer != null) window.clearTimeout(current.presenceTimer);
+  current.socket?.close();
+  useCollabStore.getState().setSession(null);
+}
+
+function sendPresenceNow() {
+  if (!session) return;
+  session.presenceTimer = null;
+  session.lastPresenceAt = Date.now();
+  send({ type: "presence", presence: session.presence });
+}
+
+/** Update this client's cursor / selection for the other participants (throttled). */
+export function updateCollabPresence(patch: Partial<CollabPresence>) {
+  if (!session) return;
+  session.presence = { ...session.presence, ...patch };
+  if (session.presenceTimer != null) return;
+  const wait = Math.max(0, PRESENCE_THROTTLE_MS - (Date.now() - session.lastPresenceAt));
+  session.presenceTimer = window.setTimeout(sendPresenceNow, wait);
+}
@@ -0,0 +1,146 @@
+/**
+ * Live collaboration protocol, shared by the browser client and the dev WebSocket server
+ * (scripts/collab-server.ts).
+ *
+ * Document model: two last-writer-wins element maps (nodes, edges) keyed by id. Every write carries
+ * a stamp (Lamport clock + client id); a replica keeps the entry with the highest stamp, so all
+ * replicas converge whatever order ops arrive in. Deletes are tombstones (value null) so a late
+ * update cannot resurrect a deleted element unless it is newer than the delete.
+ */
+
+export type CollabElementKind = "node" | "edge";
+
+export interface CollabStamp {
+  clock: number;
+  clientId: string;
+}
+
+export interface CollabOp extends CollabStamp {
+  kind: CollabElementKind;
+  id: string;
+  /** Shared element (see toSharedNode/toSharedEdge on the client); null = deleted. */
+  value: Record<string, unknown> | null;
+}
+
+export interface CollabEntry extends CollabStamp {
+  value: Record<string, unknown> | null;
+}
+
+/** Room state: element id → latest entry (including tombstones). */
+export interface CollabDocState {
+  nodes: Record<string, CollabEntry>;
+  edges: Record<string, CollabEntry>;
+}
+
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+export interface CollabPresence {
+  /** Pointer in flow coordinates; null when outside the canvas. */
+  cursor: { x: number; y: number } | null;
+  selectedNodeIds: string[];
+}
+
+export interface CollabPeer extends CollabPresence {
+  clientId: string;
+  user: CollabUser;
+}
+
+export type CollabClientMessage =
+  | { type: "join"; room: string; clientId: string; user: CollabUser }
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "presence"; presence: CollabPresence };
+
+export type CollabServerMessage =
+  /** Sent once after join: full room state and everyone already there. Empty state = first in the room. */
+  | { type: "snapshot"; state: CollabDocState; peers: CollabPeer[] }
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "peer-joined"; peer: CollabPeer }
+  | { type: "peer-left"; clientId: string }
+  | { type: "presence"; clientId: string; presence: CollabPresence };
+
+/** Element maps are keyed by client-sent ids, so they have no prototype ("__proto__" is just an id). */
+export function emptyDocState(): CollabDocState {
+  return { nodes: Object.create(null), edges: Object.create(null) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCollabOp(value: unknown): value is CollabOp {
+  return (
+    isRecord(value) &&
+    (value.kind === "node" || value.kind === "edge") &&
+    typeof value.id === "string" &&
+    typeof value.clientId === "string" &&
+    typeof value.clock === "number" &&
+    Number.isFinite(value.clock) &&
+    (value.value === null || isRecord(value.value))
+  );
+}
+
+function isCollabUser(value: unknown): value is CollabUser {
+  return isRecord(value) && typeof value.name === "string" && typeof value.color === "string";
+}
+
+function isCollabPresence(value: unknown): value is CollabPresence {
+  if (!isRecord(value)) return false;
+  const { cursor, selectedNodeIds } = value;
+  const cursorOk =
+    cursor === null || (isRecord(cursor) && typeof cursor.x === "number" && typeof cursor.y === "number");
+  return cursorOk && Array.isArray(selectedNodeIds) && selectedNodeIds.every((id) => typeof id === "string");
+}
+
+/** Parse a raw client message; null when it is not valid JSON or not a well-formed message. */
+export function parseCollabClientMessage(raw: string): CollabClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case "join":
+      return typeof data.room === "string" && typeof data.clientId === "string" && isCollabUser(data.user)
+        ? { type: "join", room: data.room, clientId: data.clientId, user: { name: data.user.name, color: data.user.color } }
+        : null;
+    case "ops":
+      return Array.isArray(data.ops) && data.ops.every(isCollabOp) ? { type: "ops", ops: data.ops } : null;
+    case "presence":
+      return isCollabPresence(data.presence)
+        ? {
+            type: "presence",
+            presence: { cursor: data.presence.cursor, selectedNodeIds: data.presence.selectedNodeIds },
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/** Total order on stamps: higher clock wins, client id breaks ties. */
+export function compareStamps(a: CollabStamp, b: CollabStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+/** Merge one op into the state. Returns true when it won (state changed). */
+export function applyCollabOp(state: CollabDocState, op: CollabOp): boolean {
+  const map = op.kind === "node" ? state.nodes : state.edges;
+  const current = map[op.id];
+  if (current && compareStamps(current, op) >= 0) return false;
+  map[op.id] = { value: op.value, clock: op.clock, clientId: op.clientId };
+  return true;
+}
+
+/** Highest clock in a state (a joining client continues from here). */
+export function maxClock(state: CollabDocState): number {
+  let max = 0;
+  for (const entry of Object.values(state.nodes)) max = Math.max(max, entry.clock);
+  for (const entry of Object.values(state.edges)) max = Math.max(max, entry.clock);
+  return max;
+}
@@ -0,0 +1,114 @@
+/**
+ * Comment threads on a project, shared by the API routes and the client.
+ *
+ * A thread is anchored to a node, an edge, or a point on the canvas (flow coordinates) and holds
+ * the first comment plus its replies. @mentions are plain `@name` tokens in the body.
+ */
+
+import type { DocumentComment, DocumentCommentThread } from "@/db/schema";
+
+export const COMMENT_ANCHOR_KINDS = ["node", "edge", "canvas"] as const;
+
+export type CommentAnchorKind = (typeof COMMENT_ANCHOR_KINDS)[number];
+
+export type CommentAnchor =
+  | { kind: "node"; id: string }
+  | { kind: "edge"; id: string }
+  | { kind: "canvas"; x: number; y: number };
+
+export interface ProjectComment {
+  id: string;
+  userId: string;
+  authorName: string;
+  body: string;
+  mentions: string[];
+  createdAt: number;
+}
+
+export interface CommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  createdBy: string;
+  resolvedAt?: number;
+  resolvedBy?: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Oldest first; the first entry opened the thread. */
+  comments: ProjectComment[];
+}
+
+/** Longest comment body the API accepts. */
+export const MAX_COMMENT_LENGTH = 5000;
+
+const MENTION_REGEX = /@([\p{L}\p{N}_.-]+)/gu;
+
+/** Distinct @mentioned names in a comment body, in order of appearance. */
+export function parseMentions(body: string): string[] {
+  const names: string[] = [];
+  for (const match of body.matchAll(MENTION_REGEX)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/** Body split into text and mention parts for rendering. */
+export function splitMentions(body: string): { text: string; mention: boolean }[] {
+  const parts: { text: string; mention: boolean }[] = [];
+  let last = 0;
+  for (const match of body.matchAll(MENTION_REGEX)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: body.slice(last, start), mention: false });
+    parts.push({ text: match[0], mention: true });
+    last = start + match[0].length;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last), mention: false });
+  return parts;
+}
+
+/** Name as it can be typed after "@" (mentions cannot contain spaces). */
+export function mentionHandle(name: string): string {
+  return name.trim().replace(/\s+/g, "_");
+}
+
+/** Anchor from untrusted JSON, or null when malformed. */
+export function parseCommentAnchor(value: unknown): CommentAnchor | null {
+  if (!value || typeof value !== "object") return null;
+  const a = value as Record<string, unknown>;
+  if ((a.kind === "node" || a.kind === "edge") && typeof a.id === "string" && a.id) {
+    return { kind: a.kind, id: a.id };
+  }
+  if (a.kind === "canvas" && Number.isFinite(a.x) && Number.isFinite(a.y)) {
+    return { kind: "canvas", x: a.x as number, y: a.y as number };
+  }
+  return null;
+}
+
+/** API shape of a stored comment. */
+export function commentFromRow(row: DocumentComment): ProjectComment {
+  return {
+    id: row.id,
+    userId: row.userId,
+    authorName: row.authorName,
+    body: row.body,
+    mentions: row.mentions ?? [],
+    createdAt: row.createdAt ? new Date(row.createdAt).getTime() : Date.now(),
+  };
+}
+
+/** API shape of a stored thread and its comments. */
+export function threadFromRow(row: DocumentCommentThread, comments: DocumentComment[]): CommentThread {
+  const anchor: CommentAnchor =
+    row.anchorKind === "canvas"
+      ? { kind: "canvas", x: row.anchorPosition?.x ?? 0, y: row.anchorPosition?.y ?? 0 }
+      : { kind: row.anchorKind === "edge" ? "edge" : "node", id: row.anchorId ?? "" };
+  return {
+    id: row.id,
+    anchor,
+    createdBy: row.createdBy,
+    resolvedAt: row.resolvedAt ? new Date(row.resolvedAt).getTime() : undefined,
+    resolvedBy: row.resolvedBy ?? undefined,
+    createdAt: row.createdAt ? new Date(row.createdAt).getTime() : Date.now(),
+    updatedAt: row.updatedAt ? new Date(row.updatedAt).getTime() : Date.now(),
+    comments: comments.map(commentFromRow),
+  };
+}
@@ -0,0 +1,48 @@
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+
+/**
+ * Shared helpers for databaseSchema nodes, used by the node itself and by
+ * importers/exporters that need to agree with it on column handles and sizing.
+ */
+
+/** Column types offered in the DatabaseSchemaNode type picker (Postgres names). */
+export const COMMON_SCHEMA_TYPES = [
+  "varchar",
+  "text",
+  "uuid",
+  "int4",
+  "int8",
+  "serial",
+  "float8",
+  "boolean",
+  "timestamp",
+  "timestamptz",
+  "date",
+  "money",
+  "jsonb",
+] as const;
+
+export type CommonSchemaType = (typeof COMMON_SCHEMA_TYPES)[number];
+
+export function isCommonSchemaType(type: string): type is CommonSchemaType {
+  return COMMON_SCHEMA_TYPES.includes(type as CommonSchemaType);
+}
+
+export const SCHEMA_NODE_WIDTH = 260;
+/** Header + column header + add-column footer of DatabaseSchemaNode, and one column row. */
+const SCHEMA_CHROME_HEIGHT = 100;
+const SCHEMA_ROW_HEIGHT = 31;
+
+/** Height that fits every column row without scrolling. */
+export function getSchemaNodeHeight(columnCount: number): number {
+  return SCHEMA_CHROME_HEIGHT + Math.max(1, columnCount) * SCHEMA_ROW_HEIGHT;
+}
+
+/**
+ * Per-column handle ids: edges into a column use `target` (left side),
+ * edges out of a column use `source` (right side).
+ */
+export function getSchemaColumnHandleIds(index: number, col: SchemaColumn): { target: string; source: string } {
+  const base = (col.name || `col-${index}`).replace(/\s+/g, "_").replace(/[^a-zA-Z0-9_]/g, "") || `col-${index}`;
+  return { target: base, source: `${base}-out` };
+}
@@ -0,0 +1,210 @@
+import type { Node, Edge } from "@xyflow/react";
+
+/**
+ * Compare two states of a React Flow diagram. Nodes and edges are matched by id.
+ *
+ * - Nodes: added, removed, moved (absolute position changed), relabeled (data.label changed).
+ * - Edges: added, removed, moved (reconnected to other nodes), relabeled.
+ *
+ * Removed elements are returned as "ghosts" so the canvas can draw them next to the current state.
+ */
+
+export type DiagramChangeKind = "added" | "removed" | "moved" | "relabeled";
+
+export interface DiagramChange {
+  element: "node" | "edge";
+  /** Id in the diagram (for removed elements: the id they had in the "before" state). */
+  id: string;
+  /** "added" and "removed" stand alone; an element can be both "moved" and "relabeled". */
+  kinds: DiagramChangeKind[];
+  label: string;
+  previousLabel?: string;
+  /** Node ids to fit the view to when jumping to this change (ghost ids for removed nodes). */
+  focusNodeIds: string[];
+}
+
+export interface DiagramDiff {
+  changes: DiagramChange[];
+  /** Removed nodes with absolute positions and ghost ids; not part of the current diagram. */
+  removedNodes: Node[];
+  /** Removed edges, reconnected to ghost ids where an endpoint was removed too. */
+  removedEdges: Edge[];
+  counts: Record<DiagramChangeKind, number>;
+}
+
+export interface DiagramState {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+/** Highlight color per change kind (canvas outlines, edge strokes and the change list). */
+export const DIFF_COLORS: Record<DiagramChangeKind, string> = {
+  added: "#22c55e",
+  removed: "#ef4444",
+  moved: "#3b82f6",
+  relabeled: "#f59e0b",
+};
+
+/** Kind that decides an element's highlight color when it has several. */
+export function primaryChangeKind(kinds: DiagramChangeKind[]): DiagramChangeKind {
+  return kinds.includes("relabeled") && !kinds.includes("added") && !kinds.includes("removed") ? "relabeled" : kinds[0];
+}
+
+const GHOST_PREFIX = "diff-removed:";
+
+/** Id used to draw a removed element on the canvas without clashing with current ids. */
+export function toGhostId(id: string): string {
+  return `${GHOST_PREFIX}${id}`;
+}
+
+/** Positions closer than this (px) count as unchanged (snap/rounding noise). */
+const MOVE_THRESHOLD = 1;
+
+function nodeLabel(node: Node): string {
+  const label = node.data?.label;
+  return typeof label === "string" ? label : "";
+}
+
+function edgeLabel(edge: Edge): string {
+  const label = edge.data?.label ?? edge.label;
+  return typeof label === "string" ? label : "";
+}
+
+function absolutePositions(nodes: Node[]): Map<string, { x: number; y: number }> {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const cache = new Map<string, { x: number; y: number }>();
+  const resolve = (node: Node, depth: number): { x: number; y: number } => {
+    const cached = cache.get(node.id);
+    if (cached) return cached;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const base = parent && depth < 50 ? resolve(parent, depth + 1) : { x: 0, y: 0 };
+    const pos = { x: base.x + (node.position?.x ?? 0), y: base.y + (node.position?.y ?? 0) };
+    cache.set(node.id, pos);
+    return pos;
+  };
+  for (const n of nodes) resolve(n, 0);
+  return cache;
+}
+
+function displayName(label: string, fallback: string): string {
+  const text = label.replace(/\s+/g, " ").trim();
+  return text || fallback;
+}
+
+export function diffDiagrams(before: DiagramState, after: DiagramState): DiagramDiff {
+  const changes: DiagramChange[] = [];
+  const counts: Record<DiagramChangeKind, number> = { added: 0, removed: 0, moved: 0, relabeled: 0 };
+  const push = (change: DiagramChange) => {
+    changes.push(change);
+    for (const kind of change.kinds) counts[kind]++;
+  };
+
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.id, n]));
+  const beforePos = absolutePositions(before.nodes);
+  const afterPos = absolutePositions(after.nodes);
+  const nodeName = (id: string) => {
+    const node = afterNodes.get(id) ?? beforeNodes.get(id);
+    return node ? displayName(nodeLabel(node), node.type ?? id) : id;
+  };
+
+  for (const node of after.nodes) {
+    const prev = beforeNodes.get(node.id);
+    const label = nodeLabel(node);
+    const name = displayName(label, node.type ?? node.id);
+    if (!prev) {
+      push({ element: "node", id: node.id, kinds: ["added"], label: name, focusNodeIds: [node.id] });
+      continue;
+    }
+    const kinds: DiagramChangeKind[] = [];
+    const a = beforePos.get(node.id)!;
+    const b = afterPos.get(node.id)!;
+    if (Math.abs(a.x - b.x) > MOVE_THRESHOLD || Math.abs(a.y - b.y) > MOVE_THRESHOLD) kinds.push("moved");
+    const prevLabel = nodeLabel(prev);
+    if (prevLabel !== label) kinds.push("relabeled");
+    if (kinds.length > 0) {
+      push({
+        element: "node",
+        id: node.id,
+        kinds,
+        label: name,
+        ...(prevLabel !== label && { previousLabel: prevLabel }),
+        focusNodeIds: [node.id],
+      });
+    }
+  }
+
+  const removedNodes: Node[] = [];
+  for (const node of before.nodes) {
+    if (afterNodes.has(node.id)) continue;
+    const ghostId = toGhostId(node.id);
+    // Ghosts are top-level: drop the parent link and use the absolute position.
+    removedNodes.push({
+      ...node,
+      parentId: undefined,
+      extent: undefined,
+      id: ghostId,
+      position: beforePos.get(node.id) ?? node.position,
+      selected: false,
+      selectable: false,
+      draggable: false,
+      connectable: false,
+    });
+    push({
+      element: "node",
+      id: node.id,
+      kinds: ["removed"],
+      label: displayName(nodeLabel(node), node.type ?? node.id),
+      focusNodeIds: [ghostId],
+    });
+  }
+
+  const beforeEdges = new Map(before.edges.map((e) => [e.id, e]));
+  const afterEdgeIds = new Set(after.edges.map((e) => e.id));
+  const edgeName = (edge: Edge) =>
+    displayName(edgeLabel(edge), `${nodeName(edge.source)} → ${nodeName(edge.target)}`);
+
+  for (const edge of after.edges) {
+    const prev = beforeEdges.get(edge.id);
+    if (!prev) {
+      push({ element: "edge", id: edge.id, kinds: ["added"], label: edgeName(edge), focusNodeIds: [edge.source, edge.target] });
+      continue;
+    }
+    const kinds: DiagramChangeKind[] = [];
+    if (prev.source !== edge.source || prev.target !== edge.target) kinds.push("moved");
+    const prevLabel = edgeLabel(prev);
+    const label = edgeLabel(edge);
+    if (prevLabel !== label) kinds.push("relabeled");
+    if (kinds.length > 0) {
+      push({
+        element: "edge",
+        id: edge.id,
+        kinds,
+        label: edgeName(edge),
+        ...(prevLabel !== label && { previousLabel: prevLabel }),
+        focusNodeIds: [edge.source, edge.target],
+      });
+    }
+  }
+
+  const removedEdges: Edge[] = [];
+  for (const edge of before.edges) {
+    if (afterEdgeIds.has(edge.id)) continue;
+    // Dangling edges (endpoint already missing in the "before" state) cannot be drawn.
+    if (!beforeNodes.has(edge.source) || !beforeNodes.has(edge.target)) continue;
+    const source = afterNodes.has(edge.source) ? edge.source : toGhostId(edge.source);
+    const target = afterNodes.has(edge.target) ? edge.target : toGhostId(edge.target);
+    removedEdges.push({
+      ...edge,
+      id: toGhostId(edge.id),
+      source,
+      target,
+      selected: false,
+      selectable: false,
+      reconnectable: false,
+    });
+    push({ element: "edge", id: edge.id, kinds: ["removed"], label: edgeName(edge), focusNodeIds: [source, target] });
+  }
+
+  return { changes, removedNodes, removedEdges, counts };
+}
@@ -1,15 +1,533 @@
 /**
  * Convert React Flow diagram to Draw.io XML.
- * Creates a minimal Draw.io mxGraph XML with the diagram rendered as an embedded image.
+ * Every node becomes a native mxCell vertex (shape, table, swimlane, note, actor, …) and every edge
+ * becomes an mxCell edge with connector style, markers, label and stroke. Mirror of drawioXmlToDiagram:
+ * React Flow specifics Draw.io has no field for are kept in `rf*` style keys, which Draw.io preserves,
+ * so a round trip keeps node types, group nesting, schema columns and labels.
  */
+import type { Node, Edge } from "@xyflow/react";
+import type { ShapeType } from "@/lib/shape-types";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import { getNodeBranchStyle } from "@/lib/branch-colors";
+
+const DEFAULT_NODE_WIDTH = 150;
+const DEFAULT_NODE_HEIGHT = 50;
+
+/** Fallback sizes when a node has not been measured yet (same defaults as the layout engine). */
+const TYPE_SIZES: Record<string, [number, number]> = {
+  mindMap: [170, 44],
+  image: [160, 120],
+  databaseSchema: [260, 220],
+  service: [160, 72],
+  queue: [140, 64],
+  actor: [100, 100],
+  icon: [64, 64],
+  group: [280, 200],
+  stickyNote: [180, 140],
+  text: [120, 32],
+  table: [240, 160],
+  edgeAnchor: [8, 8],
+};
+
+/** Height of a databaseSchema header and of each column row (px). */
+export const SCHEMA_HEADER_HEIGHT = 26;
+export const SCHEMA_ROW_HEIGHT = 26;
+
+/** Draw.io style fragment per flowchart shape (`data.shape` on rectangle/diamond/circle/document nodes). */
+export const SHAPE_TO_DRAWIO_STYLE: Record<ShapeType, string> = {
+  rectangle: "rounded=0",
+  roundedRect: "rounded=1",
+  diamond: "rhombus",
+  circle: "ellipse",
+  hexagon: "shape=hexagon;perimeter=hexagonPerimeter2;size=0.25",
+  cylinder: "shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=15",
+  parallelogram: "shape=parallelogram;perimeter=parallelogramPerimeter",
+  trapezoid: "shape=trapezoid;perimeter=trapezoidPerimeter",
+  stadium: "rounded=1;arcSize=50",
+  triangle: "triangle;direction=north",
+  document: "shape=document;boundedLbl=1",
+  table: "shape=table;startSize=0",
+  arrowRight: "shape=singleArrow;direction=east",
+  arrowLeft: "shape=singleArrow;direction=west",
+  arrowUp: "shape=singleArrow;direction=north",
+  arrowDown: "shape=singleArrow;direction=south",
+};
+
+/** Draw.io arrow head (endArrow/startArrow + fill) per custom marker id from CustomMarkerDefs. */
+export const MARKER_TO_DRAWIO_ARROW: Record<string, { arrow: string; fill: boolean }> = {
+  "cm-arrow-open": { arrow: "open", fill: false },
+  "cm-arrow-closed": { arrow: "block", fill: true },
+  "cm-circle": { arrow: "oval", fill: false },
+  "cm-circle-filled": { arrow: "oval", fill: true },
+  "cm-diamond": { arrow: "diamond", fill: false },
+  "cm-diamond-filled": { arrow: "diamond", fill: true },
+  "cm-bar": { arrow: "dash", fill: false },
+  "cm-er-one": { arrow: "ERone", fill: false },
+  "cm-er-many": { arrow: "ERmany", fill: false },
+  "cm-er-one-only": { arrow: "ERmandOne", fill: false },
+  "cm-er-zero-or-one": { arrow: "ERzeroToOne", fill: false },
+  "cm-er-one-or-many": { arrow: "ERoneToMany", fill: false },
+  "cm-er-zero-or-many": { arrow: "ERzeroToMany", fill: false },
+  "cm-uml-composition": { arrow: "diamondThin", fill: true },
+  "cm-uml-aggregation": { arrow: "diamondThin", fill: false },
+  "cm-uml-inheritance": { arrow: "block", fill: false },
+  "cm-uml-realization": { arrow: "block", fill: false },
+};
+
+/** Group colors (GroupNode GROUP_COLORS as hex): fill, stroke, header. */
+export const GROUP_DRAWIO_COLORS: { fill: string; stroke: string; header: string }[] = [
+  { fill: "#f1f5f9", stroke: "#cbd5e1", header: "#e2e8f0" },
+  { fill: "#eff6ff", stroke: "#bfdbfe", header: "#dbeafe" },
+  { fill: "#f0fdf4", stroke: "#bbf7d0", header: "#dcfce7" },
+  { fill: "#fffbeb", stroke: "#fde68a", header: "#fef3c7" },
+  { fill: "#f5f3ff", stroke: "#ddd6fe", header: "#ede9fe" },
+  { fill: "#fff1f2", stroke: "#fecdd3", header: "#ffe4e6" },
+];
+
+/** Node font size presets → Draw.io fontSize (px). */
+export const FONT_SIZE_PX: Record<string, number> = { xs: 10, sm: 12, base: 14, lg: 16, xl: 18 };
+
+const STICKY_DEFAULT_COLOR = "#fef3c7";
+const SHAPE_STROKE = "#94a3b8";
+const EDGE_DEFAULT_STROKE = "#94a3b8";
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Label text → Draw.io html=1 value (HTML-escaped, newlines as <br>). */
+function textToHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/** Style values cannot contain ";" — free text (icon ids, emoji, URLs) is URI-encoded. */
+function encodeStyleValue(s: string): string {
+  return encodeURIComponent(s);
+}
+
+/** Draw.io writes data URLs without ";base64" (it would split the style). */
+function imageUrlForStyle(url: string): string {
+  return url.replace(/;base64,/, ",").replace(/;/g, "%3B");
+}
+
+/** Normalize #hex / rgb() / rgba() to #rrggbb; other CSS colors are not understood by Draw.io. */
+export function toHexColor(color: unknown): string | undefined {
+  if (typeof color !== "string") return undefined;
+  const c = color.trim();
+  if (/^#[0-9a-f]{6}$/i.test(c)) return c.toLowerCase();
+  if (/^#[0-9a-f]{8}$/i.test(c)) return c.slice(0, 7).toLowerCase();
+  if (/^#[0-9a-f]{3}$/i.test(c)) return `#${c[1]}${c[1]}${c[2]}${c[2]}${c[3]}${c[3]}`.toLowerCase();
+  const m = c.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i);
+  if (m) {
+    return `#${[m[1], m[2], m[3]].map((v) => Math.min(255, Number(v)).toString(16).padStart(2, "0")).join("")}`;
+  }
+  return undefined;
+}
+
+export function getNodeSize(node: Node): { width: number; height: number } {
+  const [defW, defH] = TYPE_SIZES[node.type ?? ""] ?? [DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT];
+  const w = node.measured?.width ?? node.width ?? (Number(node.style?.width) || defW);
+  const h = node.measured?.height ?? node.height ?? (Number(node.style?.height) || defH);
+  return { width: Math.round(w || defW), height: Math.round(h || defH) };
+}
+
+/** Text formatting on node data → Draw.io fontStyle bitmask, fontSize, align, verticalAlign. */
+function textStyle(data: Record<string, unknown>): string[] {
+  const parts: string[] = [];
+  let fontStyle = 0;
+  if (data.fontWeight === "bold") fontStyle |= 1;
+  if (data.fontStyle === "italic") fontStyle |= 2;
+  if (data.textDecoration === "line-through") fontStyle |= 8;
+  if (fontStyle) parts.push(`fontStyle=${fontStyle}`);
+  const size = FONT_SIZE_PX[data.fontSize as string];
+  if (size) parts.push(`fontSize=${size}`);
+  if (data.textAlign) parts.push(`align=${data.textAlign}`);
+  if (data.textVerticalAlign) {
+    parts.push(`verticalAlign=${data.textVerticalAlign === "center" ? "middle" : data.textVerticalAlign}`);
+  }
+  return parts;
+}
+
+/** Optional icon / emoji carried over as rf* keys so the round trip restores them. */
+function iconStyle(data: Record<string, unknown>): string[] {
+  const parts: string[] = [];
+  const iconId = (data.icon ?? data.iconId) as string | undefined;
+  if (iconId) parts.push(`rfIcon=${encodeStyleValue(iconId)}`);
+  if (typeof data.emoji === "string" && data.emoji) parts.push(`rfEmoji=${encodeStyleValue(data.emoji)}`);
+  if (typeof data.iconUrl === "string" && data.iconUrl) parts.push(`rfIconUrl=${encodeStyleValue(data.iconUrl)}`);
+  return parts;
+}
+
+function joinStyle(parts: (string | false | undefined | null)[]): string {
+  return parts.filter(Boolean).join(";") + ";";
+}
+
+function columnValue(col: SchemaColumn): string {
+  return col.type ? `${col.name}: ${col.type}` : col.name;
+}
+
+type CellOut = { id: string; xml: string };
+
+function vertexCell(id: string, value: string, style: string, parent: string, x: number, y: number, w: number, h: number): string {
+  return `<mxCell id="${escapeXml(id)}" value="${escapeXml(value)}" style="${escapeXml(style)}" vertex="1" parent="${escapeXml(parent)}"><mxGeometry x="${Math.round(x)}" y="${Math.round(y)}" width="${Math.round(w)}" height="${Math.round(h)}" as="geometry"/></mxCell>`;
+}
+
+/** Map one React Flow node to its mxCell(s). Schema tables emit one child cell per column. */
+function nodeToCells(node: Node, cellId: string, parent: string, edges: Edge[]): CellOut[] {
+  const data = (node.data ?? {}) as Record<string, unknown>;
+  const type = node.type ?? "rectangle";
+  const label = typeof data.label === "string" ? data.label : "";
+  const { width, height } = getNodeSize(node);
+  const x = node.position?.x ?? 0;
+  const y = node.position?.y ?? 0;
+  const rf = `rfType=${type}`;
+
+  switch (type) {
+    case "rectangle":
+    case "diamond":
+    case "circle":
+    case "document": {
+      const shape = ((data.shape as ShapeType) ?? (type === "rectangle" ? "rectangle" : type)) as ShapeType;
+      const fill = toHexColor(data.color) ?? "#dbeafe";
+      const style = joinStyle([
+        SHAPE_TO_DRAWIO_STYLE[shape] ?? SHAPE_TO_DRAWIO_STYLE.rectangle,
+        "whiteSpace=wrap;html=1",
+        `fillColor=${fill}`,
+        `strokeColor=${SHAPE_STROKE}`,
+        ...textStyle(data),
+        ...iconStyle(data),
+        rf,
+        `rfShape=${shape}`,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "mindMap": {
+      const branch = getNodeBranchStyle(node.id, edges, data.color as string | undefined);
+      const style = joinStyle([
+        "rounded=1;arcSize=30;whiteSpace=wrap;html=1",
+        `fillColor=${toHexColor(branch.bg) ?? "#dbeafe"}`,
+        `strokeColor=${toHexColor(branch.stroke) ?? SHAPE_STROKE}`,
+        `fontColor=${toHexColor(branch.text) ?? "#1e293b"}`,
+        ...textStyle(data),
+        ...iconStyle(data),
+        data.collapsed ? "rfCollapsed=1" : undefined,
+        data.color ? `rfColor=${encodeStyleValue(String(data.color))}` : undefined,
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "stickyNote": {
+      const style = joinStyle([
+        "shape=note;size=14;whiteSpace=wrap;html=1;align=left;verticalAlign=top;spacing=8",
+        `fillColor=${toHexColor(data.color) ?? STICKY_DEFAULT_COLOR}`,
+        "strokeColor=#d6d3d1",
+        ...textStyle(data),
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "text": {
+      const bg = toHexColor(data.color);
+      const style = joinStyle([
+        "text;whiteSpace=wrap;html=1",
+        `fillColor=${bg ?? "none"}`,
+        "strokeColor=none",
+        ...textStyle(data),
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "service": {
+      const subtitle = typeof data.subtitle === "string" ? data.subtitle : "";
+      const value = subtitle ? `<b>${textToHtml(label)}</b><br>${textToHtml(subtitle)}` : textToHtml(label);
+      const style = joinStyle([
+        "rounded=1;arcSize=12;whiteSpace=wrap;html=1;fillColor=#ffffff;strokeColor=#cbd5e1;shadow=1",
+        ...iconStyle(data),
+        subtitle ? "rfSubtitle=1" : undefined,
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, value, style, parent, x, y, width, height) }];
+    }
+    case "queue": {
+      const style = joinStyle([
+        "shape=cylinder3;direction=south;boundedLbl=1;backgroundOutline=1;size=12;whiteSpace=wrap;html=1;fillColor=#fef3c7;strokeColor=#f59e0b",
+        ...iconStyle(data),
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "actor": {
+      const style = joinStyle([
+        "shape=umlActor;verticalLabelPosition=bottom;verticalAlign=top;html=1;outlineConnect=0;fillColor=#ffffff;strokeColor=#475569",
+        ...iconStyle(data),
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "icon": {
+      const url = (data.customIcon ?? data.iconUrl) as string | undefined;
+      const emoji = typeof data.emoji === "string" ? data.emoji : "";
+      const style = url
+        ? joinStyle([
+            `shape=image;image=${imageUrlForStyle(url)};imageAspect=1;aspect=fixed;verticalLabelPosition=bottom;verticalAlign=top;html=1`,
+            ...iconStyle(data),
+            data.customIcon ? "rfCustomIcon=1" : undefined,
+            rf,
+          ])
+        : joinStyle([
+            "text;html=1;align=center;verticalAlign=middle;strokeColor=none;fillColor=none;fontSize=32",
+            ...iconStyle(data),
+            rf,
+          ]);
+      // Emoji icons render as the glyph above the label; registry icons fall back to their label.
+      const value = !url && emoji ? [emoji, label].filter(Boolean).map(textToHtml).join("<br>") : textToHtml(label);
+      return [{ id: cellId, xml: vertexCell(cellId, value, style, parent, x, y, width, height) }];
+    }
+    case "image": {
+      const src = (data.imageUrl ?? data.image) as string | undefined;
+      const style = src
+        ? joinStyle([
+            `shape=image;image=${imageUrlForStyle(src)};imageAspect=0;verticalLabelPosition=bottom;verticalAlign=top;html=1`,
+            rf,
+          ])
+        : joinStyle(["rounded=1;whiteSpace=wrap;html=1;fillColor=#f3f4f6;strokeColor=#e5e7eb", rf]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+    case "group": {
+      const colorIdx = typeof data.colorIdx === "number" ? data.colorIdx : 0;
+      const color = GROUP_DRAWIO_COLORS[colorIdx % GROUP_DRAWIO_COLORS.length];
+      const style = joinStyle([
+        "swimlane;startSize=28;container=1;collapsible=0;rounded=1;arcSize=4;whiteSpace=wrap;html=1",
+        `fillColor=${color.header}`,
+        `swimlaneFillColor=${color.fill}`,
+        `strokeColor=${color.stroke}`,
+        ...textStyle(data),
+        ...iconStyle(data),
+        `rfColorIdx=${colorIdx}`,
+        typeof data.description === "string" && data.description
+          ? `rfDescription=${encodeStyleValue(data.description)}`
+          : undefined,
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label || "Group"), style, parent, x, y, width, height) }];
+    }
+    case "databaseSchema": {
+      const columns = Array.isArray(data.columns) ? (data.columns as SchemaColumn[]) : [];
+      const tableHeight = Math.max(height, SCHEMA_HEADER_HEIGHT + columns.length * SCHEMA_ROW_HEIGHT);
+      const style = joinStyle([
+        `swimlane;fontStyle=1;childLayout=stackLayout;horizontal=1;startSize=${SCHEMA_HEADER_HEIGHT};horizontalStack=0;resizeParent=1;resizeParentMax=0;resizeLast=0;collapsible=0;container=1;html=1`,
+        "fillColor=#e0e7ff;strokeColor=#6366f1;swimlaneFillColor=#ffffff",
+        ...iconStyle(data),
+        rf,
+      ]);
+      const cells: CellOut[] = [
+        { id: cellId, xml: vertexCell(cellId, textToHtml(label || "Table"), style, parent, x, y, width, tableHeight) },
+      ];
+      columns.forEach((col, i) => {
+        const colId = `${cellId}__col${i}`;
+        const colStyle = joinStyle([
+          "text;strokeColor=none;fillColor=none;align=left;verticalAlign=middle;spacingLeft=8;overflow=hidden;html=1",
+          col.key === "PK" ? "fontStyle=1" : col.key === "FK" ? "fontStyle=2" : undefined,
+          "rfColumn=1",
+          col.key ? `rfKey=${col.key}` : undefined,
+        ]);
+        const value = `${col.key ? `${col.key} ` : ""}${columnValue(col)}`;
+        cells.push({
+          id: colId,
+          xml: vertexCell(colId, textToHtml(value), colStyle, cellId, 0, SCHEMA_HEADER_HEIGHT + i * SCHEMA_ROW_HEIGHT, width, SCHEMA_ROW_HEIGHT),
+        });
+      });
+      return cells;
+    }
+    case "edgeAnchor": {
+      const style = joinStyle(["shape=waypoint;fillStyle=solid;size=6;pointerEvents=1;strokeColor=#94a3b8", rf]);
+      return [{ id: cellId, xml: vertexCell(cellId, "", style, parent, x, y, width, height) }];
+    }
+    case "freeDraw":
+      // Freehand strokes have no structural Draw.io equivalent.
+      return [];
+    default: {
+      const fill = toHexColor(data.color) ?? "#ffffff";
+      const style = joinStyle([
+        "rounded=1;whiteSpace=wrap;html=1",
+        `fillColor=${fill}`,
+        `strokeColor=${SHAPE_STROKE}`,
+        ...textStyle(data),
+        ...iconStyle(data),
+        rf,
+      ]);
+      return [{ id: cellId, xml: vertexCell(cellId, textToHtml(label), style, parent, x, y, width, height) }];
+    }
+  }
+}
+
+/** React Flow handle id (top / bottom-1 / left / right-2) → Draw.io exit/entry point. */
+function handleToPoint(handle: string | null | undefined): [number, number] | null {
+  if (!handle) return null;
+  if (handle.startsWith("top")) return [0.5, 0];
+  if (handle.startsWith("bottom")) return [0.5, 1];
+  if (handle.startsWith("left")) return [0, 0.5];
+  if (handle.startsWith("right")) return [1, 0.5];
+  return null;
+}
+
+function connectorStyle(connectorType: string): string {
+  switch (connectorType) {
+    case "straight":
+      return "edgeStyle=none;rounded=0";
+    case "smoothstep":
+      return "edgeStyle=orthogonalEdgeStyle;rounded=1";
+    case "step":
+      return "edgeStyle=orthogonalEdgeStyle;rounded=0";
+    default:
+      return "edgeStyle=orthogonalEdgeStyle;curved=1";
+  }
+}
+
+/**
+ * Arrow style for one edge end. The marker id is written to rfMarkerEnd/rfMarkerStart only when it was
+ * set explicitly; markers implied by flowDirection are restored from rfFlow instead.
+ */
+function markerStyle(edge: Edge, side: "end" | "start"): string[] {
+  const data = (edge.data ?? {}) as Record<string, unknown>;
+  const fromData = side === "end" ? data.markerEnd : data.markerStart;
+  const fromEdge = side === "end" ? edge.markerEnd : edge.markerStart;
+  const explicit =
+    typeof fromData === "string" && fromData ? fromData : typeof fromEdge === "string" && fromEdge ? fromEdge : undefined;
+  const flow = (data.flowDirection as string | undefined) ?? "mono";
+  const implied = side === "end" ? flow === "mono" || flow === "bi" : flow === "bi";
+  const markerId = explicit ?? (implied ? "cm-arrow-closed" : undefined);
+  const def = markerId ? MARKER_TO_DRAWIO_ARROW[markerId] : undefined;
+  if (!def) return [`${side}Arrow=none`];
+  return [
+    `${side}Arrow=${def.arrow}`,
+    `${side}Fill=${def.fill ? 1 : 0}`,
+    explicit ? `rfMarker${side === "end" ? "End" : "Start"}=${explicit}` : undefined,
+  ].filter((p): p is string => !!p);
+}
+
+function edgeToCell(edge: Edge, id: string): string {
+  const data = (edge.data ?? {}) as Record<string, unknown>;
+  const label = typeof data.label === "string" ? data.label : typeof edge.label === "string" ? edge.label : "";
+  const connectorType = (data.connectorType as string | undefined) ?? "default";
+  const stroke = toHexColor(data.strokeColor);
+  const strokeWidth = typeof data.strokeWidth === "number" ? data.strokeWidth : undefined;
+  const dash = typeof data.strokeDasharray === "string" && data.strokeDasharray.trim() ? data.strokeDasharray.trim() : "";
+  const exit = handleToPoint(edge.sourceHandle);
+  const entry = handleToPoint(edge.targetHandle);
+  const style = joinStyle([
+    connectorStyle(connectorType),
+    "html=1",
+    // Edges without an explicit stroke follow branch/global defaults in the app; rfAuto* restores that.
+    `strokeColor=${stroke ?? EDGE_DEFAULT_STROKE}`,
+    `strokeWidth=${strokeWidth ?? 1.5}`,
+    !stroke && "rfAutoStroke=1",
+    strokeWidth == null && "rfAutoWidth=1",
+    dash ? `dashed=1;dashPattern=${dash.replace(/,/g, " ")}` : undefined,
+    ...markerStyle(edge, "end"),
+    ...markerStyle(edge, "start"),
+    exit ? `exitX=${exit[0]};exitY=${exit[1]};exitDx=0;exitDy=0` : undefined,
+    entry ? `entryX=${entry[0]};entryY=${entry[1]};entryDx=0;entryDy=0` : undefined,
+    edge.sourceHandle ? `rfSourceHandle=${encodeStyleValue(edge.sourceHandle)}` : undefined,
+    edge.targetHandle ? `rfTargetHandle=${encodeStyleValue(edge.targetHandle)}` : undefined,
+    data.flowDirection ? `rfFlow=${data.flowDirection}` : undefined,
+    data.erRelation ? `rfErRelation=${encodeStyleValue(String(data.erRelation))}` : undefined,
+    data.connectorType ? `rfConnector=${connectorType}` : undefined,
+    `rfType=${edge.type ?? "labeledConnector"}`,
+  ]);
+  const points = Array.isArray(data.pathPoints) ? (data.pathPoints as { x: number; y: number }[]) : [];
+  const geometry = points.length
+    ? `<mxGeometry relative="1" as="geometry"><Array as="points">${points
+        .map((p) => `<mxPoint x="${Math.round(p.x)}" y="${Math.round(p.y)}"/>`)
+        .join("")}</Array></mxGeometry>`
+    : `<mxGeometry relative="1" as="geometry"/>`;
+  return `<mxCell id="${escapeXml(id)}" value="${escapeXml(textToHtml(label))}" style="${escapeXml(style)}" edge="1" parent="1" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${geometry}</mxCell>`;
+}
+
+/** Order nodes so every group cell is written before the cells it contains. */
+function sortParentsFirst(nodes: Node[]): Node[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const depth = (n: Node): number => {
+    let d = 0;
+    let cur = n;
+    const seen = new Set<string>();
+    while (cur.parentId && byId.has(cur.parentId) && !seen.has(cur.parentId)) {
+      seen.add(cur.parentId);
+      cur = byId.get(cur.parentId)!;
+      d++;
+    }
+    return d;
+  };
+  return [...nodes].sort((a, b) => depth(a) - depth(b));
+}
+
+/**
+ * Convert React Flow nodes and edges to an editable Draw.io document.
+ * Child nodes keep their parent-relative positions inside the group's container cell.
+ * Edges whose source or target is not exported (e.g. freehand strokes) are dropped.
+ */
+export function diagramToDrawioXml(nodes: Node[], edges: Edge[]): string {
+  const rootId = "0";
+  const layerId = "1";
+  const reserved = new Set([rootId, layerId]);
+  const cellIds = new Map<string, string>();
+  for (const n of nodes) cellIds.set(n.id, reserved.has(n.id) ? `rf-${n.id}` : n.id);
+
+  const cells: string[] = [`<mxCell id="${rootId}" />`, `<mxCell id="${layerId}" parent="${rootId}" />`];
+  const exported = new Set<string>();
+  let maxX = 0;
+  let maxY = 0;
+
+  for (const node of sortParentsFirst(nodes)) {
+    const parent = node.parentId && exported.has(node.parentId) ? cellIds.get(node.parentId)! : layerId;
+    const out = nodeToCells(node, cellIds.get(node.id)!, parent, edges);
+    if (out.length === 0) continue;
+    exported.add(node.id);
+    cells.push(...out.map((c) => c.xml));
+    if (parent === layerId) {
+      const { width, height } = getNodeSize(node);
+      maxX = Math.max(maxX, (node.position?.x ?? 0) + width);
+      maxY = Math.max(maxY, (node.position?.y ?? 0) + height);
+    }
+  }
+
+  const usedEdgeIds = new Set<string>();
+  for (const edge of edges) {
+    if (!exported.has(edge.source) || !exported.has(edge.target)) continue;
+    let id = edge.id && !reserved.has(edge.id) && !cellIds.has(edge.id) ? edge.id : `rf-edge-${edge.id}`;
+    while (usedEdgeIds.has(id)) id = `${id}-dup`;
+    usedEdgeIds.add(id);
+    cells.push(
+      edgeToCell({ ...edge, source: cellIds.get(edge.source)!, target: cellIds.get(edge.target)! }, id)
+    );
+  }
+
+  const pageWidth = Math.max(827, Math.round(maxX + 80));
+  const pageHeight = Math.max(1169, Math.round(maxY + 80));
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="app.diagrams.net">
+  <diagram name="Diagram" id="diagram-${Math.random().toString(36).slice(2, 9)}">
+    <mxGraphModel dx="1434" dy="780" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${pageWidth}" pageHeight="${pageHeight}" math="0" shadow="0">
+      <root>
+        ${cells.join("\n        ")}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+}
 
 /**
- * Generate Draw.io XML with the diagram as an embedded PNG image.
+ * Generate Draw.io XML with the diagram as an embedded PNG image ("As image" conversion).
+ * Not editable in Draw.io; prefer diagramToDrawioXml.
  * @param dataUrl - PNG data URL (from html-to-image toPng)
  * @param width - Image width in pixels
  * @param height - Image height in pixels
  */
-export function diagramToDrawioXml(dataUrl: string, width: number, height: number): string {
+export function diagramImageToDrawioXml(dataUrl: string, width: number, height: number): string {
   const id = () => `id-${Math.random().toString(36).slice(2, 9)}`;
   const img = id();
   // Draw.io expects image as data URL in style; escape for XML
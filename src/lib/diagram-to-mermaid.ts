@@ -0,0 +1,342 @@
+/**
+ * Convert React Flow nodes + edges to Mermaid text for READMEs and PR descriptions.
+ * Mind maps become `mindmap`, diagrams made only of databaseSchema tables become `erDiagram`,
+ * everything else becomes a `flowchart` with bracket shapes, subgraphs for group nodes and
+ * style / linkStyle lines for colors. Mirror of parseMermaid in mermaid-to-diagram.ts.
+ */
+import type { Node, Edge } from "@xyflow/react";
+import type { ShapeType } from "@/lib/shape-types";
+import type { LayoutDirection } from "@/lib/layout-engine";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import type { ERRelation } from "@/components/edges/LabeledConnectorEdge";
+import { CUSTOM_MARKER_IDS } from "@/components/edges/CustomMarkerDefs";
+import { toHexColor } from "@/lib/diagram-to-drawio";
+import { ER_LEFT_MARKERS, ER_RIGHT_MARKERS } from "@/lib/mermaid-to-diagram";
+
+/** Node types that carry no content of their own and are skipped in every export. */
+const SKIPPED_TYPES = new Set(["freeDraw", "edgeAnchor"]);
+
+/** ShapeType → flowchart brackets (open, close). */
+const SHAPE_BRACKETS: Record<ShapeType, [string, string]> = {
+  rectangle: ["[", "]"],
+  roundedRect: ["(", ")"],
+  diamond: ["{", "}"],
+  circle: ["((", "))"],
+  hexagon: ["{{", "}}"],
+  cylinder: ["[(", ")]"],
+  parallelogram: ["[/", "/]"],
+  trapezoid: ["[/", "\\]"],
+  stadium: ["([", "])"],
+  triangle: ["[", "]"],
+  document: ["[", "]"],
+  table: ["[", "]"],
+  arrowRight: [">", "]"],
+  arrowLeft: [">", "]"],
+  arrowUp: ["[", "]"],
+  arrowDown: ["[", "]"],
+};
+
+/** Non-shape node types → flowchart brackets. */
+const TYPE_BRACKETS: Record<string, [string, string]> = {
+  mindMap: ["(", ")"],
+  databaseSchema: ["[(", ")]"],
+  queue: ["[(", ")]"],
+  actor: ["([", "])"],
+  service: ["[[", "]]"],
+};
+
+const RESERVED_IDS = new Set([
+  "end",
+  "graph",
+  "flowchart",
+  "subgraph",
+  "style",
+  "class",
+  "classDef",
+  "click",
+  "linkStyle",
+  "direction",
+  "default",
+]);
+
+const ER_RELATION_TOKENS: Record<Exclude<ERRelation, null>, [string, string]> = {
+  "one-to-one": ["||", "||"],
+  "one-to-many": ["||", "o{"],
+  "many-to-one": ["}o", "||"],
+  "many-to-many": ["}o", "o{"],
+};
+
+function invert(map: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(map).map(([token, marker]) => [marker, token]));
+}
+
+const ER_LEFT_TOKENS: Record<string, string> = {
+  ...invert(ER_LEFT_MARKERS),
+  [CUSTOM_MARKER_IDS.erOne]: "||",
+  [CUSTOM_MARKER_IDS.erMany]: "}o",
+};
+const ER_RIGHT_TOKENS: Record<string, string> = {
+  ...invert(ER_RIGHT_MARKERS),
+  [CUSTOM_MARKER_IDS.erOne]: "||",
+  [CUSTOM_MARKER_IDS.erMany]: "o{",
+};
+
+function labelOf(node: Node): string {
+  const label = node.data?.label;
+  return typeof label === "string" && label.trim() ? label : node.id;
+}
+
+/** Quoted flowchart label: `"` and line breaks use Mermaid's entity / <br> forms. */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, "#quot;").replace(/\r?\n/g, "<br>")}"`;
+}
+
+/** Stable Mermaid-safe ids: keep simple ids, replace anything else with a sanitized unique name. */
+function createIdMap(ids: string[]): Map<string, string> {
+  const map = new Map<string, string>();
+  const used = new Set<string>();
+  for (const id of ids) {
+    let safe = /^[A-Za-z_]\w*$/.test(id) && !RESERVED_IDS.has(id) ? id : id.replace(/\W+/g, "_").replace(/^(?=\d|_*$)/, "n");
+    if (RESERVED_IDS.has(safe)) safe = `${safe}_`;
+    let unique = safe;
+    for (let i = 2; used.has(unique); i++) unique = `${safe}_${i}`;
+    used.add(unique);
+    map.set(id, unique);
+  }
+  return map;
+}
+
+function contentNodes(nodes: Node[]): Node[] {
+  return nodes.filter((n) => !SKIPPED_TYPES.has(n.type ?? ""));
+}
+
+/* ─── Mind map ─── */
+
+/** Mind map node text: plain when unambiguous, otherwise a Mermaid markdown string. */
+function mindmapText(text: string): string {
+  const single = text.replace(/\r?\n/g, " ").trim();
+  return /^[^()[\]{}"`]+$/.test(single) ? single : `"\`${single.replace(/[`"]/g, "'")}\`"`;
+}
+
+function toMindmap(nodes: Node[], edges: Edge[]): string {
+  const mindNodes = nodes.filter((n) => n.type === "mindMap");
+  const ids = new Set(mindNodes.map((n) => n.id));
+  const byId = new Map(mindNodes.map((n) => [n.id, n]));
+  const parentOf = new Map<string, string>();
+  const children = new Map<string, string[]>();
+  for (const e of edges) {
+    if (!ids.has(e.source) || !ids.has(e.target) || parentOf.has(e.target) || e.source === e.target) continue;
+    parentOf.set(e.target, e.source);
+    children.set(e.source, [...(children.get(e.source) ?? []), e.target]);
+  }
+  // Siblings in on-canvas order so the text reads like the map.
+  const position = (id: string) => byId.get(id)?.position ?? { x: 0, y: 0 };
+  for (const list of children.values()) {
+    list.sort((a, b) => position(a).y - position(b).y || position(a).x - position(b).x);
+  }
+
+  const lines = ["mindmap"];
+  const visited = new Set<string>();
+  const walk = (id: string, depth: number, isRoot: boolean) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const text = mindmapText(labelOf(byId.get(id)!));
+    lines.push(`${"  ".repeat(depth)}${isRoot ? `root((${text}))` : text}`);
+    for (const child of children.get(id) ?? []) walk(child, depth + 1, false);
+  };
+  const roots = mindNodes.filter((n) => !parentOf.has(n.id));
+  if (roots.length === 1) {
+    walk(roots[0].id, 1, true);
+  } else {
+    // Mermaid mind maps have a single root; wrap several trees in one.
+    lines.push("  root((Mind map))");
+    for (const root of roots) walk(root.id, 2, false);
+  }
+  // Nodes only reachable through a cycle.
+  for (const n of mindNodes) walk(n.id, 2, false);
+  return lines.join("\n");
+}
+
+/* ─── ER diagram ─── */
+
+function erName(text: string): string {
+  return text.trim().replace(/[^\w-]+/g, "_").replace(/^(?=\d|-)/, "_") || "entity";
+}
+
+function erType(type: string | undefined): string {
+  const t = (type ?? "").trim().replace(/\s+/g, "_").replace(/[^\w()[\]-]/g, "");
+  return t && /^[A-Za-z_]/.test(t) ? t : "string";
+}
+
+function toErDiagram(nodes: Node[], edges: Edge[]): string {
+  const tables = nodes.filter((n) => n.type === "databaseSchema");
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const t of tables) {
+    const base = erName(labelOf(t));
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+    used.add(name);
+    names.set(t.id, name);
+  }
+
+  const lines = ["erDiagram"];
+  for (const e of edges) {
+    const source = names.get(e.source);
+    const target = names.get(e.target);
+    if (!source || !target) continue;
+    const data = (e.data ?? {}) as Record<string, unknown>;
+    const relation = ER_RELATION_TOKENS[data.erRelation as Exclude<ERRelation, null>];
+    const left = ER_LEFT_TOKENS[(data.markerStart ?? e.markerStart) as string] ?? relation?.[0] ?? "||";
+    const right = ER_RIGHT_TOKENS[(data.markerEnd ?? e.markerEnd) as string] ?? relation?.[1] ?? "o{";
+    const connector = data.strokeDasharray ? ".." : "--";
+    const label = typeof data.label === "string" && data.label.trim() ? data.label.trim() : "relates to";
+    lines.push(`  ${source} ${left}${connector}${right} ${target} : "${label.replace(/"/g, "'")}"`);
+  }
+  for (const t of tables) {
+    const columns = Array.isArray(t.data?.columns) ? (t.data.columns as SchemaColumn[]) : [];
+    const name = names.get(t.id)!;
+    const alias = labelOf(t) !== name ? `["${labelOf(t).replace(/"/g, "'")}"]` : "";
+    if (columns.length === 0) {
+      lines.push(`  ${name}${alias}`);
+      continue;
+    }
+    lines.push(`  ${name}${alias} {`);
+    for (const col of columns) {
+      lines.push(`    ${erType(col.type)} ${erName(col.name || "column")}${col.key ? ` ${col.key}` : ""}`);
+    }
+    lines.push("  }");
+  }
+  return lines.join("\n");
+}
+
+/* ─── Flowchart ─── */
+
+/** Source handle side → the flow direction an edge leaving it implies. */
+const HANDLE_DIRECTIONS: [RegExp, LayoutDirection][] = [
+  [/^bottom/, "TB"],
+  [/^top/, "BT"],
+  [/^right/, "LR"],
+  [/^left/, "RL"],
+];
+
+/**
+ * Predominant edge direction from source handles, falling back to where targets sit relative to
+ * their sources and finally to the node spread.
+ */
+function flowDirection(nodes: Node[], edges: Edge[]): LayoutDirection {
+  const counts = new Map<LayoutDirection, number>();
+  for (const e of edges) {
+    const handle = e.sourceHandle ?? "";
+    const match = HANDLE_DIRECTIONS.find(([pattern]) => pattern.test(handle));
+    if (match) counts.set(match[1], (counts.get(match[1]) ?? 0) + 1);
+  }
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+  if (ranked.length && (ranked.length === 1 || ranked[0][1] > ranked[1][1])) return ranked[0][0];
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  let dx = 0;
+  let dy = 0;
+  for (const e of edges) {
+    const source = byId.get(e.source)?.position;
+    const target = byId.get(e.target)?.position;
+    if (!source || !target) continue;
+    dx += target.x - source.x;
+    dy += target.y - source.y;
+  }
+  if (dx || dy) return Math.abs(dy) > Math.abs(dx) ? (dy > 0 ? "TB" : "BT") : dx > 0 ? "LR" : "RL";
+
+  const xs = nodes.map((n) => n.position?.x ?? 0);
+  const ys = nodes.map((n) => n.position?.y ?? 0);
+  const spreadX = xs.length ? Math.max(...xs) - Math.min(...xs) : 0;
+  const spreadY = ys.length ? Math.max(...ys) - Math.min(...ys) : 0;
+  return spreadY > spreadX ? "TB" : "LR";
+}
+
+function nodeBrackets(node: Node): [string, string] {
+  if (node.type && TYPE_BRACKETS[node.type]) return TYPE_BRACKETS[node.type];
+  const shape = node.data?.shape as ShapeType | undefined;
+  return (shape && SHAPE_BRACKETS[shape]) || SHAPE_BRACKETS.rectangle;
+}
+
+/** Link operator: --> / --- / <--> / --o / --x, dotted -.->, thick ==>. */
+function edgeArrow(edge: Edge): string {
+  const data = (edge.data ?? {}) as Record<string, unknown>;
+  const flow = (data.flowDirection as string | undefined) ?? "mono";
+  const markerEnd = data.markerEnd ?? edge.markerEnd;
+  const markerStart = data.markerStart ?? edge.markerStart;
+  const head =
+    markerEnd === CUSTOM_MARKER_IDS.circle
+      ? "o"
+      : markerEnd === CUSTOM_MARKER_IDS.bar
+        ? "x"
+        : markerEnd || flow !== "none"
+          ? ">"
+          : "";
+  // Mermaid only has a start arrow together with an end arrow (<-->).
+  const tail = head === ">" && (flow === "bi" || !!markerStart) ? "<" : "";
+  if (data.strokeDasharray) return head ? `${tail}-.->` : "-.-";
+  if (((data.strokeWidth as number | undefined) ?? 0) >= 3) return head ? `${tail}==>` : "===";
+  return `${tail}--${head || "-"}`;
+}
+
+function toFlowchart(nodes: Node[], edges: Edge[], direction?: LayoutDirection): string {
+  const ids = createIdMap(nodes.map((n) => n.id));
+  const childrenOf = new Map<string | undefined, Node[]>();
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  for (const n of nodes) {
+    const parent = n.parentId && nodeIds.has(n.parentId) ? n.parentId : undefined;
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), n]);
+  }
+
+  const lines = [`flowchart ${direction ?? flowDirection(nodes, edges)}`];
+  const styles: string[] = [];
+  const emit = (parent: string | undefined, depth: number) => {
+    for (const n of childrenOf.get(parent) ?? []) {
+      const indent = "  ".repeat(depth);
+      const id = ids.get(n.id)!;
+      if (n.type === "group") {
+        lines.push(`${indent}subgraph ${id}[${quote(labelOf(n))}]`);
+        emit(n.id, depth + 1);
+        lines.push(`${indent}end`);
+        continue;
+      }
+      const [open, close] = nodeBrackets(n);
+      lines.push(`${indent}${id}${open}${quote(labelOf(n))}${close}`);
+      const fill = toHexColor(n.data?.color);
+      if (fill) styles.push(`  style ${id} fill:${fill}`);
+    }
+  };
+  emit(undefined, 1);
+
+  const linkStyles: string[] = [];
+  let linkIndex = 0;
+  for (const e of edges) {
+    const source = ids.get(e.source);
+    const target = ids.get(e.target);
+    if (!source || !target || e.hidden) continue;
+    const data = (e.data ?? {}) as Record<string, unknown>;
+    const label = typeof data.label === "string" && data.label.trim() ? data.label : "";
+    const text = label ? `|${quote(label).replace(/\|/g, "#124;")}|` : "";
+    lines.push(`  ${source} ${edgeArrow(e)}${text} ${target}`);
+    const stroke = toHexColor(data.strokeColor);
+    if (stroke) linkStyles.push(`  linkStyle ${linkIndex} stroke:${stroke}`);
+    linkIndex++;
+  }
+  return [...lines, ...styles, ...linkStyles].join("\n");
+}
+
+/**
+ * Mermaid source for the diagram: `mindmap` when every node is a mind-map node, `erDiagram` when
+ * every node is a database table, otherwise `flowchart`. `direction` is the saved layout direction;
+ * without it the flowchart direction is inferred from handles and node positions.
+ */
+export function diagramToMermaid(nodes: Node[], edges: Edge[], direction?: LayoutDirection): string {
+  const content = contentNodes(nodes);
+  const contentIds = new Set(content.map((n) => n.id));
+  const contentEdges = edges.filter((e) => contentIds.has(e.source) && contentIds.has(e.target));
+  const leafTypes = new Set(content.filter((n) => n.type !== "group").map((n) => n.type));
+  if (leafTypes.size === 1 && leafTypes.has("mindMap")) return `${toMindmap(content, contentEdges)}\n`;
+  if (leafTypes.size === 1 && leafTypes.has("databaseSchema")) return `${toErDiagram(content, contentEdges)}\n`;
+  return `${toFlowchart(content, contentEdges, direction)}\n`;
+}
@@ -0,0 +1,308 @@
+/**
+ * Export databaseSchema nodes as a Postgres CREATE TABLE script or a Drizzle `pgTable` schema
+ * (same layout as src/db/schema.ts). Foreign keys come from edges between the exported tables:
+ * column handles pick the exact columns; otherwise FK/PK keys and `<table>_id` naming decide.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import { getSchemaColumnHandleIds, type CommonSchemaType } from "@/lib/database-schema";
+
+interface ExportTable {
+  id: string;
+  /** SQL table name (from the node label, unique within the export). */
+  name: string;
+  columns: SchemaColumn[];
+}
+
+interface ExportForeignKey {
+  table: ExportTable;
+  column: string;
+  refTable: ExportTable;
+  refColumn: string;
+}
+
+/** COMMON_SCHEMA_TYPES → Postgres spelling. */
+const PG_TYPES: Record<CommonSchemaType, string> = {
+  varchar: "varchar",
+  text: "text",
+  uuid: "uuid",
+  int4: "integer",
+  int8: "bigint",
+  serial: "serial",
+  float8: "double precision",
+  boolean: "boolean",
+  timestamp: "timestamp",
+  timestamptz: "timestamp with time zone",
+  date: "date",
+  money: "money",
+  jsonb: "jsonb",
+};
+
+/** COMMON_SCHEMA_TYPES → drizzle-orm/pg-core builder and its options. `money` has no builder. */
+const DRIZZLE_TYPES: Partial<Record<CommonSchemaType, { builder: string; options?: string }>> = {
+  varchar: { builder: "varchar" },
+  text: { builder: "text" },
+  uuid: { builder: "uuid" },
+  int4: { builder: "integer" },
+  int8: { builder: "bigint", options: '{ mode: "number" }' },
+  serial: { builder: "serial" },
+  float8: { builder: "doublePrecision" },
+  boolean: { builder: "boolean" },
+  timestamp: { builder: "timestamp" },
+  timestamptz: { builder: "timestamp", options: "{ withTimezone: true }" },
+  date: { builder: "date" },
+  jsonb: { builder: "jsonb" },
+};
+
+const SQL_RESERVED = new Set([
+  "all", "and", "as", "check", "column", "constraint", "default", "desc", "from", "group", "limit",
+  "offset", "order", "primary", "references", "select", "table", "to", "user", "where",
+]);
+
+function quoteIdent(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) && !SQL_RESERVED.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/** `user_credits` / `User Credits` → `userCredits`; prefixed when it would start with a digit. */
+function toCamelCase(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const camel = words
+    .map((w, i) => (i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join("");
+  if (!camel) return "table";
+  return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+}
+
+function splitArrayType(type: string): { base: string; isArray: boolean } {
+  const base = type.replace(/(\s*\[\d*\])+$/, "");
+  return { base, isArray: base !== type };
+}
+
+/** Postgres type for a column; custom types pass through unchanged. */
+function pgType(col: SchemaColumn): string {
+  const type = col.type?.trim() || "text";
+  const { base, isArray } = splitArrayType(type);
+  const mapped = PG_TYPES[base as CommonSchemaType];
+  return mapped ? `${mapped}${isArray ? "[]" : ""}` : type;
+}
+
+/** Schema nodes to export (selected ones when `nodeIds` is given) with unique table names. */
+function collectTables(nodes: Node[], nodeIds?: Iterable<string>): ExportTable[] {
+  const only = nodeIds ? new Set(nodeIds) : null;
+  const used = new Set<string>();
+  const tables: ExportTable[] = [];
+  for (const node of nodes) {
+    if (node.type !== "databaseSchema" || (only && !only.has(node.id))) continue;
+    const label = String((node.data as { label?: unknown })?.label ?? "").trim() || "table";
+    let name = label;
+    for (let i = 2; used.has(name.toLowerCase()); i++) name = `${label}_${i}`;
+    used.add(name.toLowerCase());
+    const columns = Array.isArray(node.data?.columns) ? (node.data.columns as SchemaColumn[]) : [];
+    tables.push({ id: node.id, name, columns: columns.filter((c) => c.name?.trim()) });
+  }
+  return tables;
+}
+
+/** Column named by a handle id (`email`, `email-out`); null for side handles or unknown ids. */
+function columnFromHandle(table: ExportTable, handle: string | null | undefined): SchemaColumn | null {
+  if (!handle) return null;
+  const base = handle.endsWith("-out") ? handle.slice(0, -4) : handle;
+  return table.columns.find((col, i) => getSchemaColumnHandleIds(i, col).target === base) ?? null;
+}
+
+function singular(name: string): string {
+  const lower = name.toLowerCase();
+  if (lower.endsWith("ies")) return `${lower.slice(0, -3)}y`;
+  if (lower.endsWith("s") && !lower.endsWith("ss")) return lower.slice(0, -1);
+  return lower;
+}
+
+/**
+ * Resolve each edge between exported tables to a FK column and the column it references.
+ * Column handles decide first (an FK-marked end holds the key); otherwise the end with a
+ * `<other table>_id` or unclaimed FK column does, trying the source before the target.
+ */
+function resolveForeignKeys(tables: ExportTable[], edges: Edge[]): ExportForeignKey[] {
+  const byId = new Map(tables.map((t) => [t.id, t]));
+  const foreignKeys: ExportForeignKey[] = [];
+  const claimed = new Set<string>();
+  const isFree = (table: ExportTable, col: SchemaColumn) => !claimed.has(`${table.id}:${col.name}`);
+  const guessColumn = (table: ExportTable, refTable: ExportTable) =>
+    table.columns.find(
+      (c) => isFree(table, c) && c.key !== "PK" && c.name.toLowerCase() === `${singular(refTable.name)}_id`
+    ) ?? table.columns.find((c) => isFree(table, c) && c.key === "FK");
+
+  for (const edge of edges) {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target) continue;
+    const sourceCol = columnFromHandle(source, edge.sourceHandle);
+    const targetCol = columnFromHandle(target, edge.targetHandle);
+
+    let resolved: [ExportTable, SchemaColumn, ExportTable, SchemaColumn | null] | null = null;
+    if (targetCol?.key === "FK" || (sourceCol?.key === "PK" && targetCol && targetCol.key !== "PK")) {
+      resolved = [target, targetCol, source, sourceCol];
+    } else if (sourceCol) {
+      resolved = [source, sourceCol, target, targetCol];
+    } else {
+      const fromSource = guessColumn(source, target);
+      const fromTarget = source === target ? undefined : guessColumn(target, source);
+      if (fromSource) resolved = [source, fromSource, target, targetCol];
+      else if (fromTarget) resolved = [target, fromTarget, source, null];
+    }
+    if (!resolved) continue;
+    const [table, column, refTable, refCol] = resolved;
+    const referenced = refCol ?? refTable.columns.find((c) => c.key === "PK");
+    claimed.add(`${table.id}:${column.name}`);
+    foreignKeys.push({ table, column: column.name, refTable, refColumn: referenced?.name ?? "id" });
+  }
+  return foreignKeys;
+}
+
+/** Referenced tables before the tables that reference them; cycles keep their original order. */
+function orderTables(tables: ExportTable[], foreignKeys: ExportForeignKey[]): ExportTable[] {
+  const ordered: ExportTable[] = [];
+  const visited = new Set<string>();
+  const visit = (table: ExportTable) => {
+    if (visited.has(table.id)) return;
+    visited.add(table.id);
+    for (const fk of foreignKeys) if (fk.table === table && fk.refTable !== table) visit(fk.refTable);
+    ordered.push(table);
+  };
+  tables.forEach(visit);
+  return ordered;
+}
+
+function prepare(nodes: Node[], edges: Edge[], nodeIds?: Iterable<string>) {
+  const tables = collectTables(nodes, nodeIds);
+  if (tables.length === 0) throw new Error("No database schema tables to export.");
+  const foreignKeys = resolveForeignKeys(tables, edges);
+  return { tables: orderTables(tables, foreignKeys), foreignKeys };
+}
+
+/**
+ * Postgres CREATE TABLE script. Foreign keys are inline REFERENCES when the referenced table is
+ * created earlier, otherwise ALTER TABLE ... ADD FOREIGN KEY statements at the end (cycles).
+ */
+export function diagramToPostgresSql(nodes: Node[], edges: Edge[], nodeIds?: Iterable<string>): string {
+  const { tables, foreignKeys } = prepare(nodes, edges, nodeIds);
+  const position = new Map(tables.map((t, i) => [t.id, i]));
+  const deferred: ExportForeignKey[] = [];
+  const statements: string[] = [];
+
+  for (const table of tables) {
+    const pkColumns = table.columns.filter((c) => c.key === "PK");
+    const lines = table.columns.map((col) => {
+      let line = `  ${quoteIdent(col.name)} ${pgType(col)}`;
+      if (col.key === "PK" && pkColumns.length === 1) line += " PRIMARY KEY";
+      const fk = foreignKeys.find((f) => f.table === table && f.column === col.name);
+      if (fk && position.get(fk.refTable.id)! <= position.get(table.id)!) {
+        line += ` REFERENCES ${quoteIdent(fk.refTable.name)}(${quoteIdent(fk.refColumn)})`;
+      } else if (fk) {
+        deferred.push(fk);
+      }
+      return line;
+    });
+    if (pkColumns.length > 1) lines.push(`  PRIMARY KEY (${pkColumns.map((c) => quoteIdent(c.name)).join(", ")})`);
+    const body = lines.length > 0 ? `\n${lines.join(",\n")}\n` : "";
+    statements.push(`CREATE TABLE ${quoteIdent(table.name)} (${body});`);
+  }
+  for (const fk of deferred) {
+    statements.push(
+      `ALTER TABLE ${quoteIdent(fk.table.name)} ADD FOREIGN KEY (${quoteIdent(fk.column)}) ` +
+        `REFERENCES ${quoteIdent(fk.refTable.name)}(${quoteIdent(fk.refColumn)});`
+    );
+  }
+  return `${statements.join("\n\n")}\n`;
+}
+
+/** Drizzle column builder call for a column, e.g. `varchar("email", { length: 255 })`. */
+function drizzleColumn(col: SchemaColumn, imports: Set<string>, customTypes: Set<string>): string {
+  const type = col.type?.trim() || "text";
+  const { base, isArray } = splitArrayType(type);
+  const name = JSON.stringify(col.name);
+  const suffix = isArray ? ".array()" : "";
+  const common = DRIZZLE_TYPES[base as CommonSchemaType];
+  if (common) {
+    imports.add(common.builder);
+    return `${common.builder}(${name}${common.options ? `, ${common.options}` : ""})${suffix}`;
+  }
+  const sized = base.match(/^(varchar|char|numeric|decimal)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/i);
+  if (sized) {
+    const kind = sized[1].toLowerCase();
+    const builder = kind === "decimal" ? "numeric" : kind;
+    imports.add(builder);
+    const options =
+      builder === "numeric"
+        ? `{ precision: ${sized[2]}${sized[3] ? `, scale: ${sized[3]}` : ""} }`
+        : `{ length: ${sized[2]} }`;
+    return `${builder}(${name}, ${options})${suffix}`;
+  }
+  customTypes.add(type);
+  imports.add("customType");
+  return `sqlType(${JSON.stringify(type)})(${name})`;
+}
+
+/** Drizzle schema module mirroring src/db/schema.ts: one exported `pgTable` per table. */
+export function diagramToDrizzleSchema(nodes: Node[], edges: Edge[], nodeIds?: Iterable<string>): string {
+  const { tables, foreignKeys } = prepare(nodes, edges, nodeIds);
+  const position = new Map(tables.map((t, i) => [t.id, i]));
+  const imports = new Set<string>(["pgTable"]);
+  const customTypes = new Set<string>();
+  const usedNames = new Set<string>();
+  const constNames = new Map<string, string>();
+  for (const table of tables) {
+    let name = toCamelCase(table.name);
+    for (let i = 2; usedNames.has(name); i++) name = `${toCamelCase(table.name)}${i}`;
+    usedNames.add(name);
+    constNames.set(table.id, name);
+  }
+
+  // Property names per table column, deduplicated after camel-casing.
+  const propNames = new Map<string, Map<string, string>>();
+  for (const table of tables) {
+    const used = new Set<string>();
+    const props = new Map<string, string>();
+    for (const col of table.columns) {
+      let prop = toCamelCase(col.name);
+      for (let i = 2; used.has(prop); i++) prop = `${toCamelCase(col.name)}${i}`;
+      used.add(prop);
+      props.set(col.name, prop);
+    }
+    propNames.set(table.id, props);
+  }
+
+  const blocks = tables.map((table) => {
+    const pkColumns = table.columns.filter((c) => c.key === "PK");
+    const props = propNames.get(table.id)!;
+    const fields = table.columns.map((col) => {
+      let call = drizzleColumn(col, imports, customTypes);
+      if (col.key === "PK" && pkColumns.length === 1) call += ".primaryKey()";
+      const fk = foreignKeys.find((f) => f.table === table && f.column === col.name);
+      if (fk) {
+        const ref = `${constNames.get(fk.refTable.id)}.${propNames.get(fk.refTable.id)!.get(fk.refColumn) ?? toCamelCase(fk.refColumn)}`;
+        // Self and cyclic references need an explicit return type to break the inference cycle.
+        const cyclic = position.get(fk.refTable.id)! >= position.get(table.id)!;
+        if (cyclic) imports.add("type AnyPgColumn");
+        call += cyclic ? `.references((): AnyPgColumn => ${ref})` : `.references(() => ${ref})`;
+      }
+      return `  ${props.get(col.name)}: ${call},`;
+    });
+    let extra = "";
+    if (pkColumns.length > 1) {
+      imports.add("primaryKey");
+      const cols = pkColumns.map((c) => `t.${props.get(c.name)}`).join(", ");
+      extra = `, (t) => [primaryKey({ columns: [${cols}] })]`;
+    }
+    return `\nexport const ${constNames.get(table.id)} = pgTable(${JSON.stringify(table.name)}, {\n${fields.join("\n")}\n}${extra});`;
+  });
+
+  const sortedImports = [...imports].sort((x, y) => x.replace(/^type /, "").localeCompare(y.replace(/^type /, "")));
+  const header = `import {\n${sortedImports.map((name) => `  ${name},`).join("\n")}\n} from "drizzle-orm/pg-core";\n`;
+  const helper =
+    customTypes.size > 0
+      ? `\n/** Column types without a drizzle-orm/pg-core builder, declared as written. */\nconst sqlType = (dataType: string) => customType<{ data: unknown }>({ dataType: () => dataType });\n`
+      : "";
+  return `${header}${helper}${blocks.join("\n")}\n`;
+}
@@ -0,0 +1,741 @@
+/**
+ * Render a React Flow diagram to a standalone vector SVG string.
+ * Works from the node/edge data (not the DOM), so the export contains every node — shape paths,
+ * sticky notes, schema tables, mind-map branch colors, icons, images, groups — plus edges with their
+ * custom markers and labels, cropped to the diagram content bounds.
+ */
+import { createElement, Fragment, type ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import {
+  getBezierPath,
+  getSmoothStepPath,
+  getStraightPath,
+  Position,
+  type Node,
+  type Edge,
+} from "@xyflow/react";
+import getStroke from "perfect-freehand";
+import { SHAPE_PATHS, type ShapeType } from "@/lib/shape-types";
+import { getBranchStrokeColor, getNodeBranchStyle, PALETTE_COLORS } from "@/lib/branch-colors";
+import { getIconById } from "@/lib/icon-registry";
+import { getLayoutContentBounds } from "@/lib/layout-engine";
+import { FONT_SIZE_PX, GROUP_DRAWIO_COLORS, getNodeSize, toHexColor } from "@/lib/diagram-to-drawio";
+import { getSchemaColumnHandleIds } from "@/lib/database-schema";
+import { CUSTOM_MARKER_IDS, MARKER_SHAPES, renderDynamicMarker } from "@/components/edges/CustomMarkerDefs";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import type { StrokePoint } from "@/components/nodes/FreeDrawNode";
+
+export type SvgExportTheme = "light" | "dark";
+
+/** Canvas-wide edge defaults from the store, applied when an edge has no value of its own. */
+export interface SvgEdgeDefaults {
+  strokeColor?: string | null;
+  strokeWidth?: number | null;
+  markerEnd?: string | null;
+  markerStart?: string | null;
+  connectorType?: string | null;
+}
+
+export interface DiagramSvgOptions {
+  theme?: SvgExportTheme;
+  /** Space (px) around the content bounds. */
+  padding?: number;
+  /** Export only these nodes (plus edges between them); all nodes when omitted. */
+  nodeIds?: string[];
+  edgeDefaults?: SvgEdgeDefaults;
+}
+
+/** Canvas background and text drawn directly on it; node fills keep their own colors in both themes. */
+const THEME_COLORS: Record<SvgExportTheme, { background: string; text: string }> = {
+  light: { background: "#f9fafb", text: "#1f2937" },
+  dark: { background: "#111827", text: "#e5e7eb" },
+};
+
+const FONT_FAMILY = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+const MONO_FONT_FAMILY = "ui-monospace, SFMono-Regular, Menlo, monospace";
+const SHAPE_STROKE = "#94a3b8";
+const EDGE_DEFAULT_STROKE_WIDTH = 1.5;
+const MARKER_DEFAULT_COLOR = "#94a3b8";
+const STICKY_DEFAULT_COLOR = "#fef3c7";
+/** Same threshold as ShapeNode: longer labels render as plain text without the shape. */
+const LONG_TEXT_THRESHOLD = 50;
+const SCHEMA_HEADER_HEIGHT = 38;
+const SCHEMA_COLUMN_HEADER_HEIGHT = 24;
+const SCHEMA_ROW_HEIGHT = 30;
+const GROUP_HEADER_HEIGHT = 28;
+/** Rough glyph width as a fraction of font size, used for wrapping and label boxes. */
+const CHAR_WIDTH_RATIO = 0.56;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Space-separated rgb() (Tailwind style) is not understood by every SVG editor; prefer hex. */
+function svgColor(color: string): string {
+  return toHexColor(color) ?? color;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function fontSizeOf(data: Record<string, unknown>, fallback = 14): number {
+  return FONT_SIZE_PX[data.fontSize as string] ?? fallback;
+}
+
+/** Greedy word wrap by approximate glyph width; respects explicit newlines. */
+function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * CHAR_WIDTH_RATIO)));
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= maxChars) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+      while (line.length > maxChars) {
+        lines.push(line.slice(0, maxChars));
+        line = line.slice(maxChars);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+interface TextOptions {
+  fontSize?: number;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  mono?: boolean;
+  align?: "left" | "center" | "right";
+  verticalAlign?: "top" | "center" | "bottom";
+  padding?: number;
+  /** Wrap to the box width; otherwise a single line. */
+  wrap?: boolean;
+}
+
+/** Multi-line text laid out inside a box, clipped to the lines that fit. */
+function textBlock(text: string, box: Rect, opts: TextOptions = {}): string {
+  if (!text) return "";
+  const fontSize = opts.fontSize ?? 14;
+  const padding = opts.padding ?? 0;
+  const lineHeight = fontSize * 1.3;
+  const innerWidth = Math.max(1, box.width - padding * 2);
+  let lines = opts.wrap === false ? [text.replace(/\s*\n\s*/g, " ")] : wrapText(text, innerWidth, fontSize);
+  const maxLines = Math.max(1, Math.floor((box.height - padding * 2) / lineHeight));
+  if (lines.length > maxLines) {
+    lines = lines.slice(0, maxLines);
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/.$/, "")}…`;
+  }
+  const align = opts.align ?? "center";
+  const verticalAlign = opts.verticalAlign ?? "center";
+  const x =
+    align === "left" ? box.x + padding : align === "right" ? box.x + box.width - padding : box.x + box.width / 2;
+  const anchor = align === "left" ? "start" : align === "right" ? "end" : "middle";
+  const blockHeight = lines.length * lineHeight;
+  const top =
+    verticalAlign === "top"
+      ? box.y + padding
+      : verticalAlign === "bottom"
+        ? box.y + box.height - padding - blockHeight
+        : box.y + (box.height - blockHeight) / 2;
+  const attrs = [
+    `x="${round(x)}"`,
+    `font-family="${opts.mono ? MONO_FONT_FAMILY : FONT_FAMILY}"`,
+    `font-size="${fontSize}"`,
+    `fill="${opts.color ?? "#1f2937"}"`,
+    `text-anchor="${anchor}"`,
+    opts.bold ? `font-weight="bold"` : "",
+    opts.italic ? `font-style="italic"` : "",
+    opts.strike ? `text-decoration="line-through"` : "",
+  ].filter(Boolean);
+  const tspans = lines
+    .map(
+      (line, i) =>
+        `<tspan x="${round(x)}" y="${round(top + i * lineHeight + fontSize)}">${escapeXml(line)}</tspan>`
+    )
+    .join("");
+  return `<text ${attrs.join(" ")}>${tspans}</text>`;
+}
+
+/** Text options from the node formatting toolbar (fontWeight, fontStyle, textAlign, …). */
+function formattedText(data: Record<string, unknown>, fallbackSize = 14): TextOptions {
+  return {
+    fontSize: fontSizeOf(data, fallbackSize),
+    bold: data.fontWeight === "bold",
+    italic: data.fontStyle === "italic",
+    strike: data.textDecoration === "line-through",
+    align: (data.textAlign as TextOptions["align"]) ?? "center",
+    verticalAlign: (data.textVerticalAlign as TextOptions["verticalAlign"]) ?? "center",
+  };
+}
+
+function imageElement(href: string, box: Rect, fit: "meet" | "slice" = "meet"): string {
+  return `<image href="${escapeXml(href)}" x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" preserveAspectRatio="xMidYMid ${fit}"/>`;
+}
+
+/**
+ * Node icon (custom upload, registry icon, icon URL or emoji) drawn into a square box.
+ * Registry icons are React components, so they are rendered to static SVG markup.
+ */
+function iconMarkup(data: Record<string, unknown>, box: Rect, color: string): string {
+  const customIcon = data.customIcon as string | undefined;
+  if (customIcon) return imageElement(customIcon, box);
+  const iconDef = getIconById(data.icon as string);
+  if (iconDef) {
+    const size = Math.min(box.width, box.height);
+    const markup = renderToStaticMarkup(createElement(iconDef.Icon, { size }));
+    return `<g transform="translate(${round(box.x)} ${round(box.y)})" color="${color}">${markup}</g>`;
+  }
+  const iconUrl = data.iconUrl as string | undefined;
+  if (iconUrl) return imageElement(iconUrl, box);
+  const emoji = typeof data.emoji === "string" ? data.emoji : "";
+  if (emoji) {
+    return textBlock(emoji, box, { fontSize: Math.round(Math.min(box.width, box.height) * 0.85), wrap: false });
+  }
+  return "";
+}
+
+function hasIcon(data: Record<string, unknown>): boolean {
+  return !!(data.customIcon || getIconById(data.icon as string) || data.iconUrl || data.emoji);
+}
+
+function rect(box: Rect, fill: string, stroke: string | null, radius = 0, strokeWidth = 1): string {
+  return `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="${radius}" fill="${fill}" stroke="${stroke ?? "none"}" stroke-width="${strokeWidth}"/>`;
+}
+
+function getSvgPathFromStroke(stroke: number[][]): string {
+  if (!stroke.length) return "";
+  const d = stroke.reduce(
+    (acc, [x0, y0], i, arr) => {
+      const [x1, y1] = arr[(i + 1) % arr.length];
+      acc.push(round(x0), round(y0), round((x0 + x1) / 2), round((y0 + y1) / 2));
+      return acc;
+    },
+    ["M", ...stroke[0].map(round), "Q"] as (string | number)[]
+  );
+  d.push("Z");
+  return d.join(" ");
+}
+
+function nodeToSvg(node: Node, box: Rect, edges: Edge[], theme: SvgExportTheme): string {
+  const data = (node.data ?? {}) as Record<string, unknown>;
+  const type = node.type ?? "rectangle";
+  const label = typeof data.label === "string" ? data.label : "";
+  const colors = THEME_COLORS[theme];
+  const { x, y, width, height } = box;
+
+  switch (type) {
+    case "rectangle":
+    case "diamond":
+    case "circle":
+    case "document": {
+      const text = label || "Node";
+      if (text.length > LONG_TEXT_THRESHOLD) {
+        return textBlock(text, box, { ...formattedText(data), color: colors.text, padding: 8 });
+      }
+      const shape = ((data.shape as ShapeType) ?? DEFAULT_SHAPE_FOR_TYPE[type]) as ShapeType;
+      const pathD = SHAPE_PATHS[shape] ?? SHAPE_PATHS.rectangle;
+      const fill = svgColor((data.color as string) ?? PALETTE_COLORS[0]);
+      const parts = [
+        `<svg x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" viewBox="0 0 100 100" preserveAspectRatio="none" overflow="visible">`,
+        `<path d="${pathD}" fill="${fill}" stroke="${SHAPE_STROKE}" stroke-width="1.5" vector-effect="non-scaling-stroke"/>`,
+        "</svg>",
+      ];
+      let textBox: Rect = { x: x + 12, y: y + 8, width: width - 24, height: height - 16 };
+      if (hasIcon(data)) {
+        parts.push(iconMarkup(data, { x: x + width / 2 - 10, y: y + 8, width: 20, height: 20 }, "#4b5563"));
+        textBox = { ...textBox, y: textBox.y + 22, height: textBox.height - 22 };
+      }
+      parts.push(textBlock(text, textBox, { ...formattedText(data), color: "#1f2937" }));
+      return parts.join("");
+    }
+    case "mindMap": {
+      const branch = getNodeBranchStyle(node.id, edges, data.color as string | undefined);
+      const parts = [rect(box, svgColor(branch.bg), svgColor(branch.stroke), 16)];
+      let textBox: Rect = { x: x + 12, y, width: width - 24, height };
+      if (hasIcon(data)) {
+        parts.push(iconMarkup(data, { x: x + 12, y: y + height / 2 - 9, width: 18, height: 18 }, svgColor(branch.stroke)));
+        textBox = { ...textBox, x: textBox.x + 26, width: textBox.width - 26 };
+      }
+      parts.push(
+        textBlock(label, textBox, { ...formattedText(data), align: (data.textAlign as TextOptions["align"]) ?? "left", color: svgColor(branch.text) })
+      );
+      return parts.join("");
+    }
+    case "stickyNote": {
+      const fill = (data.color as string) ?? STICKY_DEFAULT_COLOR;
+      return [
+        `<rect x="${round(x + 2)}" y="${round(y + 3)}" width="${round(width)}" height="${round(height)}" rx="2" fill="rgba(0,0,0,0.08)"/>`,
+        rect(box, fill, "#d6d3d1", 2),
+        textBlock(label, box, { ...formattedText(data), align: (data.textAlign as TextOptions["align"]) ?? "left", verticalAlign: "top", padding: 12, color: "#1f2937" }),
+      ].join("");
+    }
+    case "text": {
+      const bg = data.color as string | undefined;
+      return [
+        bg ? rect(box, bg, null, 4) : "",
+        textBlock(label, box, { ...formattedText(data), padding: 6, color: bg ? "#1f2937" : colors.text }),
+      ].join("");
+    }
+    case "table": {
+      const rows = Math.max(1, (data.tableRows as number) ?? 3);
+      const cols = Math.max(1, (data.tableCols as number) ?? 3);
+      const cells = (data.cells as Record<string, string>) ?? {};
+      const cellW = width / cols;
+      const cellH = height / rows;
+      const parts = [rect(box, svgColor((data.color as string) ?? PALETTE_COLORS[0]), "#d1d5db", 4, 2)];
+      for (let r = 1; r < rows; r++) {
+        parts.push(`<line x1="${round(x)}" y1="${round(y + r * cellH)}" x2="${round(x + width)}" y2="${round(y + r * cellH)}" stroke="#d1d5db"/>`);
+      }
+      for (let c = 1; c < cols; c++) {
+        parts.push(`<line x1="${round(x + c * cellW)}" y1="${round(y)}" x2="${round(x + c * cellW)}" y2="${round(y + height)}" stroke="#d1d5db"/>`);
+      }
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+          const value = cells[`${r}-${c}`];
+          if (value) {
+            parts.push(textBlock(value, { x: x + c * cellW, y: y + r * cellH, width: cellW, height: cellH }, { fontSize: 12, padding: 4, color: "#1f2937" }));
+          }
+        }
+      }
+      return parts.join("");
+    }
+    case "databaseSchema": {
+      const columns: SchemaColumn[] = Array.isArray(data.columns)
+        ? (data.columns as SchemaColumn[])
+        : [
+            { name: "id", type: "uuid", key: "PK" },
+            { name: "created_at", type: "timestamp", key: "" },
+          ];
+      const tableHeight = Math.max(height, SCHEMA_HEADER_HEIGHT + SCHEMA_COLUMN_HEADER_HEIGHT + columns.length * SCHEMA_ROW_HEIGHT);
+      const clipId = `clip-${escapeXml(node.id)}`;
+      const parts = [
+        `<clipPath id="${clipId}">${rect({ x, y, width, height: tableHeight }, "#fff", null, 8)}</clipPath>`,
+        `<g clip-path="url(#${clipId})">`,
+        rect({ x, y, width, height: tableHeight }, "#ffffff", null),
+        rect({ x, y, width, height: SCHEMA_HEADER_HEIGHT }, "#334155", null),
+        textBlock(label || "Table", { x: x + 12, y, width: width - 70, height: SCHEMA_HEADER_HEIGHT }, { fontSize: 14, bold: true, align: "left", color: "#ffffff", wrap: false }),
+        textBlock(`${columns.length} cols`, { x: x + width - 60, y, width: 48, height: SCHEMA_HEADER_HEIGHT }, { fontSize: 10, align: "right", color: "#94a3b8", mono: true, wrap: false }),
+        rect({ x, y: y + SCHEMA_HEADER_HEIGHT, width, height: SCHEMA_COLUMN_HEADER_HEIGHT }, "#f8fafc", null),
+      ];
+      const headerBox = { y: y + SCHEMA_HEADER_HEIGHT, height: SCHEMA_COLUMN_HEADER_HEIGHT };
+      const headerText: TextOptions = { fontSize: 10, bold: true, align: "left", color: "#94a3b8", wrap: false };
+      parts.push(
+        textBlock("KEY", { x: x + 28, width: 40, ...headerBox }, headerText),
+        textBlock("COLUMN", { x: x + 72, width: width / 2 - 60, ...headerBox }, headerText),
+        textBlock("TYPE", { x: x + width / 2 + 16, width: width / 2 - 40, ...headerBox }, headerText)
+      );
+      columns.forEach((col, i) => {
+        const rowY = y + SCHEMA_HEADER_HEIGHT + SCHEMA_COLUMN_HEADER_HEIGHT + i * SCHEMA_ROW_HEIGHT;
+        const rowBox = { y: rowY, height: SCHEMA_ROW_HEIGHT };
+        parts.push(
+          rect({ x, y: rowY, width, height: SCHEMA_ROW_HEIGHT }, i % 2 === 0 ? "#ffffff" : "#fbfcfd", null),
+          `<line x1="${round(x)}" y1="${round(rowY)}" x2="${round(x + width)}" y2="${round(rowY)}" stroke="#e2e8f0"/>`
+        );
+        if (col.key) {
+          const badge = col.key === "PK" ? { fill: "#fef3c7", text: "#b45309" } : { fill: "#dbeafe", text: "#1d4ed8" };
+          parts.push(
+            rect({ x: x + 28, y: rowY + 7, width: 30, height: 16 }, badge.fill, null, 4),
+            textBlock(col.key, { x: x + 28, y: rowY + 7, width: 30, height: 16 }, { fontSize: 10, bold: true, color: badge.text, wrap: false })
+          );
+        }
+        parts.push(
+          textBlock(col.name, { x: x + 72, width: width / 2 - 60, ...rowBox }, { fontSize: 12, mono: true, align: "left", color: "#1e293b", wrap: false }),
+          textBlock(col.type ?? "", { x: x + width / 2 + 16, width: width / 2 - 40, ...rowBox }, { fontSize: 11, mono: true, align: "left", color: "#64748b", wrap: false })
+        );
+      });
+      parts.push("</g>", rect({ x, y, width, height: tableHeight }, "none", "#cbd5e1", 8));
+      return parts.join("");
+    }
+    case "service": {
+      const subtitle = typeof data.subtitle === "string" ? data.subtitle : "";
+      const iconBox = { x: x + 16, y: y + height / 2 - 20, width: 40, height: 40 };
+      return [
+        rect(box, "#f8fafc", "#cbd5e1", 12),
+        rect(iconBox, "#ede9fe", null, 8),
+        hasIcon(data)
+          ? iconMarkup(data, { x: iconBox.x + 10, y: iconBox.y + 10, width: 20, height: 20 }, "#7c3aed")
+          : "",
+        textBlock(label, { x: x + 68, y: y + (subtitle ? 8 : 0), width: width - 80, height: subtitle ? height / 2 : height }, { fontSize: 14, bold: true, align: "left", verticalAlign: subtitle ? "bottom" : "center", color: "#1e293b", wrap: false }),
+        subtitle
+          ? textBlock(subtitle, { x: x + 68, y: y + height / 2 + 2, width: width - 80, height: height / 2 - 8 }, { fontSize: 11, mono: true, align: "left", verticalAlign: "top", color: "#64748b", wrap: false })
+          : "",
+      ].join("");
+    }
+    case "queue": {
+      const iconBox = { x: x + 12, y: y + height / 2 - 18, width: 36, height: 36 };
+      return [
+        rect(box, "#ecfdf5", "#6ee7b7", 12),
+        rect(iconBox, "#a7f3d0", null, 8),
+        hasIcon(data)
+          ? iconMarkup(data, { x: iconBox.x + 10, y: iconBox.y + 10, width: 16, height: 16 }, "#047857")
+          : "",
+        textBlock(label, { x: x + 60, y, width: width - 70, height }, { fontSize: 14, bold: true, align: "left", color: "#064e3b", wrap: false }),
+      ].join("");
+    }
+    case "actor": {
+      const cx = x + width / 2;
+      const figureTop = y + 8;
+      const figure = hasIcon(data)
+        ? iconMarkup(data, { x: cx - 14, y: figureTop + 6, width: 28, height: 28 }, "#475569")
+        : [
+            `<circle cx="${round(cx)}" cy="${round(figureTop + 8)}" r="7" fill="none" stroke="#475569" stroke-width="2"/>`,
+            `<path d="M ${round(cx)} ${round(figureTop + 15)} V ${round(figureTop + 32)} M ${round(cx - 12)} ${round(figureTop + 22)} H ${round(cx + 12)} M ${round(cx)} ${round(figureTop + 32)} L ${round(cx - 10)} ${round(figureTop + 46)} M ${round(cx)} ${round(figureTop + 32)} L ${round(cx + 10)} ${round(figureTop + 46)}" fill="none" stroke="#475569" stroke-width="2" stroke-linecap="round"/>`,
+          ].join("");
+      return [
+        figure,
+        textBlock(label, { x, y: figureTop + 52, width, height: Math.max(16, height - 60) }, { fontSize: 12, verticalAlign: "top", color: colors.text, wrap: false }),
+      ].join("");
+    }
+    case "icon": {
+      const size = Math.min(width, height - (label ? 18 : 0));
+      const iconBox = { x: x + (width - size) / 2, y, width: size, height: size };
+      return [
+        iconMarkup(data, iconBox, "#475569"),
+        label
+          ? textBlock(label, { x: x - 20, y: y + size + 2, width: width + 40, height: 16 }, { fontSize: 11, color: colors.text, wrap: false })
+          : "",
+      ].join("");
+    }
+    case "image": {
+      const src = (data.imageUrl ?? data.image) as string | undefined;
+      if (!src) return rect(box, "#f3f4f6", "#e5e7eb", 8);
+      const clipId = `clip-${escapeXml(node.id)}`;
+      return [
+        `<clipPath id="${clipId}">${rect(box, "#fff", null, 8)}</clipPath>`,
+        `<g clip-path="url(#${clipId})">${imageElement(src, box, "slice")}</g>`,
+        label
+          ? textBlock(label, { x, y: y + height + 4, width, height: 18 }, { fontSize: 12, color: colors.text, wrap: false })
+          : "",
+      ].join("");
+    }
+    case "group": {
+      const colorIdx = typeof data.colorIdx === "number" ? data.colorIdx : 0;
+      const color = GROUP_DRAWIO_COLORS[colorIdx % GROUP_DRAWIO_COLORS.length];
+      const parts = [
+        rect(box, color.fill, color.stroke, 8, 2),
+        `<path d="M ${round(x + 1)} ${round(y + GROUP_HEADER_HEIGHT)} V ${round(y + 8)} Q ${round(x + 1)} ${round(y + 1)} ${round(x + 8)} ${round(y + 1)} H ${round(x + width - 8)} Q ${round(x + width - 1)} ${round(y + 1)} ${round(x + width - 1)} ${round(y + 8)} V ${round(y + GROUP_HEADER_HEIGHT)} Z" fill="${color.header}"/>`,
+      ];
+      let textX = x + 10;
+      if (hasIcon(data)) {
+        parts.push(iconMarkup(data, { x: x + 10, y: y + 6, width: 16, height: 16 }, "#475569"));
+        textX += 22;
+      }
+      parts.push(
+        textBlock(label || "Group", { x: textX, y, width: width - (textX - x) - 10, height: GROUP_HEADER_HEIGHT }, { fontSize: fontSizeOf(data, 12), bold: true, align: "left", color: "#334155", wrap: false })
+      );
+      return parts.join("");
+    }
+    case "freeDraw": {
+      const points = (data.points as StrokePoint[] | undefined) ?? [];
+      if (!points.length) return "";
+      const color = (data.color as string) ?? "#000000";
+      const strokeSize = (data.strokeSize as number) ?? 8;
+      const initialSize = data.initialSize as { width: number; height: number } | undefined;
+      const scaleX = width / (initialSize?.width ?? width);
+      const scaleY = height / (initialSize?.height ?? height);
+      const d = getSvgPathFromStroke(
+        getStroke(points.map(([px, py, pressure]) => [px * scaleX, py * scaleY, pressure]), {
+          size: strokeSize,
+          thinning: 0.6,
+          smoothing: 0.7,
+          streamline: 0.7,
+          easing: (v) => v,
+          start: { taper: 0, cap: true },
+          end: { taper: 0, cap: true },
+        })
+      );
+      return `<path transform="translate(${round(x)} ${round(y)})" d="${d}" fill="${color}"/>`;
+    }
+    case "edgeAnchor":
+      return "";
+    default:
+      return [
+        rect(box, (data.color as string) ?? "#ffffff", SHAPE_STROKE, 6),
+        textBlock(label, box, { ...formattedText(data), padding: 8, color: "#1f2937" }),
+      ].join("");
+  }
+}
+
+const DEFAULT_SHAPE_FOR_TYPE: Record<string, ShapeType> = {
+  rectangle: "rectangle",
+  diamond: "diamond",
+  circle: "circle",
+  document: "document",
+};
+
+/* ─── Edges ─── */
+
+type ConnectorType = "smoothstep" | "default" | "straight" | "step";
+
+const SIDE_TO_POSITION: Record<string, Position> = {
+  top: Position.Top,
+  bottom: Position.Bottom,
+  left: Position.Left,
+  right: Position.Right,
+};
+
+/**
+ * Connection point for an edge end. Side handles (top, right-1, …) use the side midpoint or the
+ * multi-handle spread from LayoutHandles; schema column handles attach to the column row; without
+ * a handle the side facing the other node is used.
+ */
+function handlePoint(
+  node: Node,
+  box: Rect,
+  handle: string | null | undefined,
+  other: Rect
+): { x: number; y: number; position: Position } {
+  const data = (node.data ?? {}) as Record<string, unknown>;
+  const side = handle?.match(/^(top|bottom|left|right)(?:-(\d+))?$/);
+  if (side) {
+    const position = SIDE_TO_POSITION[side[1]];
+    const index = side[2] ? Number(side[2]) : 0;
+    const layoutHandles = data.layoutHandles as { source: number; target: number } | undefined;
+    const count = layoutHandles ? Math.max(layoutHandles.source, layoutHandles.target) : 1;
+    const t = index > 0 || count > 1 ? (index + 1) / (Math.max(count, index + 1) + 1) : 0.5;
+    if (position === Position.Top) return { x: box.x + box.width * t, y: box.y, position };
+    if (position === Position.Bottom) return { x: box.x + box.width * t, y: box.y + box.height, position };
+    if (position === Position.Left) return { x: box.x, y: box.y + box.height * t, position };
+    return { x: box.x + box.width, y: box.y + box.height * t, position };
+  }
+  if (handle && node.type === "databaseSchema" && Array.isArray(data.columns)) {
+    const isSource = handle.endsWith("-out");
+    const base = isSource ? handle.slice(0, -4) : handle;
+    const index = (data.columns as SchemaColumn[]).findIndex(
+      (col, i) => getSchemaColumnHandleIds(i, col).target === base
+    );
+    if (index >= 0) {
+      const rowY = box.y + SCHEMA_HEADER_HEIGHT + SCHEMA_COLUMN_HEADER_HEIGHT + (index + 0.5) * SCHEMA_ROW_HEIGHT;
+      return isSource
+        ? { x: box.x + box.width, y: rowY, position: Position.Right }
+        : { x: box.x, y: rowY, position: Position.Left };
+    }
+  }
+  const dx = other.x + other.width / 2 - (box.x + box.width / 2);
+  const dy = other.y + other.height / 2 - (box.y + box.height / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0
+      ? { x: box.x + box.width, y: box.y + box.height / 2, position: Position.Right }
+      : { x: box.x, y: box.y + box.height / 2, position: Position.Left };
+  }
+  return dy >= 0
+    ? { x: box.x + box.width / 2, y: box.y + box.height, position: Position.Bottom }
+    : { x: box.x + box.width / 2, y: box.y, position: Position.Top };
+}
+
+/** Raw custom marker id from an edge marker value (string id, url(#id) or React Flow marker object). */
+function rawMarkerId(marker: unknown): string | undefined {
+  if (!marker) return undefined;
+  if (typeof marker === "object") {
+    const type = (marker as { type?: string }).type;
+    return type === "arrow" ? CUSTOM_MARKER_IDS.arrowOpen : CUSTOM_MARKER_IDS.arrowClosed;
+  }
+  if (typeof marker !== "string") return undefined;
+  const match = marker.match(/url\(['"]?#([^'")\s]+)['"]?\)/);
+  return match ? match[1] : marker;
+}
+
+interface EdgeSvg {
+  defs: string;
+  path: string;
+  label: string;
+}
+
+function edgeToSvg(
+  edge: Edge,
+  index: number,
+  boxes: Map<string, Rect>,
+  nodeById: Map<string, Node>,
+  edges: Edge[],
+  defaults: SvgEdgeDefaults
+): EdgeSvg | null {
+  const sourceNode = nodeById.get(edge.source);
+  const targetNode = nodeById.get(edge.target);
+  const sourceBox = boxes.get(edge.source);
+  const targetBox = boxes.get(edge.target);
+  if (!sourceNode || !targetNode || !sourceBox || !targetBox) return null;
+  const data = (edge.data ?? {}) as Record<string, unknown>;
+
+  const s = handlePoint(sourceNode, sourceBox, edge.sourceHandle, targetBox);
+  const t = handlePoint(targetNode, targetBox, edge.targetHandle, sourceBox);
+  const connectorType = (data.connectorType as ConnectorType) ?? (defaults.connectorType as ConnectorType | null) ?? "default";
+  const pathPoints = (data.pathPoints as { x: number; y: number }[] | undefined) ?? [];
+  let d: string;
+  let labelX = (s.x + t.x) / 2;
+  let labelY = (s.y + t.y) / 2;
+  if (pathPoints.length > 0) {
+    d = [s, ...pathPoints, t].map((p, i) => `${i === 0 ? "M" : "L"} ${round(p.x)} ${round(p.y)}`).join(" ");
+  } else {
+    const params = {
+      sourceX: s.x,
+      sourceY: s.y,
+      targetX: t.x,
+      targetY: t.y,
+      sourcePosition: s.position,
+      targetPosition: t.position,
+    };
+    const result =
+      connectorType === "straight"
+        ? getStraightPath(params)
+        : connectorType === "default"
+          ? getBezierPath({ ...params, curvature: 0.2 })
+          : getSmoothStepPath({ ...params, borderRadius: connectorType === "step" ? 8 : 12 });
+    [d, labelX, labelY] = result;
+  }
+
+  const stroke = svgColor(
+    (data.strokeColor as string | undefined) ??
+      defaults.strokeColor ??
+      getBranchStrokeColor(edge.source, edge.target, edges)
+  );
+  const strokeWidth = (data.strokeWidth as number | undefined) ?? defaults.strokeWidth ?? EDGE_DEFAULT_STROKE_WIDTH;
+  const flowDirection = (data.flowDirection as "mono" | "bi" | "none") ?? "mono";
+  const markerEnd = rawMarkerId(
+    data.markerEnd ?? edge.markerEnd ?? defaults.markerEnd ?? (flowDirection !== "none" ? CUSTOM_MARKER_IDS.arrowClosed : undefined)
+  );
+  const markerStart = rawMarkerId(
+    data.markerStart ?? edge.markerStart ?? defaults.markerStart ?? (flowDirection === "bi" ? CUSTOM_MARKER_IDS.arrowClosed : undefined)
+  );
+  const markerColor = svgColor((data.markerColor as string | undefined) ?? MARKER_DEFAULT_COLOR);
+  const markerScale = (data.markerScale as number | undefined) ?? 1;
+
+  // Marker ids are per edge so each keeps its own color and scale in the standalone file.
+  const markerDefs: ReactNode[] = [];
+  const markerAttr = (side: "start" | "end", id: string | undefined): string => {
+    if (!id || !MARKER_SHAPES[id]) return "";
+    const uniqueId = `${id}--e${index}-${side}`;
+    markerDefs.push(renderDynamicMarker(uniqueId, id, markerColor, markerScale));
+    return ` marker-${side}="url(#${uniqueId})"`;
+  };
+  const markers = markerAttr("start", markerStart) + markerAttr("end", markerEnd);
+  const dash = data.strokeDasharray ? ` stroke-dasharray="${escapeXml(String(data.strokeDasharray))}"` : "";
+  const path = `<path d="${d}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"${dash}${markers}/>`;
+
+  const text = typeof data.label === "string" ? data.label : "";
+  let label = "";
+  if (text) {
+    const labelWidth = text.length * 12 * CHAR_WIDTH_RATIO + 20;
+    const labelBox = { x: labelX - labelWidth / 2, y: labelY - 11, width: labelWidth, height: 22 };
+    label =
+      rect(labelBox, "#ffffff", "#e5e7eb", 6) +
+      textBlock(text, labelBox, { fontSize: 12, bold: true, color: "#374151", wrap: false });
+  }
+  return {
+    defs: markerDefs.length ? renderToStaticMarkup(createElement(Fragment, null, ...markerDefs)) : "",
+    path,
+    label,
+  };
+}
+
+/* ─── Diagram ─── */
+
+function absoluteBoxes(nodes: Node[]): Map<string, Rect> {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const boxes = new Map<string, Rect>();
+  const resolve = (node: Node, seen: Set<string>): Rect => {
+    const cached = boxes.get(node.id);
+    if (cached) return cached;
+    const { width, height } = getNodeSize(node);
+    let x = node.position?.x ?? 0;
+    let y = node.position?.y ?? 0;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent && !seen.has(parent.id)) {
+      const parentBox = resolve(parent, new Set(seen).add(node.id));
+      x += parentBox.x;
+      y += parentBox.y;
+    }
+    const box = { x, y, width, height };
+    boxes.set(node.id, box);
+    return box;
+  };
+  nodes.forEach((n) => resolve(n, new Set([n.id])));
+  return boxes;
+}
+
+function nestingDepth(node: Node, byId: Map<string, Node>): number {
+  let depth = 0;
+  let current = node.parentId ? byId.get(node.parentId) : undefined;
+  while (current && depth < 50) {
+    depth++;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return depth;
+}
+
+/**
+ * Render nodes and edges as a standalone SVG document cropped to the content bounds.
+ * Groups are drawn first (outermost to innermost), then edges, then the remaining nodes,
+ * matching the canvas stacking order.
+ */
+export function diagramToSvg(nodes: Node[], edges: Edge[], options: DiagramSvgOptions = {}): string {
+  const theme = options.theme ?? "light";
+  const padding = Math.max(0, options.padding ?? 40);
+  const boxes = absoluteBoxes(nodes);
+  const selected = options.nodeIds ? new Set(options.nodeIds) : null;
+  const exportNodes = (selected ? nodes.filter((n) => selected.has(n.id)) : nodes).filter((n) => !n.hidden);
+  const exportIds = new Set(exportNodes.map((n) => n.id));
+  const exportEdges = edges.filter((e) => !e.hidden && exportIds.has(e.source) && exportIds.has(e.target));
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+
+  const absoluteNodes = exportNodes.map((n) => {
+    const box = boxes.get(n.id)!;
+    return { ...n, position: { x: box.x, y: box.y } };
+  });
+  const bounds = getLayoutContentBounds(absoluteNodes);
+  let { minX, minY, maxX, maxY } = bounds;
+  for (const e of exportEdges) {
+    for (const p of (e.data?.pathPoints as { x: number; y: number }[] | undefined) ?? []) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  const viewX = minX - padding;
+  const viewY = minY - padding;
+  const width = Math.max(1, Math.ceil(maxX - minX + padding * 2));
+  const height = Math.max(1, Math.ceil(maxY - minY + padding * 2));
+
+  const groups = exportNodes
+    .filter((n) => n.type === "group")
+    .sort((a, b) => nestingDepth(a, nodeById) - nestingDepth(b, nodeById));
+  const others = exportNodes.filter((n) => n.type !== "group");
+  const renderNode = (n: Node) =>
+    `<g data-id="${escapeXml(n.id)}">${nodeToSvg(n, boxes.get(n.id)!, edges, theme)}</g>`;
+
+  const edgeParts = exportEdges
+    .map((e, i) => edgeToSvg(e, i, boxes, nodeById, edges, options.edgeDefaults ?? {}))
+    .filter((e): e is EdgeSvg => e !== null);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${round(viewX)} ${round(viewY)} ${width} ${height}">`,
+    `<defs>${edgeParts.map((e) => e.defs).join("")}</defs>`,
+    `<rect x="${round(viewX)}" y="${round(viewY)}" width="${width}" height="${height}" fill="${THEME_COLORS[theme].background}"/>`,
+    `<g class="groups">${groups.map(renderNode).join("")}</g>`,
+    `<g class="edges">${edgeParts.map((e) => e.path).join("")}</g>`,
+    `<g class="nodes">${others.map(renderNode).join("")}</g>`,
+    `<g class="edge-labels">${edgeParts.map((e) => e.label).join("")}</g>`,
+    "</svg>",
+  ].join("");
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { documents, documentShares } from "@/db/schema";
+import { and, eq, gt, isNull, or } from "drizzle-orm";
+import { SHARE_TOKEN_HEADER, isShareRole, roleAtLeast, type DocumentRole } from "@/lib/share-roles";
+
+/** Share link by token, or undefined when unknown, revoked or expired. */
+export async function findActiveShare(token: string) {
+  const [share] = await db
+    .select()
+    .from(documentShares)
+    .where(
+      and(
+        eq(documentShares.token, token),
+        isNull(documentShares.revokedAt),
+        or(isNull(documentShares.expiresAt), gt(documentShares.expiresAt, new Date()))
+      )
+    );
+  return share;
+}
+
+/** Caller's role on a document: owner, else the role of the share token header (if it is for this document). */
+export async function getDocumentRole(
+  request: Request,
+  documentId: string,
+  userId: string | null
+): Promise<DocumentRole | null> {
+  if (userId) {
+    const [doc] = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
+    if (doc) return "owner";
+  }
+  const token = request.headers.get(SHARE_TOKEN_HEADER);
+  if (!token) return null;
+  const share = await findActiveShare(token);
+  if (!share || share.documentId !== documentId || !isShareRole(share.role)) return null;
+  return share.role;
+}
+
+/**
+ * Use in /api/projects/[id] routes: returns the caller's role, or a NextResponse — 401 when anonymous
+ * without a usable link, 404 when the document is not reachable, 403 when the role is below `required`.
+ * Roles above viewer only apply to signed-in users (pass their id), so edits stay attributable.
+ */
+export async function requireDocumentRole(
+  request: Request,
+  documentId: string,
+  required: DocumentRole,
+  userId: string | null
+): Promise<DocumentRole | NextResponse> {
+  const role = await getDocumentRole(request, documentId, userId);
+  if (!role) {
+    return userId
+      ? NextResponse.json({ error: "Not found" }, { status: 404 })
+      : NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!roleAtLeast(role, required)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (required !== "viewer" && !userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return role;
+}
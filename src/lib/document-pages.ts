@@ -0,0 +1,73 @@
+/**
+ * Pages of a multi-page document. The project's `nodes`/`edges` are always the active page's
+ * canvas; `pages` lists every page in tab order and only inactive pages carry their own
+ * nodes/edges (the active entry's are empty and filled in when the user switches away).
+ * Projects saved before pages existed have no `pages` and are a single page.
+ */
+import type { Node, Edge, Viewport } from "@xyflow/react";
+
+export interface DocumentPage {
+  id: string;
+  name: string;
+  /** Canvas of an inactive page (empty for the active page: see the project's nodes). */
+  nodes: Node[];
+  edges: Edge[];
+  /** Viewport when the user last left the page; fit to content when unset. */
+  viewport?: Viewport;
+}
+
+/** Id of the implicit page of documents created before pages existed. */
+export const FIRST_PAGE_ID = "page-1";
+
+export function createPageId(): string {
+  return `page-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createPage(name: string, nodes: Node[] = [], edges: Edge[] = []): DocumentPage {
+  return { id: createPageId(), name, nodes, edges };
+}
+
+/** The document's pages and active page, with the implicit single page for unpaged projects. */
+export function getDocumentPages(project: { pages?: DocumentPage[]; activePageId?: string } | undefined): {
+  pages: DocumentPage[];
+  activePageId: string;
+} {
+  const pages = project?.pages?.length ? project.pages : [{ id: FIRST_PAGE_ID, name: "Page 1", nodes: [], edges: [] }];
+  const activePageId = pages.some((p) => p.id === project?.activePageId) ? project!.activePageId! : pages[0].id;
+  return { pages, activePageId };
+}
+
+/** Next free "Page N" name. */
+export function nextPageName(pages: DocumentPage[]): string {
+  const names = new Set(pages.map((p) => p.name));
+  let n = pages.length + 1;
+  while (names.has(`Page ${n}`)) n++;
+  return `Page ${n}`;
+}
+
+/**
+ * Copy of a page's canvas with fresh node and edge ids (notes, tasks and links are keyed by node
+ * id, so a duplicate must not share ids with its source). Returns the old → new node id map.
+ */
+export function copyPageContent(nodes: Node[], edges: Edge[]): { nodes: Node[]; edges: Edge[]; idMap: Map<string, string> } {
+  const stamp = Date.now().toString(36);
+  const idMap = new Map(nodes.map((n, i) => [n.id, `${n.id}-copy-${stamp}-${i}`]));
+  const copiedNodes = nodes.map((n) => {
+    const copy: Node = JSON.parse(JSON.stringify(n));
+    copy.id = idMap.get(n.id)!;
+    if (n.parentId) copy.parentId = idMap.get(n.parentId) ?? n.parentId;
+    copy.selected = false;
+    return copy;
+  });
+  const copiedEdges = edges
+    .filter((e) => idMap.has(e.source) && idMap.has(e.target))
+    .map((e, i) => {
+      const copy: Edge = JSON.parse(JSON.stringify(e));
+      copy.id = `${e.id}-copy-${stamp}-${i}`;
+      copy.source = idMap.get(e.source)!;
+      copy.target = idMap.get(e.target)!;
+      copy.selected = false;
+      return copy;
+    });
+  return { nodes: copiedNodes, edges: copiedEdges, idMap };
+}
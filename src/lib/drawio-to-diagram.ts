@@ -1,9 +1,13 @@
 /**
  * Parse Draw.io mxGraph XML and convert to React Flow nodes + edges.
- * Handles vertex cells (shapes) and edge cells.
- * Skips embedded images (shape=image) to avoid raster blobs — use structural conversion instead.
+ * Handles vertex cells (shapes), container cells (groups, ER tables) and edge cells.
+ * Mirror of diagramToDrawioXml: cells carrying `rf*` style keys restore their exact node type and data.
+ * Skips embedded images (shape=image) without an rfType to avoid raster blobs — use structural conversion instead.
  */
 import type { Node, Edge } from "@xyflow/react";
+import type { ShapeType } from "@/lib/shape-types";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import { FONT_SIZE_PX, MARKER_TO_DRAWIO_ARROW } from "@/lib/diagram-to-drawio";
 
 interface ParsedCell {
   id: string;
@@ -19,6 +23,7 @@ interface ParsedCell {
     y?: number;
     width?: number;
     height?: number;
+    points?: { x: number; y: number }[];
   };
 }
 
@@ -39,6 +44,45 @@ function parseStyle(styleStr: string): Record<string, string> {
   return out;
 }
 
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&amp;/g, "&");
+}
+
+/** Draw.io html=1 label → plain text (<br>/<div> become newlines, tags stripped). */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(div|p|li)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  ).replace(/\n+$/, "");
+}
+
+function decodeStyleValue(v: string | undefined): string | undefined {
+  if (v == null) return undefined;
+  try {
+    return decodeURIComponent(v);
+  } catch {
+    return v;
+  }
+}
+
+/** Inverse of the data-URL rewrite Draw.io applies to image styles. */
+function imageUrlFromStyle(v: string | undefined): string | undefined {
+  if (!v) return undefined;
+  const url = v.replace(/%3B/gi, ";");
+  return /^data:image\/[^;,]+,/.test(url) && !url.includes(";base64,")
+    ? url.replace(/^(data:image\/[^;,]+),/, "$1;base64,")
+    : url;
+}
+
 function parseXml(xml: string): ParsedCell[] {
   if (typeof window === "undefined") return [];
   try {
@@ -48,9 +92,12 @@ function parseXml(xml: string): ParsedCell[] {
     const mxCells = doc.getElementsByTagName("mxCell");
     for (let i = 0; i < mxCells.length; i++) {
       const c = mxCells[i];
-      const id = c.getAttribute("id") ?? `cell-${i}`;
-      const value = (c.getAttribute("value") ?? "").replace(/&quot;/g, '"').replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+      // Cells with custom properties are wrapped: <object id label ...><mxCell .../></object>
+      const wrapper = c.parentElement && /^(object|UserObject)$/.test(c.parentElement.tagName) ? c.parentElement : null;
+      const id = wrapper?.getAttribute("id") ?? c.getAttribute("id") ?? `cell-${i}`;
       const style = parseStyle(c.getAttribute("style") ?? "");
+      const rawValue = wrapper?.getAttribute("label") ?? c.getAttribute("value") ?? "";
+      const value = style.html === "1" ? htmlToText(rawValue) : decodeEntities(rawValue);
       const vertex = c.getAttribute("vertex") === "1";
       const edge = c.getAttribute("edge") === "1";
       const parent = c.getAttribute("parent") ?? undefined;
@@ -64,7 +111,14 @@ function parseXml(xml: string): ParsedCell[] {
         const y = parseFloat(geom.getAttribute("y") ?? "0");
         const w = parseFloat(geom.getAttribute("width") ?? "120");
         const h = parseFloat(geom.getAttribute("height") ?? "40");
-        geometry = { x, y, width: w, height: h };
+        const pointsArray = Array.from(geom.getElementsByTagName("Array")).find((a) => a.getAttribute("as") === "points");
+        const points = pointsArray
+          ? Array.from(pointsArray.getElementsByTagName("mxPoint")).map((p) => ({
+              x: parseFloat(p.getAttribute("x") ?? "0"),
+              y: parseFloat(p.getAttribute("y") ?? "0"),
+            }))
+          : undefined;
+        geometry = { x, y, width: w, height: h, ...(points && points.length > 0 && { points }) };
       }
 
       cells.push({
@@ -85,20 +139,135 @@ function parseXml(xml: string): ParsedCell[] {
   }
 }
 
-/** Map Draw.io shape style to React Flow node type. */
-function styleToNodeType(style: Record<string, string>): string {
+/** Draw.io shape hints → ShapeType used by ShapeNode (`data.shape`). */
+function styleToShape(style: Record<string, string>): ShapeType {
+  if (style.rfShape) return style.rfShape as ShapeType;
   const shape = (style.shape ?? "").toLowerCase();
   if (shape === "rhombus" || style.rhombus) return "diamond";
   if (shape === "ellipse" || style.ellipse) return "circle";
-  if (shape === "text" || shape.includes("text")) return "text";
+  if (shape === "hexagon") return "hexagon";
+  if (shape.startsWith("cylinder") || shape === "datastore") return "cylinder";
+  if (shape === "parallelogram") return "parallelogram";
+  if (shape === "trapezoid") return "trapezoid";
+  if (shape === "document") return "document";
+  if (shape === "triangle" || style.triangle) return "triangle";
+  if (shape === "singlearrow") {
+    const dir = style.direction ?? "east";
+    return dir === "west" ? "arrowLeft" : dir === "north" ? "arrowUp" : dir === "south" ? "arrowDown" : "arrowRight";
+  }
+  if (style.rounded === "1") return Number(style.arcSize) >= 40 ? "stadium" : "roundedRect";
+  return "rectangle";
+}
+
+/** Map Draw.io shape style to React Flow node type. */
+function styleToNodeType(style: Record<string, string>): string {
+  if (style.rfType) return style.rfType;
+  const shape = (style.shape ?? "").toLowerCase();
+  if (style.childLayout === "stackLayout") return "databaseSchema";
+  if (style.swimlane || shape === "swimlane" || style.group || style.container === "1") return "group";
+  if (shape === "umlactor") return "actor";
+  if (shape === "note") return "stickyNote";
+  if (shape === "image") return "image";
+  if (shape === "text" || style.text || shape.includes("text")) return "text";
+  const rfShape = styleToShape(style);
+  if (rfShape === "diamond") return "diamond";
+  if (rfShape === "circle") return "circle";
+  if (rfShape === "document") return "document";
   return "rectangle";
 }
 
+/** Draw.io fontStyle bitmask / fontSize / align → node text formatting data. */
+function styleToTextData(style: Record<string, string>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  const fontStyle = Number(style.fontStyle ?? 0);
+  if (fontStyle & 1) out.fontWeight = "bold";
+  if (fontStyle & 2) out.fontStyle = "italic";
+  if (fontStyle & 8) out.textDecoration = "line-through";
+  if (style.fontSize) {
+    const px = Number(style.fontSize);
+    const preset = Object.entries(FONT_SIZE_PX).find(([, v]) => v === px)?.[0];
+    if (preset) out.fontSize = preset;
+  }
+  if (style.align === "left" || style.align === "center" || style.align === "right") out.textAlign = style.align;
+  if (style.verticalAlign) out.textVerticalAlign = style.verticalAlign === "middle" ? "center" : style.verticalAlign;
+  return out;
+}
+
+function styleToIconData(style: Record<string, string>, type: string): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  const icon = decodeStyleValue(style.rfIcon);
+  if (icon) out[type === "icon" ? "iconId" : "icon"] = icon;
+  const emoji = decodeStyleValue(style.rfEmoji);
+  if (emoji) out.emoji = emoji;
+  const iconUrl = decodeStyleValue(style.rfIconUrl);
+  if (iconUrl) out.iconUrl = iconUrl;
+  return out;
+}
+
+/** "PK id: uuid" / "id uuid" / "id" → SchemaColumn. */
+function parseColumn(cell: ParsedCell): SchemaColumn {
+  let text = cell.value.replace(/\s+/g, " ").trim();
+  let key: SchemaColumn["key"] = (cell.style.rfKey as SchemaColumn["key"]) ?? "";
+  const keyMatch = text.match(/^(PK|FK)\b[\s,]*/i);
+  if (keyMatch) {
+    key = key || (keyMatch[1].toUpperCase() as "PK" | "FK");
+    text = text.slice(keyMatch[0].length);
+  }
+  const colon = text.indexOf(":");
+  if (colon > 0) return { name: text.slice(0, colon).trim(), type: text.slice(colon + 1).trim(), key };
+  const [name, ...rest] = text.split(" ");
+  return { name: name || "column", type: rest.join(" ") || undefined, key };
+}
+
+/** Draw.io endArrow/startArrow + fill → custom marker id (undefined = no marker). */
+function arrowToMarker(style: Record<string, string>, side: "end" | "start"): string | undefined {
+  const exact = style[side === "end" ? "rfMarkerEnd" : "rfMarkerStart"];
+  // Exported edges only carry explicit markers; the rest come from flowDirection.
+  if (exact || style.rfType) return exact;
+  const arrow = style[`${side}Arrow`] ?? (side === "end" ? "classic" : "none");
+  if (arrow === "none") return undefined;
+  const fill = style[`${side}Fill`] !== "0";
+  const match =
+    Object.entries(MARKER_TO_DRAWIO_ARROW).find(([, d]) => d.arrow === arrow && d.fill === fill) ??
+    Object.entries(MARKER_TO_DRAWIO_ARROW).find(([, d]) => d.arrow === arrow);
+  if (match) return match[0];
+  return arrow === "open" || arrow === "openThin" ? "cm-arrow-open" : "cm-arrow-closed";
+}
+
+function styleToConnectorType(style: Record<string, string>): string | undefined {
+  // Exported edges without rfConnector used the app-wide default connector.
+  if (style.rfConnector || style.rfType) return style.rfConnector;
+  const edgeStyle = style.edgeStyle ?? "";
+  if (style.curved === "1") return "default";
+  if (edgeStyle.toLowerCase().includes("orthogonal") || edgeStyle.toLowerCase().includes("elbow")) {
+    return style.rounded === "0" ? "step" : "smoothstep";
+  }
+  return "straight";
+}
+
+/** Draw.io exit/entry point → React Flow handle id on the nearest side. */
+function pointToHandle(x: string | undefined, y: string | undefined): string | undefined {
+  if (x == null || y == null) return undefined;
+  const px = Number(x);
+  const py = Number(y);
+  if (Number.isNaN(px) || Number.isNaN(py)) return undefined;
+  const dists: [string, number][] = [
+    ["top", py],
+    ["bottom", 1 - py],
+    ["left", px],
+    ["right", 1 - px],
+  ];
+  dists.sort((a, b) => a[1] - b[1]);
+  return dists[0][0];
+}
+
 /**
  * Convert Draw.io mxGraph XML to React Flow nodes and edges.
  * Skips:
- * - Root/placeholder cells (id 0, 1)
- * - Embedded images (shape=image) — these cause export issues; prefer structural conversion
+ * - Root/layer cells (the root and its direct children)
+ * - Embedded images (shape=image) without rfType — these cause export issues; prefer structural conversion
+ * Children of container cells (swimlanes, groups) become nodes with parentId; rows of ER tables
+ * (stackLayout containers) become databaseSchema columns. Edges attached to a table row connect to the table.
  */
 export function drawioXmlToDiagram(xml: string): { nodes: Node[]; edges: Edge[] } {
   const cells = parseXml(xml);
@@ -106,51 +275,179 @@ export function drawioXmlToDiagram(xml: string): { nodes: Node[]; edges: Edge[]
   const edges: Edge[] = [];
   const idMap = new Map<string, string>();
 
-  const rootIds = new Set<string>(["0", "1"]);
+  const rootIds = new Set<string>(cells.filter((c) => !c.parent).map((c) => c.id));
+  for (const c of cells) {
+    if (c.parent && rootIds.has(c.parent) && !c.vertex && !c.edge) rootIds.add(c.id);
+  }
+  if (rootIds.size === 0) {
+    rootIds.add("0");
+    rootIds.add("1");
+  }
+
+  const tableIds = new Set(
+    cells.filter((c) => c.vertex && styleToNodeType(c.style) === "databaseSchema").map((c) => c.id)
+  );
+  const columnsByTable = new Map<string, SchemaColumn[]>();
+  /** Table row cell id → table cell id, so edges attached to rows can be re-targeted. */
+  const rowToTable = new Map<string, string>();
 
   for (const c of cells) {
     if (rootIds.has(c.id)) continue;
-    if (c.style.shape === "image") continue; // Skip embedded images — not editable, causes export issues
     if (!c.vertex && !c.edge) continue;
+    if (c.vertex && c.parent && tableIds.has(c.parent)) {
+      const list = columnsByTable.get(c.parent) ?? [];
+      list.push(parseColumn(c));
+      columnsByTable.set(c.parent, list);
+      rowToTable.set(c.id, c.parent);
+      continue;
+    }
+    if (c.style.shape === "image" && !c.style.rfType) continue; // Skip embedded images — not editable, causes export issues
 
     if (c.vertex && c.geometry) {
-      const rfId = `node-${c.id}`;
+      // Cells exported by diagramToDrawioXml keep their original React Flow id.
+      const rfId = c.style.rfType ? c.id : `node-${c.id}`;
       idMap.set(c.id, rfId);
-      const type = styleToNodeType(c.style);
-      const x = c.geometry.x ?? 0;
-      const y = c.geometry.y ?? 0;
-      const w = Math.max(c.geometry.width ?? 120, 40);
-      const h = Math.max(c.geometry.height ?? 40, 24);
-      const fillColor = c.style.fillColor ?? "#e7f5ff";
-      const strokeColor = c.style.strokeColor ?? "#1971c2";
-
-      nodes.push({
-        id: rfId,
-        type,
-        position: { x, y },
-        data: {
-          label: c.value || "Untitled",
-          backgroundColor: fillColor,
-          ...(strokeColor && { strokeColor }),
-        },
-        width: w,
-        height: h,
-      });
     }
   }
 
+  for (const c of cells) {
+    const rfId = idMap.get(c.id);
+    if (!rfId || !c.vertex || !c.geometry) continue;
+    const type = styleToNodeType(c.style);
+    const x = c.geometry.x ?? 0;
+    const y = c.geometry.y ?? 0;
+    const w = Math.max(c.geometry.width ?? 120, type === "edgeAnchor" ? 4 : 40);
+    const h = Math.max(c.geometry.height ?? 40, type === "edgeAnchor" ? 4 : 24);
+    const fillColor = c.style.fillColor && c.style.fillColor !== "none" ? c.style.fillColor : undefined;
+    const strokeColor = c.style.strokeColor && c.style.strokeColor !== "none" ? c.style.strokeColor : undefined;
+    const label = c.value;
+    const parentId = c.parent && idMap.has(c.parent) ? idMap.get(c.parent) : undefined;
+
+    let data: Record<string, unknown>;
+    switch (type) {
+      case "rectangle":
+      case "diamond":
+      case "circle":
+      case "document":
+        data = {
+          label: label || "Untitled",
+          shape: styleToShape(c.style),
+          ...(fillColor && { color: fillColor }),
+          ...(strokeColor && !c.style.rfType && { strokeColor }),
+          ...styleToTextData(c.style),
+          ...styleToIconData(c.style, type),
+        };
+        break;
+      case "mindMap":
+        data = {
+          label: label || "Untitled",
+          ...(c.style.rfColor && { color: decodeStyleValue(c.style.rfColor) }),
+          ...(c.style.rfCollapsed === "1" && { collapsed: true }),
+          ...styleToTextData(c.style),
+          ...styleToIconData(c.style, type),
+        };
+        break;
+      case "stickyNote":
+      case "text":
+        data = { label, ...(fillColor && { color: fillColor }), ...styleToTextData(c.style) };
+        break;
+      case "service": {
+        // Exported services put the subtitle on the lines after the (bold) label.
+        const [first, ...rest] = c.style.rfSubtitle === "1" ? label.split("\n") : [label];
+        data = { label: first || "Service", subtitle: rest.join("\n"), ...styleToIconData(c.style, type) };
+        break;
+      }
+      case "icon": {
+        const url = imageUrlFromStyle(c.style.image);
+        data = {
+          ...styleToIconData(c.style, type),
+          ...(url && (c.style.rfCustomIcon === "1" ? { customIcon: url } : { iconUrl: url })),
+        };
+        // Emoji icons are exported as "<emoji>\n<label>".
+        const lines = label.split("\n");
+        data.label = !url && data.emoji && lines[0] === data.emoji ? lines.slice(1).join("\n") : label;
+        break;
+      }
+      case "image":
+        data = { label, imageUrl: imageUrlFromStyle(c.style.image) ?? "" };
+        break;
+      case "group":
+        data = {
+          label: label || "Group",
+          ...(c.style.rfColorIdx && { colorIdx: Number(c.style.rfColorIdx) }),
+          ...(c.style.rfDescription && { description: decodeStyleValue(c.style.rfDescription) }),
+          ...styleToTextData(c.style),
+          ...styleToIconData(c.style, type),
+        };
+        break;
+      case "databaseSchema":
+        data = {
+          label: label || "Table",
+          columns: columnsByTable.get(c.id) ?? [],
+          ...styleToIconData(c.style, type),
+        };
+        break;
+      case "edgeAnchor":
+        data = {};
+        break;
+      default:
+        data = {
+          label: label || "Untitled",
+          ...(fillColor && { color: fillColor }),
+          ...styleToTextData(c.style),
+          ...styleToIconData(c.style, type),
+        };
+    }
+
+    nodes.push({
+      id: rfId,
+      type,
+      position: { x, y },
+      data,
+      width: w,
+      height: h,
+      ...(type === "group" && { style: { width: w, height: h } }),
+      ...(parentId && { parentId, extent: "parent" as const }),
+    });
+  }
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
   for (const c of cells) {
     if (!c.edge || !c.source || !c.target) continue;
-    const srcId = idMap.get(c.source) ?? c.source;
-    const tgtId = idMap.get(c.target) ?? c.target;
-    if (!nodes.some((n) => n.id === srcId) || !nodes.some((n) => n.id === tgtId)) continue;
+    const source = rowToTable.get(c.source) ?? c.source;
+    const target = rowToTable.get(c.target) ?? c.target;
+    const srcId = idMap.get(source) ?? source;
+    const tgtId = idMap.get(target) ?? target;
+    if (!nodeIds.has(srcId) || !nodeIds.has(tgtId)) continue;
 
     const label = (c.value ?? "").trim();
+    const markerEnd = arrowToMarker(c.style, "end");
+    const markerStart = arrowToMarker(c.style, "start");
+    const strokeColor = c.style.strokeColor && c.style.strokeColor !== "none" ? c.style.strokeColor : undefined;
+    const sourceHandle = decodeStyleValue(c.style.rfSourceHandle) ?? pointToHandle(c.style.exitX, c.style.exitY);
+    const targetHandle = decodeStyleValue(c.style.rfTargetHandle) ?? pointToHandle(c.style.entryX, c.style.entryY);
+    const flowDirection = c.style.rfFlow ?? (!c.style.rfType && !markerEnd && !markerStart ? "none" : undefined);
+    const connectorType = styleToConnectorType(c.style);
+    const data: Record<string, unknown> = {
+      ...(label && { label }),
+      ...(connectorType && { connectorType }),
+      ...(markerEnd && { markerEnd }),
+      ...(markerStart && { markerStart }),
+      ...(flowDirection && { flowDirection }),
+      ...(strokeColor && c.style.rfAutoStroke !== "1" && { strokeColor }),
+      ...(c.style.strokeWidth && c.style.rfAutoWidth !== "1" && { strokeWidth: Number(c.style.strokeWidth) }),
+      ...(c.style.dashed === "1" && { strokeDasharray: c.style.dashPattern ?? "5 5" }),
+      ...(c.style.rfErRelation && { erRelation: decodeStyleValue(c.style.rfErRelation) }),
+      ...(c.geometry?.points && { pathPoints: c.geometry.points }),
+    };
     edges.push({
-      id: `e-${srcId}-${tgtId}-${edges.length}`,
+      id: c.style.rfType ? c.id : `e-${srcId}-${tgtId}-${edges.length}`,
       source: srcId,
       target: tgtId,
-      data: label ? { label } : {},
+      type: c.style.rfType ?? "labeledConnector",
+      ...(sourceHandle && { sourceHandle }),
+      ...(targetHandle && { targetHandle }),
+      data,
     });
   }
 
@@ -65,3 +65,8 @@ export function getS3Bucket(): string {
 export function getAwsRegion(): string {
   return process.env.AWS_REGION ?? "us-east-1";
 }
+
+/** WebSocket URL of the live collaboration server (public, used by the browser). Dev server: `npm run collab:dev`. */
+export function getCollabServerUrl(): string {
+  return process.env.NEXT_PUBLIC_COLLAB_SERVER_URL ?? "ws://localhost:1234";
+}
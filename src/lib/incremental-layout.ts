@@ -0,0 +1,214 @@
+/**
+ * Incremental layout: re-layout without losing the user's manual placement. Pinned nodes keep
+ * their position, other existing nodes stay where they are unless something new overlaps
+ * them, and new nodes are placed next to their parent at the offset the full layout gave them.
+ * The full layout (with ELK's interactive options where available) only supplies those offsets,
+ * so this works the same for ELK, dagre and d3.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import type { LayoutDirection } from "@/lib/layout-engine";
+import { resolveCollisions, type ResolveCollisionsOptions } from "@/lib/resolve-collisions";
+
+export interface IncrementalLayoutOptions {
+  /** Nodes that must not move (see isLayoutPinned). */
+  pinnedIds: string[];
+  /** Nodes added since the user last arranged the diagram; everything else counts as placed. */
+  newNodeIds: string[];
+}
+
+type Point = { x: number; y: number };
+
+/** How far a seeded new node sits from its parent along the layout direction (px). */
+const SEED_DISTANCE = 250;
+
+/** True for nodes the user pinned in place (or locked against dragging); layouts leave them be. */
+export function isLayoutPinned(node: Node): boolean {
+  return node.data?.pinned === true || node.draggable === false;
+}
+
+/**
+ * Incremental options for laying out `nodes`, or undefined for a plain full layout. Pinned
+ * nodes always stay. With `keepPlacement`, nodes in `baselineIds` (the last layout's nodes;
+ * all nodes when null or from another diagram) stay too and only the rest are placed; without
+ * it every unpinned node is placed, so a full layout just works around the pinned ones.
+ */
+export function incrementalLayoutFor(
+  nodes: Node[],
+  keepPlacement: boolean,
+  baselineIds: string[] | null
+): IncrementalLayoutOptions | undefined {
+  let placed = new Set(keepPlacement ? baselineIds : []);
+  // A baseline sharing no node with the diagram belongs to another project or page.
+  if (keepPlacement && !nodes.some((n) => placed.has(n.id))) placed = new Set(nodes.map((n) => n.id));
+  const pinnedIds = nodes.filter(isLayoutPinned).map((n) => n.id);
+  const newNodeIds = nodes.filter((n) => !placed.has(n.id) && !isLayoutPinned(n)).map((n) => n.id);
+  if (pinnedIds.length === 0 && newNodeIds.length === nodes.length) return undefined;
+  return { pinnedIds, newNodeIds };
+}
+
+/** Flow-space positions, walking each node's parent chain (child positions are relative). */
+function absolutePositions(nodes: Node[]): Map<string, Point> {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const result = new Map<string, Point>();
+  const resolve = (node: Node, depth: number): Point => {
+    const known = result.get(node.id);
+    if (known) return known;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const origin = parent && depth < 32 ? resolve(parent, depth + 1) : { x: 0, y: 0 };
+    const pos = { x: origin.x + (node.position?.x ?? 0), y: origin.y + (node.position?.y ?? 0) };
+    result.set(node.id, pos);
+    return pos;
+  };
+  for (const n of nodes) resolve(n, 0);
+  return result;
+}
+
+/** Each node's neighbours: edge sources first, so a new child follows its parent rather than its own children. */
+function neighbourMap(edges: Edge[]): Map<string, string[]> {
+  const neighbours = new Map<string, string[]>();
+  const add = (id: string, other: string) => {
+    const list = neighbours.get(id);
+    if (list) list.push(other);
+    else neighbours.set(id, [other]);
+  };
+  for (const e of edges) add(e.target, e.source);
+  for (const e of edges) add(e.source, e.target);
+  return neighbours;
+}
+
+/**
+ * Place `ids` outward from the nodes in `placed`: each round places the nodes with a placed
+ * neighbour at `position(id, neighbourId)`. Returns the ids never reached.
+ */
+function placeOutward(
+  ids: string[],
+  neighbours: Map<string, string[]>,
+  placed: Map<string, Point>,
+  position: (id: string, anchorId: string) => Point | null
+): string[] {
+  let pending = ids;
+  while (pending.length > 0) {
+    const next: string[] = [];
+    for (const id of pending) {
+      const anchorId = neighbours.get(id)?.find((other) => placed.has(other));
+      const pos = anchorId ? position(id, anchorId) : null;
+      if (pos) placed.set(id, pos);
+      else next.push(id);
+    }
+    if (next.length === pending.length) return next;
+    pending = next;
+  }
+  return [];
+}
+
+/**
+ * Starting positions for an interactive ELK run: new nodes sit one step past a placed
+ * neighbour along the layout direction, so ELK orders them next to it instead of wherever
+ * they were created. Other nodes keep their position.
+ */
+export function seedNewNodes(
+  nodes: Node[],
+  edges: Edge[],
+  options: IncrementalLayoutOptions,
+  direction: LayoutDirection
+): Node[] {
+  const newIds = new Set(options.newNodeIds);
+  if (newIds.size === 0) return nodes;
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const step = {
+    LR: { x: SEED_DISTANCE, y: 0 },
+    RL: { x: -SEED_DISTANCE, y: 0 },
+    TB: { x: 0, y: SEED_DISTANCE },
+    BT: { x: 0, y: -SEED_DISTANCE },
+  }[direction];
+  // Seeds stay within one coordinate frame: anchors must share the new node's parent.
+  const placed = new Map<string, Point>();
+  for (const n of nodes) if (!newIds.has(n.id)) placed.set(n.id, n.position);
+  placeOutward([...newIds], neighbourMap(edges), placed, (id, anchorId) => {
+    if (byId.get(id)?.parentId !== byId.get(anchorId)?.parentId) return null;
+    const anchor = placed.get(anchorId)!;
+    return { x: anchor.x + step.x, y: anchor.y + step.y };
+  });
+  return nodes.map((n) => {
+    const seed = newIds.has(n.id) ? placed.get(n.id) : undefined;
+    return seed ? { ...n, position: seed } : n;
+  });
+}
+
+/**
+ * Merge a full layout (`laidOut`) into the current placement (`previous`, same node ids):
+ * placed nodes keep their previous position, new nodes go next to a placed neighbour (their
+ * edge source first, else their edge target) at the laid-out offset, and new nodes with no
+ * placed neighbour keep their laid-out position shifted into the current frame. Overlaps are
+ * then removed by moving new nodes only, and finally anything but pinned nodes.
+ */
+export function stabilizeLayout(
+  previous: Node[],
+  laidOut: Node[],
+  edges: Edge[],
+  options: IncrementalLayoutOptions,
+  collisions: ResolveCollisionsOptions = { margin: 24, maxIterations: 150, overlapThreshold: 0 }
+): Node[] {
+  const newIds = new Set(options.newNodeIds);
+  const prevAbs = absolutePositions(previous);
+  const idealAbs = absolutePositions(laidOut);
+
+  // Shift between the laid-out frame and the current one, averaged over placed nodes.
+  let sumX = 0;
+  let sumY = 0;
+  let count = 0;
+  for (const [id, prev] of prevAbs) {
+    const ideal = idealAbs.get(id);
+    if (newIds.has(id) || !ideal) continue;
+    sumX += prev.x - ideal.x;
+    sumY += prev.y - ideal.y;
+    count++;
+  }
+  const shift = count > 0 ? { x: sumX / count, y: sumY / count } : { x: 0, y: 0 };
+
+  const placed = new Map<string, Point>();
+  for (const [id, prev] of prevAbs) {
+    if (!newIds.has(id)) placed.set(id, prev);
+  }
+
+  const newInLayout = laidOut.filter((n) => newIds.has(n.id)).map((n) => n.id);
+  const unreached = placeOutward(newInLayout, neighbourMap(edges), placed, (id, anchorId) => {
+    const ideal = idealAbs.get(id);
+    const anchorIdeal = idealAbs.get(anchorId);
+    if (!ideal || !anchorIdeal) return null;
+    const anchorPlaced = placed.get(anchorId)!;
+    return { x: anchorPlaced.x + ideal.x - anchorIdeal.x, y: anchorPlaced.y + ideal.y - anchorIdeal.y };
+  });
+  for (const id of unreached) {
+    const ideal = idealAbs.get(id) ?? { x: 0, y: 0 };
+    placed.set(id, { x: ideal.x + shift.x, y: ideal.y + shift.y });
+  }
+
+  // Back to parent-relative positions.
+  const merged = laidOut.map((node) => {
+    const abs = placed.get(node.id);
+    if (!abs) return node;
+    const origin = node.parentId ? placed.get(node.parentId) : undefined;
+    const position = origin ? { x: abs.x - origin.x, y: abs.y - origin.y } : abs;
+    const prev = node.position;
+    return prev && prev.x === position.x && prev.y === position.y ? node : { ...node, position };
+  });
+
+  // Overlaps are resolved among siblings (nodes sharing a coordinate frame).
+  const pinnedIds = options.pinnedIds;
+  const placedIds = [...pinnedIds, ...merged.filter((n) => !newIds.has(n.id)).map((n) => n.id)];
+  const bySiblings = new Map<string, Node[]>();
+  for (const n of merged) {
+    const key = n.parentId ?? "";
+    const list = bySiblings.get(key);
+    if (list) list.push(n);
+    else bySiblings.set(key, [n]);
+  }
+  const resolved = new Map<string, Node>();
+  for (const siblings of bySiblings.values()) {
+    const newFirst = resolveCollisions(siblings, { ...collisions, fixedIds: placedIds });
+    for (const n of resolveCollisions(newFirst, { ...collisions, fixedIds: pinnedIds })) resolved.set(n.id, n);
+  }
+  return merged.map((n) => resolved.get(n.id) ?? n);
+}
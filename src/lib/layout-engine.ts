@@ -1,5 +1,6 @@
 import type { Node, Edge } from "@xyflow/react";
 import { Position } from "@xyflow/react";
+import { createSpatialIndex, cellSizeFor } from "@/lib/spatial-index";
 
 export type LayoutDirection = "TB" | "LR" | "BT" | "RL";
 
@@ -154,12 +155,29 @@ function getRootId(nodeId: string, nodes: Node[]): string {
   return node?.parentId ? getRootId(node.parentId, nodes) : nodeId;
 }
 
+/**
+ * ELK options that make an algorithm start from the nodes' current positions (layer
+ * assignment and ordering for layered, the starting placement for force and stress).
+ * Algorithms not listed ignore existing positions.
+ */
+const ELK_INTERACTIVE_OPTIONS: Record<string, Record<string, string>> = {
+  layered: {
+    "elk.layered.cycleBreaking.strategy": "INTERACTIVE",
+    "elk.layered.layering.strategy": "INTERACTIVE",
+    "elk.layered.crossingMinimization.strategy": "INTERACTIVE",
+    "elk.separateConnectedComponents": "false",
+  },
+  force: { "elk.interactive": "true" },
+  stress: { "elk.interactive": "true" },
+};
+
 async function layoutWithElk(
   nodes: Node[],
   edges: Edge[],
   direction: LayoutDirection,
   spacing: LayoutSpacing,
-  algorithm: string
+  algorithm: string,
+  interactive = false
 ): Promise<{ nodes: Node[]; edges: Edge[] }> {
   const ELK = (await import("elkjs")).default;
   const elk = new ELK();
@@ -185,6 +203,7 @@ async function layoutWithElk(
     layoutOptions["elk.layered.crossingMinimization.greedySwitch.type"] = "TWO_SIDED";
     layoutOptions["elk.layered.crossingMinimization.greedySwitch.activationThreshold"] = "0";
   }
+  if (interactive) Object.assign(layoutOptions, ELK_INTERACTIVE_OPTIONS[algorithm]);
 
   const { target: targetHandleId, source: sourceHandleId } = getHandleIds(direction);
   const { source: sourcePortSide, target: targetPortSide } = directionToPortSides(direction);
@@ -230,6 +249,7 @@ async function layoutWithElk(
     return getMultiHandleId(targetHandleId, idx);
   };
 
+  // ELK port ids are graph-global, so they are prefixed with the node id (edges reference `${node}:${port}`).
   function buildElkNode(node: Node): ElkNode {
     const { width, height } = getNodeSize(node);
     if (node.type === "group") {
@@ -252,6 +272,7 @@ async function layoutWithElk(
         id: node.id,
         width: groupW,
         height: groupH,
+        ...(interactive && { x: node.position.x, y: node.position.y }),
         children: childrenElk,
         edges: groupEdges.map((e, i) => ({
           id: e.id || `e${i}`,
@@ -260,18 +281,23 @@ async function layoutWithElk(
         })),
       };
     }
-    const base: ElkNode = { id: node.id, width, height };
+    const base: ElkNode = {
+      id: node.id,
+      width,
+      height,
+      ...(interactive && { x: node.position.x, y: node.position.y }),
+    };
     if (useMultiHandles) {
       const out = Math.max(1, outDegree.get(node.id) ?? 0);
       const inn = Math.max(1, inDegree.get(node.id) ?? 0);
       const ports: ElkPort[] = [];
       for (let i = 0; i < out; i++) {
         const pid = getMultiHandleId(sourceHandleId, i);
-        ports.push({ id: pid, layoutOptions: { "org.eclipse.elk.port.side": sourcePortSide } });
+        ports.push({ id: `${node.id}:${pid}`, layoutOptions: { "org.eclipse.elk.port.side": sourcePortSide } });
       }
       for (let i = 0; i < inn; i++) {
         const pid = getMultiHandleId(targetHandleId, i);
-        ports.push({ id: pid, layoutOptions: { "org.eclipse.elk.port.side": targetPortSide } });
+        ports.push({ id: `${node.id}:${pid}`, layoutOptions: { "org.eclipse.elk.port.side": targetPortSide } });
       }
       if (ports.length > 0) {
         base.ports = ports;
@@ -431,19 +457,23 @@ export type GroupMetadata = { id: string; label: string; nodeIds: string[] };
 /**
  * Layout children inside each group with proper spacing and padding.
  * Ensures extent: "parent" on all grouped children so they cannot be dragged outside.
+ * `onGroupDone` is called with the number of groups handled so far (for progress).
  */
 export async function layoutChildrenInsideGroups(
   nodes: Node[],
   edges: Edge[],
   direction: LayoutDirection = "LR",
-  spacing: LayoutSpacing = [40, 32]
+  spacing: LayoutSpacing = [40, 32],
+  onGroupDone?: (done: number) => void
 ): Promise<Node[]> {
   const groupIds = new Set(nodes.filter((n) => n.type === "group").map((n) => n.id));
   if (groupIds.size === 0) return nodes;
 
   let result = nodes.map((n) => ({ ...n }));
+  let groupsDone = 0;
 
   for (const groupId of groupIds) {
+    onGroupDone?.(groupsDone++);
     const children = result.filter((n) => n.parentId === groupId);
     if (children.length === 0) continue;
 
@@ -494,6 +524,7 @@ export async function layoutChildrenInsideGroups(
     }
   }
 
+  onGroupDone?.(groupsDone);
   result = fitGroupBoundsAndCenterChildren(result);
   return ensureExtentForGroupedNodes(result);
 }
@@ -966,7 +997,8 @@ const COLLISION_PADDING = 16;
 /**
  * Resolves overlapping nodes by nudging them apart.
  * Only used during AI diagram generation; no persistent state.
- * Processes root-level nodes and siblings within groups separately.
+ * Processes root-level nodes and siblings within groups separately; only pairs closer than
+ * `padding` (found through a spatial index) are nudged.
  */
 export function resolveNodeCollisions(nodes: Node[], padding = COLLISION_PADDING): Node[] {
   if (nodes.length < 2) return nodes;
@@ -979,18 +1011,32 @@ export function resolveNodeCollisions(nodes: Node[], padding = COLLISION_PADDING
   }
 
   const result = nodes.map((n) => ({ ...n, position: { ...n.position } }));
+  const resultById = new Map(result.map((n) => [n.id, n]));
 
   for (const group of byParent.values()) {
     if (group.length < 2) continue;
 
+    const siblings = group.map((n) => resultById.get(n.id)!);
+    const sizes = siblings.map((n) => getNodeSize(n));
+    const paddedRect = (i: number) => ({
+      x: (siblings[i].position.x ?? 0) - padding / 2,
+      y: (siblings[i].position.y ?? 0) - padding / 2,
+      width: sizes[i].width + padding,
+      height: sizes[i].height + padding,
+    });
+    const index = createSpatialIndex<number>(cellSizeFor(siblings.map((_, i) => paddedRect(i))));
+    siblings.forEach((_, i) => index.insert(i, paddedRect(i)));
+
     for (let iter = 0; iter < 12; iter++) {
       let moved = false;
-      for (let i = 0; i < group.length; i++) {
-        for (let j = i + 1; j < group.length; j++) {
-          const a = result.find((n) => n.id === group[i].id)!;
-          const b = result.find((n) => n.id === group[j].id)!;
-          const sizeA = getNodeSize(a);
-          const sizeB = getNodeSize(b);
+      for (let i = 0; i < siblings.length; i++) {
+        const neighbours = index.search(paddedRect(i)).sort((x, y) => x - y);
+        for (const j of neighbours) {
+          if (j <= i) continue;
+          const a = siblings[i];
+          const b = siblings[j];
+          const sizeA = sizes[i];
+          const sizeB = sizes[j];
           const ax = a.position.x ?? 0;
           const ay = a.position.y ?? 0;
           const bx = b.position.x ?? 0;
@@ -1014,6 +1060,8 @@ export function resolveNodeCollisions(nodes: Node[], padding = COLLISION_PADDING
           a.position.y = ay + dy;
           b.position.x = bx - dx;
           b.position.y = by - dy;
+          index.insert(i, paddedRect(i));
+          index.insert(j, paddedRect(j));
           moved = true;
         }
       }
@@ -1024,12 +1072,18 @@ export function resolveNodeCollisions(nodes: Node[], padding = COLLISION_PADDING
   return result;
 }
 
+/**
+ * Lay out nodes with the given algorithm. With `interactive`, ELK algorithms that support it
+ * start from the current positions (see ELK_INTERACTIVE_OPTIONS); dagre and d3 always lay
+ * out from scratch, so incremental layouts rely on the stability pass (incremental-layout.ts).
+ */
 export async function getLayoutedElements(
   nodes: Node[],
   edges: Edge[],
   direction: LayoutDirection = "LR",
   spacing: LayoutSpacing = [80, 60],
-  algorithm: LayoutAlgorithm = "elk-layered"
+  algorithm: LayoutAlgorithm = "elk-layered",
+  options: { interactive?: boolean } = {}
 ): Promise<{ nodes: Node[]; edges: Edge[] }> {
   if (algorithm === "dagre") {
     return layoutWithDagre(nodes, edges, direction, spacing);
@@ -1039,7 +1093,7 @@ export async function getLayoutedElements(
   }
 
   const elkAlgo = ELK_ALGORITHM_MAP[algorithm] ?? "layered";
-  return layoutWithElk(nodes, edges, direction, spacing, elkAlgo);
+  return layoutWithElk(nodes, edges, direction, spacing, elkAlgo, options.interactive);
 }
 
 export type AlgorithmFamily = "elk" | "dagre" | "d3";
@@ -0,0 +1,99 @@
+/**
+ * Layout jobs: one layout pass (ELK, dagre or d3) plus the optional follow-up steps callers
+ * chain after it (children inside groups, collision resolution). Jobs are plain data so they
+ * can run in the layout worker (see layout-worker-client) or, without worker support, in-thread.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import {
+  getLayoutedElements,
+  layoutChildrenInsideGroups,
+  ensureExtentForGroupedNodes,
+  type LayoutAlgorithm,
+  type LayoutDirection,
+  type LayoutSpacing,
+} from "@/lib/layout-engine";
+import { resolveCollisions, resolveCollisionsWithGroups, type ResolveCollisionsOptions } from "@/lib/resolve-collisions";
+import { seedNewNodes, stabilizeLayout, type IncrementalLayoutOptions } from "@/lib/incremental-layout";
+
+export interface LayoutJob {
+  nodes: Node[];
+  edges: Edge[];
+  direction: LayoutDirection;
+  spacing: LayoutSpacing;
+  algorithm: LayoutAlgorithm;
+  /** Then lay out the children of each group node with this spacing. */
+  groupChildrenSpacing?: LayoutSpacing;
+  /** Then push overlapping nodes apart; `groups` resolves inside groups too (resolveCollisionsWithGroups). */
+  collisions?: ResolveCollisionsOptions & { groups?: boolean };
+  /**
+   * Keep the current placement: the layout only places new nodes (see incremental-layout).
+   * Overlaps are then removed per sibling set with the `collisions` options, instead of the
+   * collisions step.
+   */
+  incremental?: IncrementalLayoutOptions;
+}
+
+export interface LayoutResult {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type LayoutStage = "layout" | "groups" | "placement" | "collisions";
+
+export interface LayoutProgress {
+  stage: LayoutStage;
+  /** Steps done within the stage and the stage's step count (groups count one step each). */
+  done: number;
+  total: number;
+}
+
+export const LAYOUT_STAGE_LABELS: Record<LayoutStage, string> = {
+  layout: "Arranging nodes",
+  groups: "Arranging groups",
+  placement: "Keeping your placement",
+  collisions: "Removing overlaps",
+};
+
+/** Messages from the page to the layout worker. */
+export type LayoutWorkerRequest = { type: "run"; id: number; job: LayoutJob };
+
+/** Messages from the layout worker to the page. */
+export type LayoutWorkerResponse =
+  | { type: "progress"; id: number; progress: LayoutProgress }
+  | { type: "result"; id: number; result: LayoutResult }
+  | { type: "error"; id: number; message: string };
+
+export async function runLayoutJob(
+  job: LayoutJob,
+  onProgress?: (progress: LayoutProgress) => void
+): Promise<LayoutResult> {
+  onProgress?.({ stage: "layout", done: 0, total: 1 });
+  // ELK starts from the current positions only when some unpinned nodes keep theirs.
+  const { incremental } = job;
+  const interactive = !!incremental && incremental.newNodeIds.length + incremental.pinnedIds.length < job.nodes.length;
+  const input = interactive ? seedNewNodes(job.nodes, job.edges, incremental, job.direction) : job.nodes;
+  const laid = await getLayoutedElements(input, job.edges, job.direction, job.spacing, job.algorithm, { interactive });
+  let nodes = laid.nodes;
+
+  if (job.groupChildrenSpacing) {
+    const groupCount = nodes.filter((n) => n.type === "group").length;
+    onProgress?.({ stage: "groups", done: 0, total: groupCount });
+    nodes = await layoutChildrenInsideGroups(nodes, laid.edges, job.direction, job.groupChildrenSpacing, (done) =>
+      onProgress?.({ stage: "groups", done, total: groupCount })
+    );
+  }
+
+  if (incremental) {
+    onProgress?.({ stage: "placement", done: 0, total: 1 });
+    nodes = stabilizeLayout(job.nodes, nodes, laid.edges, incremental, job.collisions);
+  } else if (job.collisions) {
+    onProgress?.({ stage: "collisions", done: 0, total: 1 });
+    const { groups, ...options } = job.collisions;
+    nodes = groups
+      ? resolveCollisionsWithGroups(ensureExtentForGroupedNodes(nodes), options)
+      : resolveCollisions(nodes, options);
+  }
+
+  return { nodes, edges: laid.edges };
+}
@@ -0,0 +1,115 @@
+/**
+ * Runs layout jobs in a Web Worker so large layouts don't freeze the canvas. Only one layout
+ * runs at a time: a new request (or cancelLayout) terminates the worker running the previous
+ * one, whose promise then resolves null. Progress goes to the canvas store (`layoutProgress`).
+ * Without Worker support (or if the worker fails to start) jobs run in-thread instead.
+ */
+
+import { useCanvasStore } from "@/lib/store/canvas-store";
+import {
+  runLayoutJob,
+  type LayoutJob,
+  type LayoutProgress,
+  type LayoutResult,
+  type LayoutWorkerRequest,
+  type LayoutWorkerResponse,
+} from "@/lib/layout-jobs";
+
+interface PendingLayout {
+  id: number;
+  job: LayoutJob;
+  resolve: (result: LayoutResult | null) => void;
+  reject: (err: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let pending: PendingLayout | null = null;
+let nextId = 1;
+
+function setProgress(progress: LayoutProgress | null) {
+  useCanvasStore.getState().setLayoutProgress(progress);
+}
+
+function settle(id: number): PendingLayout | null {
+  if (pending?.id !== id) return null;
+  const current = pending;
+  pending = null;
+  setProgress(null);
+  return current;
+}
+
+function getWorker(): Worker | null {
+  if (workerUnavailable || typeof Worker === "undefined") return null;
+  if (worker) return worker;
+  try {
+    worker = new Worker(new URL("./layout.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    workerUnavailable = true;
+    return null;
+  }
+  worker.addEventListener("message", (event: MessageEvent<LayoutWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === "progress") {
+      if (pending?.id === message.id) setProgress(message.progress);
+      return;
+    }
+    const current = settle(message.id);
+    if (!current) return;
+    if (message.type === "result") current.resolve(message.result);
+    else current.reject(new Error(message.message));
+  });
+  worker.addEventListener("error", () => {
+    // The worker script failed to load or crashed: use the main thread from now on.
+    workerUnavailable = true;
+    worker = null;
+    if (pending) void runInThread(pending.id, pending.job);
+  });
+  return worker;
+}
+
+/** Stop the layout in progress (its promise resolves null). */
+export function cancelLayout(): void {
+  if (!pending) return;
+  pending.resolve(null);
+  pending = null;
+  setProgress(null);
+  // Terminating is the only way to stop a synchronous ELK/dagre run mid-way.
+  worker?.terminate();
+  worker = null;
+}
+
+async function runInThread(id: number, job: LayoutJob): Promise<void> {
+  try {
+    const result = await runLayoutJob(job, (progress) => {
+      if (pending?.id === id) setProgress(progress);
+    });
+    settle(id)?.resolve(result);
+  } catch (err) {
+    settle(id)?.reject(err instanceof Error ? err : new Error(String(err)));
+  }
+}
+
+/**
+ * Run a layout job off the main thread, cancelling any layout still running.
+ * Resolves null when cancelled or superseded by a newer request.
+ */
+export function requestLayout(job: LayoutJob): Promise<LayoutResult | null> {
+  cancelLayout();
+  const id = nextId++;
+  return new Promise<LayoutResult | null>((resolve, reject) => {
+    pending = { id, job, resolve, reject };
+    setProgress({ stage: "layout", done: 0, total: 1 });
+    const target = getWorker();
+    if (!target) {
+      void runInThread(id, job);
+      return;
+    }
+    try {
+      target.postMessage({ type: "run", id, job } satisfies LayoutWorkerRequest);
+    } catch {
+      // Nodes that can't be cloned into the worker (e.g. functions in data) lay out in-thread.
+      void runInThread(id, job);
+    }
+  });
+}
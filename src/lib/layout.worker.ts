@@ -0,0 +1,30 @@
+/**
+ * Layout worker: runs layout jobs off the main thread (see layout-worker-client). A job is
+ * cancelled by terminating the worker, so there is no cancel message.
+ */
+
+import { runLayoutJob, type LayoutWorkerRequest, type LayoutWorkerResponse } from "@/lib/layout-jobs";
+
+const worker = self as unknown as {
+  document?: unknown;
+  postMessage: (message: LayoutWorkerResponse) => void;
+  addEventListener: (type: "message", listener: (event: MessageEvent<LayoutWorkerRequest>) => void) => void;
+};
+
+// elk.bundled.js treats any global without `document` as its own dedicated ELK worker: it
+// takes over `self.onmessage` and exports nothing. A stub while it loads keeps the in-thread API.
+worker.document = {};
+const elkLoaded = import("elkjs").finally(() => {
+  delete worker.document;
+});
+
+worker.addEventListener("message", async (event) => {
+  const { id, job } = event.data;
+  try {
+    await elkLoaded;
+    const result = await runLayoutJob(job, (progress) => worker.postMessage({ type: "progress", id, progress }));
+    worker.postMessage({ type: "result", id, result });
+  } catch (err) {
+    worker.postMessage({ type: "error", id, message: err instanceof Error ? err.message : String(err) });
+  }
+});
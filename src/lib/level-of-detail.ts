@@ -0,0 +1,28 @@
+/**
+ * Level-of-detail rendering for large diagrams. Below LOD_ZOOM_THRESHOLD nodes draw as plain
+ * labelled boxes and edges as bare paths (no labels, handles, toolbars or parallel-edge
+ * offsets); text is unreadable at that zoom anyway. From CULLING_NODE_THRESHOLD nodes,
+ * React Flow also skips rendering nodes and edges outside the viewport.
+ */
+
+/** Zoom below which the canvas switches to low-detail rendering. */
+export const LOD_ZOOM_THRESHOLD = 0.45;
+
+/** Node count from which off-screen nodes and edges are culled. */
+export const CULLING_NODE_THRESHOLD = 300;
+
+export function isLowDetailZoom(zoom: number): boolean {
+  return zoom < LOD_ZOOM_THRESHOLD;
+}
+
+/** Culling has its own cost per viewport change, so small diagrams render everything. */
+export function shouldCullElements(nodeCount: number): boolean {
+  return nodeCount >= CULLING_NODE_THRESHOLD;
+}
+
+/** Label font size (px, unscaled) for a low-detail box: large enough to read when zoomed out. */
+export function lowDetailFontSize(width: number, height: number, label: string): number {
+  const byHeight = height * 0.45;
+  const byWidth = label ? (width * 1.6) / Math.max(label.length, 1) : byHeight;
+  return Math.round(Math.max(10, Math.min(byHeight, byWidth, 40)));
+}
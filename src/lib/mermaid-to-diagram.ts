@@ -0,0 +1,666 @@
+/**
+ * Parse Mermaid text and convert it to editable React Flow nodes + edges.
+ * Supports `flowchart` / `graph` (shapes → ShapeType, subgraphs → group nodes, classDef / style colors),
+ * `sequenceDiagram` (participants → nodes, messages → labeled edges) and `erDiagram`
+ * (entities → databaseSchema nodes with columns, relationships → crow's-foot edges).
+ * Positions come from layoutMermaidDiagram, which runs the result through getLayoutedElements.
+ */
+import type { Node, Edge } from "@xyflow/react";
+import type { ShapeType } from "@/lib/shape-types";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import { CUSTOM_MARKER_IDS } from "@/components/edges/CustomMarkerDefs";
+import { getSchemaNodeHeight, SCHEMA_NODE_WIDTH } from "@/lib/database-schema";
+import {
+  applyGroupingFromMetadata,
+  ensureExtentForGroupedNodes,
+  fitGroupBoundsAndCenterChildren,
+  getLayoutedElements,
+  layoutChildrenInsideGroups,
+  type GroupMetadata,
+  type LayoutDirection,
+} from "@/lib/layout-engine";
+
+export type MermaidDiagramKind = "flowchart" | "sequence" | "er";
+
+export interface MermaidParseResult {
+  kind: MermaidDiagramKind;
+  direction: LayoutDirection;
+  /** Flat nodes without positions; subgraph membership lives in `groups`. */
+  nodes: Node[];
+  edges: Edge[];
+  /** Subgraphs, innermost first; `nodeIds` may contain nested subgraph ids. */
+  groups: GroupMetadata[];
+}
+
+/** Mermaid flowchart bracket pairs → ShapeType, longest opener first. */
+const FLOWCHART_SHAPES: { open: string; close: string; shape: ShapeType }[] = [
+  { open: "(((", close: ")))", shape: "circle" },
+  { open: "([", close: "])", shape: "stadium" },
+  { open: "[(", close: ")]", shape: "cylinder" },
+  { open: "[[", close: "]]", shape: "rectangle" },
+  { open: "((", close: "))", shape: "circle" },
+  { open: "{{", close: "}}", shape: "hexagon" },
+  { open: "[/", close: "/]", shape: "parallelogram" },
+  { open: "[/", close: "\\]", shape: "trapezoid" },
+  { open: "[\\", close: "\\]", shape: "parallelogram" },
+  { open: "[\\", close: "/]", shape: "trapezoid" },
+  { open: "(", close: ")", shape: "roundedRect" },
+  { open: "[", close: "]", shape: "rectangle" },
+  { open: "{", close: "}", shape: "diamond" },
+  { open: ">", close: "]", shape: "arrowRight" },
+];
+
+/** Shape names of the `A@{ shape: … }` syntax → ShapeType. */
+const EXPANDED_SHAPES: Record<string, ShapeType> = {
+  rect: "rectangle",
+  rectangle: "rectangle",
+  proc: "rectangle",
+  process: "rectangle",
+  rounded: "roundedRect",
+  event: "roundedRect",
+  stadium: "stadium",
+  pill: "stadium",
+  terminal: "stadium",
+  cyl: "cylinder",
+  cylinder: "cylinder",
+  db: "cylinder",
+  database: "cylinder",
+  circle: "circle",
+  circ: "circle",
+  "dbl-circ": "circle",
+  diam: "diamond",
+  diamond: "diamond",
+  decision: "diamond",
+  question: "diamond",
+  hex: "hexagon",
+  hexagon: "hexagon",
+  prepare: "hexagon",
+  "lean-r": "parallelogram",
+  "lean-l": "parallelogram",
+  "in-out": "parallelogram",
+  "trap-b": "trapezoid",
+  "trap-t": "trapezoid",
+  priority: "trapezoid",
+  tri: "triangle",
+  triangle: "triangle",
+  extract: "triangle",
+  doc: "document",
+  document: "document",
+  docs: "document",
+};
+
+const FLOW_DIRECTIONS: Record<string, LayoutDirection> = { TB: "TB", TD: "TB", BT: "BT", LR: "LR", RL: "RL" };
+
+/** ER cardinality tokens (left side as written, right side as written) → crow's-foot markers. */
+export const ER_LEFT_MARKERS: Record<string, string> = {
+  "||": CUSTOM_MARKER_IDS.erOneOnly,
+  "|o": CUSTOM_MARKER_IDS.erZeroOrOne,
+  "}o": CUSTOM_MARKER_IDS.erZeroOrMany,
+  "}|": CUSTOM_MARKER_IDS.erOneOrMany,
+};
+export const ER_RIGHT_MARKERS: Record<string, string> = {
+  "||": CUSTOM_MARKER_IDS.erOneOnly,
+  "o|": CUSTOM_MARKER_IDS.erZeroOrOne,
+  "o{": CUSTOM_MARKER_IDS.erZeroOrMany,
+  "|{": CUSTOM_MARKER_IDS.erOneOrMany,
+};
+
+/* ─── Shared helpers ─── */
+
+/** Mermaid label text → plain text (quotes, <br>, entity codes, markdown backticks). */
+function cleanLabel(raw: string): string {
+  let s = raw.trim();
+  if (s.startsWith('"') && s.endsWith('"') && s.length >= 2) s = s.slice(1, -1);
+  if (s.startsWith("`") && s.endsWith("`") && s.length >= 2) s = s.slice(1, -1);
+  return s
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/** Split on a separator outside double quotes. */
+function splitOutsideQuotes(s: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const ch of s) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === separator && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Source lines without comments, front matter or init directives. */
+function mermaidLines(source: string): string[] {
+  let text = source.replace(/\r\n?/g, "\n");
+  const fenced = text.match(/```mermaid\s*\n([\s\S]*?)```/);
+  if (fenced) text = fenced[1];
+  text = text.replace(/^\s*---\n[\s\S]*?\n---\s*\n/, "");
+  return text
+    .split("\n")
+    .map((line) => line.replace(/%%.*$/, "").trim())
+    .filter(Boolean);
+}
+
+/** `fill:#f9f,stroke:#333,color:#000` → { fill, stroke, color }. */
+function parseStyleList(s: string): Record<string, string> {
+  const style: Record<string, string> = {};
+  for (const part of s.split(",")) {
+    const idx = part.indexOf(":");
+    if (idx <= 0) continue;
+    style[part.slice(0, idx).trim()] = part.slice(idx + 1).trim().replace(/;$/, "");
+  }
+  return style;
+}
+
+/* ─── Flowchart ─── */
+
+interface FlowNodeDraft {
+  id: string;
+  label?: string;
+  shape?: ShapeType;
+  classes: string[];
+  style: Record<string, string>;
+  parent?: string;
+}
+
+interface NodeRef {
+  id: string;
+  label?: string;
+  shape?: ShapeType;
+  classes: string[];
+}
+
+const ID_RE = /[A-Za-z0-9_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*/y;
+/** `-- text -->`, `-. text .->`, `== text ==>` */
+const LINK_WITH_TEXT_RE = /\s*([<ox]?)(--|==|-\.)\s+([^|>\n]+?)\s+(-{2,}|={2,}|\.+-)(>|[ox](?=\s))?\s*/y;
+/** `-->`, `---`, `-.->`, `==>`, `~~~`, `<-->`, `--o`, `--x`, optionally followed by `|text|` */
+const LINK_RE = /\s*([<ox]?)(-{2,}|={2,}|-\.+-|~{3,})(>|[ox](?=\s))?\s*(?:\|([^|]*)\|)?\s*/y;
+
+interface LinkToken {
+  label?: string;
+  start: string;
+  end: string;
+  stroke: "normal" | "dotted" | "thick" | "invisible";
+}
+
+function matchAt(re: RegExp, s: string, pos: number): RegExpExecArray | null {
+  re.lastIndex = pos;
+  return re.exec(s);
+}
+
+function parseLink(s: string, pos: number): { link: LinkToken; next: number } | null {
+  const withText = matchAt(LINK_WITH_TEXT_RE, s, pos);
+  if (withText) {
+    const op = withText[2];
+    return {
+      link: {
+        label: cleanLabel(withText[3]),
+        start: withText[1],
+        end: withText[5] ?? "",
+        stroke: op === "==" ? "thick" : op === "-." ? "dotted" : "normal",
+      },
+      next: withText.index + withText[0].length,
+    };
+  }
+  const plain = matchAt(LINK_RE, s, pos);
+  if (!plain) return null;
+  const op = plain[2];
+  return {
+    link: {
+      label: plain[4] != null ? cleanLabel(plain[4]) : undefined,
+      start: plain[1],
+      end: plain[3] ?? "",
+      stroke: op.startsWith("~") ? "invisible" : op.startsWith("=") ? "thick" : op.includes(".") ? "dotted" : "normal",
+    },
+    next: plain.index + plain[0].length,
+  };
+}
+
+/** Index just past the closing bracket, skipping a quoted label. */
+function findClose(s: string, from: number, close: string): number {
+  let i = from;
+  while (i < s.length && s[i] === " ") i++;
+  if (s[i] === '"') {
+    const endQuote = s.indexOf('"', i + 1);
+    if (endQuote >= 0 && s.startsWith(close, endQuote + 1)) return endQuote + 1;
+  }
+  return s.indexOf(close, from);
+}
+
+function parseNodeRef(s: string, pos: number): { ref: NodeRef; next: number } | null {
+  let i = pos;
+  while (s[i] === " ") i++;
+  const idMatch = matchAt(ID_RE, s, i);
+  if (!idMatch) return null;
+  const ref: NodeRef = { id: idMatch[0], classes: [] };
+  i = idMatch.index + idMatch[0].length;
+
+  if (s.startsWith("@{", i)) {
+    const end = s.indexOf("}", i);
+    if (end > 0) {
+      const props = parseStyleList(s.slice(i + 2, end));
+      const shape = props.shape ? EXPANDED_SHAPES[props.shape.replace(/["']/g, "")] : undefined;
+      if (shape) ref.shape = shape;
+      if (props.label) ref.label = cleanLabel(props.label);
+      i = end + 1;
+    }
+  } else {
+    let best: { end: number; close: string; shape: ShapeType; open: string } | null = null;
+    for (const candidate of FLOWCHART_SHAPES) {
+      if (!s.startsWith(candidate.open, i)) continue;
+      if (best && best.open.length > candidate.open.length) break;
+      const end = findClose(s, i + candidate.open.length, candidate.close);
+      if (end >= 0 && (!best || end < best.end)) {
+        best = { end, close: candidate.close, shape: candidate.shape, open: candidate.open };
+      }
+    }
+    if (best) {
+      ref.shape = best.shape;
+      ref.label = cleanLabel(s.slice(i + best.open.length, best.end));
+      i = best.end + best.close.length;
+    }
+  }
+
+  const classMatch = s.slice(i).match(/^:::([\w-]+)/);
+  if (classMatch) {
+    ref.classes.push(classMatch[1]);
+    i += classMatch[0].length;
+  }
+  return { ref, next: i };
+}
+
+/** `A & B` → both refs. */
+function parseNodeGroup(s: string, pos: number): { refs: NodeRef[]; next: number } | null {
+  const refs: NodeRef[] = [];
+  let i = pos;
+  for (;;) {
+    const parsed = parseNodeRef(s, i);
+    if (!parsed) return refs.length ? { refs, next: i } : null;
+    refs.push(parsed.ref);
+    i = parsed.next;
+    const amp = s.slice(i).match(/^\s*&\s*/);
+    if (!amp) return { refs, next: i };
+    i += amp[0].length;
+  }
+}
+
+function linkMarker(token: string): string | undefined {
+  if (token === "o") return CUSTOM_MARKER_IDS.circle;
+  if (token === "x") return CUSTOM_MARKER_IDS.bar;
+  return undefined;
+}
+
+function linkEdgeData(link: LinkToken): Record<string, unknown> {
+  const hasEnd = link.end !== "";
+  const hasStart = link.start !== "";
+  const arrowBoth = link.start === "<" && link.end === ">";
+  const markerEnd = linkMarker(link.end);
+  const markerStart = linkMarker(link.start);
+  return {
+    ...(link.label && { label: link.label }),
+    ...(arrowBoth ? { flowDirection: "bi" } : !hasEnd && !hasStart ? { flowDirection: "none" } : {}),
+    ...(markerEnd && { markerEnd }),
+    ...(markerStart && { markerStart }),
+    ...(link.stroke === "dotted" && { strokeDasharray: "5 5" }),
+    ...(link.stroke === "thick" && { strokeWidth: 3 }),
+  };
+}
+
+function parseFlowchart(lines: string[]): MermaidParseResult {
+  // One-liners like `graph TD; A-->B` carry statements on the header line.
+  const [header, ...headerStatements] = splitOutsideQuotes(lines[0], ";");
+  const direction = FLOW_DIRECTIONS[header.trim().split(/\s+/)[1]?.toUpperCase() ?? ""] ?? "TB";
+  const nodes = new Map<string, FlowNodeDraft>();
+  const edges: Edge[] = [];
+  const classDefs = new Map<string, Record<string, string>>();
+  const subgraphs: { id: string; label: string; members: string[] }[] = [];
+  const subgraphStack: { id: string; label: string; members: string[] }[] = [];
+  const linkStyles: { index: number | "default"; style: Record<string, string> }[] = [];
+
+  const touchNode = (ref: NodeRef) => {
+    let node = nodes.get(ref.id);
+    if (!node) {
+      node = { id: ref.id, classes: [], style: {} };
+      nodes.set(ref.id, node);
+    }
+    if (ref.label != null) node.label = ref.label;
+    if (ref.shape) node.shape = ref.shape;
+    node.classes.push(...ref.classes);
+    const current = subgraphStack[subgraphStack.length - 1];
+    if (current && !node.parent && current.id !== ref.id) {
+      node.parent = current.id;
+      current.members.push(ref.id);
+    }
+  };
+
+  for (const rawLine of [headerStatements.join(";"), ...lines.slice(1)]) {
+    for (const statement of splitOutsideQuotes(rawLine, ";").map((s) => s.trim()).filter(Boolean)) {
+      const subgraph = statement.match(/^subgraph\s+(.+)$/);
+      if (subgraph) {
+        const spec = subgraph[1].trim();
+        const withTitle = spec.match(/^([\w-]+)\s*\[(.*)\]$/);
+        const id = withTitle ? withTitle[1] : /^[\w-]+$/.test(spec) ? spec : `subgraph-${subgraphs.length + 1}`;
+        const label = cleanLabel(withTitle ? withTitle[2] : spec);
+        const entry = { id, label, members: [] as string[] };
+        const parent = subgraphStack[subgraphStack.length - 1];
+        if (parent) parent.members.push(id);
+        subgraphs.push(entry);
+        subgraphStack.push(entry);
+        continue;
+      }
+      if (statement === "end") {
+        subgraphStack.pop();
+        continue;
+      }
+      if (/^direction\s+\w+$/.test(statement) || /^(click|accTitle|accDescr)\b/.test(statement)) continue;
+
+      const classDef = statement.match(/^classDef\s+([\w,-]+)\s+(.+)$/);
+      if (classDef) {
+        const style = parseStyleList(classDef[2]);
+        classDef[1].split(",").forEach((name) => classDefs.set(name.trim(), style));
+        continue;
+      }
+      const classAssign = statement.match(/^class\s+([\w,\s-]+?)\s+([\w-]+)$/);
+      if (classAssign) {
+        classAssign[1].split(",").forEach((id) => {
+          const node = nodes.get(id.trim());
+          if (node) node.classes.push(classAssign[2]);
+        });
+        continue;
+      }
+      const style = statement.match(/^style\s+([\w-]+)\s+(.+)$/);
+      if (style) {
+        const node = nodes.get(style[1]);
+        if (node) Object.assign(node.style, parseStyleList(style[2]));
+        continue;
+      }
+      const linkStyle = statement.match(/^linkStyle\s+([\d,\s]+|default)\s+(.+)$/);
+      if (linkStyle) {
+        const styleProps = parseStyleList(linkStyle[2]);
+        if (linkStyle[1] === "default") linkStyles.push({ index: "default", style: styleProps });
+        else linkStyle[1].split(",").forEach((n) => linkStyles.push({ index: Number(n.trim()), style: styleProps }));
+        continue;
+      }
+
+      // Node chain: A[..] --> B & C -->|x| D
+      const first = parseNodeGroup(statement, 0);
+      if (!first) continue;
+      first.refs.forEach(touchNode);
+      let sources = first.refs;
+      let pos = first.next;
+      while (pos < statement.length) {
+        const link = parseLink(statement, pos);
+        if (!link) break;
+        const targets = parseNodeGroup(statement, link.next);
+        if (!targets) break;
+        targets.refs.forEach(touchNode);
+        for (const source of sources) {
+          for (const target of targets.refs) {
+            // Invisible links (~~~) only steer Mermaid's layout; keep the edge index aligned for linkStyle.
+            edges.push({
+              id: `e-${source.id}-${target.id}-${edges.length}`,
+              source: source.id,
+              target: target.id,
+              type: "labeledConnector",
+              hidden: link.link.stroke === "invisible" || undefined,
+              data: linkEdgeData(link.link),
+            });
+          }
+        }
+        sources = targets.refs;
+        pos = targets.next;
+      }
+    }
+  }
+
+  for (const { index, style } of linkStyles) {
+    const targets = index === "default" ? edges : edges[index] ? [edges[index]] : [];
+    for (const edge of targets) {
+      edge.data = {
+        ...edge.data,
+        ...(style.stroke && { strokeColor: style.stroke }),
+        ...(style["stroke-width"] && { strokeWidth: parseFloat(style["stroke-width"]) || 1.5 }),
+        ...(style["stroke-dasharray"] && { strokeDasharray: style["stroke-dasharray"].replace(/,/g, " ") }),
+      };
+    }
+  }
+
+  const subgraphIds = new Set(subgraphs.map((g) => g.id));
+  const defaultClass = classDefs.get("default");
+  const rfNodes: Node[] = [];
+  for (const draft of nodes.values()) {
+    if (subgraphIds.has(draft.id)) continue;
+    const style = {
+      ...defaultClass,
+      ...Object.assign({}, ...draft.classes.map((c) => classDefs.get(c) ?? {})),
+      ...draft.style,
+    } as Record<string, string>;
+    const shape = draft.shape ?? "rectangle";
+    rfNodes.push({
+      id: draft.id,
+      type: "rectangle",
+      position: { x: 0, y: 0 },
+      data: {
+        label: draft.label ?? draft.id,
+        shape,
+        ...(style.fill && { color: style.fill }),
+      },
+    });
+  }
+
+  // Innermost subgraphs first so applyGroupingFromMetadata can nest outer groups around inner ones.
+  const depth = (id: string): number => {
+    let d = 0;
+    let parent = subgraphs.find((g) => g.members.includes(id));
+    while (parent && d < 50) {
+      d++;
+      const parentId: string = parent.id;
+      parent = subgraphs.find((g) => g.members.includes(parentId));
+    }
+    return d;
+  };
+  const groups: GroupMetadata[] = subgraphs
+    .map((g) => ({ id: g.id, label: g.label || g.id, nodeIds: g.members.filter((m) => m !== g.id) }))
+    .sort((a, b) => depth(b.id) - depth(a.id));
+
+  return { kind: "flowchart", direction, nodes: rfNodes, edges, groups };
+}
+
+/* ─── Sequence diagram ─── */
+
+const SEQUENCE_MESSAGE_RE = /^([^\s:>+-][^:>+-]*?)\s*(<<)?(-{1,2})(>>|>|x|\))\s*([+-]?)\s*([^:]+?)\s*:\s*(.*)$/;
+
+function parseSequence(lines: string[]): MermaidParseResult {
+  const participants = new Map<string, { label: string; actor: boolean }>();
+  const edges: Edge[] = [];
+  let autonumber = false;
+
+  const touch = (id: string, label?: string, actor = false) => {
+    const existing = participants.get(id);
+    if (!existing) participants.set(id, { label: label ?? id, actor });
+    else if (label) existing.label = label;
+  };
+
+  for (const line of lines.slice(1)) {
+    if (/^autonumber\b/.test(line)) {
+      autonumber = true;
+      continue;
+    }
+    const participant = line.match(/^(?:create\s+)?(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/);
+    if (participant) {
+      touch(participant[2].trim(), participant[3] ? cleanLabel(participant[3]) : undefined, participant[1] === "actor");
+      continue;
+    }
+    const message = line.match(SEQUENCE_MESSAGE_RE);
+    if (!message) continue;
+    const [, from, bidirectional, dashes, head, , to, text] = message;
+    const source = from.trim();
+    const target = to.trim();
+    touch(source);
+    touch(target);
+    const label = cleanLabel(text);
+    edges.push({
+      id: `e-${source}-${target}-${edges.length}`,
+      source,
+      target,
+      type: "labeledConnector",
+      data: {
+        label: autonumber ? `${edges.length + 1}. ${label}` : label,
+        ...(bidirectional && { flowDirection: "bi" }),
+        ...(head === ")" && { markerEnd: CUSTOM_MARKER_IDS.arrowOpen }),
+        ...(head === "x" && { markerEnd: CUSTOM_MARKER_IDS.bar }),
+        ...(dashes === "--" && { strokeDasharray: "5 5" }),
+      },
+    });
+  }
+
+  const nodes: Node[] = [...participants.entries()].map(([id, p]) =>
+    p.actor
+      ? { id, type: "actor", position: { x: 0, y: 0 }, data: { label: p.label } }
+      : { id, type: "rectangle", position: { x: 0, y: 0 }, data: { label: p.label, shape: "rectangle" } }
+  );
+  return { kind: "sequence", direction: "LR", nodes, edges, groups: [] };
+}
+
+/* ─── ER diagram ─── */
+
+const ER_RELATION_RE = /^("[^"]+"|[\w-]+)\s*([|}][|o])(--|\.\.)([|o][|{])\s*("[^"]+"|[\w-]+)\s*:\s*(.+)$/;
+
+function parseErDiagram(lines: string[]): MermaidParseResult {
+  const entities = new Map<string, { label: string; columns: SchemaColumn[] }>();
+  const edges: Edge[] = [];
+  let openEntity: string | null = null;
+
+  const touch = (raw: string, alias?: string) => {
+    const id = raw.replace(/"/g, "");
+    if (!entities.has(id)) entities.set(id, { label: alias ?? id, columns: [] });
+    else if (alias) entities.get(id)!.label = alias;
+    return id;
+  };
+
+  for (const line of lines.slice(1)) {
+    if (openEntity) {
+      if (line === "}") {
+        openEntity = null;
+        continue;
+      }
+      const attr = line.match(/^([\w[\](),-]+)\s+([\w-]+)(?:\s+((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*))?(?:\s+"[^"]*")?$/);
+      if (attr) {
+        const keys = attr[3]?.split(",").map((k) => k.trim()) ?? [];
+        entities.get(openEntity)!.columns.push({
+          name: attr[2],
+          type: attr[1],
+          key: keys.includes("PK") ? "PK" : keys.includes("FK") ? "FK" : "",
+        });
+      }
+      continue;
+    }
+    const block = line.match(/^("[^"]+"|[\w-]+)\s*(?:\[\s*"?([^"\]]+)"?\s*\])?\s*\{$/);
+    if (block) {
+      openEntity = touch(block[1], block[2]);
+      continue;
+    }
+    const relation = line.match(ER_RELATION_RE);
+    if (relation) {
+      const [, left, leftCard, connector, rightCard, right, text] = relation;
+      const source = touch(left);
+      const target = touch(right);
+      const label = cleanLabel(text);
+      edges.push({
+        id: `e-${source}-${target}-${edges.length}`,
+        source,
+        target,
+        type: "labeledConnector",
+        data: {
+          ...(label && { label }),
+          connectorType: "smoothstep",
+          markerStart: ER_LEFT_MARKERS[leftCard],
+          markerEnd: ER_RIGHT_MARKERS[rightCard],
+          ...(connector === ".." && { strokeDasharray: "5 5" }),
+        },
+      });
+      continue;
+    }
+    const bare = line.match(/^("[^"]+"|[\w-]+)(?:\s*\[\s*"?([^"\]]+)"?\s*\])?$/);
+    if (bare) touch(bare[1], bare[2]);
+  }
+
+  const nodes: Node[] = [...entities.entries()].map(([id, entity]) => ({
+    id,
+    type: "databaseSchema",
+    position: { x: 0, y: 0 },
+    data: { label: entity.label, columns: entity.columns },
+    width: SCHEMA_NODE_WIDTH,
+    height: getSchemaNodeHeight(entity.columns.length),
+  }));
+  return { kind: "er", direction: "LR", nodes, edges, groups: [] };
+}
+
+/* ─── Entry points ─── */
+
+/**
+ * Parse Mermaid source (raw, or a Markdown file containing a ```mermaid block).
+ * Throws an Error describing the problem when the diagram type is unsupported or nothing was found.
+ */
+export function parseMermaid(source: string): MermaidParseResult {
+  const lines = mermaidLines(source);
+  const header = lines[0] ?? "";
+  let result: MermaidParseResult;
+  if (/^(flowchart|graph)\b/i.test(header)) result = parseFlowchart(lines);
+  else if (/^sequenceDiagram\b/.test(header)) result = parseSequence(lines);
+  else if (/^erDiagram\b/.test(header)) result = parseErDiagram(lines);
+  else {
+    const kind = header.split(/\s+/)[0] || "empty input";
+    throw new Error(`Unsupported Mermaid diagram "${kind}". Supported: flowchart/graph, sequenceDiagram, erDiagram.`);
+  }
+  if (result.nodes.length === 0) throw new Error("No nodes found in the Mermaid diagram.");
+  return result;
+}
+
+/** Put each group before its children (React Flow requires parents first) and drop duplicates. */
+function orderParentsFirst(nodes: Node[]): Node[] {
+  const byId = new Map<string, Node>();
+  for (const n of nodes) if (!byId.has(n.id)) byId.set(n.id, n);
+  const depth = (n: Node): number => {
+    let d = 0;
+    let parent = n.parentId ? byId.get(n.parentId) : undefined;
+    while (parent && d < 50) {
+      d++;
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return d;
+  };
+  return [...byId.values()].sort((a, b) => depth(a) - depth(b));
+}
+
+/**
+ * Parse Mermaid and lay it out: flat ELK layout first, then subgraphs become group nodes
+ * (same sequence as AI-generated diagrams with group metadata), then a compound re-layout.
+ */
+export async function layoutMermaidDiagram(source: string): Promise<{ nodes: Node[]; edges: Edge[] }> {
+  const parsed = parseMermaid(source);
+  const spacing: [number, number] = parsed.kind === "er" ? [120, 140] : [80, 100];
+  const laid = await getLayoutedElements(parsed.nodes, parsed.edges, parsed.direction, spacing, "elk-layered");
+  if (parsed.groups.length === 0) return laid;
+
+  let nodes = orderParentsFirst(applyGroupingFromMetadata(laid.nodes, parsed.groups));
+  for (let i = 0; i < parsed.groups.length; i++) {
+    nodes = fitGroupBoundsAndCenterChildren(nodes);
+  }
+  const regrouped = await getLayoutedElements(nodes, laid.edges, parsed.direction, spacing, "elk-layered");
+  nodes = await layoutChildrenInsideGroups(regrouped.nodes, regrouped.edges, parsed.direction, [40, 32]);
+  return { nodes: ensureExtentForGroupedNodes(orderParentsFirst(nodes)), edges: regrouped.edges };
+}
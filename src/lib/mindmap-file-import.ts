@@ -0,0 +1,289 @@
+/**
+ * Import FreeMind / Freeplane (`.mm`) and XMind (`.xmind`, both the JSON format of XMind Zen /
+ * 2020+ and the XML format of XMind 8) files as mindMap nodes and edges. Topic text, notes,
+ * icons / markers, folded state, background colors and hyperlinks carry over.
+ *
+ * Nodes come back on a rough indented grid; the caller lays them out with the mind map layout
+ * (setPendingApplyLayout → useApplyMindMapLayout). Browser only: uses DOMParser.
+ */
+import * as pako from "pako";
+import type { Node, Edge } from "@xyflow/react";
+import { getHandleIds, type LayoutDirection } from "@/lib/layout-engine";
+
+export interface MindMapFileTopic {
+  text: string;
+  note: string;
+  /** Icon registry id (e.g. "lucide:star"). */
+  icon?: string;
+  collapsed: boolean;
+  /** Background color (CSS). */
+  color?: string;
+  link?: string;
+  children: MindMapFileTopic[];
+}
+
+export interface MindMapFileImportResult {
+  nodes: Node[];
+  edges: Edge[];
+  nodeNotes: Record<string, string>;
+}
+
+/** FreeMind builtin icons and XMind marker ids (by prefix) → icon registry ids. */
+const ICON_MAP: [RegExp, string][] = [
+  [/^(idea|ktip)$/, "lucide:info"],
+  [/^(help|question|symbol-question)/, "lucide:help-circle"],
+  [/^(yes|button_ok|task-done|symbol-right|checked)/, "lucide:check"],
+  [/^(button_cancel|stop-sign|symbol-wrong|closed)/, "lucide:x"],
+  [/^(messagebox_warning|clanbomber|symbol-exclam|priority-)/, "lucide:alert-circle"],
+  [/^(bookmark|flag)/, "lucide:bookmark"],
+  [/^star/, "lucide:star"],
+  [/^(heart|love|smiley-(smile|laugh))/, "lucide:heart"],
+  [/^(calendar|month|week|task-)/, "lucide:calendar"],
+  [/^(mail|Mail|email)/, "lucide:mail"],
+  [/^(gohome|home)/, "lucide:home"],
+  [/^(folder|attach)/, "lucide:folder"],
+  [/^(edit|pencil)/, "lucide:edit"],
+  [/^(password|encrypted|decrypted|key)/, "lucide:settings"],
+  [/^(family|people|group|male|female)/, "lucide:users"],
+  [/^(list|desktop_new|document)/, "lucide:file-text"],
+  [/^(telephone|phone)/, "lucide:phone"],
+];
+
+function mapIcon(name: string | null | undefined): string | undefined {
+  if (!name) return undefined;
+  return ICON_MAP.find(([re]) => re.test(name))?.[1];
+}
+
+function newTopic(text: string): MindMapFileTopic {
+  return { text, note: "", collapsed: false, children: [] };
+}
+
+function parseXml(xml: string, what: string): Document {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error(`Invalid ${what}: the XML does not parse`);
+  return doc;
+}
+
+/** Direct children of `el` with the given local name (ignores namespace prefixes). */
+function childElements(el: Element, name: string): Element[] {
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+/** Plain text of an HTML fragment (FreeMind rich content), one line per block. */
+function htmlToText(el: Element): string {
+  const doc = new DOMParser().parseFromString(new XMLSerializer().serializeToString(el), "text/html");
+  doc.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  doc.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6, tr").forEach((block) => block.append("\n"));
+  return (doc.body.textContent ?? "")
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ─── FreeMind / Freeplane ────────────────────────────────────────────
+
+/** Parse a FreeMind / Freeplane `.mm` map. */
+export function parseFreeMind(xml: string): MindMapFileTopic[] {
+  const doc = parseXml(xml, "FreeMind file");
+  const map = doc.documentElement;
+  if (map.localName !== "map") throw new Error("Not a FreeMind file: missing <map>");
+
+  const toTopic = (el: Element): MindMapFileTopic => {
+    const rich = childElements(el, "richcontent");
+    const richNode = rich.find((r) => (r.getAttribute("TYPE") ?? "NODE") === "NODE");
+    const richNote = rich.find((r) => r.getAttribute("TYPE") === "NOTE");
+    const topic = newTopic(
+      el.getAttribute("TEXT") ?? el.getAttribute("LOCALIZED_TEXT") ?? (richNode ? htmlToText(richNode) : "")
+    );
+    if (richNote) topic.note = htmlToText(richNote);
+    topic.collapsed = el.getAttribute("FOLDED") === "true";
+    topic.color = el.getAttribute("BACKGROUND_COLOR") ?? undefined;
+    topic.link = el.getAttribute("LINK") ?? undefined;
+    topic.icon = childElements(el, "icon").map((i) => mapIcon(i.getAttribute("BUILTIN"))).find(Boolean);
+    topic.children = childElements(el, "node").map(toTopic);
+    return topic;
+  };
+  return childElements(map, "node").map(toTopic);
+}
+
+// ─── XMind ───────────────────────────────────────────────────────────
+
+interface XMindJsonTopic {
+  title?: string;
+  notes?: { plain?: { content?: string } };
+  href?: string;
+  branch?: string;
+  markers?: { markerId?: string }[];
+  style?: { properties?: Record<string, string> };
+  children?: { attached?: XMindJsonTopic[] };
+}
+
+interface XMindJsonSheet {
+  title?: string;
+  rootTopic?: XMindJsonTopic;
+}
+
+/** XMind Zen / 2020+ `content.json`: every sheet's root topic becomes a root. */
+export function parseXMindJson(json: string): MindMapFileTopic[] {
+  const sheets = JSON.parse(json) as XMindJsonSheet[];
+  if (!Array.isArray(sheets)) throw new Error("Invalid XMind file: content.json is not a sheet list");
+
+  const toTopic = (t: XMindJsonTopic): MindMapFileTopic => {
+    const topic = newTopic(t.title ?? "");
+    topic.note = (t.notes?.plain?.content ?? "").trim();
+    topic.collapsed = t.branch === "folded";
+    topic.link = t.href && !t.href.startsWith("xap:") ? t.href : undefined;
+    topic.icon = (t.markers ?? []).map((m) => mapIcon(m.markerId)).find(Boolean);
+    topic.color = t.style?.properties?.["svg:fill"];
+    topic.children = (t.children?.attached ?? []).map(toTopic);
+    return topic;
+  };
+  return sheets.filter((s) => s.rootTopic).map((s) => toTopic(s.rootTopic!));
+}
+
+/** XMind 8 `content.xml`, with fill colors resolved from `styles.xml` when present. */
+export function parseXMindXml(xml: string, stylesXml?: string): MindMapFileTopic[] {
+  const doc = parseXml(xml, "XMind file");
+  const fills = new Map<string, string>();
+  if (stylesXml) {
+    for (const style of Array.from(parseXml(stylesXml, "XMind styles").getElementsByTagName("style"))) {
+      const props = Array.from(style.children).find((c) => c.localName === "topic-properties");
+      const fill = props?.getAttribute("svg:fill");
+      const id = style.getAttribute("id");
+      if (id && fill) fills.set(id, fill);
+    }
+  }
+
+  const toTopic = (el: Element): MindMapFileTopic => {
+    const topic = newTopic(childElements(el, "title")[0]?.textContent ?? "");
+    const notes = childElements(el, "notes")[0];
+    topic.note = (notes ? childElements(notes, "plain")[0]?.textContent ?? "" : "").trim();
+    topic.collapsed = el.getAttribute("branch") === "folded";
+    const href = el.getAttribute("xlink:href") ?? el.getAttribute("href");
+    topic.link = href && !href.startsWith("xap:") && !href.startsWith("xmind:") ? href : undefined;
+    const markers = childElements(el, "marker-refs").flatMap((refs) => childElements(refs, "marker-ref"));
+    topic.icon = markers.map((m) => mapIcon(m.getAttribute("marker-id"))).find(Boolean);
+    const styleId = el.getAttribute("style-id");
+    topic.color = styleId ? fills.get(styleId) : undefined;
+    topic.children = childElements(el, "children")
+      .flatMap((c) => childElements(c, "topics"))
+      .filter((t) => (t.getAttribute("type") ?? "attached") === "attached")
+      .flatMap((t) => childElements(t, "topic"))
+      .map(toTopic);
+    return topic;
+  };
+  return Array.from(doc.getElementsByTagName("sheet"))
+    .map((sheet) => childElements(sheet, "topic")[0])
+    .filter((t): t is Element => !!t)
+    .map(toTopic);
+}
+
+/**
+ * Minimal ZIP reader: the named entries' text (stored or deflated), read through the central
+ * directory. Enough for `.xmind` archives; no ZIP64, encryption or multi-disk support.
+ */
+function readZipTextEntries(buffer: ArrayBuffer, names: string[]): Map<string, string> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const result = new Map<string, string>();
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a ZIP archive");
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!names.includes(name)) continue;
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) result.set(name, decoder.decode(data));
+    else if (method === 8) result.set(name, decoder.decode(pako.inflateRaw(data)));
+    else throw new Error(`Unsupported ZIP compression method ${method}`);
+  }
+  return result;
+}
+
+/** Parse an `.xmind` archive (content.json preferred over the legacy content.xml). */
+export function parseXMind(buffer: ArrayBuffer): MindMapFileTopic[] {
+  const entries = readZipTextEntries(buffer, ["content.json", "content.xml", "styles.xml"]);
+  const json = entries.get("content.json");
+  if (json) return parseXMindJson(json);
+  const xml = entries.get("content.xml");
+  if (xml) return parseXMindXml(xml, entries.get("styles.xml"));
+  throw new Error("Invalid XMind file: no content.json or content.xml");
+}
+
+// ─── Topics → nodes ─────────────────────────────────────────────────
+
+/**
+ * Topic trees → mindMap nodes and edges, placed on an indented grid until the mind map layout
+ * runs. Folded topics keep their children but start collapsed.
+ */
+export function mindMapFileToDiagram(topics: MindMapFileTopic[], direction: LayoutDirection): MindMapFileImportResult {
+  const { source: sourceHandle, target: targetHandle } = getHandleIds(direction);
+  const stamp = Date.now().toString(36);
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const nodeNotes: Record<string, string> = {};
+
+  const add = (topic: MindMapFileTopic, parentId: string | null, depth: number) => {
+    const id = `mm-${stamp}-${nodes.length}`;
+    nodes.push({
+      id,
+      type: "mindMap",
+      position: { x: depth * 220, y: nodes.length * 60 },
+      data: {
+        label: topic.text,
+        ...(topic.collapsed && topic.children.length > 0 ? { collapsed: true } : {}),
+        ...(topic.color ? { color: topic.color } : {}),
+        ...(topic.icon ? { icon: topic.icon } : {}),
+        ...(topic.link ? { link: topic.link } : {}),
+      },
+    });
+    if (parentId) {
+      edges.push({
+        id: `e${parentId}-source-${id}-target`,
+        source: parentId,
+        target: id,
+        sourceHandle,
+        targetHandle,
+        type: "labeledConnector",
+        data: { connectorType: "default" },
+      });
+    }
+    if (topic.note) nodeNotes[id] = topic.note;
+    for (const child of topic.children) add(child, id, depth + 1);
+  };
+  for (const topic of topics) add(topic, null, 0);
+  return { nodes, edges, nodeNotes };
+}
+
+/** Parse a `.mm` or `.xmind` file into an unlaid-out mind map. */
+export async function importMindMapFile(file: File, direction: LayoutDirection): Promise<MindMapFileImportResult> {
+  const name = file.name.toLowerCase();
+  let topics: MindMapFileTopic[];
+  if (name.endsWith(".xmind")) topics = parseXMind(await file.arrayBuffer());
+  else if (name.endsWith(".mm")) topics = parseFreeMind(await file.text());
+  else throw new Error("Unsupported file type (expected .mm or .xmind)");
+  if (topics.length === 0) throw new Error("The map has no topics");
+  return mindMapFileToDiagram(topics, direction);
+}
@@ -0,0 +1,374 @@
+/**
+ * Mind maps as text outlines, for moving maps to and from outliners (Obsidian, Logseq,
+ * Workflowy, OmniOutliner): nested Markdown bullets and OPML. Notes travel as text under their
+ * item (`_note` in OPML) and tasks as `[ ]` / `[x]` checkbox items. In Markdown, node properties
+ * travel as Logseq-style `key:: value` lines under their item.
+ *
+ * Export walks the same hierarchy as the outline editor (getOutlineTree). Import builds mindMap
+ * nodes with branch colors and lays them out with elk-mrtree (layoutOutlineImport).
+ */
+import type { Node, Edge } from "@xyflow/react";
+import type { NodeTask } from "@/lib/store/canvas-store";
+import { formatPropertyValue, getNodeProperties, parsePropertyText, type NodeProperty } from "@/lib/node-properties";
+import { getOutlineTree } from "@/lib/mindmap-outline";
+import { BRANCH_BG_COLORS, BRANCH_STROKE_COLORS } from "@/lib/branch-colors";
+import { getHandleIds, getLayoutedElements, type LayoutDirection, type LayoutSpacing } from "@/lib/layout-engine";
+
+export type OutlineFormat = "markdown" | "opml";
+
+/** One item of a parsed outline, before it becomes a node. */
+export interface OutlineEntry {
+  text: string;
+  note: string;
+  tasks: { text: string; done: boolean }[];
+  properties: NodeProperty[];
+  children: OutlineEntry[];
+}
+
+export interface OutlineImportResult {
+  nodes: Node[];
+  edges: Edge[];
+  nodeNotes: Record<string, string>;
+  nodeTasks: Record<string, NodeTask[]>;
+}
+
+const INDENT = "  ";
+const TASK_RE = /^\[( |x|X)\]\s+(.*)$/;
+const BULLET_RE = /^(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*$/;
+const PROPERTY_RE = /^([^\s:\\][^:]*?)::\s*(.*)$/;
+const FENCE_RE = /^(```|~~~)/;
+/** Note lines import would read as a bullet, task, property or code fence instead of note text. */
+const NOTE_SYNTAX = [BULLET_RE, PROPERTY_RE, FENCE_RE];
+
+function labelOf(node: Node | undefined): string {
+  return typeof node?.data?.label === "string" ? node.data.label : "";
+}
+
+/** Mind map hierarchy as entries; every subtree is included, collapsed or not. */
+function mindMapEntries(
+  nodes: Node[],
+  edges: Edge[],
+  nodeNotes: Record<string, string>,
+  nodeTasks: Record<string, NodeTask[]>
+): OutlineEntry[] {
+  const tree = getOutlineTree(nodes, edges);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const visited = new Set<string>();
+
+  const toEntry = (id: string): OutlineEntry | null => {
+    if (visited.has(id)) return null; // cycles
+    visited.add(id);
+    return {
+      text: labelOf(byId.get(id)),
+      note: nodeNotes[id] ?? "",
+      tasks: (nodeTasks[id] ?? []).map((t) => ({ text: t.text, done: t.done })),
+      properties: getNodeProperties(byId.get(id)?.data),
+      children: (tree.children.get(id) ?? []).map(toEntry).filter((e): e is OutlineEntry => e !== null),
+    };
+  };
+  return tree.roots.map(toEntry).filter((e): e is OutlineEntry => e !== null);
+}
+
+/**
+ * Backslash-escape outline text that import would read as syntax (`patterns`), such as a topic
+ * named like a task; text already starting with a backslash is escaped too, so
+ * unescapeOutlineText restores it.
+ */
+function escapeOutlineText(text: string, patterns: RegExp[]): string {
+  return text.startsWith("\\") || patterns.some((re) => re.test(text)) ? `\\${text}` : text;
+}
+
+function unescapeOutlineText(text: string): string {
+  return text.startsWith("\\") ? text.slice(1) : text;
+}
+
+/** Single-line text for a bullet or an OPML `text` attribute. */
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").trim();
+}
+
+// ─── Export ──────────────────────────────────────────────────────────
+
+/**
+ * Nested Markdown bullets. Properties are `key:: value` lines right under their item, a note is
+ * indented text after them (keeping its own indentation); tasks are `- [ ]` / `- [x]` items
+ * before the child topics. Note lines and labels that would read back as outline syntax are
+ * escaped with a leading backslash.
+ */
+export function mindMapToMarkdown(
+  nodes: Node[],
+  edges: Edge[],
+  nodeNotes: Record<string, string>,
+  nodeTasks: Record<string, NodeTask[]>
+): string {
+  const lines: string[] = [];
+  const write = (entry: OutlineEntry, depth: number) => {
+    const pad = INDENT.repeat(depth);
+    lines.push(`${pad}- ${escapeOutlineText(oneLine(entry.text) || "Untitled", [TASK_RE])}`);
+    for (const p of entry.properties) lines.push(`${pad}${INDENT}${oneLine(p.key)}:: ${oneLine(formatPropertyValue(p.value))}`);
+    for (const line of entry.note.trim() ? entry.note.trim().split("\n") : []) {
+      // Indentation within the note is kept after the item's; import strips the item's only.
+      const leading = line.match(/^\s*/)?.[0] ?? "";
+      lines.push(line.trim() ? `${pad}${INDENT}${leading}${escapeOutlineText(line.trim(), NOTE_SYNTAX)}` : "");
+    }
+    for (const task of entry.tasks) lines.push(`${pad}${INDENT}- [${task.done ? "x" : " "}] ${oneLine(task.text)}`);
+    for (const child of entry.children) write(child, depth + 1);
+  };
+  for (const root of mindMapEntries(nodes, edges, nodeNotes, nodeTasks)) write(root, 0);
+  return lines.join("\n") + "\n";
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;");
+}
+
+/**
+ * OPML 2.0: one `<outline>` per topic, notes in `_note`, tasks as `[ ]` / `[x]` child outlines
+ * (topics named like a task are escaped with a leading backslash).
+ */
+export function mindMapToOpml(
+  nodes: Node[],
+  edges: Edge[],
+  nodeNotes: Record<string, string>,
+  nodeTasks: Record<string, NodeTask[]>,
+  title = "Mind map"
+): string {
+  const lines: string[] = [];
+  const write = (entry: OutlineEntry, depth: number) => {
+    const pad = INDENT.repeat(depth + 2);
+    const note = entry.note.trim() ? ` _note="${escapeXml(entry.note.trim())}"` : "";
+    const text = escapeOutlineText(oneLine(entry.text) || "Untitled", [TASK_RE]);
+    const open = `${pad}<outline text="${escapeXml(text)}"${note}`;
+    if (entry.tasks.length === 0 && entry.children.length === 0) {
+      lines.push(`${open}/>`);
+      return;
+    }
+    lines.push(`${open}>`);
+    for (const task of entry.tasks) {
+      lines.push(`${pad}${INDENT}<outline text="${escapeXml(`[${task.done ? "x" : " "}] ${oneLine(task.text)}`)}"/>`);
+    }
+    for (const child of entry.children) write(child, depth + 1);
+    lines.push(`${pad}</outline>`);
+  };
+  for (const root of mindMapEntries(nodes, edges, nodeNotes, nodeTasks)) write(root, 0);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `${INDENT}<head>`,
+    `${INDENT}${INDENT}<title>${escapeXml(title)}</title>`,
+    `${INDENT}${INDENT}<dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `${INDENT}</head>`,
+    `${INDENT}<body>`,
+    ...lines,
+    `${INDENT}</body>`,
+    `</opml>`,
+    "",
+  ].join("\n");
+}
+
+// ─── Import ──────────────────────────────────────────────────────────
+
+function newEntry(text: string): OutlineEntry {
+  return { text, note: "", tasks: [], properties: [], children: [] };
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+/**
+ * Parse an indented Markdown outline. Bullets nest by indentation (spaces or tabs); headings
+ * nest by level and own the bullets below them; `- [ ]` / `- [x]` items become tasks of the
+ * item above; `key:: value` lines become its properties and other indented text its note. Front
+ * matter and code fences are skipped, and a leading backslash escape is removed from labels and
+ * note lines. Note lines keep their indentation relative to the note's first line.
+ */
+export function parseMarkdownOutline(source: string): OutlineEntry[] {
+  const roots: OutlineEntry[] = [];
+  const headings: { level: number; entry: OutlineEntry }[] = [];
+  // Bullets open under the current heading; `indent` is the bullet's column.
+  let bullets: { indent: number; entry: OutlineEntry }[] = [];
+  let inFence = false;
+  let pendingBlank = false;
+  /** Column of each item's first note line; later lines keep their indentation past it. */
+  const noteColumns = new Map<OutlineEntry, number>();
+
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let start = 0;
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+    if (end > 0) start = end + 1;
+  }
+
+  const addChild = (parent: OutlineEntry | undefined, entry: OutlineEntry) => {
+    if (parent) parent.children.push(entry);
+    else roots.push(entry);
+  };
+  /** Item owning a line at `indent`: the deepest open bullet left of it, else the heading. */
+  const ownerAt = (indent: number): OutlineEntry | undefined => {
+    const open = bullets.filter((b) => b.indent < indent);
+    return open.at(-1)?.entry ?? headings.at(-1)?.entry;
+  };
+
+  for (let i = start; i < lines.length; i++) {
+    const raw = lines[i];
+    if (FENCE_RE.test(raw.trim())) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    if (!raw.trim()) {
+      pendingBlank = true;
+      continue;
+    }
+    const indent = indentWidth(raw.match(/^\s*/)?.[0] ?? "");
+    const line = raw.trim();
+    const blank = pendingBlank;
+    pendingBlank = false;
+
+    const heading = indent === 0 ? line.match(HEADING_RE) : null;
+    if (heading) {
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      const entry = newEntry(heading[2]);
+      addChild(headings.at(-1)?.entry, entry);
+      headings.push({ level, entry });
+      bullets = [];
+      continue;
+    }
+
+    const bullet = line.match(BULLET_RE);
+    if (bullet) {
+      const task = bullet[1].match(TASK_RE);
+      if (task) {
+        const owner = ownerAt(indent);
+        if (owner) {
+          owner.tasks.push({ text: task[2].trim(), done: task[1] !== " " });
+          continue;
+        }
+      }
+      while (bullets.length > 0 && bullets[bullets.length - 1].indent >= indent) bullets.pop();
+      const entry = newEntry(task ? task[2].trim() : unescapeOutlineText(bullet[1].trim()));
+      addChild(bullets.at(-1)?.entry ?? headings.at(-1)?.entry, entry);
+      bullets.push({ indent, entry });
+      continue;
+    }
+
+    // Plain text: a property or note line of the item above (or of the heading), else a topic of its own.
+    const owner = ownerAt(indent);
+    const property = owner ? line.match(PROPERTY_RE) : null;
+    if (owner && property) {
+      const parsed = parsePropertyText(property[1].trim(), property[2]);
+      if (parsed && !owner.properties.some((p) => p.key === parsed.key)) owner.properties.push(parsed);
+    } else if (owner) {
+      const column = noteColumns.get(owner) ?? indent;
+      noteColumns.set(owner, column);
+      const text = " ".repeat(Math.max(0, indent - column)) + unescapeOutlineText(line);
+      owner.note = owner.note ? `${owner.note}${blank ? "\n\n" : "\n"}${text}` : text;
+    } else {
+      bullets = [];
+      roots.push(newEntry(line));
+    }
+  }
+  return roots;
+}
+
+/** Parse OPML `<outline>` elements (browser only: uses DOMParser). */
+export function parseOpml(source: string): OutlineEntry[] {
+  const doc = new DOMParser().parseFromString(source, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("Invalid OPML: the XML does not parse");
+  const body = doc.getElementsByTagName("body")[0];
+  if (!body) throw new Error("Invalid OPML: missing <body>");
+
+  const toEntry = (el: Element): OutlineEntry => {
+    const entry = newEntry(unescapeOutlineText(el.getAttribute("text") ?? el.getAttribute("title") ?? ""));
+    entry.note = (el.getAttribute("_note") ?? "").trim();
+    for (const child of Array.from(el.children)) {
+      if (child.tagName !== "outline") continue;
+      const task = (child.getAttribute("text") ?? "").match(TASK_RE);
+      if (task && !Array.from(child.children).some((c) => c.tagName === "outline")) {
+        entry.tasks.push({ text: task[2].trim(), done: task[1] !== " " });
+      } else {
+        entry.children.push(toEntry(child));
+      }
+    }
+    return entry;
+  };
+  return Array.from(body.children)
+    .filter((el) => el.tagName === "outline")
+    .map(toEntry);
+}
+
+/**
+ * Outline entries → mindMap nodes and edges (unpositioned). Each first-level branch gets its
+ * own color from the branch palette, on its nodes (`data.color`) and edges (`strokeColor`).
+ */
+export function outlineToMindMap(entries: OutlineEntry[], direction: LayoutDirection): OutlineImportResult {
+  const { source: sourceHandle, target: targetHandle } = getHandleIds(direction);
+  const stamp = Date.now().toString(36);
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const nodeNotes: Record<string, string> = {};
+  const nodeTasks: Record<string, NodeTask[]> = {};
+  let count = 0;
+
+  const add = (entry: OutlineEntry, parentId: string | null, branch: number | null) => {
+    const id = `outline-${stamp}-${count++}`;
+    nodes.push({
+      id,
+      type: "mindMap",
+      position: { x: 0, y: 0 },
+      data: {
+        label: entry.text,
+        ...(branch !== null ? { color: BRANCH_BG_COLORS[branch] } : {}),
+        ...(entry.properties.length > 0 ? { properties: entry.properties } : {}),
+      },
+    });
+    if (parentId) {
+      edges.push({
+        id: `e${parentId}-source-${id}-target`,
+        source: parentId,
+        target: id,
+        sourceHandle,
+        targetHandle,
+        type: "labeledConnector",
+        data: {
+          connectorType: "default",
+          ...(branch !== null ? { strokeColor: BRANCH_STROKE_COLORS[branch] } : {}),
+        },
+      });
+    }
+    if (entry.note) nodeNotes[id] = entry.note;
+    if (entry.tasks.length > 0) {
+      nodeTasks[id] = entry.tasks.map((t, i) => ({ id: `task-${stamp}-${count}-${i}`, text: t.text, done: t.done }));
+    }
+    entry.children.forEach((child, i) => add(child, id, branch ?? i % BRANCH_BG_COLORS.length));
+  };
+  for (const root of entries) add(root, null, null);
+  return { nodes, edges, nodeNotes, nodeTasks };
+}
+
+/** Parse a Markdown or OPML outline and lay the resulting mind map out with elk-mrtree. */
+export async function layoutOutlineImport(
+  source: string,
+  format: OutlineFormat,
+  direction: LayoutDirection,
+  spacing: LayoutSpacing
+): Promise<OutlineImportResult> {
+  const entries = format === "opml" ? parseOpml(source) : parseMarkdownOutline(source);
+  if (entries.length === 0) throw new Error("No outline items found");
+  const result = outlineToMindMap(entries, direction);
+  const laid = await getLayoutedElements(result.nodes, result.edges, direction, spacing, "elk-mrtree");
+  return { ...result, nodes: laid.nodes, edges: laid.edges };
+}
+
+/** OPML when the text looks like XML, Markdown otherwise. */
+export function detectOutlineFormat(source: string): OutlineFormat {
+  return /^\s*(<\?xml|<opml)/i.test(source) ? "opml" : "markdown";
+}
@@ -0,0 +1,225 @@
+import type { Node, Edge } from "@xyflow/react";
+import { getDescendantIds } from "./mindmap-utils";
+
+/**
+ * Outline (indented tree) view of the mind map, and the structural edits the outline editor
+ * makes. The hierarchy is the one the canvas uses: a mindMap node's children are the targets of
+ * its outgoing edges, in edge order; nodes without an incoming edge are roots, in node order.
+ */
+
+export interface OutlineItem {
+  id: string;
+  label: string;
+  depth: number;
+  parentId: string | null;
+  hasChildren: boolean;
+  collapsed: boolean;
+}
+
+export interface OutlineTree {
+  roots: string[];
+  children: Map<string, string[]>;
+  parent: Map<string, string>;
+}
+
+/** Only mind map nodes and the edges between them take part in the outline. */
+export function getOutlineTree(nodes: Node[], edges: Edge[]): OutlineTree {
+  const mindMapIds = new Set(nodes.filter((n) => n.type === "mindMap").map((n) => n.id));
+  const children = new Map<string, string[]>();
+  const parent = new Map<string, string>();
+  for (const e of edges) {
+    if (!mindMapIds.has(e.source) || !mindMapIds.has(e.target) || parent.has(e.target)) continue;
+    parent.set(e.target, e.source);
+    const list = children.get(e.source) ?? [];
+    list.push(e.target);
+    children.set(e.source, list);
+  }
+  const roots = nodes.filter((n) => mindMapIds.has(n.id) && !parent.has(n.id)).map((n) => n.id);
+  return { roots, children, parent };
+}
+
+/** Depth-first rows of the outline; children of collapsed nodes are left out. */
+export function flattenOutline(nodes: Node[], edges: Edge[]): OutlineItem[] {
+  const tree = getOutlineTree(nodes, edges);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const items: OutlineItem[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string, depth: number, parentId: string | null) => {
+    if (visited.has(id)) return; // cycles
+    visited.add(id);
+    const node = byId.get(id);
+    const kids = tree.children.get(id) ?? [];
+    const collapsed = !!node?.data?.collapsed;
+    items.push({
+      id,
+      label: typeof node?.data?.label === "string" ? node.data.label : "",
+      depth,
+      parentId,
+      hasChildren: kids.length > 0,
+      collapsed,
+    });
+    if (!collapsed) for (const kid of kids) visit(kid, depth + 1, id);
+  };
+  for (const root of tree.roots) visit(root, 0, null);
+  return items;
+}
+
+export interface OutlineEdit {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+function siblingsOf(tree: OutlineTree, id: string): string[] {
+  const parentId = tree.parent.get(id);
+  return parentId ? tree.children.get(parentId) ?? [] : tree.roots;
+}
+
+function parentEdgeIndex(edges: Edge[], tree: OutlineTree, id: string): number {
+  const parentId = tree.parent.get(id);
+  return edges.findIndex((e) => e.source === parentId && e.target === id);
+}
+
+/** Edge from `source` to `target`, styled like the mind map's own "add child" edges. */
+export function createOutlineEdge(
+  source: string,
+  target: string,
+  handles: { sourceHandle: string; targetHandle: string }
+): Edge {
+  return {
+    id: `e${source}-source-${target}-target-${Date.now()}`,
+    source,
+    target,
+    sourceHandle: handles.sourceHandle,
+    targetHandle: handles.targetHandle,
+    type: "labeledConnector",
+    data: { connectorType: "default" },
+  };
+}
+
+/**
+ * Tab: make the node the last child of its previous sibling. Roots indent under the previous
+ * root. Returns null when there is no previous sibling.
+ */
+export function indentOutlineNode(
+  nodes: Node[],
+  edges: Edge[],
+  id: string,
+  handles: { sourceHandle: string; targetHandle: string }
+): OutlineEdit | null {
+  const tree = getOutlineTree(nodes, edges);
+  const siblings = siblingsOf(tree, id);
+  const index = siblings.indexOf(id);
+  if (index <= 0) return null;
+  const newParent = siblings[index - 1];
+
+  const edgeIndex = parentEdgeIndex(edges, tree, id);
+  const oldEdge = edgeIndex >= 0 ? edges[edgeIndex] : null;
+  const next = edges.filter((_, i) => i !== edgeIndex);
+  const moved = oldEdge ? { ...oldEdge, source: newParent } : createOutlineEdge(newParent, id, handles);
+  // Insert after the new parent's last child edge so the node becomes its last child.
+  const lastChild = (tree.children.get(newParent) ?? []).at(-1);
+  const lastChildEdge = lastChild ? next.findIndex((e) => e.source === newParent && e.target === lastChild) : -1;
+  next.splice(lastChildEdge >= 0 ? lastChildEdge + 1 : next.length, 0, moved);
+  return { nodes: expandNode(nodes, newParent), edges: next };
+}
+
+/**
+ * Shift+Tab: move the node up one level, right after its former parent. Roots cannot be outdented.
+ */
+export function outdentOutlineNode(nodes: Node[], edges: Edge[], id: string): OutlineEdit | null {
+  const tree = getOutlineTree(nodes, edges);
+  const parentId = tree.parent.get(id);
+  if (!parentId) return null;
+  const grandparentId = tree.parent.get(parentId);
+  const edgeIndex = parentEdgeIndex(edges, tree, id);
+  const oldEdge = edges[edgeIndex];
+  const next = edges.filter((_, i) => i !== edgeIndex);
+
+  if (!grandparentId) {
+    // Becomes a root, placed right after its former parent (roots are ordered by node order).
+    const rest = nodes.filter((n) => n.id !== id);
+    const self = nodes.find((n) => n.id === id);
+    if (!self) return null;
+    rest.splice(rest.findIndex((n) => n.id === parentId) + 1, 0, self);
+    return { nodes: rest, edges: next };
+  }
+  const parentEdgeAt = next.findIndex((e) => e.source === grandparentId && e.target === parentId);
+  next.splice(parentEdgeAt + 1, 0, { ...oldEdge, source: grandparentId });
+  return { nodes, edges: next };
+}
+
+/** Alt+↑ / Alt+↓: swap the node with its previous / next sibling. */
+export function moveOutlineNode(nodes: Node[], edges: Edge[], id: string, step: -1 | 1): OutlineEdit | null {
+  const tree = getOutlineTree(nodes, edges);
+  const siblings = siblingsOf(tree, id);
+  const index = siblings.indexOf(id);
+  const otherId = siblings[index + step];
+  if (index < 0 || !otherId) return null;
+
+  const parentId = tree.parent.get(id);
+  if (!parentId) {
+    const a = nodes.findIndex((n) => n.id === id);
+    const b = nodes.findIndex((n) => n.id === otherId);
+    const next = [...nodes];
+    [next[a], next[b]] = [next[b], next[a]];
+    return { nodes: next, edges };
+  }
+  const a = edges.findIndex((e) => e.source === parentId && e.target === id);
+  const b = edges.findIndex((e) => e.source === parentId && e.target === otherId);
+  const next = [...edges];
+  [next[a], next[b]] = [next[b], next[a]];
+  return { nodes, edges: next };
+}
+
+/** Delete the node and its subtree, with every edge touching them. */
+export function deleteOutlineNode(nodes: Node[], edges: Edge[], id: string): OutlineEdit & { removedIds: Set<string> } {
+  const tree = getOutlineTree(nodes, edges);
+  const treeEdges = edges.filter((e) => tree.parent.get(e.target) === e.source);
+  const removedIds = getDescendantIds(id, treeEdges);
+  removedIds.add(id);
+  return {
+    nodes: nodes.filter((n) => !removedIds.has(n.id)),
+    edges: edges.filter((e) => !removedIds.has(e.source) && !removedIds.has(e.target)),
+    removedIds,
+  };
+}
+
+/**
+ * Enter: insert an empty node right after `afterId` as its sibling (roots get a first child
+ * instead, so the map keeps a single tree).
+ */
+export function insertOutlineNode(
+  nodes: Node[],
+  edges: Edge[],
+  afterId: string,
+  handles: { sourceHandle: string; targetHandle: string }
+): (OutlineEdit & { newId: string }) | null {
+  const tree = getOutlineTree(nodes, edges);
+  const after = nodes.find((n) => n.id === afterId);
+  if (!after) return null;
+  const parentId = tree.parent.get(afterId) ?? null;
+  const newId = `node-${Date.now()}`;
+  const newNode: Node = {
+    id: newId,
+    type: "mindMap",
+    position: { x: after.position.x, y: after.position.y + 80 },
+    data: { label: "" },
+  };
+
+  if (!parentId) {
+    const edge = createOutlineEdge(afterId, newId, handles);
+    const firstChild = (tree.children.get(afterId) ?? [])[0];
+    const at = firstChild ? edges.findIndex((e) => e.source === afterId && e.target === firstChild) : edges.length;
+    const nextEdges = [...edges];
+    nextEdges.splice(at, 0, edge);
+    return { nodes: [...expandNode(nodes, afterId), newNode], edges: nextEdges, newId };
+  }
+  const nextEdges = [...edges];
+  nextEdges.splice(parentEdgeIndex(edges, tree, afterId) + 1, 0, createOutlineEdge(parentId, newId, handles));
+  return { nodes: [...nodes, newNode], edges: nextEdges, newId };
+}
+
+function expandNode(nodes: Node[], id: string): Node[] {
+  return nodes.map((n) => (n.id === id && n.data?.collapsed ? { ...n, data: { ...n.data, collapsed: false } } : n));
+}
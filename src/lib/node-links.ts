@@ -0,0 +1,108 @@
+/**
+ * Node links (`node.data.link`): an external URL, another project, or a node in a project.
+ * Project links are stored as `project:<projectId>` and node links as
+ * `project:<projectId>#<nodeId>`. Shared by the client (follow, backlinks over local projects)
+ * and /api/backlinks (Postgres documents).
+ */
+
+export type NodeLink =
+  | { kind: "url"; url: string }
+  | { kind: "project"; projectId: string; nodeId?: string };
+
+export interface Backlink {
+  projectId: string;
+  projectName: string;
+  nodeId: string;
+  /** Label of the linking node. */
+  label: string;
+  /** Page of the linking node when the project has several pages. */
+  pageId?: string;
+  pageName?: string;
+}
+
+/** Project content scanned for backlinks; matches both the API document row and the client Project. */
+export interface LinkableProject {
+  id: string;
+  name: string;
+  nodes?: unknown[] | null;
+  pages?: unknown[] | null;
+  activePageId?: string | null;
+}
+
+const PROJECT_LINK_PREFIX = "project:";
+const URL_PATTERN = /^(https?:|mailto:)/i;
+
+export function formatProjectLink(projectId: string, nodeId?: string): string {
+  return `${PROJECT_LINK_PREFIX}${projectId}${nodeId ? `#${nodeId}` : ""}`;
+}
+
+/** The link on a node, or null when unset or not a supported link (e.g. javascript: URLs). */
+export function parseNodeLink(value: unknown): NodeLink | null {
+  if (typeof value !== "string") return null;
+  const link = value.trim();
+  if (URL_PATTERN.test(link)) return { kind: "url", url: link };
+  if (!link.startsWith(PROJECT_LINK_PREFIX)) return null;
+  const [projectId, nodeId] = link.slice(PROJECT_LINK_PREFIX.length).split("#", 2);
+  if (!projectId) return null;
+  return nodeId ? { kind: "project", projectId, nodeId } : { kind: "project", projectId };
+}
+
+/**
+ * Normalize what the user typed into a link field: project links and web / mail URLs are kept,
+ * bare domains get https://. Returns null for anything else.
+ */
+export function normalizeLinkInput(input: string): string | null {
+  const text = input.trim();
+  if (!text) return null;
+  if (parseNodeLink(text)) return text;
+  if (/^[\w-]+(\.[\w-]+)+(:\d+)?(\/\S*)?$/.test(text)) return `https://${text}`;
+  return null;
+}
+
+interface LinkNode {
+  id: string;
+  data?: Record<string, unknown>;
+}
+
+interface LinkPage {
+  id: string;
+  name: string;
+  nodes?: LinkNode[];
+}
+
+function nodeLabel(node: LinkNode): string {
+  const label = node.data?.label;
+  return typeof label === "string" && label.trim() ? label.trim() : "Untitled";
+}
+
+/** Nodes of `project` (every page) whose link points at `nodeId` in `targetProjectId`. */
+export function findProjectBacklinks(project: LinkableProject, targetProjectId: string, nodeId: string): Backlink[] {
+  const backlinks: Backlink[] = [];
+  const scan = (nodes: unknown[] | null | undefined, page?: LinkPage) => {
+    for (const node of (nodes ?? []) as LinkNode[]) {
+      const link = parseNodeLink(node?.data?.link);
+      if (link?.kind !== "project" || link.projectId !== targetProjectId || link.nodeId !== nodeId) continue;
+      backlinks.push({
+        projectId: project.id,
+        projectName: project.name,
+        nodeId: node.id,
+        label: nodeLabel(node),
+        ...(page && { pageId: page.id, pageName: page.name }),
+      });
+    }
+  };
+  const pages = (project.pages ?? []) as LinkPage[];
+  if (pages.length === 0) {
+    scan(project.nodes);
+    return backlinks;
+  }
+  // The active page's canvas is the project's nodes; inactive pages carry their own.
+  const activePage = pages.find((p) => p.id === project.activePageId) ?? pages[0];
+  scan(project.nodes, pages.length > 1 ? activePage : undefined);
+  for (const page of pages) if (page.id !== activePage.id) scan(page.nodes, page);
+  return backlinks;
+}
+
+export function findBacklinks(projects: LinkableProject[], targetProjectId: string, nodeId: string): Backlink[] {
+  return projects.flatMap((p) => findProjectBacklinks(p, targetProjectId, nodeId));
+}
@@ -0,0 +1,188 @@
+/**
+ * Typed custom properties on nodes (`node.data.properties`), e.g. owner, SLA tier or tags, so a
+ * diagram can double as a lightweight inventory. A project may declare a property schema: its
+ * properties are offered on every node, in schema order, with the schema's type and options.
+ * Properties a node has outside the schema keep their own type.
+ */
+
+export type PropertyType = "text" | "number" | "date" | "select" | "owner" | "status" | "tags";
+
+/** Text, owner and select/status options are strings; dates are `YYYY-MM-DD`; tags are a list. */
+export type PropertyValue = string | number | string[];
+
+export interface NodeProperty {
+  key: string;
+  type: PropertyType;
+  value: PropertyValue;
+}
+
+/** A property declared on the project. `options` are the choices of select and status properties. */
+export interface PropertyDefinition {
+  key: string;
+  type: PropertyType;
+  options?: string[];
+}
+
+/** A node property as the inspector shows it: schema properties (possibly unset) first, then the node's own. */
+export interface ResolvedProperty extends NodeProperty {
+  options: string[];
+  inSchema: boolean;
+  isSet: boolean;
+}
+
+/** Search filter on one property; an empty value keeps nodes where the property is set at all. */
+export interface PropertyFilter {
+  key: string;
+  value: string;
+}
+
+export const PROPERTY_TYPES: { type: PropertyType; label: string }[] = [
+  { type: "text", label: "Text" },
+  { type: "number", label: "Number" },
+  { type: "date", label: "Date" },
+  { type: "select", label: "Select" },
+  { type: "owner", label: "Owner" },
+  { type: "status", label: "Status" },
+  { type: "tags", label: "Tags" },
+];
+
+export const DEFAULT_STATUS_OPTIONS = ["Not started", "In progress", "Blocked", "Done"];
+
+const PROPERTY_TYPE_SET = new Set<string>(PROPERTY_TYPES.map((t) => t.type));
+
+export function isPropertyType(value: unknown): value is PropertyType {
+  return typeof value === "string" && PROPERTY_TYPE_SET.has(value);
+}
+
+/** Convert a value to `type`, e.g. when a schema changes a property's type. */
+export function coercePropertyValue(value: unknown, type: PropertyType): PropertyValue {
+  if (type === "tags") {
+    const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+    return [...new Set(list.map((t) => String(t).trim()).filter(Boolean))];
+  }
+  if (type === "number") {
+    if (typeof value === "number") return Number.isFinite(value) ? value : "";
+    const n = Number(typeof value === "string" ? value.trim() : NaN);
+    return typeof value === "string" && value.trim() && Number.isFinite(n) ? n : "";
+  }
+  const text = Array.isArray(value) ? value.join(", ") : value == null ? "" : String(value).trim();
+  if (type === "date") return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : "";
+  return text;
+}
+
+export function isEmptyPropertyValue(value: PropertyValue): boolean {
+  return Array.isArray(value) ? value.length === 0 : value === "";
+}
+
+/** The node's properties, skipping malformed entries (data is user-editable JSON). */
+export function getNodeProperties(data: Record<string, unknown> | undefined): NodeProperty[] {
+  const raw = data?.properties;
+  if (!Array.isArray(raw)) return [];
+  const properties: NodeProperty[] = [];
+  for (const entry of raw as Partial<NodeProperty>[]) {
+    if (!entry || typeof entry.key !== "string" || !entry.key.trim() || !isPropertyType(entry.type)) continue;
+    properties.push({ key: entry.key, type: entry.type, value: coercePropertyValue(entry.value, entry.type) });
+  }
+  return properties;
+}
+
+/** The project schema, skipping malformed or duplicate definitions. */
+export function normalizePropertySchema(schema: unknown): PropertyDefinition[] {
+  if (!Array.isArray(schema)) return [];
+  const seen = new Set<string>();
+  const definitions: PropertyDefinition[] = [];
+  for (const def of schema as Partial<PropertyDefinition>[]) {
+    const key = typeof def?.key === "string" ? def.key.trim() : "";
+    if (!key || seen.has(key.toLowerCase()) || !isPropertyType(def.type)) continue;
+    seen.add(key.toLowerCase());
+    const options = Array.isArray(def.options) ? coercePropertyValue(def.options, "tags") as string[] : [];
+    definitions.push(options.length > 0 ? { key, type: def.type, options } : { key, type: def.type });
+  }
+  return definitions;
+}
+
+function optionsFor(type: PropertyType, definition?: PropertyDefinition): string[] {
+  if (definition?.options?.length) return definition.options;
+  return type === "status" ? DEFAULT_STATUS_OPTIONS : [];
+}
+
+/** Schema properties in schema order (value from the node, coerced to the schema type), then the node's own. */
+export function resolveNodeProperties(properties: NodeProperty[], schema: PropertyDefinition[]): ResolvedProperty[] {
+  const byKey = new Map(properties.map((p) => [p.key, p]));
+  const resolved: ResolvedProperty[] = schema.map((def) => {
+    const own = byKey.get(def.key);
+    const value = own ? coercePropertyValue(own.value, def.type) : coercePropertyValue(undefined, def.type);
+    return { key: def.key, type: def.type, value, options: optionsFor(def.type, def), inSchema: true, isSet: !!own };
+  });
+  const schemaKeys = new Set(schema.map((d) => d.key));
+  for (const p of properties) {
+    if (!schemaKeys.has(p.key)) resolved.push({ ...p, options: optionsFor(p.type), inSchema: false, isSet: true });
+  }
+  return resolved;
+}
+
+/** Set (or add) a property; an empty value removes it, so unset schema properties stay unset. */
+export function setNodeProperty(properties: NodeProperty[], property: NodeProperty): NodeProperty[] {
+  const value = coercePropertyValue(property.value, property.type);
+  const rest = properties.filter((p) => p.key !== property.key);
+  if (isEmptyPropertyValue(value)) return rest;
+  const index = properties.findIndex((p) => p.key === property.key);
+  const next = { key: property.key, type: property.type, value };
+  if (index < 0) return [...rest, next];
+  return [...rest.slice(0, index), next, ...rest.slice(index)];
+}
+
+export function removeNodeProperty(properties: NodeProperty[], key: string): NodeProperty[] {
+  return properties.filter((p) => p.key !== key);
+}
+
+/** The value as plain text (tags comma-separated). */
+export function formatPropertyValue(value: PropertyValue): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+/**
+ * A property read back from text (`key:: value` in a Markdown outline). The type is guessed:
+ * `tags` keys become tags, ISO dates dates, plain numbers numbers, anything else text.
+ */
+export function parsePropertyText(key: string, text: string): NodeProperty | null {
+  const value = text.trim();
+  if (!key || !value) return null;
+  const type: PropertyType =
+    key.toLowerCase() === "tags"
+      ? "tags"
+      : /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? "date"
+        : /^-?\d+(\.\d+)?$/.test(value)
+          ? "number"
+          : "text";
+  return { key, type, value: coercePropertyValue(value, type) };
+}
+
+/** Property keys used on the canvas, schema keys first. */
+export function collectPropertyKeys(nodes: { data?: Record<string, unknown> }[], schema: PropertyDefinition[]): string[] {
+  const keys = new Set(schema.map((d) => d.key));
+  for (const node of nodes) for (const p of getNodeProperties(node.data)) keys.add(p.key);
+  return [...keys];
+}
+
+/** Distinct values of one property across the nodes (each tag counts separately), sorted. */
+export function collectPropertyValues(nodes: { data?: Record<string, unknown> }[], key: string): string[] {
+  const values = new Set<string>();
+  for (const node of nodes) {
+    const property = getNodeProperties(node.data).find((p) => p.key === key);
+    if (!property) continue;
+    for (const v of Array.isArray(property.value) ? property.value : [formatPropertyValue(property.value)]) values.add(v);
+  }
+  return [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/** True when the node has the property and, if the filter names a value, that value (or tag). */
+export function matchesPropertyFilter(properties: NodeProperty[], filter: PropertyFilter): boolean {
+  const property = properties.find((p) => p.key === filter.key);
+  if (!property) return false;
+  if (!filter.value) return true;
+  const wanted = filter.value.toLowerCase();
+  if (Array.isArray(property.value)) return property.value.some((t) => t.toLowerCase() === wanted);
+  return formatPropertyValue(property.value).toLowerCase() === wanted;
+}
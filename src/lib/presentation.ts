@@ -0,0 +1,205 @@
+/**
+ * Presentation slides. A slide is either a frame (a group node: the slide shows the group and
+ * everything inside it) or a set of nodes. With `reveal`, the slide's items appear one per step:
+ * a frame's direct children in reading order, or the slide's nodes in their listed order.
+ * Slides are saved per project (Project.presentation); without saved slides every top-level
+ * group and node becomes one slide, in canvas order.
+ */
+import type { Node, Edge } from "@xyflow/react";
+import { diagramToSvg, type DiagramSvgOptions } from "@/lib/diagram-to-svg";
+
+export type SlideTransition = "smooth" | "zoom" | "none";
+
+export interface PresentationSlide {
+  id: string;
+  /** Group node framing the slide. */
+  frameId?: string;
+  /** Nodes on a node-set slide (empty for frame slides). */
+  nodeIds: string[];
+  /** Overrides the frame / first node label. */
+  title?: string;
+  reveal?: boolean;
+  transition?: SlideTransition;
+}
+
+export interface Presentation {
+  slides: PresentationSlide[];
+}
+
+export const SLIDE_TRANSITIONS: { value: SlideTransition; label: string }[] = [
+  { value: "smooth", label: "Pan" },
+  { value: "zoom", label: "Zoom out / in" },
+  { value: "none", label: "Cut" },
+];
+
+/** Viewport animation per transition: zoom first shows the whole canvas, then the slide. */
+export const TRANSITION_DURATION_MS: Record<SlideTransition, number> = { smooth: 600, zoom: 450, none: 0 };
+
+const EXCLUDED_TYPES = new Set(["freeDraw", "edgeAnchor"]);
+
+export const isPresentable = (n: Node) => !EXCLUDED_TYPES.has(n.type ?? "");
+
+export const getNodeLabel = (n: Node) => (n.data?.label as string) || n.type || "Untitled";
+
+function slideId(): string {
+  return `slide-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createFrameSlide(frameId: string): PresentationSlide {
+  return { id: slideId(), frameId, nodeIds: [] };
+}
+
+export function createNodesSlide(nodeIds: string[]): PresentationSlide {
+  return { id: slideId(), nodeIds };
+}
+
+/** One slide per top-level group (frame) and per top-level node, in canvas order. */
+export function defaultSlides(nodes: Node[]): PresentationSlide[] {
+  return nodes
+    .filter((n) => isPresentable(n) && !n.parentId)
+    .map((n) => (n.type === "group" ? createFrameSlide(n.id) : createNodesSlide([n.id])));
+}
+
+/**
+ * Saved slides with deleted nodes dropped (and slides left empty removed); the default slides
+ * when nothing is saved or nothing survives.
+ */
+export function resolveSlides(saved: PresentationSlide[] | undefined, nodes: Node[]): PresentationSlide[] {
+  const ids = new Set(nodes.filter(isPresentable).map((n) => n.id));
+  const slides = (saved ?? [])
+    .map((s) => (s.frameId ? s : { ...s, nodeIds: s.nodeIds.filter((id) => ids.has(id)) }))
+    .filter((s) => (s.frameId ? ids.has(s.frameId) : s.nodeIds.length > 0));
+  return slides.length > 0 ? slides : defaultSlides(nodes);
+}
+
+function childrenByParent(nodes: Node[]): Map<string, Node[]> {
+  const map = new Map<string, Node[]>();
+  for (const n of nodes) {
+    if (!n.parentId || !isPresentable(n)) continue;
+    const list = map.get(n.parentId) ?? [];
+    list.push(n);
+    map.set(n.parentId, list);
+  }
+  return map;
+}
+
+/** The node and everything nested inside it. */
+function withDescendants(id: string, children: Map<string, Node[]>, into: Set<string>) {
+  if (into.has(id)) return;
+  into.add(id);
+  for (const child of children.get(id) ?? []) withDescendants(child.id, children, into);
+}
+
+/** Items revealed one per step: a frame's direct children top-to-bottom, left-to-right, or the slide's nodes. */
+function revealItems(slide: PresentationSlide, children: Map<string, Node[]>): string[] {
+  if (!slide.frameId) return slide.nodeIds;
+  return [...(children.get(slide.frameId) ?? [])]
+    .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x)
+    .map((n) => n.id);
+}
+
+function collectSlideIds(slide: PresentationSlide, children: Map<string, Node[]>): Set<string> {
+  const ids = new Set<string>();
+  for (const id of slide.frameId ? [slide.frameId] : slide.nodeIds) withDescendants(id, children, ids);
+  return ids;
+}
+
+/** Every node on the slide, fully revealed. */
+export function slideNodeIds(slide: PresentationSlide, nodes: Node[]): string[] {
+  return [...collectSlideIds(slide, childrenByParent(nodes))];
+}
+
+export function slideStepCount(slide: PresentationSlide, nodes: Node[]): number {
+  return slide.reveal ? Math.max(1, revealItems(slide, childrenByParent(nodes)).length) : 1;
+}
+
+export interface SlideView {
+  /** Shown on the slide at this step. */
+  visibleIds: Set<string>;
+  /** On the slide but not revealed yet (hidden). */
+  pendingIds: Set<string>;
+  /** Nodes to fit in the viewport: the whole slide, so reveals don't move the camera. */
+  fitIds: string[];
+}
+
+export function getSlideView(slide: PresentationSlide, step: number, nodes: Node[]): SlideView {
+  const children = childrenByParent(nodes);
+  const all = collectSlideIds(slide, children);
+  if (!slide.reveal) return { visibleIds: all, pendingIds: new Set(), fitIds: [...all] };
+
+  const items = revealItems(slide, children);
+  const visibleIds = new Set<string>(slide.frameId ? [slide.frameId] : []);
+  items.forEach((id, i) => {
+    if (i <= step) withDescendants(id, children, visibleIds);
+  });
+  const pendingIds = new Set([...all].filter((id) => !visibleIds.has(id)));
+  return { visibleIds, pendingIds, fitIds: [...all] };
+}
+
+export function getSlideTitle(slide: PresentationSlide, nodes: Node[]): string {
+  if (slide.title?.trim()) return slide.title.trim();
+  const first = nodes.find((n) => n.id === (slide.frameId ?? slide.nodeIds[0]));
+  const label = first ? getNodeLabel(first) : "Untitled";
+  return slide.nodeIds.length > 1 ? `${label} +${slide.nodeIds.length - 1}` : label;
+}
+
+/** Speaker notes: the frame's note, or the notes of the slide's nodes in order. */
+export function getSpeakerNotes(slide: PresentationSlide, nodeNotes: Record<string, string>): string {
+  const ids = slide.frameId ? [slide.frameId] : slide.nodeIds;
+  return ids
+    .map((id) => nodeNotes[id]?.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Standalone SVG of the fully revealed slide (presenter preview, PDF pages). */
+export function slideToSvg(
+  slide: PresentationSlide,
+  nodes: Node[],
+  edges: Edge[],
+  options: Omit<DiagramSvgOptions, "nodeIds"> = {}
+): string {
+  return diagramToSvg(nodes, edges, { ...options, nodeIds: slideNodeIds(slide, nodes) });
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Print-ready HTML with one landscape page per slide (title + slide image). Printed with the
+ * browser's "Save as PDF".
+ */
+export function slidesToPrintHtml(
+  slides: PresentationSlide[],
+  nodes: Node[],
+  edges: Edge[],
+  title: string,
+  options: Omit<DiagramSvgOptions, "nodeIds"> = {}
+): string {
+  const pages = slides
+    .map(
+      (slide, i) => `<section class="slide">
+  <header><h1>${escapeHtml(getSlideTitle(slide, nodes))}</h1><span>${i + 1} / ${slides.length}</span></header>
+  <div class="canvas">${slideToSvg(slide, nodes, edges, options)}</div>
+</section>`
+    )
+    .join("\n");
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+  @page { size: landscape; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2937; }
+  .slide { height: calc(100vh - 1px); display: flex; flex-direction: column; page-break-after: always; break-after: page; }
+  .slide:last-child { page-break-after: auto; break-after: auto; }
+  header { display: flex; align-items: baseline; justify-content: space-between; margin-bottom: 8mm; }
+  h1 { margin: 0; font-size: 20pt; }
+  header span { font-size: 10pt; color: #6b7280; }
+  .canvas { flex: 1; min-height: 0; display: flex; align-items: center; justify-content: center; }
+  .canvas svg { width: 100%; height: 100%; }
+</style></head>
+<body>
+${pages}
+</body></html>`;
+}
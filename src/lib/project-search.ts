@@ -0,0 +1,222 @@
+/**
+ * Full-text search across whole projects (every page), shared by /api/search (Postgres documents) and the
+ * client (localStorage projects). Matching is a case-insensitive substring test; every match
+ * carries a short snippet around the hit.
+ */
+
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import { formatPropertyValue, getNodeProperties } from "@/lib/node-properties";
+
+export type SearchMatchKind = "label" | "note" | "task" | "column" | "property" | "edge" | "excalidraw" | "drawio";
+
+export interface ProjectSearchMatch {
+  kind: SearchMatchKind;
+  /** Canvas node to focus (label, note, task, column, property and edge matches). */
+  nodeId?: string;
+  edgeId?: string;
+  /** Label of the node or edge the match belongs to, for context. */
+  context?: string;
+  snippet: string;
+  /** Offset and length of the hit inside `snippet`, for highlighting. */
+  highlight: [number, number];
+}
+
+export interface ProjectSearchResult {
+  projectId: string;
+  projectName: string;
+  updatedAt: number;
+  /** True when the project had more matches than were returned. */
+  truncated: boolean;
+  matches: ProjectSearchMatch[];
+}
+
+/** Project content the search reads; matches both the API document row and the client Project. */
+export interface SearchableProject {
+  id: string;
+  name: string;
+  updatedAt?: number;
+  /** Canvas of the active page; inactive pages carry their own in `pages`. */
+  nodes?: unknown[] | null;
+  edges?: unknown[] | null;
+  pages?: unknown[] | null;
+  activePageId?: string | null;
+  nodeNotes?: Record<string, string> | null;
+  nodeTasks?: Record<string, unknown> | null;
+  excalidrawData?: { elements?: unknown[] } | null;
+  drawioData?: string | null;
+}
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+export const MAX_MATCHES_PER_PROJECT = 20;
+
+const SNIPPET_RADIUS = 40;
+
+interface SearchNode {
+  id: string;
+  type?: string;
+  data?: Record<string, unknown>;
+}
+
+interface SearchEdge {
+  id: string;
+  source: string;
+  target: string;
+  data?: Record<string, unknown>;
+  label?: unknown;
+}
+
+interface SearchPage {
+  id: string;
+  nodes?: unknown[];
+  edges?: unknown[];
+}
+
+/** Nodes and edges of every page (the project's own canvas is the active page's). */
+function allPagesContent(project: SearchableProject): { nodes: SearchNode[]; edges: SearchEdge[] } {
+  const nodes = [...(Array.isArray(project.nodes) ? project.nodes : [])];
+  const edges = [...(Array.isArray(project.edges) ? project.edges : [])];
+  const pages = (Array.isArray(project.pages) ? project.pages : []) as SearchPage[];
+  const activePage = pages.find((p) => p?.id === project.activePageId) ?? pages[0];
+  for (const page of pages) {
+    if (!page || page === activePage) continue;
+    if (Array.isArray(page.nodes)) nodes.push(...page.nodes);
+    if (Array.isArray(page.edges)) edges.push(...page.edges);
+  }
+  return { nodes: nodes as SearchNode[], edges: edges as SearchEdge[] };
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/** Text around the hit at `index`, collapsed to one line, with "…" where it was cut. */
+export function makeSnippet(text: string, index: number, length: number): { snippet: string; highlight: [number, number] } {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const before = text.slice(start, index).replace(/\s+/g, " ");
+  const hit = text.slice(index, index + length).replace(/\s+/g, " ");
+  const after = text.slice(index + length, end).replace(/\s+/g, " ");
+  return { snippet: `${prefix}${before}${hit}${after}${suffix}`, highlight: [prefix.length + before.length, hit.length] };
+}
+
+function decodeXmlEntities(s: string): string {
+  return s
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&amp;/g, "&");
+}
+
+/** Labels of the cells in uncompressed Draw.io XML (value/label attributes, HTML stripped). */
+function drawioCellTexts(xml: string): { id: string; text: string }[] {
+  const cells: { id: string; text: string }[] = [];
+  for (const [tag] of xml.matchAll(/<(?:mxCell|UserObject|object)\b[^>]*>/g)) {
+    const raw = /\s(?:value|label)="([^"]*)"/.exec(tag)?.[1];
+    if (!raw) continue;
+    const text = decodeXmlEntities(decodeXmlEntities(raw).replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, " ")).trim();
+    if (text) cells.push({ id: /\sid="([^"]*)"/.exec(tag)?.[1] ?? "", text });
+  }
+  return cells;
+}
+
+/** Matches of `query` in one project, at most `limit`; `truncated` is set when more exist. */
+export function searchProject(
+  project: SearchableProject,
+  query: string,
+  limit = MAX_MATCHES_PER_PROJECT
+): { matches: ProjectSearchMatch[]; truncated: boolean } {
+  const q = query.trim().toLowerCase();
+  const matches: ProjectSearchMatch[] = [];
+  let truncated = false;
+  if (q.length < MIN_SEARCH_QUERY_LENGTH) return { matches, truncated };
+
+  const add = (text: string, match: Omit<ProjectSearchMatch, "snippet" | "highlight">): boolean => {
+    const index = text.toLowerCase().indexOf(q);
+    if (index < 0) return false;
+    if (matches.length >= limit) {
+      truncated = true;
+      return true;
+    }
+    matches.push({ ...match, ...makeSnippet(text, index, q.length) });
+    return false;
+  };
+
+  const { nodes, edges } = allPagesContent(project);
+  const labels = new Map<string, string>();
+  for (const node of nodes) {
+    if (node && typeof node.id === "string") labels.set(node.id, asString(node.data?.label) || "Untitled");
+  }
+
+  for (const node of nodes) {
+    if (!node || typeof node.id !== "string") continue;
+    const context = labels.get(node.id);
+    if (add(asString(node.data?.label), { kind: "label", nodeId: node.id, context })) break;
+    const columns = Array.isArray(node.data?.columns) ? (node.data.columns as SchemaColumn[]) : [];
+    for (const column of columns) {
+      if (add(asString(column?.name), { kind: "column", nodeId: node.id, context })) break;
+    }
+    if (truncated) break;
+    for (const property of getNodeProperties(node.data)) {
+      const text = `${property.key}: ${formatPropertyValue(property.value)}`;
+      if (add(text, { kind: "property", nodeId: node.id, context })) break;
+    }
+    if (truncated) break;
+  }
+
+  for (const [nodeId, note] of Object.entries(project.nodeNotes ?? {})) {
+    if (truncated || !labels.has(nodeId)) continue;
+    if (add(asString(note), { kind: "note", nodeId, context: labels.get(nodeId) })) break;
+  }
+
+  for (const [nodeId, tasks] of Object.entries(project.nodeTasks ?? {})) {
+    if (truncated || !labels.has(nodeId) || !Array.isArray(tasks)) continue;
+    for (const task of tasks as { text?: unknown }[]) {
+      if (add(asString(task?.text), { kind: "task", nodeId, context: labels.get(nodeId) })) break;
+    }
+  }
+
+  for (const edge of edges) {
+    if (truncated) break;
+    if (!edge || typeof edge.id !== "string") continue;
+    const label = asString(edge.data?.label) || asString(edge.label);
+    const context = `${labels.get(edge.source) ?? "?"} → ${labels.get(edge.target) ?? "?"}`;
+    if (add(label, { kind: "edge", edgeId: edge.id, nodeId: edge.source, context })) break;
+  }
+
+  const elements = Array.isArray(project.excalidrawData?.elements) ? project.excalidrawData.elements : [];
+  for (const el of elements as { type?: string; text?: unknown; isDeleted?: boolean }[]) {
+    if (truncated) break;
+    if (el?.type !== "text" || el.isDeleted) continue;
+    if (add(asString(el.text), { kind: "excalidraw" })) break;
+  }
+
+  if (!truncated && project.drawioData) {
+    for (const cell of drawioCellTexts(project.drawioData)) {
+      if (add(cell.text, { kind: "drawio" })) break;
+    }
+  }
+
+  return { matches, truncated };
+}
+
+/** Search many projects; only projects with matches are returned, most recently updated first. */
+export function searchProjects(projects: SearchableProject[], query: string): ProjectSearchResult[] {
+  const results: ProjectSearchResult[] = [];
+  for (const project of projects) {
+    const { matches, truncated } = searchProject(project, query);
+    if (matches.length === 0) continue;
+    results.push({
+      projectId: project.id,
+      projectName: project.name,
+      updatedAt: project.updatedAt ?? 0,
+      truncated,
+      matches,
+    });
+  }
+  return results.sort((a, b) => b.updatedAt - a.updatedAt);
+}
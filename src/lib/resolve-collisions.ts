@@ -1,4 +1,5 @@
 import type { Node } from "@xyflow/react";
+import { createSpatialIndex, cellSizeFor } from "@/lib/spatial-index";
 
 const DEFAULT_NODE_WIDTH = 150;
 const DEFAULT_NODE_HEIGHT = 50;
@@ -40,6 +41,8 @@ export interface ResolveCollisionsOptions {
   maxIterations?: number;
   overlapThreshold?: number;
   margin?: number;
+  /** Ids of nodes that never move: the other node of an overlapping pair is pushed the whole way. */
+  fixedIds?: string[];
 }
 
 type Box = {
@@ -97,28 +100,38 @@ function getBoxesFromNodes(nodes: Node[], margin = 0): Box[] {
 /**
  * Resolves node overlaps by pushing overlapping nodes apart.
  * Matches the algorithm from React Flow's node-collisions example; resolves along
- * the axis with smallest overlap so related nodes stay closer.
+ * the axis with smallest overlap so related nodes stay closer. Overlap candidates come
+ * from a spatial index, so each pass is close to linear in the node count.
  * @see https://reactflow.dev/examples/layout/node-collisions
  */
 export function resolveCollisions(
   nodes: Node[],
-  options: ResolveCollisionsOptions | CollisionAlgorithmOptions = {}
+  options: ResolveCollisionsOptions = {}
 ): Node[] {
   const maxIterations = options.maxIterations ?? 50;
   const overlapThreshold = options.overlapThreshold ?? 0.5;
   const margin = options.margin ?? 0;
+  const fixedIds = new Set(options.fixedIds);
 
   if (nodes.length < 2) return nodes;
 
   const boxes = getBoxesFromNodes(nodes, margin);
+  // Boxes are indexed by position in `boxes`; each box only checks the boxes near it.
+  const index = createSpatialIndex<number>(cellSizeFor(boxes));
+  boxes.forEach((box, i) => index.insert(i, box));
 
   for (let iter = 0; iter <= maxIterations; iter++) {
     let moved = false;
 
     for (let i = 0; i < boxes.length; i++) {
-      for (let j = i + 1; j < boxes.length; j++) {
-        const A = boxes[i];
+      const A = boxes[i];
+      const neighbours = index.search(A).sort((a, b) => a - b);
+      for (const j of neighbours) {
+        if (j <= i) continue;
         const B = boxes[j];
+        const fixedA = fixedIds.has(A.node.id);
+        const fixedB = fixedIds.has(B.node.id);
+        if (fixedA && fixedB) continue;
 
         const centerAX = A.x + A.width * 0.5;
         const centerAY = A.y + A.height * 0.5;
@@ -132,18 +145,23 @@ export function resolveCollisions(
         const py = (A.height + B.height) * 0.5 - Math.abs(dy);
 
         if (px > overlapThreshold && py > overlapThreshold) {
-          A.moved = B.moved = moved = true;
+          moved = true;
+          A.moved ||= !fixedA;
+          B.moved ||= !fixedB;
+          // Split the push between both boxes, or give it all to the one that may move.
+          const shareA = fixedA ? 0 : fixedB ? 1 : 0.5;
+          const shareB = 1 - shareA;
           if (px < py) {
             const sx = dx > 0 ? 1 : -1;
-            const moveAmount = (px / 2) * sx;
-            A.x += moveAmount;
-            B.x -= moveAmount;
+            A.x += px * sx * shareA;
+            B.x -= px * sx * shareB;
           } else {
             const sy = dy > 0 ? 1 : -1;
-            const moveAmount = (py / 2) * sy;
-            A.y += moveAmount;
-            B.y -= moveAmount;
+            A.y += py * sy * shareA;
+            B.y -= py * sy * shareB;
           }
+          index.insert(i, A);
+          index.insert(j, B);
         }
       }
     }
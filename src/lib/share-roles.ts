@@ -0,0 +1,34 @@
+/**
+ * Share link roles, shared by the API routes and the client.
+ *
+ * viewer    – read the diagram and its notes
+ * commenter – viewer + comment
+ * editor    – commenter + change the content (must be signed in)
+ */
+
+export const SHARE_ROLES = ["viewer", "commenter", "editor"] as const;
+
+export type ShareRole = (typeof SHARE_ROLES)[number];
+
+/** Access level on a document: the owner, or the role of the share link used. */
+export type DocumentRole = ShareRole | "owner";
+
+/** Request header that carries a share token to the /api/projects routes. */
+export const SHARE_TOKEN_HEADER = "x-share-token";
+
+export const SHARE_ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: "Can view",
+  commenter: "Can comment",
+  editor: "Can edit",
+};
+
+const ROLE_RANK: Record<DocumentRole, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 };
+
+export function isShareRole(value: unknown): value is ShareRole {
+  return typeof value === "string" && (SHARE_ROLES as readonly string[]).includes(value);
+}
+
+/** True when `role` grants at least what `required` does. */
+export function roleAtLeast(role: DocumentRole, required: DocumentRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,129 @@
+/**
+ * Uniform-grid spatial index for rectangles (node boxes, edge segment bounds). Items are keyed
+ * by id so they can be moved or removed as positions change; `search` returns the ids of items
+ * whose rectangle intersects the query, so pairwise checks only look at nearby items instead
+ * of every item on the canvas.
+ */
+
+export interface SpatialRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SpatialIndex<K> {
+  /** Add an item, or move it if the id is already indexed. */
+  insert: (id: K, rect: SpatialRect) => void;
+  remove: (id: K) => void;
+  has: (id: K) => boolean;
+  /** Ids of items whose rectangle intersects `rect` (edges touching count), in insertion order per cell. */
+  search: (rect: SpatialRect) => K[];
+  clear: () => void;
+  readonly size: number;
+}
+
+/** Default cell size (px): a few typical nodes per cell. */
+export const DEFAULT_SPATIAL_CELL_SIZE = 256;
+
+// Cell coordinates are packed into one number; offsetting keeps them positive for ±2^20 cells.
+const CELL_OFFSET = 1 << 20;
+const CELL_STRIDE = 1 << 21;
+
+function cellKey(cx: number, cy: number): number {
+  return (cx + CELL_OFFSET) * CELL_STRIDE + (cy + CELL_OFFSET);
+}
+
+export function rectsIntersect(a: SpatialRect, b: SpatialRect): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+export function createSpatialIndex<K>(cellSize = DEFAULT_SPATIAL_CELL_SIZE): SpatialIndex<K> {
+  const cells = new Map<number, K[]>();
+  const items = new Map<K, { rect: SpatialRect; keys: number[] }>();
+
+  const cellKeysFor = (rect: SpatialRect): number[] => {
+    const minX = Math.floor(rect.x / cellSize);
+    const minY = Math.floor(rect.y / cellSize);
+    const maxX = Math.floor((rect.x + Math.max(0, rect.width)) / cellSize);
+    const maxY = Math.floor((rect.y + Math.max(0, rect.height)) / cellSize);
+    const keys: number[] = [];
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) keys.push(cellKey(cx, cy));
+    }
+    return keys;
+  };
+
+  const remove = (id: K) => {
+    const item = items.get(id);
+    if (!item) return;
+    for (const key of item.keys) {
+      const cell = cells.get(key);
+      if (!cell) continue;
+      const i = cell.indexOf(id);
+      if (i !== -1) cell.splice(i, 1);
+      if (cell.length === 0) cells.delete(key);
+    }
+    items.delete(id);
+  };
+
+  const insert = (id: K, rect: SpatialRect) => {
+    const existing = items.get(id);
+    const keys = cellKeysFor(rect);
+    if (existing && existing.keys.length === keys.length && existing.keys.every((k, i) => k === keys[i])) {
+      // Still in the same cells: only the stored rectangle changes.
+      existing.rect = { ...rect };
+      return;
+    }
+    if (existing) remove(id);
+    for (const key of keys) {
+      const cell = cells.get(key);
+      if (cell) cell.push(id);
+      else cells.set(key, [id]);
+    }
+    items.set(id, { rect: { ...rect }, keys });
+  };
+
+  const search = (rect: SpatialRect): K[] => {
+    const found: K[] = [];
+    const seen = new Set<K>();
+    for (const key of cellKeysFor(rect)) {
+      const cell = cells.get(key);
+      if (!cell) continue;
+      for (const id of cell) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        if (rectsIntersect(items.get(id)!.rect, rect)) found.push(id);
+      }
+    }
+    return found;
+  };
+
+  return {
+    insert,
+    remove,
+    has: (id) => items.has(id),
+    search,
+    clear: () => {
+      cells.clear();
+      items.clear();
+    },
+    get size() {
+      return items.size;
+    },
+  };
+}
+
+/**
+ * Cell size for indexing the given rectangles: about twice the average size, so most items
+ * span one to four cells whatever the diagram's scale.
+ */
+export function cellSizeFor(rects: Iterable<SpatialRect>): number {
+  let total = 0;
+  let count = 0;
+  for (const r of rects) {
+    total += Math.max(r.width, r.height);
+    count++;
+  }
+  return count > 0 ? Math.max(32, (total / count) * 2) : DEFAULT_SPATIAL_CELL_SIZE;
+}
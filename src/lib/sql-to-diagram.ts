@@ -0,0 +1,385 @@
+/**
+ * Import SQL DDL (Postgres / MySQL CREATE TABLE scripts) as databaseSchema nodes.
+ * One node per table with its columns, types and PK/FK keys; foreign keys
+ * (inline REFERENCES, table-level FOREIGN KEY, ALTER TABLE ... ADD FOREIGN KEY)
+ * become edges wired to the referencing and referenced column handles.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import type { SchemaColumn } from "@/components/nodes/DatabaseSchemaNode";
+import { CUSTOM_MARKER_IDS } from "@/components/edges/CustomMarkerDefs";
+import { getLayoutedElements } from "@/lib/layout-engine";
+import { getSchemaColumnHandleIds, getSchemaNodeHeight, SCHEMA_NODE_WIDTH } from "@/lib/database-schema";
+
+interface SqlTable {
+  id: string;
+  label: string;
+  columns: SchemaColumn[];
+  /** Lowercased column names that are NOT NULL / UNIQUE on their own (for FK cardinality). */
+  notNull: Set<string>;
+  unique: Set<string>;
+}
+
+interface SqlForeignKey {
+  tableId: string;
+  columns: string[];
+  refTable: string;
+  /** Empty when the DDL omits them (`REFERENCES users`): resolved to the referenced primary key. */
+  refColumns: string[];
+}
+
+/** Schemas that are implied when a name is unqualified, so `public.users` and `users` match. */
+const DEFAULT_SCHEMAS = new Set(["public", "dbo", "main"]);
+
+const IDENT = String.raw`(?:"(?:[^"]|"")+"|\x60[^\x60]+\x60|\[[^\]]+\]|[\w$]+)`;
+const QUALIFIED = String.raw`${IDENT}(?:\s*\.\s*${IDENT})*`;
+
+const CREATE_TABLE_RE = new RegExp(
+  String.raw`^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+|UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(${QUALIFIED})\s*\(`,
+  "i"
+);
+const ALTER_TABLE_RE = new RegExp(String.raw`^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?(${QUALIFIED})\s+([\s\S]+)$`, "i");
+const CONSTRAINT_PREFIX = String.raw`^(?:CONSTRAINT\s+${IDENT}\s+)?`;
+const PRIMARY_KEY_RE = new RegExp(String.raw`${CONSTRAINT_PREFIX}PRIMARY\s+KEY\s*(?:${IDENT}\s*)?\(([^)]*)\)`, "i");
+const FOREIGN_KEY_RE = new RegExp(
+  String.raw`${CONSTRAINT_PREFIX}FOREIGN\s+KEY\s*(?:${IDENT}\s*)?\(([^)]*)\)\s*REFERENCES\s+(${QUALIFIED})\s*(?:\(([^)]*)\))?`,
+  "i"
+);
+const UNIQUE_RE = new RegExp(String.raw`${CONSTRAINT_PREFIX}UNIQUE\s*(?:(?:KEY|INDEX)\s*)?(?:${IDENT}\s*)?\(([^)]*)\)`, "i");
+const OTHER_CONSTRAINT_RE = new RegExp(
+  String.raw`${CONSTRAINT_PREFIX}(?:CHECK|EXCLUDE)\b|^(?:KEY|INDEX)\s+(?:${IDENT}\s*)?\(|^(?:FULLTEXT|SPATIAL)\b|^LIKE\s`,
+  "i"
+);
+const REFERENCES_RE = new RegExp(String.raw`^REFERENCES\s+(${QUALIFIED})\s*(?:\(([^)]*)\))?`, "i");
+/** Column attributes that end the type, e.g. `varchar(40) NOT NULL DEFAULT ''`. */
+const COLUMN_ATTRIBUTE_RE =
+  /\s(?:CONSTRAINT|NOT|NULL|DEFAULT|PRIMARY|REFERENCES|UNIQUE|CHECK|COLLATE|GENERATED|AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|COMMENT|ON\s+UPDATE|CHARACTER\s+SET|CHARSET|UNSIGNED|SIGNED|ZEROFILL|INVISIBLE|VISIBLE|AS)\b/i;
+
+/** SQL type spellings → the COMMON_SCHEMA_TYPES name used by the schema node picker. */
+const TYPE_ALIASES: Record<string, string> = {
+  int: "int4",
+  integer: "int4",
+  int4: "int4",
+  mediumint: "int4",
+  bigint: "int8",
+  int8: "int8",
+  serial: "serial",
+  serial4: "serial",
+  "double precision": "float8",
+  double: "float8",
+  float8: "float8",
+  bool: "boolean",
+  boolean: "boolean",
+  timestamp: "timestamp",
+  "timestamp without time zone": "timestamp",
+  datetime: "timestamp",
+  datetime2: "timestamp",
+  timestamptz: "timestamptz",
+  "timestamp with time zone": "timestamptz",
+  varchar: "varchar",
+  "character varying": "varchar",
+  nvarchar: "varchar",
+  text: "text",
+  tinytext: "text",
+  mediumtext: "text",
+  longtext: "text",
+  uuid: "uuid",
+  uniqueidentifier: "uuid",
+  date: "date",
+  money: "money",
+  jsonb: "jsonb",
+};
+
+/* ─── Scanning helpers ─── */
+
+/**
+ * Walk `sql` and call `visit` for every character outside string literals, quoted identifiers,
+ * dollar-quoted bodies and comments, with the current parenthesis depth. Returns the text with
+ * comments removed.
+ */
+function scanSql(sql: string, visit?: (index: number, depth: number) => void): string {
+  let out = "";
+  let depth = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    if (ch === "-" && next === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end < 0 ? sql.length : end + 2;
+      out += " ";
+      continue;
+    }
+    if (ch === "#" && (i === 0 || sql[i - 1] === "\n")) {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      continue;
+    }
+    const dollar = ch === "$" ? sql.slice(i).match(/^\$[A-Za-z_]*\$/) : null;
+    if (ch === "'" || ch === '"' || ch === "`" || ch === "[" || dollar) {
+      const close = dollar ? dollar[0] : ch === "[" ? "]" : ch;
+      let end = sql.indexOf(close, i + (dollar ? close.length : 1));
+      // '' / "" inside a literal is an escaped quote, not the end.
+      while (end >= 0 && !dollar && ch !== "[" && sql[end + 1] === close) end = sql.indexOf(close, end + 2);
+      const stop = end < 0 ? sql.length : end + close.length;
+      out += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    out += ch;
+    if (ch === "(") depth++;
+    visit?.(out.length - 1, depth);
+    if (ch === ")") depth--;
+    i++;
+  }
+  return out;
+}
+
+/** Split on `separator` at parenthesis depth 0, ignoring separators inside quotes. Input must be comment-free. */
+function splitTopLevel(text: string, separator: ";" | ","): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  scanSql(text, (index, depth) => {
+    if (depth === 0 && text[index] === separator) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  });
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** Index of the parenthesis closing the one at `open`, or -1. */
+function matchingParen(text: string, open: number): number {
+  let close = -1;
+  scanSql(text.slice(open), (index, depth) => {
+    if (close < 0 && depth === 1 && text[open + index] === ")") close = open + index;
+  });
+  return close;
+}
+
+/** Replace quoted and parenthesised content with underscores so keyword searches only see the top level. */
+function maskNested(text: string): string {
+  const chars = text.split("").map(() => "_");
+  scanSql(text, (index, depth) => {
+    if (depth === 0 || (depth === 1 && text[index] === "(")) chars[index] = text[index];
+  });
+  return chars.join("");
+}
+
+function unquote(ident: string): string {
+  const t = ident.trim();
+  if (t.startsWith('"') && t.endsWith('"')) return t.slice(1, -1).replace(/""/g, '"');
+  if ((t.startsWith("`") && t.endsWith("`")) || (t.startsWith("[") && t.endsWith("]"))) return t.slice(1, -1);
+  return t;
+}
+
+/** `"Public".users` → ["Public", "users"]. */
+function splitQualified(name: string): string[] {
+  return (name.match(new RegExp(IDENT, "g")) ?? []).map(unquote);
+}
+
+/** Lookup key for a table name: lowercased, default schema dropped. */
+function tableKey(name: string): string {
+  const parts = splitQualified(name);
+  if (parts.length > 1 && DEFAULT_SCHEMAS.has(parts[0].toLowerCase())) parts.shift();
+  return parts.join(".").toLowerCase();
+}
+
+function tableLabel(name: string): string {
+  const parts = splitQualified(name);
+  if (parts.length > 1 && DEFAULT_SCHEMAS.has(parts[0].toLowerCase())) parts.shift();
+  return parts.join(".");
+}
+
+/** `a, "B" DESC, c(10)` → ["a", "B", "c"]. */
+function identList(list: string | undefined): string[] {
+  if (!list) return [];
+  return list
+    .split(",")
+    .map((part) => part.trim().match(new RegExp(`^${IDENT}`))?.[0])
+    .filter((part): part is string => !!part)
+    .map(unquote);
+}
+
+/** Normalise a column type to the schema node's vocabulary; unknown types pass through as written. */
+export function normalizeSqlType(raw: string): string {
+  const collapsed = raw.replace(/\s+/g, " ").trim();
+  const arrayMatch = collapsed.match(/(?:\s*\[\d*\])+$/);
+  const arraySuffix = arrayMatch ? arrayMatch[0].replace(/\s+/g, "") : "";
+  const core = collapsed
+    .slice(0, collapsed.length - (arrayMatch?.[0].length ?? 0))
+    .replace(new RegExp(IDENT, "g"), (m) => (/^["`[]/.test(m) ? unquote(m) : m));
+  const params = core.match(/\(([^)]*)\)/)?.[1]?.replace(/\s+/g, "");
+  const base = core.replace(/\s*\([^)]*\)/g, "").trim().toLowerCase();
+  if (base === "tinyint" && params === "1") return `boolean${arraySuffix}`;
+  const alias = TYPE_ALIASES[base];
+  if (!alias) return `${core}${arraySuffix}`;
+  if (alias === "varchar" && params) return `varchar(${params})${arraySuffix}`;
+  return `${alias}${arraySuffix}`;
+}
+
+/* ─── Statement parsing ─── */
+
+function addPrimaryKey(table: SqlTable, names: string[]) {
+  for (const name of names) {
+    const col = table.columns.find((c) => c.name.toLowerCase() === name.toLowerCase());
+    if (col) col.key = "PK";
+    if (names.length === 1) table.unique.add(name.toLowerCase());
+    table.notNull.add(name.toLowerCase());
+  }
+}
+
+/** Parse one column definition; returns a foreign key when it has an inline REFERENCES clause. */
+function parseColumn(table: SqlTable, def: string): SqlForeignKey | null {
+  const nameMatch = def.match(new RegExp(`^(${IDENT})\\s+`));
+  if (!nameMatch) return null;
+  const name = unquote(nameMatch[1]);
+  const rest = ` ${def.slice(nameMatch[0].length)}`;
+  const masked = maskNested(rest);
+  const typeEnd = masked.search(COLUMN_ATTRIBUTE_RE);
+  const attributes = typeEnd < 0 ? "" : masked.slice(typeEnd);
+  const column: SchemaColumn = { name, type: normalizeSqlType(typeEnd < 0 ? rest : rest.slice(0, typeEnd)), key: "" };
+  table.columns.push(column);
+  const lower = name.toLowerCase();
+  if (/\bNOT\s+NULL\b/i.test(attributes)) table.notNull.add(lower);
+  if (/\bUNIQUE\b/i.test(attributes)) table.unique.add(lower);
+  if (/\bPRIMARY\s+KEY\b/i.test(attributes)) addPrimaryKey(table, [name]);
+
+  const refIndex = masked.search(/\bREFERENCES\s/i);
+  if (refIndex < 0) return null;
+  const ref = rest.slice(refIndex).match(REFERENCES_RE);
+  if (!ref) return null;
+  return { tableId: table.id, columns: [name], refTable: ref[1], refColumns: identList(ref[2]) };
+}
+
+/** Table-level constraint or column definition inside CREATE TABLE (...) or ALTER TABLE ADD. */
+function parseTableItem(table: SqlTable, item: string, foreignKeys: SqlForeignKey[]) {
+  const fk = item.match(FOREIGN_KEY_RE);
+  if (fk) {
+    foreignKeys.push({ tableId: table.id, columns: identList(fk[1]), refTable: fk[2], refColumns: identList(fk[3]) });
+    return;
+  }
+  const pk = item.match(PRIMARY_KEY_RE);
+  if (pk) {
+    addPrimaryKey(table, identList(pk[1]));
+    return;
+  }
+  const unique = item.match(UNIQUE_RE);
+  if (unique) {
+    const cols = identList(unique[1]);
+    if (cols.length === 1) table.unique.add(cols[0].toLowerCase());
+    return;
+  }
+  if (OTHER_CONSTRAINT_RE.test(item)) return;
+  const inlineFk = parseColumn(table, item);
+  if (inlineFk) foreignKeys.push(inlineFk);
+}
+
+/* ─── Entry points ─── */
+
+/**
+ * Parse a DDL script into databaseSchema nodes (no positions yet) and foreign key edges.
+ * Statements other than CREATE TABLE / ALTER TABLE are ignored.
+ * Throws an Error when the script contains no CREATE TABLE statement.
+ */
+export function parseSqlDdl(sql: string): { nodes: Node[]; edges: Edge[] } {
+  const tables = new Map<string, SqlTable>();
+  const foreignKeys: SqlForeignKey[] = [];
+
+  for (const statement of splitTopLevel(scanSql(sql), ";")) {
+    const create = statement.match(CREATE_TABLE_RE);
+    if (create) {
+      const key = tableKey(create[1]);
+      const open = create[0].length - 1;
+      const close = matchingParen(statement, open);
+      const table: SqlTable = {
+        id: key,
+        label: tableLabel(create[1]),
+        columns: [],
+        notNull: new Set(),
+        unique: new Set(),
+      };
+      tables.set(key, table);
+      const body = statement.slice(open + 1, close < 0 ? undefined : close);
+      for (const item of splitTopLevel(body, ",")) parseTableItem(table, item, foreignKeys);
+      continue;
+    }
+    const alter = statement.match(ALTER_TABLE_RE);
+    const table = alter ? tables.get(tableKey(alter[1])) : undefined;
+    if (!alter || !table) continue;
+    for (const action of splitTopLevel(alter[2], ",")) {
+      const add = action.match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i);
+      if (add) parseTableItem(table, add[1], foreignKeys);
+    }
+  }
+  if (tables.size === 0) throw new Error("No CREATE TABLE statements found.");
+
+  const findColumn = (table: SqlTable, name: string) => {
+    const index = table.columns.findIndex((c) => c.name.toLowerCase() === name.toLowerCase());
+    return index < 0 ? null : { index, col: table.columns[index] };
+  };
+
+  const edges: Edge[] = [];
+  for (const fk of foreignKeys) {
+    const table = tables.get(fk.tableId)!;
+    for (const name of fk.columns) {
+      const found = findColumn(table, name);
+      if (found && found.col.key !== "PK") found.col.key = "FK";
+    }
+    const refKey = tableKey(fk.refTable);
+    const refTable = tables.get(refKey) ?? [...tables.values()].find((t) => t.id.split(".").pop() === refKey.split(".").pop());
+    if (!refTable) continue;
+    const refColumns = fk.refColumns.length > 0 ? fk.refColumns : refTable.columns.filter((c) => c.key === "PK").map((c) => c.name);
+    const from = fk.columns[0] ? findColumn(table, fk.columns[0]) : null;
+    const to = refColumns[0] ? findColumn(refTable, refColumns[0]) : null;
+
+    // Crow's foot: the referencing side is "many" unless the FK is unique; the referenced
+    // side is mandatory when the FK columns are NOT NULL.
+    const single = fk.columns.length === 1 ? fk.columns[0].toLowerCase() : null;
+    const isUnique = !!single && table.unique.has(single);
+    const isRequired = fk.columns.every((c) => table.notNull.has(c.toLowerCase()));
+    edges.push({
+      id: `fk-${table.id}-${fk.columns.join("-")}-${refTable.id}-${edges.length}`,
+      source: table.id,
+      target: refTable.id,
+      ...(from && { sourceHandle: getSchemaColumnHandleIds(from.index, from.col).source }),
+      ...(to && { targetHandle: getSchemaColumnHandleIds(to.index, to.col).target }),
+      type: "labeledConnector",
+      data: {
+        connectorType: "smoothstep",
+        markerStart: isUnique ? CUSTOM_MARKER_IDS.erZeroOrOne : CUSTOM_MARKER_IDS.erZeroOrMany,
+        markerEnd: isRequired ? CUSTOM_MARKER_IDS.erOneOnly : CUSTOM_MARKER_IDS.erZeroOrOne,
+      },
+    });
+  }
+
+  const nodes: Node[] = [...tables.values()].map((table) => ({
+    id: table.id,
+    type: "databaseSchema",
+    position: { x: 0, y: 0 },
+    data: { label: table.label, columns: table.columns },
+    width: SCHEMA_NODE_WIDTH,
+    height: getSchemaNodeHeight(table.columns.length),
+  }));
+  return { nodes, edges };
+}
+
+/**
+ * Parse DDL and lay the tables out with ELK layered (referencing tables left of the tables they
+ * reference). Column handles are restored after layout, which otherwise resets them to the
+ * direction's side handles.
+ */
+export async function layoutSqlDiagram(sql: string): Promise<{ nodes: Node[]; edges: Edge[] }> {
+  const parsed = parseSqlDdl(sql);
+  const laid = await getLayoutedElements(parsed.nodes, parsed.edges, "LR", [120, 140], "elk-layered");
+  const handles = new Map(parsed.edges.map((e) => [e.id, e]));
+  const edges = laid.edges.map((e) => {
+    const original = handles.get(e.id);
+    return original ? { ...e, sourceHandle: original.sourceHandle, targetHandle: original.targetHandle } : e;
+  });
+  return { nodes: laid.nodes, edges };
+}
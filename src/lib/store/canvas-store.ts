@@ -1,8 +1,22 @@
-import { type Node, type Edge } from "@xyflow/react";
+import { type Node, type Edge, type Viewport } from "@xyflow/react";
 import { create } from "zustand";
 import type { LayoutDirection, LayoutAlgorithm } from "@/lib/layout-engine";
 import type { ShapeType } from "@/lib/shape-types";
-import { applyNodesAndEdgesInChunks } from "@/lib/chunked-nodes";
+import type { Presentation } from "@/lib/presentation";
+import type { PropertyDefinition } from "@/lib/node-properties";
+import type { LayoutProgress } from "@/lib/layout-jobs";
+import { copyPageContent, createPage, getDocumentPages, nextPageName, type DocumentPage } from "@/lib/document-pages";
+import { loadNodesAndEdgesInChunks } from "@/lib/chunked-nodes";
+import {
+  HISTORY_MERGE_WINDOW_MS,
+  applyPatch,
+  createPatch,
+  describePatch,
+  trimHistory,
+  type HistoryCheckpoint,
+  type HistoryEntry,
+  type HistorySnapshot,
+} from "@/lib/undo-history";
 
 export type MindMapLayoutOptions = {
   algorithm: LayoutAlgorithm;
@@ -107,6 +121,15 @@ export type SavedLayout = {
   spacingY: number;
 };
 
+/** Earlier diagram state the canvas is compared against (version, prompt history entry, pre-AI state). */
+export interface DiffBaseline {
+  /** Project the baseline belongs to; ignored after switching projects. */
+  projectId: string | null;
+  title: string;
+  nodes: Node[];
+  edges: Edge[];
+}
+
 /** A saved project (diagram + metadata) */
 export interface Project {
   id: string;
@@ -128,6 +151,13 @@ export interface Project {
   excalidrawData?: ExcalidrawScene | null;
   /** Draw.io diagram XML; load when switching to Draw.io mode. */
   drawioData?: string | null;
+  /** Saved presentation slides; default slides (one per top-level frame / node) when unset. */
+  presentation?: Presentation;
+  /** Pages of the document in tab order (see document-pages.ts); unset for single-page documents. */
+  pages?: DocumentPage[];
+  activePageId?: string;
+  /** Custom properties offered on every node (see node-properties.ts). */
+  propertySchema?: PropertyDefinition[];
 }
 
 export const DEFAULT_AI_PROMPTS: AIPromptTemplate[] = [
@@ -172,15 +202,27 @@ interface CanvasState {
   defaultEdgeConnectorType: DefaultEdgeConnectorType | null;
   setDefaultEdgeConnectorType: (type: DefaultEdgeConnectorType | null) => void;
   mindMapLayout: MindMapLayoutOptions;
-  undoStack: { nodes: Node[]; edges: Edge[] }[];
-  redoStack: { nodes: Node[]; edges: Edge[] }[];
+  /** Undo history as patches (see undo-history.ts); the last entry is the most recent change. */
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  /** State before the change in progress; sealed into an undo entry by the next pushUndo/undo. */
+  historyCheckpoint: HistoryCheckpoint | null;
 
   /** When true, the canvas should call fitView on the next render (e.g. after AI adds a diagram). */
   pendingFitView: boolean;
   /** When set, fitView will focus on these node IDs only (e.g. newly added AI nodes). */
   pendingFitViewNodeIds: string[] | null;
+  /** Viewport to restore on the next render (after switching to a page with a saved viewport). */
+  pendingViewport: Viewport | null;
   /** When true, run auto layout once after nodes are rendered (e.g. after AI adds a diagram), same as first-time canvas open. */
   pendingApplyLayout: boolean;
+  /** Progress of the layout running in the layout worker; null when idle. */
+  layoutProgress: LayoutProgress | null;
+  /**
+   * Node ids present when a layout was last applied; for incremental layouts, nodes outside it
+   * are new. Null until the first layout, when every node counts as placed.
+   */
+  layoutBaselineNodeIds: string[] | null;
 
   /** Last AI prompt used to generate/update the diagram (for refinement). */
   lastAIPrompt: string | null;
@@ -200,24 +242,35 @@ interface CanvasState {
   /** Attachments stored per node id */
   nodeAttachments: Record<string, NodeAttachment[]>;
 
-  /** Node id whose details panel is open (notes/tasks/attachments) */
+  /** Node id whose details panel is open (notes/tasks/attachments/comments) */
   detailsPanelNodeId: string | null;
+  detailsPanelInitialTab: string | null;
 
   /** Canvas mode: "reactflow" | "excalidraw" | "drawio" */
   canvasMode: "reactflow" | "excalidraw" | "drawio";
   setCanvasMode: (mode: "reactflow" | "excalidraw" | "drawio") => void;
 
+  /** Read-only canvas (shared link viewer): nodes hide their editing UI and text cannot be edited. */
+  readOnly: boolean;
+
   /** Presentation mode */
   presentationMode: boolean;
+  /** Current slide (index into the resolved slides, see usePresentationSlides). */
   presentationNodeIndex: number;
-  /** Custom node order for presentation (array of node IDs). Empty = default order. */
-  presentationOrder: string[];
+  /** Reveal step within the current slide (0 = first item shown). */
+  presentationStep: number;
+  /** When the running presentation started (presenter view timer). */
+  presentationStartedAt: number | null;
   /** Whether the presentation flow editor panel is open */
   presentationEditorOpen: boolean;
 
   /** Search */
   searchOpen: boolean;
   searchQuery: string;
+  /** Node and edge ids matching the in-canvas search; highlighted on the canvas while search is open. */
+  searchHitIds: string[];
+  /** The hit Enter / Shift+Enter is currently on. */
+  searchActiveHitId: string | null;
 
   /** Theme */
   theme: ThemeMode;
@@ -226,6 +279,10 @@ interface CanvasState {
   applyLayoutAtStart: boolean;
   setApplyLayoutAtStart: (v: boolean) => void;
 
+  /** When true, layouts keep the user's placement and only arrange new nodes (see incremental-layout.ts). */
+  incrementalLayout: boolean;
+  setIncrementalLayout: (v: boolean) => void;
+
   /** React Flow canvas background: dots, lines, cross, or none */
   canvasBackgroundVariant: "dots" | "lines" | "cross" | "none";
   setCanvasBackgroundVariant: (v: "dots" | "lines" | "cross" | "none") => void;
@@ -233,6 +290,9 @@ interface CanvasState {
   /** Focus mode — only show this node's branch */
   focusedBranchNodeId: string | null;
 
+  /** Visual diff — highlight changes of the canvas against this earlier state. Null = off. */
+  diffBaseline: DiffBaseline | null;
+
   /** Keyboard shortcuts panel */
   shortcutsOpen: boolean;
 
@@ -248,6 +308,9 @@ interface CanvasState {
   dailyNotes: Record<string, string>; // key = YYYY-MM-DD
   dailyNotesOpen: boolean;
 
+  /** Outline (tree text) editor of the mind map */
+  outlineOpen: boolean;
+
   /** AI sidebar — opens on editor without routing */
   aiSidebarOpen: boolean;
   aiSidebarContext: { mode?: string; nodeId?: string; label?: string; prompt?: string } | null;
@@ -308,6 +371,22 @@ interface CanvasState {
   saveCurrentProject: () => void;
   /** Store the current layout config on the active project (used when user clicks "Save layout"). */
   setActiveProjectSavedLayout: (layout: SavedLayout) => void;
+  /** Store presentation slides on the active project (saved with the project). */
+  setActiveProjectPresentation: (presentation: Presentation) => void;
+  /** Store the node property schema on the active project. */
+  setActiveProjectPropertySchema: (schema: PropertyDefinition[]) => void;
+
+  // ─── Document pages (active project) ─────────────────────────────
+  /** Open another page; `viewport` is the current one, remembered for the page being left. */
+  switchPage: (pageId: string, viewport?: Viewport) => void;
+  /** Add an empty page after the active one and open it. Returns its id. */
+  addPage: (viewport?: Viewport) => string | null;
+  renamePage: (pageId: string, name: string) => void;
+  movePage: (pageId: string, toIndex: number) => void;
+  /** Copy a page (new node ids, notes and tasks copied along) right after it. */
+  duplicatePage: (pageId: string) => void;
+  /** Delete a page; the last page cannot be deleted. */
+  deletePage: (pageId: string) => void;
 
   // ─── Notemap actions ─────────────────────────────────────────────
 
@@ -320,24 +399,32 @@ interface CanvasState {
   addNodeAttachment: (nodeId: string, attachment: NodeAttachment) => void;
   removeNodeAttachment: (nodeId: string, attachmentId: string) => void;
 
-  setDetailsPanelNodeId: (id: string | null) => void;
+  setDetailsPanelNodeId: (id: string | null, initialTab?: string) => void;
+
+  setReadOnly: (readOnly: boolean) => void;
 
   setPresentationMode: (active: boolean) => void;
-  setPresentationNodeIndex: (index: number) => void;
-  setPresentationOrder: (order: string[]) => void;
+  /** Go to a slide, at the given reveal step (default 0). */
+  setPresentationNodeIndex: (index: number, step?: number) => void;
+  setPresentationStep: (step: number) => void;
+  restartPresentationTimer: () => void;
   setPresentationEditorOpen: (open: boolean) => void;
 
   setSearchOpen: (open: boolean) => void;
   setSearchQuery: (query: string) => void;
+  setSearchHits: (ids: string[], activeId: string | null) => void;
 
   setTheme: (theme: ThemeMode) => void;
 
   setFocusedBranchNodeId: (id: string | null) => void;
 
+  setDiffBaseline: (baseline: DiffBaseline | null) => void;
+
   setShortcutsOpen: (open: boolean) => void;
   setSettingsOpen: (open: boolean, initialTab?: string) => void;
   setDailyNote: (date: string, note: string) => void;
   setDailyNotesOpen: (open: boolean) => void;
+  setOutlineOpen: (open: boolean) => void;
 
   setAIPrompts: (prompts: AIPromptTemplate[]) => void;
 
@@ -365,7 +452,10 @@ interface CanvasState {
   setPendingEdgeType: (type: PendingEdgeType) => void;
   setPendingFitView: (value: boolean) => void;
   setPendingFitViewNodeIds: (ids: string[] | null) => void;
+  setPendingViewport: (viewport: Viewport | null) => void;
   setPendingApplyLayout: (value: boolean) => void;
+  setLayoutProgress: (progress: LayoutProgress | null) => void;
+  setLayoutBaselineNodeIds: (ids: string[] | null) => void;
   setLastAIPrompt: (prompt: string | null) => void;
   setLastAIDiagram: (diagram: { nodes: Node[]; edges: Edge[] } | null) => void;
   addNode: (node: Node) => void;
@@ -375,9 +465,52 @@ interface CanvasState {
   removeNodes: (ids: string[]) => void;
   removeEdges: (ids: string[]) => void;
   updateNode: (id: string, data: Record<string, unknown>) => void;
-  pushUndo: () => void;
+  /**
+   * Call before a change. `label` names the history entry (derived from the change when
+   * omitted); calls with the same `mergeKey` in quick succession make one entry (typing, nudges).
+   */
+  pushUndo: (label?: string, mergeKey?: string) => void;
   undo: () => void;
   redo: () => void;
+  /** Undo or redo until `entryId` is the latest applied entry; null undoes everything. */
+  goToHistoryEntry: (entryId: string | null) => void;
+}
+
+function historySnapshot(s: CanvasState): HistorySnapshot {
+  return {
+    nodes: s.nodes,
+    edges: s.edges,
+    nodeNotes: s.nodeNotes,
+    nodeTasks: s.nodeTasks,
+    nodeAttachments: s.nodeAttachments,
+    excalidrawData: s.excalidrawData,
+    drawioData: s.drawioData,
+  };
+}
+
+let historyEntryCount = 0;
+
+/** The undo stack with the open checkpoint sealed into an entry (unchanged when nothing changed). */
+function sealedUndoStack(s: CanvasState): HistoryEntry[] {
+  const checkpoint = s.historyCheckpoint;
+  if (!checkpoint) return s.undoStack;
+  const patch = createPatch(checkpoint.before, historySnapshot(s));
+  if (!patch) return s.undoStack;
+  const entry: HistoryEntry = {
+    id: `history-${checkpoint.at}-${historyEntryCount++}`,
+    label: checkpoint.label ?? describePatch(patch),
+    at: checkpoint.at,
+    patch,
+  };
+  return trimHistory([...s.undoStack, entry]);
+}
+
+/** True when the state moved on since the open checkpoint (there is something to undo). */
+export function hasUncommittedChange(s: CanvasState): boolean {
+  const before = s.historyCheckpoint?.before;
+  if (!before) return false;
+  const now = historySnapshot(s);
+  return (Object.keys(before) as (keyof HistorySnapshot)[]).some((key) => before[key] !== now[key]);
 }
 
 export const useCanvasStore = create<CanvasState>((set, get) => ({
@@ -403,9 +536,13 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   mindMapLayout: DEFAULT_MIND_MAP_LAYOUT,
   undoStack: [],
   redoStack: [],
+  historyCheckpoint: null,
   pendingFitView: false,
   pendingFitViewNodeIds: null,
+  pendingViewport: null,
   pendingApplyLayout: false,
+  layoutProgress: null,
+  layoutBaselineNodeIds: null,
   lastAIPrompt: null,
   lastAIDiagram: null,
   editingNodeId: null,
@@ -415,25 +552,34 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   nodeTasks: {},
   nodeAttachments: {},
   detailsPanelNodeId: null,
+  detailsPanelInitialTab: null,
   canvasMode: "reactflow" as const,
   setCanvasMode: (mode) => set({ canvasMode: mode }),
 
+  readOnly: false,
+
   presentationMode: false,
   presentationNodeIndex: 0,
-  presentationOrder: [],
+  presentationStep: 0,
+  presentationStartedAt: null,
   presentationEditorOpen: false,
   searchOpen: false,
   searchQuery: "",
+  searchHitIds: [],
+  searchActiveHitId: null,
   theme: "light",
   applyLayoutAtStart: false,
+  incrementalLayout: false,
   canvasBackgroundVariant: "dots",
   focusedBranchNodeId: null,
+  diffBaseline: null,
   shortcutsOpen: false,
   settingsOpen: false,
   settingsInitialTab: null,
   libraryOpen: false,
   dailyNotes: {},
   dailyNotesOpen: false,
+  outlineOpen: false,
   aiSidebarOpen: false,
   aiSidebarContext: null as { mode?: string; nodeId?: string; label?: string; prompt?: string } | null,
   setAISidebarOpen: (open, context) =>
@@ -567,8 +713,9 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
           drawioData: target.drawioData ?? null,
           undoStack: [],
           redoStack: [],
+          historyCheckpoint: null,
         });
-        applyNodesAndEdgesInChunks(get().setNodes, get().setEdges, target.nodes, target.edges);
+        loadNodesAndEdgesInChunks(get().setNodes, get().setEdges, target.nodes, target.edges);
         get().setPendingFitView(true);
         get().setPendingFitViewNodeIds(null);
       }
@@ -586,8 +733,9 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
           drawioData: target.drawioData ?? null,
           undoStack: [],
           redoStack: [],
+          historyCheckpoint: null,
         });
-        applyNodesAndEdgesInChunks(get().setNodes, get().setEdges, target.nodes, target.edges);
+        loadNodesAndEdgesInChunks(get().setNodes, get().setEdges, target.nodes, target.edges);
         get().setPendingFitView(true);
         get().setPendingFitViewNodeIds(null);
       }
@@ -621,6 +769,154 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     });
   },
 
+  setActiveProjectPresentation: (presentation) => {
+    const s = get();
+    if (!s.activeProjectId) return;
+    set({
+      projects: s.projects.map((p) =>
+        p.id === s.activeProjectId ? { ...p, presentation, updatedAt: Date.now() } : p
+      ),
+    });
+  },
+
+  setActiveProjectPropertySchema: (schema) => {
+    const s = get();
+    if (!s.activeProjectId) return;
+    set({
+      projects: s.projects.map((p) =>
+        p.id === s.activeProjectId ? { ...p, propertySchema: schema, updatedAt: Date.now() } : p
+      ),
+    });
+  },
+
+  // ─── Document pages ──────────────────────────────────────────────
+  switchPage: (pageId, viewport) => {
+    const s = get();
+    const project = s.projects.find((p) => p.id === s.activeProjectId);
+    if (!project) return;
+    const { pages, activePageId } = getDocumentPages(project);
+    const target = pages.find((p) => p.id === pageId);
+    if (!target || pageId === activePageId) return;
+    const nextPages = pages.map((p) => {
+      if (p.id === activePageId) return { ...p, nodes: s.nodes, edges: s.edges, viewport: viewport ?? p.viewport };
+      if (p.id === pageId) return { ...p, nodes: [], edges: [] };
+      return p;
+    });
+    // Load the page in one step: a chunked load could be interrupted by the next switch, which
+    // would save the page being left half-loaded and spill its remaining chunks into the next one.
+    set({
+      projects: s.projects.map((p) =>
+        p.id === project.id
+          ? { ...p, pages: nextPages, activePageId: pageId, nodes: target.nodes, edges: target.edges, updatedAt: Date.now() }
+          : p
+      ),
+      nodes: target.nodes,
+      edges: target.edges,
+      selectedNodeIds: [],
+      selectedEdgeIds: [],
+      detailsPanelNodeId: null,
+      undoStack: [],
+      redoStack: [],
+      historyCheckpoint: null,
+      pendingViewport: target.viewport ?? null,
+    });
+    if (!target.viewport) {
+      get().setPendingFitView(true);
+      get().setPendingFitViewNodeIds(null);
+    }
+  },
+
+  addPage: (viewport) => {
+    const s = get();
+    const project = s.projects.find((p) => p.id === s.activeProjectId);
+    if (!project) return null;
+    const { pages, activePageId } = getDocumentPages(project);
+    const page = createPage(nextPageName(pages));
+    const nextPages = [...pages];
+    nextPages.splice(pages.findIndex((p) => p.id === activePageId) + 1, 0, page);
+    set({
+      projects: s.projects.map((p) => (p.id === project.id ? { ...p, pages: nextPages, activePageId } : p)),
+    });
+    get().switchPage(page.id, viewport);
+    return page.id;
+  },
+
+  renamePage: (pageId, name) => {
+    const s = get();
+    const project = s.projects.find((p) => p.id === s.activeProjectId);
+    if (!project) return;
+    const { pages, activePageId } = getDocumentPages(project);
+    set({
+      projects: s.projects.map((p) =>
+        p.id === project.id
+          ? { ...p, pages: pages.map((pg) => (pg.id === pageId ? { ...pg, name } : pg)), activePageId, updatedAt: Date.now() }
+          : p
+      ),
+    });
+  },
+
+  movePage: (pageId, toIndex) => {
+    const s = get();
+    const project = s.projects.find((p) => p.id === s.activeProjectId);
+    if (!project) return;
+    const { pages, activePageId } = getDocumentPages(project);
+    const from = pages.findIndex((p) => p.id === pageId);
+    if (from < 0 || toIndex < 0 || toIndex >= pages.length || from === toIndex) return;
+    const nextPages = [...pages];
+    const [page] = nextPages.splice(from, 1);
+    nextPages.splice(toIndex, 0, page);
+    set({
+      projects: s.projects.map((p) =>
+        p.id === project.id ? { ...p, pages: nextPages, activePageId, updatedAt: Date.now() } : p
+      ),
+    });
+  },
+
+  duplicatePage: (pageId) => {
+    const s = get();
+    const project = s.projects.find((p) => p.id === s.activeProjectId);
+    if (!project) return;
+    const { pages, activePageId } = getDocumentPages(project);
+    const index = pages.findIndex((p) => p.id === pageId);
+    if (index < 0) return;
+    const source = pages[index];
+    const content = pageId === activePageId ? copyPageContent(s.nodes, s.edges) : copyPageContent(source.nodes, source.edges);
+    const copy = { ...createPage(`${source.name} (copy)`, content.nodes, content.edges), viewport: source.viewport };
+    const nextPages = [...pages];
+    nextPages.splice(index + 1, 0, copy);
+    const nodeNotes = { ...s.nodeNotes };
+    const nodeTasks = { ...s.nodeTasks };
+    const nodeAttachments = { ...s.nodeAttachments };
+    content.idMap.forEach((newId, oldId) => {
+      if (s.nodeNotes[oldId]) nodeNotes[newId] = s.nodeNotes[oldId];
+      if (s.nodeTasks[oldId]) nodeTasks[newId] = s.nodeTasks[oldId].map((t) => ({ ...t }));
+      if (s.nodeAttachments[oldId]) nodeAttachments[newId] = [...s.nodeAttachments[oldId]];
+    });
+    set({
+      projects: s.projects.map((p) =>
+        p.id === project.id ? { ...p, pages: nextPages, activePageId, updatedAt: Date.now() } : p
+      ),
+      nodeNotes,
+      nodeTasks,
+      nodeAttachments,
+    });
+  },
+
+  deletePage: (pageId) => {
+    const project = get().projects.find((p) => p.id === get().activeProjectId);
+    if (!project) return;
+    const { pages, activePageId } = getDocumentPages(project);
+    const index = pages.findIndex((p) => p.id === pageId);
+    if (index < 0 || pages.length <= 1) return;
+    if (pageId === activePageId) get().switchPage((pages[index + 1] ?? pages[index - 1]).id);
+    const s = get();
+    set({
+      projects: s.projects.map((p) =>
+        p.id === project.id ? { ...p, pages: (p.pages ?? pages).filter((pg) => pg.id !== pageId), updatedAt: Date.now() } : p
+      ),
+    });
+  },
+
   // ─── Notemap actions ─────────────────────────────────────────────
   setNodeNote: (nodeId, note) =>
     set((s) => ({ nodeNotes: { ...s.nodeNotes, [nodeId]: note } })),
@@ -673,22 +969,36 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       },
     })),
 
-  setDetailsPanelNodeId: (id) => set({ detailsPanelNodeId: id }),
+  setDetailsPanelNodeId: (id, initialTab) => set({ detailsPanelNodeId: id, detailsPanelInitialTab: initialTab ?? null }),
 
-  setPresentationMode: (active) => set({ presentationMode: active, presentationNodeIndex: 0 }),
-  setPresentationNodeIndex: (index) => set({ presentationNodeIndex: index }),
-  setPresentationOrder: (order) => set({ presentationOrder: order }),
+  setReadOnly: (readOnly) => set({ readOnly }),
+
+  setPresentationMode: (active) =>
+    set({
+      presentationMode: active,
+      presentationNodeIndex: 0,
+      presentationStep: 0,
+      presentationStartedAt: active ? Date.now() : null,
+    }),
+  setPresentationNodeIndex: (index, step = 0) => set({ presentationNodeIndex: index, presentationStep: step }),
+  setPresentationStep: (step) => set({ presentationStep: step }),
+  restartPresentationTimer: () => set({ presentationStartedAt: Date.now() }),
   setPresentationEditorOpen: (open) => set({ presentationEditorOpen: open }),
 
-  setSearchOpen: (open) => set({ searchOpen: open, searchQuery: open ? get().searchQuery : "" }),
+  setSearchOpen: (open) =>
+    set(open ? { searchOpen: true } : { searchOpen: false, searchQuery: "", searchHitIds: [], searchActiveHitId: null }),
   setSearchQuery: (query) => set({ searchQuery: query }),
+  setSearchHits: (ids, activeId) => set({ searchHitIds: ids, searchActiveHitId: activeId }),
 
   setTheme: (theme) => set({ theme }),
   setApplyLayoutAtStart: (v) => set({ applyLayoutAtStart: v }),
+  setIncrementalLayout: (v) => set({ incrementalLayout: v }),
   setCanvasBackgroundVariant: (v) => set({ canvasBackgroundVariant: v }),
 
   setFocusedBranchNodeId: (id) => set({ focusedBranchNodeId: id }),
 
+  setDiffBaseline: (baseline) => set({ diffBaseline: baseline }),
+
   setShortcutsOpen: (open) => set({ shortcutsOpen: open }),
   setSettingsOpen: (open, initialTab) => set({ settingsOpen: open, settingsInitialTab: initialTab ?? null }),
   setLibraryOpen: (open) => set({ libraryOpen: open }),
@@ -696,6 +1006,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   setDailyNote: (date, note) =>
     set((s) => ({ dailyNotes: { ...s.dailyNotes, [date]: note } })),
   setDailyNotesOpen: (open) => set({ dailyNotesOpen: open }),
+  setOutlineOpen: (open) => set({ outlineOpen: open }),
 
   setAIPrompts: (prompts) => set({ aiPrompts: prompts }),
 
@@ -741,7 +1052,10 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   setDefaultEdgeConnectorType: (type) => set({ defaultEdgeConnectorType: type }),
   setPendingFitView: (value) => set({ pendingFitView: value }),
   setPendingFitViewNodeIds: (ids) => set({ pendingFitViewNodeIds: ids }),
+  setPendingViewport: (viewport) => set({ pendingViewport: viewport }),
   setPendingApplyLayout: (value: boolean) => set({ pendingApplyLayout: value }),
+  setLayoutProgress: (progress) => set({ layoutProgress: progress }),
+  setLayoutBaselineNodeIds: (ids) => set({ layoutBaselineNodeIds: ids }),
   setLastAIPrompt: (prompt) => set({ lastAIPrompt: prompt }),
   setLastAIDiagram: (diagram) => set({ lastAIDiagram: diagram }),
 
@@ -789,36 +1103,58 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       ),
     })),
 
-  pushUndo: () =>
-    set((state) => ({
-      undoStack: [
-        ...state.undoStack.slice(-49),
-        { nodes: state.nodes, edges: state.edges },
-      ],
+  pushUndo: (label, mergeKey) => {
+    const s = get();
+    const now = Date.now();
+    const open = s.historyCheckpoint;
+    if (open && mergeKey && open.mergeKey === mergeKey && now - open.touchedAt < HISTORY_MERGE_WINDOW_MS) {
+      set({ historyCheckpoint: { ...open, touchedAt: now }, redoStack: [] });
+      return;
+    }
+    set({
+      undoStack: sealedUndoStack(s),
       redoStack: [],
-    })),
+      historyCheckpoint: { label, mergeKey, at: now, touchedAt: now, before: historySnapshot(s) },
+    });
+  },
 
   undo: () => {
-    const { undoStack, redoStack, nodes, edges } = get();
-    if (undoStack.length === 0) return;
-    const prev = undoStack[undoStack.length - 1];
+    const s = get();
+    const undoStack = sealedUndoStack(s);
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) {
+      set({ historyCheckpoint: null });
+      return;
+    }
     set({
-      nodes: prev.nodes,
-      edges: prev.edges,
+      ...(applyPatch(historySnapshot(s), entry.patch, "undo") as Partial<CanvasState>),
       undoStack: undoStack.slice(0, -1),
-      redoStack: [...redoStack, { nodes, edges }],
+      redoStack: [...s.redoStack, entry],
+      historyCheckpoint: null,
     });
   },
 
   redo: () => {
-    const { redoStack, undoStack, nodes, edges } = get();
-    if (redoStack.length === 0) return;
-    const next = redoStack[redoStack.length - 1];
+    const s = get();
+    const entry = s.redoStack[s.redoStack.length - 1];
+    if (!entry) return;
     set({
-      nodes: next.nodes,
-      edges: next.edges,
-      redoStack: redoStack.slice(0, -1),
-      undoStack: [...undoStack, { nodes, edges }],
+      ...(applyPatch(historySnapshot(s), entry.patch, "redo") as Partial<CanvasState>),
+      undoStack: [...s.undoStack, entry],
+      redoStack: s.redoStack.slice(0, -1),
+      historyCheckpoint: null,
     });
   },
+
+  goToHistoryEntry: (entryId) => {
+    // Seal the change in progress so it can be redone after jumping back
+    set({ undoStack: sealedUndoStack(get()), historyCheckpoint: null });
+    const { undo, redo } = get();
+    if (entryId !== null && get().redoStack.some((e) => e.id === entryId)) {
+      while (get().redoStack.length > 0 && get().undoStack.at(-1)?.id !== entryId) redo();
+      return;
+    }
+    if (entryId !== null && !get().undoStack.some((e) => e.id === entryId)) return;
+    while (get().undoStack.length > 0 && get().undoStack.at(-1)?.id !== entryId) undo();
+  },
 }));
@@ -0,0 +1,58 @@
+import { create } from "zustand";
+import type { CollabPeer, CollabUser } from "@/lib/collab/protocol";
+
+export type CollabStatus = "idle" | "connecting" | "connected" | "disconnected";
+
+/** UI state of the live collaboration session (the connection itself lives in lib/collab/collab-client). */
+interface CollabState {
+  status: CollabStatus;
+  /** Room joined (the shared project's id on the owner's side). Null when no session. */
+  roomId: string | null;
+  /** Local project synced with the room. */
+  projectId: string | null;
+  /** Page of that project synced with the room; other pages are not shared. */
+  pageId: string | null;
+  self: (CollabUser & { clientId: string }) | null;
+  /** Other people in the room, by client id. */
+  peers: Record<string, CollabPeer>;
+
+  setStatus: (status: CollabStatus) => void;
+  setSession: (
+    session: { roomId: string; projectId: string; pageId: string; self: CollabUser & { clientId: string } } | null
+  ) => void;
+  setPeers: (peers: CollabPeer[]) => void;
+  upsertPeer: (clientId: string, patch: Partial<CollabPeer>) => void;
+  removePeer: (clientId: string) => void;
+}
+
+export const useCollabStore = create<CollabState>((set) => ({
+  status: "idle",
+  roomId: null,
+  projectId: null,
+  pageId: null,
+  self: null,
+  peers: {},
+
+  setStatus: (status) => set({ status }),
+  setSession: (session) =>
+    set(
+      session
+        ? { roomId: session.roomId, projectId: session.projectId, pageId: session.pageId, self: session.self, peers: {} }
+        : { roomId: null, projectId: null, pageId: null, self: null, peers: {}, status: "idle" }
+    ),
+  setPeers: (peers) => set({ peers: Object.fromEntries(peers.map((p) => [p.clientId, p])) }),
+  upsertPeer: (clientId, patch) =>
+    set((s) => {
+      const current: CollabPeer | undefined =
+        s.peers[clientId] ?? (patch.user ? { clientId, user: patch.user, cursor: null, selectedNodeIds: [] } : undefined);
+      // Presence can arrive before the join event; ignore it until the peer is known.
+      if (!current) return s;
+      return { peers: { ...s.peers, [clientId]: { ...current, ...patch } } };
+    }),
+  removePeer: (clientId) =>
+    set((s) => {
+      const peers = { ...s.peers };
+      delete peers[clientId];
+      return { peers };
+    }),
+}));
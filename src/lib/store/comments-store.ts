@@ -0,0 +1,130 @@
+"use client";
+
+import { create } from "zustand";
+import type { CommentAnchor, CommentThread, ProjectComment } from "@/lib/comments";
+import { shareHeaders } from "./share-links";
+
+/** Comment threads of one cloud project (/api/projects/[id]/comments) plus the comments UI state. */
+interface CommentsState {
+  /** Project the threads belong to; null when nothing is loaded. */
+  projectId: string | null;
+  threads: CommentThread[];
+  status: "idle" | "loading" | "ready" | "error";
+  /** Project-wide comments sidebar. */
+  panelOpen: boolean;
+  /** Thread to scroll to / highlight in the sidebar. */
+  focusedThreadId: string | null;
+  /** Canvas point picked for a new thread ("Comment on canvas"). */
+  draftAnchor: CommentAnchor | null;
+  /** True while the next canvas click picks draftAnchor. */
+  placingAnchor: boolean;
+
+  setPanelOpen: (open: boolean, focusedThreadId?: string | null) => void;
+  setDraftAnchor: (anchor: CommentAnchor | null) => void;
+  setPlacingAnchor: (placing: boolean) => void;
+}
+
+export const useCommentsStore = create<CommentsState>((set) => ({
+  projectId: null,
+  threads: [],
+  status: "idle",
+  panelOpen: false,
+  focusedThreadId: null,
+  draftAnchor: null,
+  placingAnchor: false,
+
+  setPanelOpen: (open, focusedThreadId = null) =>
+    set(open ? { panelOpen: true, focusedThreadId } : { panelOpen: false, focusedThreadId: null, placingAnchor: false }),
+  setDraftAnchor: (anchor) => set({ draftAnchor: anchor, placingAnchor: false }),
+  setPlacingAnchor: (placing) => set({ placingAnchor: placing }),
+}));
+
+/** Open threads anchored to a node or edge. */
+export function countOpenThreads(threads: CommentThread[], kind: "node" | "edge", id: string): number {
+  let count = 0;
+  for (const t of threads) {
+    if (!t.resolvedAt && t.anchor.kind === kind && t.anchor.id === id) count++;
+  }
+  return count;
+}
+
+function updateThread(threadId: string, update: (thread: CommentThread) => CommentThread) {
+  useCommentsStore.setState((s) => ({ threads: s.threads.map((t) => (t.id === threadId ? update(t) : t)) }));
+}
+
+/** Load the threads of a project (replaces the current list). Pass null to clear. */
+export async function loadComments(projectId: string | null): Promise<void> {
+  if (!projectId) {
+    useCommentsStore.setState({ projectId: null, threads: [], status: "idle", draftAnchor: null });
+    return;
+  }
+  useCommentsStore.setState({ projectId, threads: [], status: "loading", draftAnchor: null });
+  try {
+    const res = await fetch(`/api/projects/${projectId}/comments`, {
+      headers: shareHeaders(projectId),
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to load comments");
+    const data = await res.json();
+    if (useCommentsStore.getState().projectId !== projectId) return;
+    useCommentsStore.setState({ threads: Array.isArray(data) ? (data as CommentThread[]) : [], status: "ready" });
+  } catch (err) {
+    console.error("Failed to load comments:", err);
+    if (useCommentsStore.getState().projectId === projectId) useCommentsStore.setState({ status: "error" });
+  }
+}
+
+export async function createCommentThread(anchor: CommentAnchor, body: string): Promise<CommentThread> {
+  const projectId = useCommentsStore.getState().projectId;
+  if (!projectId) throw new Error("No project");
+  const res = await fetch(`/api/projects/${projectId}/comments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...shareHeaders(projectId) },
+    credentials: "include",
+    body: JSON.stringify({ anchor, body }),
+  });
+  if (!res.ok) throw new Error("Failed to add comment");
+  const thread = (await res.json()) as CommentThread;
+  useCommentsStore.setState((s) => ({ threads: [...s.threads, thread], draftAnchor: null }));
+  return thread;
+}
+
+export async function replyToThread(threadId: string, body: string): Promise<void> {
+  const projectId = useCommentsStore.getState().projectId;
+  if (!projectId) throw new Error("No project");
+  const res = await fetch(`/api/projects/${projectId}/comments/${threadId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...shareHeaders(projectId) },
+    credentials: "include",
+    body: JSON.stringify({ body }),
+  });
+  if (!res.ok) throw new Error("Failed to reply");
+  const comment = (await res.json()) as ProjectComment;
+  updateThread(threadId, (t) => ({ ...t, comments: [...t.comments, comment], updatedAt: comment.createdAt }));
+}
+
+export async function setThreadResolved(threadId: string, resolved: boolean): Promise<void> {
+  const projectId = useCommentsStore.getState().projectId;
+  if (!projectId) throw new Error("No project");
+  const res = await fetch(`/api/projects/${projectId}/comments/${threadId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", ...shareHeaders(projectId) },
+    credentials: "include",
+    body: JSON.stringify({ resolved }),
+  });
+  if (!res.ok) throw new Error("Failed to update thread");
+  const data = (await res.json()) as { resolvedAt?: number; resolvedBy?: string };
+  updateThread(threadId, (t) => ({ ...t, resolvedAt: data.resolvedAt, resolvedBy: data.resolvedBy }));
+}
+
+export async function deleteCommentThread(threadId: string): Promise<void> {
+  const projectId = useCommentsStore.getState().projectId;
+  if (!projectId) throw new Error("No project");
+  const res = await fetch(`/api/projects/${projectId}/comments/${threadId}`, {
+    method: "DELETE",
+    headers: shareHeaders(projectId),
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error("Failed to delete thread");
+  useCommentsStore.setState((s) => ({ threads: s.threads.filter((t) => t.id !== threadId) }));
+}
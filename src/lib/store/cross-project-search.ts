@@ -0,0 +1,142 @@
+"use client";
+
+import { useCanvasStore, type Project } from "./canvas-store";
+import { isApiProjectId } from "./project-storage";
+import {
+  searchProject,
+  searchProjects,
+  type ProjectSearchMatch,
+  type ProjectSearchResult,
+  type SearchableProject,
+} from "@/lib/project-search";
+
+/** How long to wait for a switched-to project's nodes before giving up on focusing one. */
+const FOCUS_TIMEOUT_MS = 15_000;
+
+/** Active project with the live (possibly unsaved) canvas state. */
+function liveActiveProject(): SearchableProject | null {
+  const s = useCanvasStore.getState();
+  const active = s.projects.find((p) => p.id === s.activeProjectId);
+  if (!active) return null;
+  return {
+    id: active.id,
+    name: active.name,
+    updatedAt: Date.now(),
+    nodes: s.nodes,
+    edges: s.edges,
+    pages: active.pages,
+    activePageId: active.activePageId,
+    nodeNotes: s.nodeNotes,
+    nodeTasks: s.nodeTasks,
+    excalidrawData: s.excalidrawData,
+    drawioData: s.drawioData,
+  };
+}
+
+function toSearchable(project: Project): SearchableProject {
+  return { ...project, excalidrawData: project.excalidrawData ?? null, drawioData: project.drawioData ?? null };
+}
+
+/**
+ * Search every project the user has. Cloud projects are searched by /api/search; local projects
+ * (localStorage) are searched in memory. The active project always uses the live canvas.
+ */
+export async function searchAllProjects(query: string, signal?: AbortSignal): Promise<ProjectSearchResult[]> {
+  const s = useCanvasStore.getState();
+  const live = liveActiveProject();
+  const local = s.projects.filter((p) => p.id !== s.activeProjectId && (s.persistenceSource !== "cloud" || !isApiProjectId(p.id)));
+
+  let results = searchProjects(local.map(toSearchable), query);
+  if (s.persistenceSource === "cloud") {
+    const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`, { credentials: "include", signal });
+    if (!res.ok) throw new Error("Search failed");
+    const remote = (await res.json()) as ProjectSearchResult[];
+    // Prefer the local name (renames may not be saved yet); drop the server copy of the active project.
+    const names = new Map(s.projects.map((p) => [p.id, p.name]));
+    results = results.concat(
+      remote
+        .filter((r) => r.projectId !== s.activeProjectId && names.has(r.projectId))
+        .map((r) => ({ ...r, projectName: names.get(r.projectId) ?? r.projectName }))
+    );
+  }
+
+  results.sort((a, b) => b.updatedAt - a.updatedAt);
+
+  // The open project comes first.
+  if (live) {
+    const { matches, truncated } = searchProject(live, query);
+    if (matches.length > 0) {
+      results.unshift({ projectId: live.id, projectName: live.name, updatedAt: Date.now(), truncated, matches });
+    }
+  }
+  return results;
+}
+
+/** Page of the active project that holds `nodeId` when it is not the open page. */
+function inactivePageOf(nodeId: string): string | null {
+  const s = useCanvasStore.getState();
+  const active = s.projects.find((p) => p.id === s.activeProjectId);
+  const page = active?.pages?.find((p) => p.id !== active.activePageId && p.nodes.some((n) => n.id === nodeId));
+  return page?.id ?? null;
+}
+
+/**
+ * Resolves once `nodeId` is on the canvas (projects load asynchronously and in chunks), opening
+ * the page that holds it in multi-page documents.
+ */
+function waitForNode(nodeId: string): Promise<boolean> {
+  // Opens the node's page when it sits on another one; true once the node is on the canvas.
+  const reveal = () => {
+    const pageId = inactivePageOf(nodeId);
+    if (pageId) useCanvasStore.getState().switchPage(pageId);
+    return useCanvasStore.getState().nodes.some((n) => n.id === nodeId);
+  };
+  if (reveal()) return Promise.resolve(true);
+  return new Promise((resolve) => {
+    const timer = window.setTimeout(() => {
+      unsubscribe();
+      resolve(false);
+    }, FOCUS_TIMEOUT_MS);
+    const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+      if ((state.nodes === prev.nodes && state.projects === prev.projects) || !reveal()) return;
+      window.clearTimeout(timer);
+      unsubscribe();
+      resolve(true);
+    });
+  });
+}
+
+/** Open a project (switchProject) and, when given, select + zoom to one of its nodes. */
+export async function openProjectNode(projectId: string, nodeId?: string): Promise<boolean> {
+  const store = useCanvasStore.getState();
+  if (store.activeProjectId !== projectId) store.switchProject(projectId);
+  if (useCanvasStore.getState().activeProjectId !== projectId) return false;
+  if (useCanvasStore.getState().canvasMode !== "reactflow") useCanvasStore.getState().setCanvasMode("reactflow");
+  if (!nodeId || !(await waitForNode(nodeId))) return false;
+  if (useCanvasStore.getState().activeProjectId !== projectId) return false;
+
+  const { setNodes, setPendingFitView, setPendingFitViewNodeIds } = useCanvasStore.getState();
+  setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === nodeId })));
+  setPendingFitViewNodeIds([nodeId]);
+  setPendingFitView(true);
+  return true;
+}
+
+/** Open the match's project (switchProject) and select + zoom to the matched node or edge. */
+export async function openSearchMatch(projectId: string, match: ProjectSearchMatch): Promise<void> {
+  const store = useCanvasStore.getState();
+  if (match.kind === "excalidraw" || match.kind === "drawio") {
+    if (store.activeProjectId !== projectId) store.switchProject(projectId);
+    useCanvasStore.getState().setCanvasMode(match.kind);
+    return;
+  }
+  if (!(await openProjectNode(projectId, match.nodeId))) return;
+
+  if (match.kind === "edge" && match.edgeId) {
+    const { setNodes, setEdges, setPendingFitViewNodeIds } = useCanvasStore.getState();
+    const edge = useCanvasStore.getState().edges.find((e) => e.id === match.edgeId);
+    setNodes((nds) => nds.map((n) => (n.selected ? { ...n, selected: false } : n)));
+    setEdges((eds) => eds.map((e) => ({ ...e, selected: e.id === match.edgeId })));
+    if (edge) setPendingFitViewNodeIds([edge.source, edge.target]);
+  }
+}
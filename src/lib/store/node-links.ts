@@ -0,0 +1,48 @@
+"use client";
+
+import { useCanvasStore } from "./canvas-store";
+import { isApiProjectId } from "./project-storage";
+import { openProjectNode } from "./cross-project-search";
+import { findBacklinks, findProjectBacklinks, parseNodeLink, type Backlink } from "@/lib/node-links";
+
+/** Follow a node link: URLs open in a new tab; project links open the project and focus the node. */
+export function followNodeLink(value: unknown): void {
+  const link = parseNodeLink(value);
+  if (!link) return;
+  if (link.kind === "url") {
+    window.open(link.url, "_blank", "noopener,noreferrer");
+    return;
+  }
+  if (!useCanvasStore.getState().projects.some((p) => p.id === link.projectId)) {
+    alert("The linked project no longer exists or isn't shared with you.");
+    return;
+  }
+  void openProjectNode(link.projectId, link.nodeId);
+}
+
+/**
+ * Backlinks found without the network: the active project (live canvas) and projects kept in
+ * localStorage. Cloud projects are covered by fetchCloudBacklinks.
+ */
+export function findLocalBacklinks(projectId: string, nodeId: string): Backlink[] {
+  const s = useCanvasStore.getState();
+  const active = s.projects.find((p) => p.id === s.activeProjectId);
+  const local = s.projects.filter((p) => p.id !== s.activeProjectId && (s.persistenceSource !== "cloud" || !isApiProjectId(p.id)));
+  const live = active ? findProjectBacklinks({ ...active, nodes: s.nodes }, projectId, nodeId) : [];
+  return live.concat(findBacklinks(local, projectId, nodeId));
+}
+
+/** Backlinks in the user's cloud projects (/api/backlinks), except the active one; [] when not signed in. */
+export async function fetchCloudBacklinks(projectId: string, nodeId: string, signal?: AbortSignal): Promise<Backlink[]> {
+  const s = useCanvasStore.getState();
+  if (s.persistenceSource !== "cloud") return [];
+  const params = new URLSearchParams({ projectId, nodeId });
+  const res = await fetch(`/api/backlinks?${params}`, { credentials: "include", signal });
+  if (!res.ok) throw new Error("Backlinks lookup failed");
+  const remote = (await res.json()) as Backlink[];
+  // Prefer the local name (renames may not be saved yet); drop the server copy of the active project.
+  const names = new Map(s.projects.map((p) => [p.id, p.name]));
+  return remote
+    .filter((b) => b.projectId !== s.activeProjectId && names.has(b.projectId))
+    .map((b) => ({ ...b, projectName: names.get(b.projectId) ?? b.projectName }));
+}
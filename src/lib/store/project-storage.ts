@@ -10,8 +10,11 @@
 import { useEffect, useRef } from "react";
 import { useAuth } from "@clerk/nextjs";
 import { useCanvasStore, type Project, type SavedLayout, type ExcalidrawScene } from "./canvas-store";
+import type { Presentation } from "@/lib/presentation";
+import type { DocumentPage } from "@/lib/document-pages";
+import { normalizePropertySchema } from "@/lib/node-properties";
 import type { Node, Edge } from "@xyflow/react";
-import { applyNodesAndEdgesInChunks } from "@/lib/chunked-nodes";
+import { applyNodesAndEdgesInChunks, loadNodesAndEdgesInChunks, sortParentsBeforeChildren } from "@/lib/chunked-nodes";
 import {
   fitGroupBoundsAndCenterChildren,
   ensureExtentForGroupedNodes,
@@ -19,6 +22,8 @@ import {
   type LayoutDirection,
 } from "@/lib/layout-engine";
 import { parseStreamingDiagramBuffer } from "@/lib/ai/streaming-json-parser";
+import { recordVersion, removeLocalVersions, type DocumentVersion } from "./version-history";
+import { shareHeaders } from "./share-links";
 
 /** Module-level refs so loadProjectContentFromStream and saveNow can sync with auto-save. */
 const lastSavedPayloadRef = { current: "" };
@@ -33,6 +38,10 @@ async function applyLoadedProjectData(
     nodes?: unknown[];
     edges?: unknown[];
     savedLayout?: { direction: string; algorithm: string; spacingX: number; spacingY: number };
+    presentation?: { slides: object[] };
+    pages?: object[];
+    activePageId?: string;
+    propertySchema?: object[];
     nodeNotes?: Record<string, string>;
     nodeTasks?: Record<string, unknown>;
     nodeAttachments?: Record<string, unknown>;
@@ -131,7 +140,7 @@ async function applyLoadedProjectData(
     }) as Edge[];
   }
 
-  await applyNodesAndEdgesInChunks(setNodes, setEdges, processedNodes, validEdges);
+  await loadNodesAndEdgesInChunks(setNodes, setEdges, processedNodes, validEdges);
   useCanvasStore.getState().setPendingFitView(true);
   useCanvasStore.getState().setPendingFitViewNodeIds(processedNodes.map((n) => n.id));
   if (data.nodeNotes && typeof data.nodeNotes === "object") {
@@ -158,6 +167,25 @@ async function applyLoadedProjectData(
       ),
     }));
   }
+  if (data.presentation != null) {
+    const presentation = data.presentation as Presentation;
+    useCanvasStore.setState((s) => ({
+      projects: s.projects.map((p) => (p.id === projectId ? { ...p, presentation } : p)),
+    }));
+  }
+  if (Array.isArray(data.pages) && data.pages.length > 0) {
+    const pages = data.pages as DocumentPage[];
+    const activePageId = data.activePageId;
+    useCanvasStore.setState((s) => ({
+      projects: s.projects.map((p) => (p.id === projectId ? { ...p, pages, activePageId } : p)),
+    }));
+  }
+  if (Array.isArray(data.propertySchema)) {
+    const propertySchema = normalizePropertySchema(data.propertySchema);
+    useCanvasStore.setState((s) => ({
+      projects: s.projects.map((p) => (p.id === projectId ? { ...p, propertySchema } : p)),
+    }));
+  }
   useCanvasStore.setState((s) => ({
     projects: s.projects.map((p) =>
       p.id === projectId ? { ...p, nodes: processedNodes, edges: validEdges } : p
@@ -181,7 +209,7 @@ async function applyLoadedProjectData(
 
 /** Load project via regular GET (for small projects < 50 nodes). */
 async function loadProjectContentRegular(projectId: string): Promise<void> {
-  const res = await fetch(`/api/projects/${projectId}`, { credentials: "include" });
+  const res = await fetch(`/api/projects/${projectId}`, { headers: shareHeaders(projectId), credentials: "include" });
   if (!res.ok) return;
   const data = await res.json();
   await applyLoadedProjectData(projectId, data, { fromCloud: true });
@@ -191,7 +219,10 @@ async function loadProjectContentRegular(projectId: string): Promise<void> {
 
 /** Load one project's diagram from GET /api/projects/[id]?stream=1 and apply to canvas in chunks. */
 async function loadProjectContentFromStream(projectId: string): Promise<void> {
-  const res = await fetch(`/api/projects/${projectId}?stream=1`, { credentials: "include" });
+  const res = await fetch(`/api/projects/${projectId}?stream=1`, {
+    headers: shareHeaders(projectId),
+    credentials: "include",
+  });
   if (!res.ok || !res.body) return;
   const { setNodes, setEdges, setNodeNote, setNodeTasks } = useCanvasStore.getState();
   const nodeIdMap = new Map<string, string>();
@@ -376,6 +407,7 @@ interface PersistedSettings {
   aiPrompts?: unknown[];
   dailyNotes?: Record<string, string>;
   applyLayoutAtStart?: boolean;
+  incrementalLayout?: boolean;
 }
 
 function loadSettings(): PersistedSettings {
@@ -481,6 +513,7 @@ export function useProjectPersistence() {
     if (settings.cloudModelId != null) store.setCloudModelId(settings.cloudModelId);
     if (settings.aiPrompts) store.setAIPrompts(settings.aiPrompts as typeof store.aiPrompts);
     if (typeof settings.applyLayoutAtStart === "boolean") store.setApplyLayoutAtStart(settings.applyLayoutAtStart);
+    if (typeof settings.incrementalLayout === "boolean") store.setIncrementalLayout(settings.incrementalLayout);
     if (settings.dailyNotes) {
       Object.entries(settings.dailyNotes).forEach(([date, note]) => {
         store.setDailyNote(date, note);
@@ -545,7 +578,7 @@ export function useProjectPersistence() {
                   persistenceSource: "cloud",
                 });
                 const { setNodes, setEdges } = useCanvasStore.getState();
-                applyNodesAndEdgesInChunks(setNodes, setEdges, p.nodes, p.edges);
+                loadNodesAndEdgesInChunks(setNodes, setEdges, p.nodes, p.edges);
                 saveProjects([p]);
                 setCachedProject(p);
               })
@@ -571,7 +604,7 @@ export function useProjectPersistence() {
                 });
                 saveProjects([localProj]);
                 const { setNodes, setEdges } = useCanvasStore.getState();
-                applyNodesAndEdgesInChunks(setNodes, setEdges, localProj.nodes, localProj.edges);
+                loadNodesAndEdgesInChunks(setNodes, setEdges, localProj.nodes, localProj.edges);
               });
             return;
           }
@@ -628,7 +661,7 @@ export function useProjectPersistence() {
             persistenceSource: "local",
           });
           const { setNodes, setEdges } = useCanvasStore.getState();
-          applyNodesAndEdgesInChunks(setNodes, setEdges, active.nodes, active.edges);
+          loadNodesAndEdgesInChunks(setNodes, setEdges, active.nodes, active.edges);
         });
       return;
     }
@@ -670,7 +703,7 @@ export function useProjectPersistence() {
       persistenceSource: "local",
     });
     const { setNodes, setEdges } = useCanvasStore.getState();
-    applyNodesAndEdgesInChunks(setNodes, setEdges, active.nodes, active.edges);
+    loadNodesAndEdgesInChunks(setNodes, setEdges, active.nodes, active.edges);
   }, [sessionStatus, userId]);
 
   // When on cloud and active project has no diagram data (metadata-only list), load from localStorage cache first; only call API on cache miss.
@@ -708,6 +741,8 @@ export function useProjectPersistence() {
   const nodeAttachments = useCanvasStore((s) => s.nodeAttachments);
   const excalidrawData = useCanvasStore((s) => s.excalidrawData);
   const drawioData = useCanvasStore((s) => s.drawioData);
+  const pages = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.pages);
+  const propertySchema = useCanvasStore((s) => s.projects.find((p) => p.id === s.activeProjectId)?.propertySchema);
 
   useEffect(() => {
     if (!hydrated.current) return;
@@ -736,6 +771,10 @@ export function useProjectPersistence() {
         edges: s.edges,
         viewport: active?.viewport,
         savedLayout: active?.savedLayout,
+        presentation: active?.presentation,
+        pages: active?.pages,
+        activePageId: active?.activePageId,
+        propertySchema: active?.propertySchema,
         nodeNotes: s.nodeNotes,
         nodeTasks: s.nodeTasks,
         nodeAttachments: s.nodeAttachments,
@@ -760,6 +799,8 @@ export function useProjectPersistence() {
 
       // Auto-save writes only to localStorage (reduce server cost). API PATCH happens only on manual Ctrl+S.
       saveProjects(updatedProjects);
+      // Cloud projects snapshot on saveNow only, for the same reason.
+      if (s.persistenceSource !== "cloud") void recordVersion("auto");
       const activeProj = updatedProjects.find((p) => p.id === s.activeProjectId);
       if (
         activeProj &&
@@ -768,7 +809,7 @@ export function useProjectPersistence() {
         setCachedProject(activeProj);
     }, LOCAL_SAVE_DEBOUNCE_MS);
     return () => clearTimeout(saveTimer.current);
-  }, [nodes, edges, nodeNotes, nodeTasks, nodeAttachments, activeProjectId, persistenceSource, excalidrawData, drawioData]);
+  }, [nodes, edges, nodeNotes, nodeTasks, nodeAttachments, activeProjectId, persistenceSource, excalidrawData, drawioData, pages, propertySchema]);
 
   // Auto-save settings on change
   const theme = useCanvasStore((s) => s.theme);
@@ -780,11 +821,12 @@ export function useProjectPersistence() {
   const aiPrompts = useCanvasStore((s) => s.aiPrompts);
   const dailyNotes = useCanvasStore((s) => s.dailyNotes);
   const applyLayoutAtStart = useCanvasStore((s) => s.applyLayoutAtStart);
+  const incrementalLayout = useCanvasStore((s) => s.incrementalLayout);
 
   useEffect(() => {
     if (!hydrated.current) return;
-    saveSettings({ theme, llmProvider, llmModel, llmApiKey, llmBaseUrl, cloudModelId, aiPrompts, dailyNotes, applyLayoutAtStart });
-  }, [theme, llmProvider, llmModel, llmApiKey, llmBaseUrl, cloudModelId, aiPrompts, dailyNotes, applyLayoutAtStart]);
+    saveSettings({ theme, llmProvider, llmModel, llmApiKey, llmBaseUrl, cloudModelId, aiPrompts, dailyNotes, applyLayoutAtStart, incrementalLayout });
+  }, [theme, llmProvider, llmModel, llmApiKey, llmBaseUrl, cloudModelId, aiPrompts, dailyNotes, applyLayoutAtStart, incrementalLayout]);
 
   // Force-save before the page unloads (localStorage only; cloud relies on debounced save)
   useEffect(() => {
@@ -827,6 +869,10 @@ export function saveNow() {
       edges: s.edges,
       viewport: active?.viewport,
       savedLayout: active?.savedLayout,
+      presentation: active?.presentation,
+      pages: active?.pages,
+      activePageId: active?.activePageId,
+      propertySchema: active?.propertySchema,
       nodeNotes: s.nodeNotes,
       nodeTasks: s.nodeTasks,
       nodeAttachments: s.nodeAttachments,
@@ -835,7 +881,7 @@ export function saveNow() {
     };
     fetch(`/api/projects/${s.activeProjectId}`, {
       method: "PATCH",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...shareHeaders(s.activeProjectId) },
       credentials: "include",
       body: JSON.stringify(payload),
     })
@@ -844,6 +890,7 @@ export function saveNow() {
         lastSavedPayloadRef.current = JSON.stringify(payload);
         lastPatchAtRef.current = now;
         useCanvasStore.getState().setLastSyncedToCloudAt(now);
+        void recordVersion("auto");
       })
       .catch(() => {
         useCanvasStore.setState({ persistenceSource: "local" });
@@ -856,6 +903,10 @@ export function saveNow() {
       edges: s.edges,
       viewport: updatedProjects.find((x) => x.id === s.activeProjectId)?.viewport,
       savedLayout: updatedProjects.find((x) => x.id === s.activeProjectId)?.savedLayout,
+      presentation: updatedProjects.find((x) => x.id === s.activeProjectId)?.presentation,
+      pages: updatedProjects.find((x) => x.id === s.activeProjectId)?.pages,
+      activePageId: updatedProjects.find((x) => x.id === s.activeProjectId)?.activePageId,
+      propertySchema: updatedProjects.find((x) => x.id === s.activeProjectId)?.propertySchema,
       nodeNotes: s.nodeNotes,
       nodeTasks: s.nodeTasks,
       nodeAttachments: s.nodeAttachments,
@@ -863,6 +914,7 @@ export function saveNow() {
       drawioData: s.drawioData ?? undefined,
     });
     saveProjects(updatedProjects);
+    void recordVersion("auto");
   }
   const activeProj = updatedProjects.find((x) => x.id === s.activeProjectId);
   if (activeProj) setCachedProject(activeProj);
@@ -883,7 +935,7 @@ export function recordPromptHistory(opts: {
   const edgeCount = Array.isArray(edges) ? edges.length : 0;
   fetch(`/api/projects/${s.activeProjectId}/prompt-history`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...shareHeaders(s.activeProjectId) },
     credentials: "include",
     body: JSON.stringify({
       prompt: opts.prompt.trim(),
@@ -896,6 +948,89 @@ export function recordPromptHistory(opts: {
   }).catch(() => {});
 }
 
+/**
+ * Restore a version of the active project as a new save: the current content is snapshotted first
+ * (as a prunable auto version, skipped when unchanged since the last one), the version is applied
+ * to the canvas, saved, and recorded as a "restore" version. Rejects when that record fails, with
+ * a message for the user; the restored content is saved either way.
+ *
+ * A version with pages restores every page and its active page (undo history is cleared, as on a
+ * page switch). Versions from before pages were captured only hold the active page's canvas and
+ * are restored into the current page as an undoable change.
+ */
+export async function restoreVersion(version: DocumentVersion): Promise<void> {
+  const s = useCanvasStore.getState();
+  if (!s.activeProjectId) return;
+  await recordVersion("auto", "Before restore", { immediate: true });
+
+  const nodes = Array.isArray(version.nodes) ? version.nodes : [];
+  const edges = Array.isArray(version.edges) ? version.edges : [];
+  const drawioData = version.drawioData ?? null;
+  const excalidrawData = version.excalidrawData ?? null;
+  // Stay on the current canvas when the version has content for it, else switch to one that does.
+  const canvasMode =
+    s.canvasMode === "drawio" && drawioData
+      ? "drawio"
+      : s.canvasMode === "excalidraw" && excalidrawData
+        ? "excalidraw"
+        : nodes.length > 0
+          ? "reactflow"
+          : drawioData
+            ? "drawio"
+            : excalidrawData
+              ? "excalidraw"
+              : s.canvasMode;
+
+  const pages = Array.isArray(version.pages) && version.pages.length > 0 ? version.pages : null;
+  const savedLayout = version.savedLayout ? { savedLayout: version.savedLayout } : {};
+  const content = {
+    nodeNotes: version.nodeNotes ?? {},
+    nodeTasks: version.nodeTasks ?? {},
+    nodeAttachments: version.nodeAttachments ?? {},
+  };
+  if (pages) {
+    // Pages and the active page's canvas in one step, so the canvas never shows one page's
+    // content under another page's tab.
+    const activePageId = version.activePageId;
+    useCanvasStore.setState((state) => ({
+      ...content,
+      projects: state.projects.map((p) =>
+        p.id === s.activeProjectId ? { ...p, ...savedLayout, pages, activePageId, nodes, edges } : p
+      ),
+      nodes: sortParentsBeforeChildren(nodes),
+      edges,
+      selectedNodeIds: [],
+      selectedEdgeIds: [],
+      detailsPanelNodeId: null,
+      undoStack: [],
+      redoStack: [],
+      historyCheckpoint: null,
+    }));
+  } else {
+    s.pushUndo(`Restore version${version.label ? `: ${version.label}` : ""}`);
+    useCanvasStore.setState((state) => ({
+      ...content,
+      projects: version.savedLayout
+        ? state.projects.map((p) => (p.id === s.activeProjectId ? { ...p, ...savedLayout } : p))
+        : state.projects,
+    }));
+  }
+  s.setExcalidrawData(excalidrawData);
+  s.setDrawioData(drawioData);
+  if (canvasMode !== s.canvasMode) s.setCanvasMode(canvasMode);
+  if (!pages) await applyNodesAndEdgesInChunks(s.setNodes, s.setEdges, nodes, edges);
+  s.setPendingFitView(true);
+  s.setPendingFitViewNodeIds(nodes.map((n) => n.id));
+
+  saveNow();
+  const when = new Date(version.createdAt).toLocaleString();
+  try {
+    await recordVersion("restore", version.label ? `Restored "${version.label}" (${when})` : `Restored version from ${when}`);
+  } catch (err) {
+    throw new Error("Version restored, but it could not be added to the history.", { cause: err });
+  }
+}
+
 // ─── API-aware CRUD for authenticated users (syncs API + localStorage) ───
 
 /** Create project: POST to API when authenticated or in cloud mode, else local only. Updates store + localStorage. */
@@ -946,7 +1081,7 @@ export async function createProjectApi(isAuthenticated: boolean, name: string):
         persistenceSource: "cloud",
       });
       const { setNodes, setEdges } = useCanvasStore.getState();
-      applyNodesAndEdgesInChunks(setNodes, setEdges, p.nodes, p.edges);
+      loadNodesAndEdgesInChunks(setNodes, setEdges, p.nodes, p.edges);
       saveProjects(nextProjects);
       setCachedProject(p);
       return p.id;
@@ -999,6 +1134,7 @@ export async function deleteProjectApi(projectId: string): Promise<void> {
     }
   }
   removeCachedProject(projectId);
+  removeLocalVersions(projectId);
   const remaining = s.projects.filter((p) => p.id !== projectId);
   if (s.activeProjectId === projectId) {
     const next = remaining[0];
@@ -1015,7 +1151,7 @@ export async function deleteProjectApi(projectId: string): Promise<void> {
         drawioData: next.drawioData ?? null,
       });
       const { setNodes, setEdges } = useCanvasStore.getState();
-      applyNodesAndEdgesInChunks(setNodes, setEdges, next.nodes, next.edges);
+      loadNodesAndEdgesInChunks(setNodes, setEdges, next.nodes, next.edges);
     } else {
       useCanvasStore.setState({
         projects: remaining,
@@ -1088,7 +1224,7 @@ export async function duplicateProjectApi(projectId: string): Promise<void> {
         drawioData: p.drawioData ?? null,
       });
       const { setNodes, setEdges } = useCanvasStore.getState();
-      applyNodesAndEdgesInChunks(setNodes, setEdges, p.nodes, p.edges);
+      loadNodesAndEdgesInChunks(setNodes, setEdges, p.nodes, p.edges);
       saveProjects(nextProjects);
       setCachedProject(p);
       useCanvasStore.getState().setPendingFitView(true);
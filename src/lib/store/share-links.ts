@@ -0,0 +1,141 @@
+"use client";
+
+/**
+ * Share links for cloud projects.
+ *
+ * - Owners create / list / revoke links (/api/projects/[id]/shares).
+ * - Anyone with a link can open the read-only viewer (/view/[token], data from /api/share/[token]).
+ * - Editor links also open in the editor: the token is remembered per project in localStorage and
+ *   sent with every /api/projects/[id] request (see shareHeaders).
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { useCanvasStore, type Project } from "./canvas-store";
+import { SHARE_TOKEN_HEADER, type ShareRole } from "@/lib/share-roles";
+
+export interface DocumentShareLink {
+  id: string;
+  token: string;
+  role: ShareRole;
+  expiresAt?: number;
+  revokedAt?: number;
+  createdAt: number;
+}
+
+/** Payload of GET /api/share/[token]. */
+export interface SharedDocument {
+  documentId: string;
+  name: string;
+  role: ShareRole;
+  expiresAt?: number;
+  nodes: Node[];
+  edges: Edge[];
+  viewport?: { x: number; y: number; zoom: number };
+  nodeNotes: Record<string, string>;
+  updatedAt: number;
+}
+
+const SHARE_TOKENS_KEY = "ai-diagram-share-tokens-v1";
+
+function loadShareTokens(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(SHARE_TOKENS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveShareToken(projectId: string, token: string) {
+  try {
+    window.localStorage.setItem(SHARE_TOKENS_KEY, JSON.stringify({ ...loadShareTokens(), [projectId]: token }));
+  } catch {
+    // ignore
+  }
+}
+
+/** Tokens used by the current page only (the /view viewer); not remembered across visits. */
+const pageShareTokens: Record<string, string> = {};
+
+/** Send `token` with this page's requests for `projectId` (e.g. comments from the shared viewer). */
+export function setPageShareToken(projectId: string, token: string) {
+  pageShareTokens[projectId] = token;
+}
+
+/** Extra headers for /api/projects/[id] requests: the share token when the project was opened from a link. */
+export function shareHeaders(projectId: string): Record<string, string> {
+  const token = pageShareTokens[projectId] ?? loadShareTokens()[projectId];
+  return token ? { [SHARE_TOKEN_HEADER]: token } : {};
+}
+
+export function shareViewUrl(token: string): string {
+  return `${window.location.origin}/view/${token}`;
+}
+
+export async function listShareLinks(projectId: string): Promise<DocumentShareLink[]> {
+  const res = await fetch(`/api/projects/${projectId}/shares`, { credentials: "include" });
+  if (!res.ok) throw new Error("Failed to load share links");
+  const data = await res.json();
+  return Array.isArray(data) ? (data as DocumentShareLink[]) : [];
+}
+
+export async function createShareLink(
+  projectId: string,
+  opts: { role: ShareRole; expiresInDays?: number | null }
+): Promise<DocumentShareLink> {
+  const res = await fetch(`/api/projects/${projectId}/shares`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(opts),
+  });
+  if (!res.ok) throw new Error("Failed to create share link");
+  return (await res.json()) as DocumentShareLink;
+}
+
+export async function revokeShareLink(projectId: string, shareId: string): Promise<void> {
+  const res = await fetch(`/api/projects/${projectId}/shares/${shareId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error("Failed to revoke share link");
+}
+
+/** Shared document for a token, or null when the link is unknown, revoked or expired. */
+export async function fetchSharedDocument(token: string): Promise<SharedDocument | null> {
+  const res = await fetch(`/api/share/${encodeURIComponent(token)}`);
+  if (!res.ok) return null;
+  return (await res.json()) as SharedDocument;
+}
+
+/**
+ * Open an editor link in the editor: remember the token, add the project to the list (metadata only;
+ * persistence loads the content with the token) and switch to it. Returns false for other roles.
+ */
+export async function openSharedProject(token: string): Promise<boolean> {
+  const shared = await fetchSharedDocument(token);
+  if (!shared || shared.role !== "editor") return false;
+  saveShareToken(shared.documentId, token);
+
+  const store = useCanvasStore.getState();
+  if (!store.projects.some((p) => p.id === shared.documentId)) {
+    const project: Project = {
+      id: shared.documentId,
+      name: shared.name,
+      createdAt: shared.updatedAt,
+      updatedAt: shared.updatedAt,
+      isFavorite: false,
+      nodes: [],
+      edges: [],
+      nodeCount: shared.nodes.length,
+      nodeNotes: {},
+      nodeTasks: {},
+      nodeAttachments: {},
+      viewport: shared.viewport,
+    };
+    useCanvasStore.setState({ projects: [...store.projects, project] });
+  }
+  if (store.activeProjectId !== shared.documentId) useCanvasStore.getState().switchProject(shared.documentId);
+  return true;
+}
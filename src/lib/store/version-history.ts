@@ -0,0 +1,241 @@
+"use client";
+
+/**
+ * Version history for projects.
+ *
+ * - Cloud projects: snapshots live in the document_versions table (/api/projects/[id]/versions).
+ * - Local projects: snapshots live in localStorage next to the project list.
+ *
+ * Auto snapshots are throttled per project and skipped when nothing changed since the last one;
+ * "ai" snapshots (before an AI apply), checkpoints and restores are always written.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { useCanvasStore, type Project, type SavedLayout, type ExcalidrawScene } from "./canvas-store";
+import { shareHeaders } from "./share-links";
+import type { DocumentPage } from "@/lib/document-pages";
+
+export type VersionKind = "auto" | "ai" | "checkpoint" | "restore";
+
+/** Project content captured by a version (same fields the project save payload carries). */
+export interface VersionContent {
+  /** Canvas of the active page (`activePageId`); other pages carry their own in `pages`. */
+  nodes: Node[];
+  edges: Edge[];
+  /** Pages of a multi-page document (see lib/document-pages.ts); unset for single-page ones. */
+  pages?: DocumentPage[];
+  activePageId?: string;
+  savedLayout?: SavedLayout;
+  nodeNotes: Project["nodeNotes"];
+  nodeTasks: Project["nodeTasks"];
+  nodeAttachments: Project["nodeAttachments"];
+  excalidrawData?: ExcalidrawScene | null;
+  drawioData?: string | null;
+}
+
+export interface DocumentVersionMeta {
+  id: string;
+  kind: VersionKind;
+  label?: string;
+  nodeCount: number;
+  edgeCount: number;
+  createdAt: number;
+}
+
+export type DocumentVersion = DocumentVersionMeta & VersionContent;
+
+const VERSIONS_KEY = "ai-diagram-versions-v1";
+/** Local versions kept per project besides checkpoints (localStorage is small). */
+const MAX_LOCAL_VERSIONS = 30;
+/** Minimum time between two auto snapshots of the same project. */
+const AUTO_VERSION_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Per-project throttle / dedupe state for this tab. */
+const lastAutoAt = new Map<string, number>();
+const lastFingerprint = new Map<string, string>();
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function usesApi(projectId: string): boolean {
+  return UUID_REGEX.test(projectId) && useCanvasStore.getState().persistenceSource === "cloud";
+}
+
+// ─── localStorage helpers ─────────────────────────────────────────────
+
+function loadLocalVersions(): Record<string, DocumentVersion[]> {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(VERSIONS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, DocumentVersion[]>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveLocalVersions(all: Record<string, DocumentVersion[]>) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(VERSIONS_KEY, JSON.stringify(all));
+  } catch {
+    // Quota exceeded: drop the older half of every project's non-checkpoint versions and retry once.
+    const trimmed = Object.fromEntries(
+      Object.entries(all).map(([id, list]) => {
+        const auto = list.filter((v) => v.kind !== "checkpoint");
+        const keep = new Set(auto.slice(0, Math.ceil(auto.length / 2)).map((v) => v.id));
+        return [id, list.filter((v) => v.kind === "checkpoint" || keep.has(v.id))];
+      })
+    );
+    try {
+      window.localStorage.setItem(VERSIONS_KEY, JSON.stringify(trimmed));
+    } catch {
+      // best effort
+    }
+  }
+}
+
+function addLocalVersion(projectId: string, version: DocumentVersion) {
+  const all = loadLocalVersions();
+  const list = [version, ...(all[projectId] ?? [])];
+  let nonCheckpoints = 0;
+  all[projectId] = list.filter((v) => v.kind === "checkpoint" || ++nonCheckpoints <= MAX_LOCAL_VERSIONS);
+  saveLocalVersions(all);
+}
+
+/** Drop all local versions of a project (called when the project is deleted). */
+export function removeLocalVersions(projectId: string) {
+  const all = loadLocalVersions();
+  if (!all[projectId]) return;
+  delete all[projectId];
+  saveLocalVersions(all);
+}
+
+// ─── Snapshots ────────────────────────────────────────────────────────
+
+/** Current content of the active project. */
+export function captureVersionContent(): VersionContent {
+  const s = useCanvasStore.getState();
+  const active = s.projects.find((p) => p.id === s.activeProjectId);
+  return {
+    nodes: s.nodes,
+    edges: s.edges,
+    pages: active?.pages,
+    activePageId: active?.activePageId,
+    savedLayout: active?.savedLayout,
+    nodeNotes: s.nodeNotes,
+    nodeTasks: s.nodeTasks,
+    nodeAttachments: s.nodeAttachments,
+    excalidrawData: s.excalidrawData ?? undefined,
+    drawioData: s.drawioData ?? undefined,
+  };
+}
+
+function isEmptyContent(content: VersionContent): boolean {
+  return content.nodes.length === 0 && !content.drawioData && !content.excalidrawData?.elements?.length;
+}
+
+export interface RecordVersionOptions {
+  /** Record an auto snapshot now instead of waiting out the throttle (still skipped when unchanged). */
+  immediate?: boolean;
+}
+
+/**
+ * Snapshot the active project. Auto snapshots are throttled and skipped when the content matches
+ * the last snapshot; other kinds are always recorded unless the canvas is empty. Auto and AI
+ * snapshots are best effort; a failed checkpoint or restore snapshot rejects so the caller can
+ * tell the user.
+ */
+export async function recordVersion(
+  kind: VersionKind,
+  label?: string,
+  options: RecordVersionOptions = {}
+): Promise<void> {
+  const projectId = useCanvasStore.getState().activeProjectId;
+  if (!projectId) return;
+  const now = Date.now();
+  // Checked before capturing: auto snapshots are attempted on every save.
+  const throttled = now - (lastAutoAt.get(projectId) ?? 0) < AUTO_VERSION_INTERVAL_MS;
+  if (kind === "auto" && !options.immediate && throttled) return;
+  const content = captureVersionContent();
+  if (isEmptyContent(content)) return;
+
+  const fingerprint = JSON.stringify(content);
+  if (kind === "auto") {
+    if (lastFingerprint.get(projectId) === fingerprint) return;
+    lastAutoAt.set(projectId, now);
+  }
+  lastFingerprint.set(projectId, fingerprint);
+
+  const meta = {
+    kind,
+    label: label?.trim() || undefined,
+    nodeCount: content.nodes.length,
+    edgeCount: content.edges.length,
+  };
+  if (usesApi(projectId)) {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...shareHeaders(projectId) },
+        credentials: "include",
+        body: JSON.stringify({ ...meta, ...content }),
+      });
+      if (!res.ok) throw new Error("Snapshot failed");
+    } catch (err) {
+      // Retry on the next save rather than waiting out the throttle.
+      if (kind === "auto") lastAutoAt.delete(projectId);
+      lastFingerprint.delete(projectId);
+      if (kind === "checkpoint" || kind === "restore") throw err;
+    }
+    return;
+  }
+  const id = `ver-${now}-${Math.random().toString(36).slice(2, 9)}`;
+  addLocalVersion(projectId, { id, createdAt: now, ...meta, ...content });
+}
+
+/** Versions of a project, newest first (metadata only). */
+export async function listVersions(projectId: string): Promise<DocumentVersionMeta[]> {
+  if (usesApi(projectId)) {
+    const res = await fetch(`/api/projects/${projectId}/versions`, {
+      headers: shareHeaders(projectId),
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to load versions");
+    const data = await res.json();
+    return Array.isArray(data) ? (data as DocumentVersionMeta[]) : [];
+  }
+  return (loadLocalVersions()[projectId] ?? []).map(({ id, kind, label, nodeCount, edgeCount, createdAt }) => ({
+    id,
+    kind,
+    label,
+    nodeCount,
+    edgeCount,
+    createdAt,
+  }));
+}
+
+/** Full content of one version, or null when it no longer exists. */
+export async function loadVersion(projectId: string, versionId: string): Promise<DocumentVersion | null> {
+  if (usesApi(projectId)) {
+    const res = await fetch(`/api/projects/${projectId}/versions/${versionId}`, {
+      headers: shareHeaders(projectId),
+      credentials: "include",
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as DocumentVersion;
+  }
+  return (loadLocalVersions()[projectId] ?? []).find((v) => v.id === versionId) ?? null;
+}
+
+export async function deleteVersion(projectId: string, versionId: string): Promise<void> {
+  if (usesApi(projectId)) {
+    const res = await fetch(`/api/projects/${projectId}/versions/${versionId}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to delete version");
+    return;
+  }
+  const all = loadLocalVersions();
+  all[projectId] = (all[projectId] ?? []).filter((v) => v.id !== versionId);
+  saveLocalVersions(all);
+}